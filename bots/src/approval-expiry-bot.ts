@@ -0,0 +1,336 @@
+/**
+ * Approval Expiry Bot
+ *
+ * Sweeps AI command approval Tasks whose deadline (restriction.period.end)
+ * has passed and marks them failed, so that untouched Tasks do not stay
+ * pending forever. Also runs the escalation chain configured on each
+ * command's ApprovalRule (e.g. remind at 50% of the timeout, escalate to a
+ * supervising role at 80%, page on-call for urgent Tasks), and optionally
+ * escalates Tasks that are about to expire to the command's notifyRoles.
+ * Each stage sent is recorded on the Task as an 'escalation' output.
+ *
+ * Trigger: Cron (e.g. every 15 minutes)
+ * Input: { batchSize?: number, maxBatches?: number, escalateBefore?: string }
+ * Output: { success, expired, escalated, failed, message }
+ */
+
+import { BotEvent, MedplumClient } from '@medplum/core';
+import { Task } from '@medplum/fhirtypes';
+import { AICommand, EscalationStep } from './types/ai-command-types';
+import { ApprovalEscalation, getAllowedRoles, handleExpiration, sendApprovalNotification } from './approval-queue-bot';
+import { getSafetyPolicy } from './services/safety-policy';
+import { findPractitionerRoles } from './services/approver-roles';
+import { configureDatabase } from './services/database';
+import { updateIfUnchanged } from './services/fhir-transaction';
+
+// Configuration
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_MAX_BATCHES = 10;
+const AI_COMMAND_SYSTEM = 'http://medplum.com/fhir/CodeSystem/ai-command';
+const PRE_EXPIRY_STAGE = 'pre-expiry';
+
+interface ExpiryInput {
+  batchSize?: number;
+  maxBatches?: number;
+  escalateBefore?: string; // e.g. '2h' - escalate Tasks expiring within this window
+}
+
+// The escalation settings a Task was queued under
+interface EscalationRule {
+  approverRoles: string[];
+  notifyRoles?: string[];
+  escalation?: EscalationStep[];
+}
+
+interface ExpiryOutput {
+  success: boolean;
+  expired: number;
+  escalated: number;
+  failed: number;
+  message: string;
+}
+
+/**
+ * Main bot handler
+ */
+export async function handler(medplum: MedplumClient, event: BotEvent): Promise<ExpiryOutput> {
+  const input = (event.input || {}) as ExpiryInput;
+  configureDatabase(event);
+  const batchSize = input.batchSize || DEFAULT_BATCH_SIZE;
+  const maxBatches = input.maxBatches || DEFAULT_MAX_BATCHES;
+  const escalateWindow = input.escalateBefore ? parseDuration(input.escalateBefore) : undefined;
+
+  if (input.escalateBefore && escalateWindow === undefined) {
+    return {
+      success: false,
+      expired: 0,
+      escalated: 0,
+      failed: 0,
+      message: `Invalid escalateBefore: ${input.escalateBefore}`,
+    };
+  }
+
+  let expired = 0;
+  let escalated = 0;
+  let failed = 0;
+
+  try {
+    // Expired Tasks leave the result set once marked failed, so only
+    // Tasks that stay pending advance the offset
+    let offset = 0;
+    for (let batch = 0; batch < maxBatches; batch++) {
+      const tasks = await medplum.searchResources('Task', {
+        code: `${AI_COMMAND_SYSTEM}|`,
+        status: 'requested',
+        _sort: 'authored-on',
+        _count: String(batchSize),
+        _offset: String(offset),
+      });
+
+      for (const task of tasks) {
+        const command = getCommand(task);
+        if (!command) {
+          offset++;
+          continue;
+        }
+
+        const expiring = isExpired(task);
+        try {
+          if (expiring) {
+            await handleExpiration(medplum, task, command);
+            expired++;
+            continue;
+          }
+
+          offset++;
+          const rule = getEscalationRule(task, command);
+          const steps = getDueEscalations(task, rule, escalateWindow);
+          if (steps.length > 0) {
+            await escalateTask(medplum, task, command, rule, steps);
+            escalated++;
+          }
+        } catch (error) {
+          console.log(`Failed to process approval task ${task.id}:`, error);
+          failed++;
+          // A Task decided since it was read (an If-Match conflict) has left the result set
+          if (!expiring || (await isStillRequested(medplum, task))) {
+            offset++;
+          }
+        }
+      }
+
+      if (tasks.length < batchSize) {
+        break;
+      }
+    }
+
+    return {
+      success: failed === 0,
+      expired,
+      escalated,
+      failed,
+      message: `Expired ${expired} task(s), escalated ${escalated} task(s)`,
+    };
+  } catch (error) {
+    console.log('Approval expiry error:', error);
+    return {
+      success: false,
+      expired,
+      escalated,
+      failed,
+      message: `Error sweeping approval tasks: ${error}`,
+    };
+  }
+}
+
+/**
+ * Whether a Task is still pending, so still in the sweep's result set.
+ * Assumed so when it cannot be read.
+ */
+async function isStillRequested(medplum: MedplumClient, task: Task): Promise<boolean> {
+  try {
+    const current = await medplum.readResource('Task', task.id as string);
+    return current.status === 'requested';
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Extract the AI command from an approval task
+ */
+function getCommand(task: Task): AICommand | undefined {
+  const isAICommand = task.code?.coding?.some((c) => c.system === AI_COMMAND_SYSTEM);
+  const commandInput = task.input?.find((i) => i.type?.text === 'command');
+  if (!isAICommand || !commandInput?.valueString) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(commandInput.valueString) as AICommand;
+  } catch {
+    console.log(`Invalid command JSON in task ${task.id}`);
+    return undefined;
+  }
+}
+
+/**
+ * Get the escalation settings for a task. The processor records the rule's
+ * escalation steps and notify roles on the Task, so policy changes apply to
+ * newly queued commands only; older Tasks fall back to the current policy rule.
+ */
+function getEscalationRule(task: Task, command: AICommand): EscalationRule {
+  const approverRoles = getAllowedRoles(task, command);
+  const recordedSteps = task.input?.find((i) => i.type?.text === 'escalationSteps')?.valueString;
+  if (recordedSteps !== undefined) {
+    const notifyRoles = task.input
+      ?.find((i) => i.type?.text === 'notifyRoles')
+      ?.valueString?.split(',')
+      .map((r) => r.trim())
+      .filter(Boolean);
+    try {
+      return { approverRoles, notifyRoles, escalation: JSON.parse(recordedSteps) as EscalationStep[] };
+    } catch {
+      console.log(`Invalid escalation steps JSON in task ${task.id}`);
+    }
+  }
+
+  const rule = getSafetyPolicy().approvalRules[command.command];
+  return { approverRoles, notifyRoles: rule?.notifyRoles, escalation: rule?.escalation };
+}
+
+/**
+ * Check if task is expired
+ */
+function isExpired(task: Task): boolean {
+  const expiration = task.restriction?.period?.end;
+  if (!expiration) return false;
+
+  return new Date(expiration) < new Date();
+}
+
+/**
+ * Check if task expires within the given window (milliseconds)
+ */
+function isExpiringWithin(task: Task, windowMs: number): boolean {
+  const expiration = task.restriction?.period?.end;
+  if (!expiration) return false;
+
+  return new Date(expiration).getTime() - Date.now() <= windowMs;
+}
+
+/**
+ * Get the fraction of the approval timeout that has elapsed
+ */
+function getElapsedFraction(task: Task): number | undefined {
+  const start = task.authoredOn;
+  const end = task.restriction?.period?.end;
+  if (!start || !end) return undefined;
+
+  const total = new Date(end).getTime() - new Date(start).getTime();
+  if (total <= 0) return undefined;
+
+  return (Date.now() - new Date(start).getTime()) / total;
+}
+
+/**
+ * Get the escalation stages already sent for a task
+ */
+function getSentStages(task: Task): Set<string> {
+  const stages = new Set<string>();
+  for (const output of task.output || []) {
+    if (output.type?.text !== 'escalation' || !output.valueString) continue;
+    try {
+      stages.add(JSON.parse(output.valueString).stage);
+    } catch {
+      console.log(`Invalid escalation JSON in task ${task.id}`);
+    }
+  }
+  return stages;
+}
+
+/**
+ * Get the escalation steps that are due and have not been sent yet
+ */
+function getDueEscalations(task: Task, rule: EscalationRule, escalateWindow?: number): EscalationStep[] {
+  const sent = getSentStages(task);
+  const elapsed = getElapsedFraction(task);
+
+  const due = (rule.escalation || []).filter(
+    (step) =>
+      !sent.has(step.name) &&
+      (!step.onlyForPriority || step.onlyForPriority === (task.priority || 'routine')) &&
+      (step.at === 0 || (elapsed !== undefined && elapsed >= step.at))
+  );
+
+  if (escalateWindow !== undefined && !sent.has(PRE_EXPIRY_STAGE) && isExpiringWithin(task, escalateWindow)) {
+    due.push({
+      name: PRE_EXPIRY_STAGE,
+      at: 1,
+      notifyRoles: rule.notifyRoles?.length ? rule.notifyRoles : undefined,
+      priority: 'urgent',
+    });
+  }
+
+  return due;
+}
+
+/**
+ * Record each due escalation step on the task, then notify the step's roles.
+ * The record is saved only if the Task is unchanged since it was read, so a
+ * Task decided in the meantime throws instead of being reopened or notified.
+ */
+async function escalateTask(
+  medplum: MedplumClient,
+  task: Task,
+  command: AICommand,
+  rule: EscalationRule,
+  steps: EscalationStep[]
+): Promise<void> {
+  const outputs: NonNullable<Task['output']> = [];
+  const notifications: ApprovalEscalation[] = [];
+
+  for (const step of steps) {
+    const roles = step.notifyRoles?.length ? step.notifyRoles : rule.approverRoles;
+    const recipients = await findPractitionerRoles(medplum, roles);
+    if (recipients.length === 0) {
+      console.log(`No PractitionerRoles found for escalation ${step.name} of task ${task.id}: ${roles.join(', ')}`);
+    }
+
+    notifications.push({ step, recipients });
+    outputs.push({
+      type: { text: 'escalation' },
+      valueString: JSON.stringify({
+        stage: step.name,
+        notifiedRoles: roles,
+        recipients: recipients.map((r) => `PractitionerRole/${r.id}`),
+        sentAt: new Date().toISOString(),
+      }),
+    });
+  }
+
+  await updateIfUnchanged<Task>(medplum, {
+    ...task,
+    output: [...(task.output || []), ...outputs],
+  });
+
+  for (const escalation of notifications) {
+    await sendApprovalNotification(medplum, task, command, 'escalated', undefined, escalation);
+  }
+}
+
+/**
+ * Parse a duration string (e.g. '2h', '1d') to milliseconds
+ */
+function parseDuration(duration: string): number | undefined {
+  const match = duration.match(/^(\d+)([hdw])$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const value = parseInt(match[1]);
+  const hours = { h: 1, d: 24, w: 24 * 7 }[match[2] as 'h' | 'd' | 'w'];
+  return value * hours * 60 * 60 * 1000;
+}
+
+export default handler;
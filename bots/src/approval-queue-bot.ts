@@ -8,12 +8,93 @@
  */
 
 import { BotEvent, MedplumClient, createReference } from '@medplum/core';
-import { Task, Provenance, Communication, DocumentReference, Condition, Claim, ServiceRequest, MedicationRequest } from '@medplum/fhirtypes';
-import { AICommand, AIProvenance } from './types/ai-command-types';
+import { Task, Provenance, Communication, PractitionerRole, Reference } from '@medplum/fhirtypes';
+import { AICommand, AIProvenance, EscalationStep } from './types/ai-command-types';
+import { getSafetyPolicy } from './services/safety-policy';
+import {
+  applySafetyOverrides,
+  checkPolicyBlocks,
+  getApprovalRule,
+  getFilterContext,
+  runSafetyFilters,
+} from './services/safety-checks';
+import { ResolvedApprover, resolveApprover } from './services/approver-roles';
+import { applyCommandEdits } from './services/command-edits';
+import { formatValidationErrors, validateAICommand } from './services/command-validation';
+import { COMMAND_ID_SYSTEM, createEntry, updateEntry, updateIfUnchanged } from './services/fhir-transaction';
+import {
+  ExecutionTarget,
+  executeCommand,
+  getCommandDefinition,
+  getExecutionActivity,
+  getProvenanceSources,
+} from './commands';
+import { CommandQueueUpdate, recordCommandStatus } from './services/command-queue';
+import { configureDatabase } from './services/database';
+import { logAIAuditEvent } from './audit-logging-bot';
+
+// Task.statusReason for approvals that timed out
+export const EXPIRY_REASON = 'Approval timeout expired';
+
+// Task.code for the parent Task grouping a batch of related commands
+export const BATCH_TASK_CODE = 'AICommandBatch';
+
+// Task.statusReason for approvals cancelled because a newer command for the
+// same change replaced them. They are not reported as rejections.
+export const SUPERSEDED_REASON = 'Superseded';
+
+// Task.note prefix naming a superseded approval's replacement, e.g. 'Superseded by Task/123'
+export const SUPERSEDED_NOTE_PREFIX = 'Superseded by ';
+
+// Task.statusReason for approved commands whose transaction was rolled back.
+// Setting the Task back to completed retries execution.
+export const EXECUTION_FAILED_REASON = 'Command execution failed';
+
+// Task.statusReason for approved commands that cannot be executed: the stored
+// command is invalid, or a safety filter now blocks it. businessStatus holds why.
+export const NOT_EXECUTED_REASON = 'Command not executed';
+
+// Command Tasks read per page when listing a batch's commands
+const BATCH_PAGE_SIZE = 100;
+
+// Statuses of a command Task that has been decided
+const DECIDED_STATUSES: Task['status'][] = ['completed', 'rejected', 'cancelled', 'failed', 'entered-in-error'];
+
+// Attempts to save a dual-approval signature while other approvals update the Task
+const MAX_SIGNATURE_ATTEMPTS = 3;
+
+interface ApprovalSignature {
+  approver: string;
+  role: string;
+  decision: 'approved';
+  decidedAt: string;
+}
+
+// Safety policy requirements for a command as approved, against the current record
+interface ApprovalSafety {
+  blockedBy?: string;
+  unavailable?: string; // Why the policy could not be checked
+  approverRoles?: string[];
+  minApprovers?: number;
+}
+
+// The clinician behind an approval; who is the reference audited and reported
+interface VerifiedApprover {
+  approver?: ResolvedApprover;
+  who: string;
+  error?: string;
+}
+
+interface ProvenanceDetails {
+  modifications?: string;
+  editedFields?: string[];
+  rejectionReason?: string;
+  operation?: 'CREATE' | 'UPDATE';
+}
 
 interface ApprovalResult {
   success: boolean;
-  action: 'approved' | 'rejected' | 'expired' | 'pending';
+  action: 'approved' | 'rejected' | 'superseded' | 'expired' | 'pending';
   message: string;
   executedResourceId?: string;
 }
@@ -23,6 +104,7 @@ interface ApprovalResult {
  */
 export async function handler(medplum: MedplumClient, event: BotEvent): Promise<ApprovalResult> {
   const task = event.input as Task;
+  configureDatabase(event);
 
   if (!task || task.resourceType !== 'Task') {
     return {
@@ -48,50 +130,193 @@ export async function handler(medplum: MedplumClient, event: BotEvent): Promise<
   console.log(`Processing approval task: ${task.id}, status: ${task.status}`);
 
   try {
-    // Extract the original command
-    const commandInput = task.input?.find((i) => i.type?.text === 'command');
-    if (!commandInput?.valueString) {
-      return {
-        success: false,
-        action: 'pending',
-        message: 'No command found in task',
-      };
+    if (isBatchTask(task)) {
+      return await handleBatch(medplum, task, event.bot);
     }
 
-    const command = JSON.parse(commandInput.valueString) as AICommand;
+    const result = await handleCommandTask(medplum, task, event.bot);
+    await closeBatchIfDecided(medplum, task);
+    return result;
+  } catch (error) {
+    console.log('Approval queue error:', error);
+    return {
+      success: false,
+      action: 'pending',
+      message: `Error processing approval: ${error}`,
+    };
+  }
+}
 
-    // Handle based on task status
-    switch (task.status) {
-      case 'completed':
-        return await handleApproval(medplum, task, command);
+/**
+ * Handle a Task for a single command based on its status
+ */
+async function handleCommandTask(medplum: MedplumClient, task: Task, bot?: Reference): Promise<ApprovalResult> {
+  // Extract the original command
+  const commandInput = task.input?.find((i) => i.type?.text === 'command');
+  if (!commandInput?.valueString) {
+    return {
+      success: false,
+      action: 'pending',
+      message: 'No command found in task',
+    };
+  }
 
-      case 'rejected':
-      case 'cancelled':
-        return await handleRejection(medplum, task, command);
+  // Commands queued before they carried their commandId have it on the Task
+  const command = { commandId: getCommandId(task), ...JSON.parse(commandInput.valueString) } as AICommand;
 
-      case 'failed':
-        return await handleExpiration(medplum, task, command);
+  switch (task.status) {
+    case 'completed':
+      return handleApproval(medplum, task, command, bot);
 
-      default:
-        // Check for expiration
-        if (isExpired(task)) {
-          return await handleExpiration(medplum, task, command);
-        }
+    case 'rejected':
+    case 'cancelled':
+      if (task.statusReason?.text === SUPERSEDED_REASON) {
+        return handleSupersession(task, command);
+      }
+      return handleRejection(medplum, task, command, bot);
 
+    case 'failed':
+      if (task.statusReason?.text === EXECUTION_FAILED_REASON) {
+        // Our own update after a rolled-back execution; waits for a retry
         return {
-          success: true,
+          success: false,
           action: 'pending',
-          message: 'Task is still pending approval',
+          message: 'Command execution failed; complete the task again to retry',
         };
-    }
-  } catch (error) {
-    console.log('Approval queue error:', error);
+      }
+      if (task.statusReason?.text === NOT_EXECUTED_REASON) {
+        // Our own update after an approval that could not be executed
+        return {
+          success: false,
+          action: 'rejected',
+          message: `Command not executed: ${task.businessStatus?.text || 'Unknown reason'}`,
+        };
+      }
+      if (task.statusReason?.text === EXPIRY_REASON) {
+        // Already expired by this bot or the expiry sweeper
+        return {
+          success: true,
+          action: 'expired',
+          message: 'Task already expired',
+        };
+      }
+      return handleExpiration(medplum, task, command);
+
+    default:
+      // Check for expiration
+      if (isExpired(task)) {
+        return handleExpiration(medplum, task, command);
+      }
+
+      return {
+        success: true,
+        action: 'pending',
+        message: 'Task is still pending approval',
+      };
+  }
+}
+
+/**
+ * Handle a batch Task. Completing or rejecting it applies the decision to
+ * each command Task in the batch that is still pending; the update to each
+ * command Task then triggers this bot for it as if decided individually,
+ * owned by the verified clinician who decided the batch.
+ */
+async function handleBatch(medplum: MedplumClient, batch: Task, bot?: Reference): Promise<ApprovalResult> {
+  const decision = batch.status;
+  if (decision !== 'completed' && decision !== 'rejected' && decision !== 'cancelled') {
+    return {
+      success: true,
+      action: 'pending',
+      message: 'Batch is still pending approval',
+    };
+  }
+
+  // A rejection is recorded against whoever made it, so it needs a clinician too
+  const verified = await verifyApprover(medplum, batch, bot);
+  const error =
+    verified.error || (decision !== 'completed' && !verified.approver ? notPractitioner(verified.who) : undefined);
+  if (error) {
+    const label = getDecisionLabel(batch);
+    console.log(`Unauthorized batch decision: ${error}`);
+    await medplum.updateResource<Task>({
+      ...batch,
+      status: 'requested',
+      owner: undefined,
+      note: [...(batch.note || []), { text: `${label} not accepted: ${error}`, time: new Date().toISOString() }],
+    });
     return {
       success: false,
       action: 'pending',
-      message: `Error processing approval: ${error}`,
+      message: `${label} not accepted: ${error}`,
     };
   }
+  const owner = batch.owner || (verified.approver ? { reference: verified.approver.practitioner } : undefined);
+
+  const pending = (await getBatchCommands(medplum, `Task/${batch.id}`)).filter((t) => t.status === 'requested');
+
+  const rejectionNotes = batch.note?.filter((n) => n.text?.startsWith('Rejection:')) || [];
+  for (const task of pending) {
+    await medplum.updateResource<Task>({
+      ...task,
+      status: decision,
+      owner,
+      note: decision === 'completed' ? task.note : [...(task.note || []), ...rejectionNotes],
+    });
+  }
+
+  return {
+    success: true,
+    action: decision === 'completed' ? 'approved' : 'rejected',
+    message: `Batch ${decision === 'completed' ? 'approved' : 'rejected'}: ${pending.length} pending command(s) decided`,
+  };
+}
+
+/**
+ * Complete a command's batch Task once none of its commands is still
+ * pending, so it leaves the approval queue
+ */
+async function closeBatchIfDecided(medplum: MedplumClient, task: Task): Promise<void> {
+  const batchReference = task.partOf?.[0]?.reference;
+  if (!batchReference || task.status === 'requested') {
+    return;
+  }
+
+  try {
+    const commands = await getBatchCommands(medplum, batchReference);
+    if (commands.some((t) => !DECIDED_STATUSES.includes(t.status))) {
+      return;
+    }
+
+    const batch = await medplum.readResource('Task', batchReference.replace('Task/', ''));
+    if (batch.status === 'requested') {
+      await medplum.updateResource<Task>({
+        ...batch,
+        status: 'completed',
+        businessStatus: { text: 'All commands decided' },
+      });
+    }
+  } catch (error) {
+    console.log(`Failed to close batch ${batchReference}:`, error);
+  }
+}
+
+/**
+ * Read every command Task in a batch, page by page
+ */
+async function getBatchCommands(medplum: MedplumClient, batchReference: string): Promise<Task[]> {
+  const commands: Task[] = [];
+  let page: Task[];
+  do {
+    page = await medplum.searchResources('Task', {
+      'part-of': batchReference,
+      _sort: '_id',
+      _count: String(BATCH_PAGE_SIZE),
+      _offset: String(commands.length),
+    });
+    commands.push(...page);
+  } while (page.length === BATCH_PAGE_SIZE);
+  return commands;
 }
 
 /**
@@ -100,28 +325,147 @@ export async function handler(medplum: MedplumClient, event: BotEvent): Promise<
 async function handleApproval(
   medplum: MedplumClient,
   task: Task,
-  command: AICommand
+  command: AICommand,
+  bot?: Reference
 ): Promise<ApprovalResult> {
   console.log(`Command approved: ${command.command}`);
 
-  // Get approver information
-  const approver = task.owner?.reference || 'Unknown';
+  // Our own update after the final signature re-triggers the subscription, and
+  // a redelivered notification may carry an older version of the Task
+  const executedResourceId = getExecutedResource(task) || getExecutedResource(await readCurrentTask(medplum, task));
+  if (executedResourceId) {
+    return {
+      success: true,
+      action: 'approved',
+      message: 'Command already executed',
+      executedResourceId,
+    };
+  }
 
-  // Get any modifications from task output
-  const modifications = task.output?.find((o) => o.type?.text === 'modifications');
-  const modifiedCommand = modifications?.valueString
-    ? JSON.parse(modifications.valueString)
-    : command;
+  // The stored command is untrusted input until validated
+  const validation = validateAICommand(command);
+  if (!validation.valid) {
+    return handleNotExecuted(
+      medplum,
+      task,
+      command,
+      `Invalid command in task: ${formatValidationErrors(validation.errors)}`
+    );
+  }
 
-  // Execute the command
-  const result = await executeApprovedCommand(medplum, modifiedCommand);
+  // Apply any clinician modifications from task output
+  const modifications = task.output?.find((o) => o.type?.text === 'modifications')?.valueString;
+  const edits = modifications
+    ? applyCommandEdits(command, modifications)
+    : { command, editedFields: [], errors: [] };
+  if (edits.errors.length === 0 && modifications) {
+    // Edits must still produce a valid command, e.g. not remove required fields
+    const editedValidation = validateAICommand(edits.command);
+    edits.errors = editedValidation.errors.map((e) => `${e.path}: ${e.message}`);
+  }
+  if (edits.errors.length > 0) {
+    return handleInvalidModifications(medplum, task, edits.errors);
+  }
+  const modifiedCommand = edits.command;
 
-  if (result.success && result.resourceId) {
-    // Create provenance with clinician approval
-    await createApprovalProvenance(medplum, command, result.resourceId, approver, 'accepted', modifications?.valueString);
+  // Re-check the safety policy on the command as edited, against the record as it is now
+  const safety = await checkApprovalSafety(medplum, modifiedCommand);
+  if (safety.blockedBy) {
+    return handleNotExecuted(medplum, task, command, `Command blocked by safety filter: ${safety.blockedBy}`);
+  }
+  if (safety.unavailable) {
+    await handleExecutionFailure(medplum, task, command, safety.unavailable);
+    return { success: false, action: 'approved', message: safety.unavailable };
+  }
+  const minApprovers = Math.max(getMinApprovers(task), safety.minApprovers || 1);
+
+  // Verify the approver holds one of the command's approver roles
+  const allowedRoles = narrowRoles(getAllowedRoles(task, command), safety.approverRoles);
+  const { approver: resolved, who, error } = await verifyApprover(medplum, task, bot);
+  const role = resolved?.roles.find((r) => allowedRoles.includes(r));
+  if (error || !resolved || !role) {
+    return handleUnauthorizedDecision(
+      medplum,
+      task,
+      command,
+      who,
+      error || `${who} does not hold an approver role for ${command.command} (allowed: ${allowedRoles.join(', ')})`
+    );
+  }
+
+  const approver = resolved.practitioner;
+  let approvers = [approver];
+
+  let signatures: ApprovalSignature[] = [];
+  let signedTask = task;
+  if (minApprovers > 1) {
+    const signed = await addSignature(
+      medplum,
+      task,
+      { approver, role, decision: 'approved', decidedAt: new Date().toISOString() },
+      minApprovers
+    );
+    if ('action' in signed) {
+      return signed;
+    }
+
+    // The version holding every signature, which the execution updates
+    signedTask = signed.task;
+    signatures = signed.signatures;
+    approvers = signatures.map((s) => s.approver);
+  }
+
+  // Execute the command. Its Provenance, the Task update and the notification
+  // are committed in the same transaction, so nothing is written unless all are.
+  const clinicianAction = edits.editedFields.length > 0 ? 'edited' : 'accepted';
+  const operation = getExecutionActivity(modifiedCommand);
+  const result = await executeCommand(medplum, modifiedCommand, (target) => [
+    createEntry(
+      buildApprovalProvenance(command, target, approvers, clinicianAction, {
+        modifications,
+        editedFields: edits.editedFields,
+        operation,
+      })
+    ),
+    updateEntry(withExecutedResource(signedTask, signatures, minApprovers, target.reference)),
+    createEntry(buildApprovalNotification(task, command, 'approved', target.reference)),
+  ]);
 
-    // Notify relevant parties
-    await sendApprovalNotification(medplum, task, command, 'approved', result.resourceId);
+  if (result.alreadyExecuted) {
+    // An earlier execution wrote the resource and recorded it on the Task
+    return {
+      success: true,
+      action: 'approved',
+      message: result.message,
+      executedResourceId: result.resourceId,
+    };
+  }
+
+  if (result.success && result.resourceId) {
+    await logAIAuditEvent(medplum, 'approval_granted', {
+      action: operation === 'UPDATE' ? 'U' : 'C',
+      commandId: getCommandId(task),
+      commandType: command.command,
+      patientId: task.for?.reference?.replace('Patient/', ''),
+      practitionerId: approvers[0],
+      aiModel: command.aiModel,
+      confidence: command.confidence,
+      approvalTaskId: task.id,
+      additionalData: { clinicianAction, editedFields: edits.editedFields, approvers },
+    });
+    await recordTaskStatus(task, command, {
+      status: 'executed',
+      reviewedBy: approvers[0],
+      executedResourceId: result.resourceId,
+      executionResult: { resourceId: result.resourceId, clinicianAction, editedFields: edits.editedFields, approvers },
+    });
+  } else if (result.retryable) {
+    await handleExecutionFailure(medplum, task, command, result.message);
+    await recordTaskStatus(task, command, {
+      status: 'approved',
+      reviewedBy: approvers[0],
+      executionResult: { error: result.message },
+    });
   }
 
   return {
@@ -133,23 +477,299 @@ async function handleApproval(
 }
 
 /**
- * Handle rejected command
+ * Add an approver's signature to a Task needing several approvals. Until
+ * enough approvers have signed, the signatures are saved and the Task returned
+ * to the queue for the next approver. The save only succeeds if the Task is
+ * unchanged; otherwise the signatures on its current version are merged in and
+ * the save retried, so concurrent approvals cannot drop each other's. Returns
+ * the version to execute and its signatures once enough approvers have signed.
+ */
+async function addSignature(
+  medplum: MedplumClient,
+  task: Task,
+  signature: ApprovalSignature,
+  minApprovers: number
+): Promise<{ task: Task; signatures: ApprovalSignature[] } | ApprovalResult> {
+  let current = task;
+  for (let attempt = 1; ; attempt++) {
+    const signatures = getSignatures(current);
+    if (!signatures.some((s) => s.approver === signature.approver)) {
+      signatures.push(signature);
+    }
+    if (signatures.length >= minApprovers) {
+      return { task: current, signatures };
+    }
+
+    try {
+      await updateIfUnchanged<Task>(medplum, {
+        ...current,
+        status: 'requested',
+        owner: undefined,
+        businessStatus: { text: `Approvals: ${signatures.length} of ${minApprovers}` },
+        output: withSignatures(current, signatures),
+      });
+      return {
+        success: true,
+        action: 'pending',
+        message: `Approval ${signatures.length} of ${minApprovers} recorded; awaiting further approval`,
+      };
+    } catch (error) {
+      if (attempt >= MAX_SIGNATURE_ATTEMPTS) {
+        throw error;
+      }
+      console.log(`Task ${task.id} changed while recording a signature; retrying:`, error);
+    }
+
+    const latest = await readCurrentTask(medplum, task);
+    if (!latest || getExecutedResource(latest) || (latest.status !== 'requested' && latest.status !== 'completed')) {
+      return {
+        success: false,
+        action: 'pending',
+        message: `Approval not recorded: task ${task.id} is ${latest?.status || 'unavailable'}`,
+      };
+    }
+    current = latest;
+  }
+}
+
+/**
+ * Resolve the clinician who approved or rejected a Task from the author of this
+ * version, which the server sets, rather than from Task.owner, which any client can set.
+ * An owner, if set, must be the author or one of their PractitionerRoles. This
+ * bot's own updates, which decide the commands of an approved batch, carry the
+ * batch's verified owner.
+ */
+async function verifyApprover(medplum: MedplumClient, task: Task, bot?: Reference): Promise<VerifiedApprover> {
+  const author = task.meta?.author?.reference;
+  const owner = task.owner?.reference;
+
+  if (!author) {
+    return { who: owner || task.owner?.display || 'Unknown', error: `Task/${task.id} was updated without an author` };
+  }
+  if (author === bot?.reference) {
+    return { approver: await resolveApprover(medplum, task.owner), who: owner || 'Unknown' };
+  }
+
+  const approver = await resolveApprover(medplum, { reference: author });
+  if (owner && owner !== author) {
+    const ownerApprover = await resolveApprover(medplum, task.owner);
+    if (!approver || ownerApprover?.practitioner !== approver.practitioner) {
+      return { who: author, error: `${author} completed Task/${task.id}, which is owned by ${owner}` };
+    }
+    return { approver: ownerApprover, who: author };
+  }
+  return { approver, who: author };
+}
+
+/**
+ * Handle an approved command whose transaction was rolled back.
+ * The Task is marked failed with a retryable reason and the failure audited.
+ */
+async function handleExecutionFailure(
+  medplum: MedplumClient,
+  task: Task,
+  command: AICommand,
+  reason: string
+): Promise<void> {
+  console.log(`Execution failed for task ${task.id}: ${reason}`);
+
+  try {
+    await medplum.updateResource<Task>({
+      ...task,
+      status: 'failed',
+      statusReason: { text: EXECUTION_FAILED_REASON },
+      businessStatus: { text: 'Retryable' },
+      note: [...(task.note || []), { text: `Execution failed: ${reason}`, time: new Date().toISOString() }],
+    });
+  } catch (error) {
+    console.log('Failed to record execution failure:', error);
+  }
+
+  await logAIAuditEvent(medplum, 'error', {
+    action: 'E',
+    outcome: '8',
+    outcomeDesc: reason,
+    commandId: getCommandId(task),
+    commandType: command.command,
+    patientId: task.for?.reference?.replace('Patient/', ''),
+    aiModel: command.aiModel,
+    approvalTaskId: task.id,
+  });
+}
+
+/**
+ * Handle an approved command that cannot be executed.
+ * The Task is marked failed with the reason, the clinician notified and the
+ * outcome audited; unlike an execution failure, completing it again won't help.
+ */
+async function handleNotExecuted(
+  medplum: MedplumClient,
+  task: Task,
+  command: AICommand,
+  reason: string
+): Promise<ApprovalResult> {
+  console.log(`Not executing task ${task.id}: ${reason}`);
+
+  const failedTask = await medplum.updateResource<Task>({
+    ...task,
+    status: 'failed',
+    statusReason: { text: NOT_EXECUTED_REASON },
+    businessStatus: { text: reason },
+    note: [...(task.note || []), { text: `Not executed: ${reason}`, time: new Date().toISOString() }],
+  });
+
+  await sendApprovalNotification(medplum, failedTask, command, 'failed');
+
+  await logAIAuditEvent(medplum, 'command_blocked', {
+    action: 'E',
+    outcome: '4',
+    outcomeDesc: reason,
+    blockReason: reason,
+    commandId: getCommandId(task),
+    commandType: command.command,
+    patientId: task.for?.reference?.replace('Patient/', ''),
+    practitionerId: task.owner?.reference,
+    aiModel: command.aiModel,
+    approvalTaskId: task.id,
+  });
+  await recordTaskStatus(task, command, {
+    status: 'rejected',
+    reviewedBy: task.owner?.reference,
+    reviewerNotes: reason,
+  });
+
+  return {
+    success: false,
+    action: 'rejected',
+    message: reason,
+  };
+}
+
+/**
+ * Handle an approval or rejection by someone not authorized to make it.
+ * The Task is returned to the queue and the attempt is audited.
+ */
+async function handleUnauthorizedDecision(
+  medplum: MedplumClient,
+  task: Task,
+  command: AICommand,
+  who: string,
+  reason: string
+): Promise<ApprovalResult> {
+  const label = getDecisionLabel(task);
+  console.log(`Unauthorized ${label.toLowerCase()}: ${reason}`);
+
+  await medplum.updateResource<Task>({
+    ...task,
+    status: 'requested',
+    owner: undefined,
+    note: [...(task.note || []), { text: `${label} not accepted: ${reason}`, time: new Date().toISOString() }],
+  });
+
+  const patientId = task.for?.reference?.replace('Patient/', '');
+  await logAIAuditEvent(medplum, 'approval_unauthorized', {
+    action: 'U',
+    outcome: '4',
+    outcomeDesc: reason,
+    commandId: getCommandId(task),
+    commandType: command.command,
+    patientId,
+    practitionerId: who.includes('/') ? who : undefined,
+    aiModel: command.aiModel,
+    approvalTaskId: task.id,
+  });
+
+  return {
+    success: false,
+    action: 'pending',
+    message: `${label} not accepted: ${reason}`,
+  };
+}
+
+/**
+ * Name of the decision a Task records, for notes and messages
+ */
+function getDecisionLabel(task: Task): 'Approval' | 'Rejection' {
+  return task.status === 'completed' ? 'Approval' : 'Rejection';
+}
+
+/**
+ * Reason a decision by someone who is not an active practitioner is not accepted
+ */
+function notPractitioner(who: string): string {
+  return `${who} is not an active practitioner`;
+}
+
+/**
+ * Handle modifications that could not be applied.
+ * The Task is returned to the queue with the reasons noted.
+ */
+async function handleInvalidModifications(
+  medplum: MedplumClient,
+  task: Task,
+  errors: string[]
+): Promise<ApprovalResult> {
+  const reason = errors.join('; ');
+  console.log(`Invalid modifications on task ${task.id}: ${reason}`);
+
+  await medplum.updateResource<Task>({
+    ...task,
+    status: 'requested',
+    note: [...(task.note || []), { text: `Modifications not accepted: ${reason}`, time: new Date().toISOString() }],
+  });
+
+  return {
+    success: false,
+    action: 'pending',
+    message: `Modifications rejected: ${reason}`,
+  };
+}
+
+/**
+ * Handle rejected command. The rejection is recorded against the clinician
+ * verified from the Task's author, like an approval, so it cannot be made in
+ * another practitioner's name.
  */
 async function handleRejection(
   medplum: MedplumClient,
   task: Task,
-  command: AICommand
+  command: AICommand,
+  bot?: Reference
 ): Promise<ApprovalResult> {
   console.log(`Command rejected: ${command.command}`);
 
+  const { approver: resolved, who, error } = await verifyApprover(medplum, task, bot);
+  if (error || !resolved) {
+    return handleUnauthorizedDecision(medplum, task, command, who, error || notPractitioner(who));
+  }
+  const approver = resolved.practitioner;
+
   // Get rejection reason
   const rejectionNote = task.note?.find((n) => n.text?.includes('Rejection:'));
-  const rejectionReason = rejectionNote?.text?.replace('Rejection: ', '') || 'No reason provided';
-
-  const approver = task.owner?.reference || 'Unknown';
+  const rejectionReason =
+    rejectionNote?.text?.replace('Rejection: ', '') || task.statusReason?.text || 'No reason provided';
 
   // Create provenance for rejection
-  await createApprovalProvenance(medplum, command, undefined, approver, 'rejected', undefined, rejectionReason);
+  await medplum.createResource<Provenance>(
+    buildApprovalProvenance(command, undefined, [approver], 'rejected', { rejectionReason })
+  );
+
+  await logAIAuditEvent(medplum, 'approval_denied', {
+    action: 'U',
+    commandId: getCommandId(task),
+    commandType: command.command,
+    patientId: task.for?.reference?.replace('Patient/', ''),
+    practitionerId: approver,
+    aiModel: command.aiModel,
+    confidence: command.confidence,
+    approvalTaskId: task.id,
+    additionalData: { clinicianAction: 'rejected', rejectionReason },
+  });
+  await recordTaskStatus(task, command, {
+    status: 'rejected',
+    reviewedBy: approver,
+    reviewerNotes: rejectionReason,
+  });
 
   // Notify relevant parties
   await sendApprovalNotification(medplum, task, command, 'rejected');
@@ -161,26 +781,56 @@ async function handleRejection(
   };
 }
 
+/**
+ * Handle a command replaced by a newer one for the same change. Nobody
+ * rejected it, so no rejection Provenance, audit or notification is written;
+ * the replacement is already queued.
+ */
+async function handleSupersession(task: Task, command: AICommand): Promise<ApprovalResult> {
+  const supersededBy = task.note?.find((n) => n.text?.startsWith(SUPERSEDED_NOTE_PREFIX))?.text;
+  console.log(`Command superseded: ${command.command}`);
+
+  await recordTaskStatus(task, command, { status: 'superseded', reviewerNotes: supersededBy });
+
+  return {
+    success: true,
+    action: 'superseded',
+    message: supersededBy || 'Command superseded',
+  };
+}
+
 /**
  * Handle expired command
+ * Also used by the approval expiry sweeper bot.
  */
-async function handleExpiration(
+export async function handleExpiration(
   medplum: MedplumClient,
   task: Task,
   command: AICommand
 ): Promise<ApprovalResult> {
   console.log(`Command expired: ${command.command}`);
 
-  // Update task status
-  await medplum.updateResource({
+  // Update task status, unless it was decided since it was read
+  await updateIfUnchanged<Task>(medplum, {
     ...task,
     status: 'failed',
-    statusReason: { text: 'Approval timeout expired' },
+    statusReason: { text: EXPIRY_REASON },
   });
 
   // Notify relevant parties
   await sendApprovalNotification(medplum, task, command, 'expired');
 
+  await logAIAuditEvent(medplum, 'approval_timeout', {
+    action: 'U',
+    outcome: '4',
+    commandId: getCommandId(task),
+    commandType: command.command,
+    patientId: task.for?.reference?.replace('Patient/', ''),
+    aiModel: command.aiModel,
+    approvalTaskId: task.id,
+  });
+  await recordTaskStatus(task, command, { status: 'expired' });
+
   return {
     success: true,
     action: 'expired',
@@ -189,268 +839,205 @@ async function handleExpiration(
 }
 
 /**
- * Check if task is expired
+ * Get the roles allowed to approve a task.
+ * The processor records them on the Task; older Tasks fall back to the policy
+ * rule, then the command type's default rule.
+ * Also used by the approval expiry sweeper bot for escalations.
  */
-function isExpired(task: Task): boolean {
-  const expiration = task.restriction?.period?.end;
-  if (!expiration) return false;
+export function getAllowedRoles(task: Task, command: AICommand): string[] {
+  const recorded = task.input
+    ?.find((i) => i.type?.text === 'approverRoles')
+    ?.valueString?.split(',')
+    .map((r) => r.trim())
+    .filter(Boolean);
+  if (recorded && recorded.length > 0) {
+    return recorded;
+  }
+  return getRuleApproverRoles(command.command);
+}
 
-  return new Date(expiration) < new Date();
+/**
+ * Get the approver roles of a command type's policy rule, or of its default rule.
+ * Also used by the command retraction bot.
+ */
+export function getRuleApproverRoles(commandType: string): string[] {
+  const rule = getSafetyPolicy().approvalRules[commandType] || getCommandDefinition(commandType)?.defaultRule;
+  const ruleRoles = rule?.approverRoles;
+  return ruleRoles && ruleRoles.length > 0 ? ruleRoles : ['Practitioner'];
 }
 
 /**
- * Execute an approved command
+ * Run the safety policy on a command as approved, including clinician edits:
+ * blocked actions, every safety filter (against the patient's facts and the
+ * target record as they are now) and the approval rule's dual approval
  */
-async function executeApprovedCommand(
-  medplum: MedplumClient,
-  command: AICommand
-): Promise<{ success: boolean; message: string; resourceId?: string }> {
-  switch (command.command) {
-    case 'CreateEncounterNoteDraft': {
-      const note = await medplum.createResource<DocumentReference>({
-        resourceType: 'DocumentReference',
-        status: 'current',
-        type: {
-          coding: [
-            {
-              system: 'http://loinc.org',
-              code: '11506-3',
-              display: 'Progress note',
-            },
-          ],
-          text: `${command.noteType} Note`,
-        },
-        subject: { reference: `Patient/${command.patientId}` },
-        context: {
-          encounter: [{ reference: `Encounter/${command.encounterId}` }],
-        },
-        date: new Date().toISOString(),
-        content: [
-          {
-            attachment: {
-              contentType: 'text/plain',
-              data: Buffer.from(command.content).toString('base64'),
-            },
-          },
-        ],
-      });
+async function checkApprovalSafety(medplum: MedplumClient, command: AICommand): Promise<ApprovalSafety> {
+  const policy = getSafetyPolicy();
+  const policyBlock = checkPolicyBlocks(command, policy);
+  if (policyBlock) {
+    return { blockedBy: policyBlock.filter };
+  }
 
-      return {
-        success: true,
-        message: `Created encounter note: ${note.id}`,
-        resourceId: `DocumentReference/${note.id}`,
-      };
-    }
+  const context = await getFilterContext(medplum, command);
+  const safetyResult = runSafetyFilters(context, policy);
+  if (safetyResult.blocked) {
+    return { blockedBy: safetyResult.filter };
+  }
+  if (!context.patient) {
+    // Filters on patient.* fields could not be checked
+    return { unavailable: 'Patient record unavailable for safety filters' };
+  }
 
-    case 'ProposeProblemListUpdate': {
-      if (command.action === 'add') {
-        const condition = await medplum.createResource<Condition>({
-          resourceType: 'Condition',
-          clinicalStatus: {
-            coding: [
-              {
-                system: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
-                code: command.clinicalStatus || 'active',
-              },
-            ],
-          },
-          verificationStatus: {
-            coding: [
-              {
-                system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status',
-                code: command.verificationStatus || 'confirmed',
-              },
-            ],
-          },
-          code: {
-            coding: [
-              {
-                system: command.condition.system,
-                code: command.condition.code,
-                display: command.condition.display,
-              },
-            ],
-            text: command.condition.display,
-          },
-          subject: { reference: `Patient/${command.patientId}` },
-          onsetDateTime: command.onsetDate,
-        });
+  const rule = applySafetyOverrides(getApprovalRule(command, policy), safetyResult);
+  return {
+    approverRoles: safetyResult.approverRoles,
+    minApprovers: rule.dualApproval ? rule.minApprovers || 2 : undefined,
+  };
+}
 
-        return {
-          success: true,
-          message: `Added condition: ${condition.id}`,
-          resourceId: `Condition/${condition.id}`,
-        };
-      } else if (command.action === 'resolve') {
-        // Would need existing condition ID to resolve
-        return {
-          success: false,
-          message: 'Resolve action requires existing condition ID',
-        };
-      }
+/**
+ * Restrict allowed approver roles to those a safety filter requires
+ */
+function narrowRoles(allowedRoles: string[], requiredRoles: string[] | undefined): string[] {
+  if (!requiredRoles || requiredRoles.length === 0) {
+    return allowedRoles;
+  }
 
-      return {
-        success: false,
-        message: `Unsupported action: ${command.action}`,
-      };
-    }
+  const roles = allowedRoles.filter((role) => requiredRoles.includes(role));
+  return roles.length > 0 ? roles : requiredRoles;
+}
 
-    case 'SuggestBillingCodes': {
-      // Create a Claim draft with suggested codes
-      const claim = await medplum.createResource<Claim>({
-        resourceType: 'Claim',
-        status: 'draft',
-        type: {
-          coding: [
-            {
-              system: 'http://terminology.hl7.org/CodeSystem/claim-type',
-              code: 'professional',
-            },
-          ],
-        },
-        use: 'claim',
-        patient: { reference: `Patient/${command.patientId}` },
-        created: new Date().toISOString(),
-        provider: { display: 'AI Suggested' },
-        priority: { coding: [{ code: 'normal' }] },
-        insurance: [
-          {
-            sequence: 1,
-            focal: true,
-            coverage: { display: 'To be determined' },
-          },
-        ],
-        diagnosis: command.suggestedCodes
-          .filter((c) => c.system === 'ICD-10-CM')
-          .map((c, i) => ({
-            sequence: i + 1,
-            diagnosisCodeableConcept: {
-              coding: [
-                {
-                  system: 'http://hl7.org/fhir/sid/icd-10-cm',
-                  code: c.code,
-                  display: c.display,
-                },
-              ],
-            },
-          })),
-        item: command.suggestedCodes
-          .filter((c) => c.system === 'CPT' || c.system === 'HCPCS')
-          .map((c, i) => ({
-            sequence: i + 1,
-            productOrService: {
-              coding: [
-                {
-                  system: c.system === 'CPT'
-                    ? 'http://www.ama-assn.org/go/cpt'
-                    : 'https://www.cms.gov/Medicare/Coding/HCPCSReleaseCodeSets',
-                  code: c.code,
-                  display: c.display,
-                },
-              ],
-            },
-          })),
-      });
+/**
+ * Check whether a task groups a batch of commands rather than holding one
+ */
+function isBatchTask(task: Task): boolean {
+  return Boolean(task.code?.coding?.some((c) => c.code === BATCH_TASK_CODE));
+}
 
-      return {
-        success: true,
-        message: `Created claim draft with ${command.suggestedCodes.length} codes: ${claim.id}`,
-        resourceId: `Claim/${claim.id}`,
-      };
-    }
+/**
+ * Get the command ID recorded on a task
+ */
+function getCommandId(task: Task): string | undefined {
+  return task.input?.find((i) => i.type?.text === 'commandId')?.valueString;
+}
 
-    case 'QueueReferralLetter': {
-      const serviceRequest = await medplum.createResource<ServiceRequest>({
-        resourceType: 'ServiceRequest',
-        status: 'draft',
-        intent: 'proposal',
-        priority: command.urgency === 'emergent' ? 'stat' : command.urgency === 'urgent' ? 'urgent' : 'routine',
-        code: {
-          text: `Referral to ${command.specialty}`,
-        },
-        subject: { reference: `Patient/${command.patientId}` },
-        requester: { reference: command.referringPractitionerId },
-        performer: command.recipientPractitionerId
-          ? [{ reference: command.recipientPractitionerId }]
-          : undefined,
-        reasonCode: [{ text: command.reasonForReferral }],
-        note: [
-          { text: command.clinicalSummary },
-          ...(command.specificQuestions?.map((q) => ({ text: `Question: ${q}` })) || []),
-        ],
-      });
+/**
+ * Mirror a task's command status into the command queue table
+ */
+async function recordTaskStatus(task: Task, command: AICommand, update: CommandQueueUpdate): Promise<void> {
+  await recordCommandStatus(
+    { ...command, commandId: getCommandId(task) || command.commandId },
+    { ...update, taskId: task.id }
+  );
+}
 
-      return {
-        success: true,
-        message: `Created referral request: ${serviceRequest.id}`,
-        resourceId: `ServiceRequest/${serviceRequest.id}`,
-      };
-    }
+/**
+ * Get the resource an approved command wrote, once it has executed
+ */
+function getExecutedResource(task: Task | undefined): string | undefined {
+  return task?.output?.find((o) => o.type?.text === 'executedResource')?.valueReference?.reference;
+}
 
-    case 'SuggestMedicationChange': {
-      const medicationRequest = await medplum.createResource<MedicationRequest>({
-        resourceType: 'MedicationRequest',
-        status: 'draft',
-        intent: 'proposal',
-        medicationCodeableConcept: {
-          coding: [
-            {
-              system: command.medication.system,
-              code: command.medication.code,
-              display: command.medication.display,
-            },
-          ],
-          text: command.medication.display,
-        },
-        subject: { reference: `Patient/${command.patientId}` },
-        dosageInstruction: command.dosage
-          ? [
-              {
-                text: `${command.dosage}${command.frequency ? ` ${command.frequency}` : ''}${
-                  command.duration ? ` for ${command.duration}` : ''
-                }`,
-              },
-            ]
-          : undefined,
-        note: [{ text: `AI Rationale: ${command.rationale}` }],
-      });
+/**
+ * Read the stored version of a task, which may be newer than the event's
+ */
+async function readCurrentTask(medplum: MedplumClient, task: Task): Promise<Task | undefined> {
+  if (!task.id) {
+    return undefined;
+  }
+  try {
+    return await medplum.readResource('Task', task.id);
+  } catch (error) {
+    console.log(`Failed to read task ${task.id}:`, error);
+    return undefined;
+  }
+}
 
-      return {
-        success: true,
-        message: `Created medication request draft: ${medicationRequest.id}`,
-        resourceId: `MedicationRequest/${medicationRequest.id}`,
-      };
-    }
+/**
+ * Get the number of distinct approvers required for a task
+ */
+function getMinApprovers(task: Task): number {
+  const input = task.input?.find((i) => i.type?.text === 'minApprovers');
+  return input?.valueInteger && input.valueInteger > 1 ? input.valueInteger : 1;
+}
 
-    default:
-      return {
-        success: false,
-        message: `Unknown command type: ${command.command}`,
-      };
-  }
+/**
+ * Get approval signatures recorded on a task
+ */
+function getSignatures(task: Task): ApprovalSignature[] {
+  return (task.output || [])
+    .filter((o) => o.type?.text === 'approval' && o.valueString)
+    .map((o) => JSON.parse(o.valueString as string) as ApprovalSignature);
 }
 
 /**
- * Create provenance record for approval
+ * Replace the approval signatures in a task's output
  */
-async function createApprovalProvenance(
-  medplum: MedplumClient,
+function withSignatures(task: Task, signatures: ApprovalSignature[]): Task['output'] {
+  return [
+    ...(task.output || []).filter((o) => o.type?.text !== 'approval'),
+    ...signatures.map((signature) => ({
+      type: { text: 'approval' },
+      valueString: JSON.stringify(signature),
+    })),
+  ];
+}
+
+/**
+ * Record the executed resource, and the final signature of a dual-approval
+ * task, on the completed task
+ */
+function withExecutedResource(
+  task: Task,
+  signatures: ApprovalSignature[],
+  minApprovers: number,
+  resourceReference: string
+): Task {
+  return {
+    ...task,
+    status: 'completed',
+    businessStatus: minApprovers > 1 ? { text: `Approvals: ${signatures.length} of ${minApprovers}` } : task.businessStatus,
+    output: [
+      ...((minApprovers > 1 ? withSignatures(task, signatures) : task.output) || []),
+      {
+        type: { text: 'executedResource' },
+        valueReference: { reference: resourceReference },
+      },
+    ],
+  };
+}
+
+/**
+ * Check if task is expired
+ */
+function isExpired(task: Task): boolean {
+  const expiration = task.restriction?.period?.end;
+  if (!expiration) return false;
+
+  return new Date(expiration) < new Date();
+}
+
+/**
+ * Build the provenance record for an approval or rejection
+ */
+function buildApprovalProvenance(
   command: AICommand,
-  targetResourceId: string | undefined,
-  approver: string,
+  target: ExecutionTarget | undefined,
+  approvers: string[],
   action: 'accepted' | 'edited' | 'rejected',
-  modifications?: string,
-  rejectionReason?: string
-): Promise<Provenance> {
-  return medplum.createResource<Provenance>({
+  details: ProvenanceDetails = {}
+): Provenance {
+  const { modifications, editedFields, rejectionReason, operation = 'CREATE' } = details;
+
+  return {
     resourceType: 'Provenance',
-    target: targetResourceId ? [{ reference: targetResourceId }] : [],
+    target: target ? target.references.map((reference) => ({ reference })) : [],
     recorded: new Date().toISOString(),
     activity: {
       coding: [
         {
           system: 'http://terminology.hl7.org/CodeSystem/v3-DataOperation',
-          code: action === 'rejected' ? 'NULLIFY' : 'CREATE',
+          code: action === 'rejected' ? 'NULLIFY' : operation,
         },
       ],
     },
@@ -466,7 +1053,8 @@ async function createApprovalProvenance(
         },
         who: { display: `AI: ${command.aiModel}` },
       },
-      {
+      // One verifier per signer (dual approval has several)
+      ...approvers.map((approver) => ({
         type: {
           coding: [
             {
@@ -476,77 +1064,128 @@ async function createApprovalProvenance(
           ],
         },
         who: { reference: approver },
-      },
+      })),
     ],
     entity: [
       {
         role: 'source',
-        what: { display: `AI Command: ${command.command}` },
+        what: {
+          identifier: command.commandId ? { system: COMMAND_ID_SYSTEM, value: command.commandId } : undefined,
+          display: `AI Command: ${command.command}`,
+        },
       },
+      ...getProvenanceSources(command).map((reference) => ({
+        role: 'source' as const,
+        what: { reference },
+      })),
+      ...(target?.revision ? [{ role: 'revision' as const, what: { reference: target.revision } }] : []),
     ],
     signature: modifications || rejectionReason
-      ? [
-          {
-            type: [
-              {
-                system: 'urn:iso-astm:E1762-95:2013',
-                code: action === 'rejected' ? '1.2.840.10065.1.12.1.2' : '1.2.840.10065.1.12.1.1',
-              },
-            ],
-            when: new Date().toISOString(),
-            who: { reference: approver },
-            data: Buffer.from(
-              JSON.stringify({
-                action,
-                modifications: modifications ? JSON.parse(modifications) : undefined,
-                rejectionReason,
-              })
-            ).toString('base64'),
-          },
-        ]
+      ? approvers.map((approver) => ({
+          type: [
+            {
+              system: 'urn:iso-astm:E1762-95:2013',
+              code: action === 'rejected' ? '1.2.840.10065.1.12.1.2' : '1.2.840.10065.1.12.1.1',
+            },
+          ],
+          when: new Date().toISOString(),
+          who: { reference: approver },
+          data: Buffer.from(
+            JSON.stringify({
+              action,
+              modifications: modifications ? JSON.parse(modifications) : undefined,
+              editedFields: editedFields && editedFields.length > 0 ? editedFields : undefined,
+              rejectionReason,
+            })
+          ).toString('base64'),
+        }))
       : undefined,
-  });
+  };
+}
+
+/**
+ * Escalation stage being notified, with the PractitionerRoles to notify
+ */
+export interface ApprovalEscalation {
+  step: EscalationStep;
+  recipients: PractitionerRole[];
 }
 
 /**
  * Send notification about approval status
+ * Also used by the approval expiry sweeper bot for reminders and escalations.
  */
-async function sendApprovalNotification(
+export async function sendApprovalNotification(
   medplum: MedplumClient,
   task: Task,
   command: AICommand,
-  status: 'approved' | 'rejected' | 'expired',
-  resourceId?: string
+  status: 'approved' | 'rejected' | 'expired' | 'failed' | 'escalated',
+  resourceId?: string,
+  escalation?: ApprovalEscalation
 ): Promise<void> {
   try {
-    const message = status === 'approved'
-      ? `AI command ${command.command} was approved and executed. Resource: ${resourceId}`
-      : status === 'rejected'
-      ? `AI command ${command.command} was rejected.`
-      : `AI command ${command.command} expired without approval.`;
-
-    await medplum.createResource<Communication>({
-      resourceType: 'Communication',
-      status: 'completed',
-      category: [
-        {
-          coding: [
-            {
-              system: 'http://medplum.com/fhir/CodeSystem/communication-category',
-              code: 'ai-notification',
-              display: 'AI System Notification',
-            },
-          ],
-        },
-      ],
-      priority: status === 'expired' ? 'urgent' : 'routine',
-      subject: task.for as { reference: string },
-      sent: new Date().toISOString(),
-      payload: [{ contentString: message }],
-    });
+    await medplum.createResource<Communication>(
+      buildApprovalNotification(task, command, status, resourceId, escalation)
+    );
   } catch (error) {
     console.log('Failed to send notification:', error);
   }
 }
 
+/**
+ * Build the notification Communication for an approval status.
+ * An executed resource is linked through Communication.about, so it can be a
+ * urn:uuid placeholder committed in the same transaction.
+ */
+function buildApprovalNotification(
+  task: Task,
+  command: AICommand,
+  status: 'approved' | 'rejected' | 'expired' | 'failed' | 'escalated',
+  resourceId?: string,
+  escalation?: ApprovalEscalation
+): Communication {
+  const expiresAt = task.restriction?.period?.end;
+  const isReminder = status === 'escalated' && escalation?.step.name === 'reminder';
+  const message = status === 'approved'
+    ? `AI command ${command.command} was approved and executed.`
+    : status === 'rejected'
+    ? `AI command ${command.command} was rejected.`
+    : status === 'expired'
+    ? `AI command ${command.command} expired without approval.`
+    : status === 'failed'
+    ? `AI command ${command.command} was approved but not executed: ${task.businessStatus?.text || 'unknown reason'}.`
+    : isReminder
+    ? `Reminder: AI command ${command.command} is awaiting approval and expires at ${expiresAt}.`
+    : `Escalation (${escalation?.step.name}): AI command ${command.command} is awaiting approval and expires at ${expiresAt}.`;
+
+  const isUrgent = status === 'expired' || status === 'failed' || (status === 'escalated' && !isReminder);
+  const priority = escalation?.step.priority || (isUrgent ? 'urgent' : 'routine');
+
+  return {
+    resourceType: 'Communication',
+    status: 'completed',
+    category: [
+      {
+        coding: [
+          {
+            system: 'http://medplum.com/fhir/CodeSystem/communication-category',
+            code: 'ai-notification',
+            display: 'AI System Notification',
+          },
+        ],
+      },
+    ],
+    priority,
+    subject: task.for as { reference: string },
+    about: resourceId
+      ? [{ reference: resourceId }]
+      : escalation || status === 'failed'
+      ? [{ reference: `Task/${task.id}` }]
+      : undefined,
+    recipient: escalation?.recipients.map((r) => ({ reference: `PractitionerRole/${r.id}` })),
+    sent: new Date().toISOString(),
+    payload: [{ contentString: message }],
+  };
+}
+
 export default handler;
@@ -25,10 +25,12 @@ type AIAuditEventType =
   | 'command_executed'
   | 'command_blocked'
   | 'command_queued'
+  | 'command_retracted'
   | 'approval_requested'
   | 'approval_granted'
   | 'approval_denied'
   | 'approval_timeout'
+  | 'approval_unauthorized'
   | 'safety_filter_triggered'
   | 'embedding_created'
   | 'semantic_search'
@@ -342,10 +344,12 @@ function getAuditEventType(eventType: AIAuditEventType): Coding {
     command_executed: { code: 'rest', display: 'RESTful Operation' },
     command_blocked: { code: 'security', display: 'Security' },
     command_queued: { code: 'rest', display: 'RESTful Operation' },
+    command_retracted: { code: 'rest', display: 'RESTful Operation' },
     approval_requested: { code: 'rest', display: 'RESTful Operation' },
     approval_granted: { code: 'rest', display: 'RESTful Operation' },
     approval_denied: { code: 'rest', display: 'RESTful Operation' },
     approval_timeout: { code: 'rest', display: 'RESTful Operation' },
+    approval_unauthorized: { code: 'security', display: 'Security' },
     safety_filter_triggered: { code: 'security', display: 'Security' },
     embedding_created: { code: 'rest', display: 'RESTful Operation' },
     semantic_search: { code: 'rest', display: 'RESTful Operation' },
@@ -396,10 +400,12 @@ function getDefaultOutcomeDesc(input: AuditInput): string {
     command_executed: 'AI command executed successfully',
     command_blocked: `AI command blocked${input.blockReason ? `: ${input.blockReason}` : ''}`,
     command_queued: 'AI command queued for approval',
+    command_retracted: 'Executed AI command retracted by clinician',
     approval_requested: 'Approval requested from clinician',
     approval_granted: 'AI command approved by clinician',
     approval_denied: 'AI command rejected by clinician',
     approval_timeout: 'AI command approval timeout',
+    approval_unauthorized: 'Approval attempted by a user without an approver role',
     safety_filter_triggered: `Safety filter triggered: ${input.safetyFilter || 'unknown'}`,
     embedding_created: 'Clinical embedding generated',
     semantic_search: 'Semantic search performed',
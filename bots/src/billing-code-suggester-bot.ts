@@ -3,6 +3,8 @@
  *
  * AI-powered medical billing code suggestions.
  * Analyzes encounter documentation to suggest appropriate CPT, ICD-10, and HCPCS codes.
+ * Codes already on the encounter's Claims, and AI-suggested diagnoses already
+ * covered by an active Condition, are dropped.
  *
  * Input: { encounterId: string, patientId: string }
  * Output: { success: boolean, suggestedCodes: BillingCode[], commands: AICommand[] }
@@ -10,6 +12,7 @@
 
 import { BotEvent, MedplumClient } from '@medplum/core';
 import {
+  Claim,
   Encounter,
   Condition,
   Procedure,
@@ -24,6 +27,15 @@ import {
   splitPromptToMessages,
   config as llmConfig,
 } from './services/llm-client';
+import { ChartEntry, findChartMatch, getCodes, getConditionEntries } from './services/chart-duplicates';
+
+// FHIR code systems for the billing code systems, as used on Claims
+const CODE_SYSTEM_URLS: Record<BillingCode['system'], string> = {
+  CPT: 'http://www.ama-assn.org/go/cpt',
+  'ICD-10-CM': 'http://hl7.org/fhir/sid/icd-10-cm',
+  'ICD-10-PCS': 'http://www.cms.gov/Medicare/Coding/ICD10',
+  HCPCS: 'https://www.cms.gov/Medicare/Coding/HCPCSReleaseCodeSets',
+};
 
 interface BillingInput {
   encounterId: string;
@@ -80,8 +92,16 @@ export async function handler(medplum: MedplumClient, event: BotEvent): Promise<
     // Use LLM to suggest additional codes and validate
     const llmCodes = await suggestCodesWithLLM(context, structuredCodes);
 
+    // Drop codes already charted: anything on a Claim for the encounter, and
+    // AI-suggested diagnoses an active Condition already covers
+    const claimEntries = getClaimEntries(context.claims);
+    const chartEntries = [...getConditionEntries(context.conditions), ...claimEntries];
+    const newStructuredCodes = structuredCodes.filter((c) => !isChartDuplicate(c, claimEntries));
+    const newLlmCodes = llmCodes.filter((c) => !isChartDuplicate(c, chartEntries));
+    const droppedCount = structuredCodes.length + llmCodes.length - newStructuredCodes.length - newLlmCodes.length;
+
     // Merge and deduplicate
-    const allCodes = mergeAndRankCodes(structuredCodes, llmCodes);
+    const allCodes = mergeAndRankCodes(newStructuredCodes, newLlmCodes);
 
     // Validate code relationships
     const validatedCodes = validateCodeRelationships(allCodes);
@@ -115,6 +135,9 @@ export async function handler(medplum: MedplumClient, event: BotEvent): Promise<
 
     // Generate warnings
     const warnings = generateBillingWarnings(validatedCodes, context);
+    if (droppedCount > 0) {
+      warnings.push(`${droppedCount} suggested code(s) already on the chart or an existing claim were dropped`);
+    }
 
     return {
       success: true,
@@ -145,6 +168,7 @@ interface BillingContext {
   diagnosticReports: DiagnosticReport[];
   medications: MedicationRequest[];
   documents: DocumentReference[];
+  claims: Claim[];
 }
 
 /**
@@ -159,6 +183,7 @@ async function gatherBillingContext(medplum: MedplumClient, input: BillingInput)
     diagnosticReports: [],
     medications: [],
     documents: [],
+    claims: [],
   };
 
   try {
@@ -214,6 +239,20 @@ async function gatherBillingContext(medplum: MedplumClient, input: BillingInput)
       'context.encounter': `Encounter/${input.encounterId}`,
       _count: '10',
     });
+
+    // Get claims already made for this encounter
+    const encounter = `Encounter/${input.encounterId}`;
+    const claims = await medplum.searchResources('Claim', {
+      patient: `Patient/${input.patientId}`,
+      encounter,
+      _count: '20',
+    });
+    context.claims = claims.filter(
+      (c) =>
+        c.status !== 'cancelled' &&
+        c.status !== 'entered-in-error' &&
+        c.item?.some((item) => item.encounter?.some((e) => e.reference === encounter))
+    );
   } catch (error) {
     console.log('Error gathering billing context:', error);
   }
@@ -439,6 +478,28 @@ function parseLLMCodes(response: string): BillingCode[] {
   return codes;
 }
 
+/**
+ * Chart entries for the codes on Claims
+ */
+function getClaimEntries(claims: Claim[]): ChartEntry[] {
+  return claims.map((claim) => ({
+    reference: `Claim/${claim.id}`,
+    codes: [
+      ...(claim.diagnosis || []).flatMap((d) => getCodes(d.diagnosisCodeableConcept)),
+      ...(claim.procedure || []).flatMap((p) => getCodes(p.procedureCodeableConcept)),
+      ...(claim.item || []).flatMap((item) => getCodes(item.productOrService)),
+    ],
+  }));
+}
+
+/**
+ * Check whether a code is the same as, or broader than, a charted code
+ */
+function isChartDuplicate(code: BillingCode, entries: ChartEntry[]): boolean {
+  const match = findChartMatch({ system: CODE_SYSTEM_URLS[code.system], code: code.code }, entries);
+  return match?.kind === 'duplicate';
+}
+
 /**
  * Merge and rank codes from different sources
  */
@@ -15,11 +15,14 @@ import {
   Observation,
   MedicationStatement,
   AllergyIntolerance,
+  Immunization,
 } from '@medplum/fhirtypes';
 import {
   AICommand,
   FlagAbnormalResult,
   ProposeProblemListUpdate,
+  ProposeImmunizationRecommendation,
+  ProposeServiceRequest,
   SuggestMedicationChange,
 } from './types/ai-command-types';
 import {
@@ -27,6 +30,8 @@ import {
   splitPromptToMessages,
   config as llmConfig,
 } from './services/llm-client';
+import { forecastImmunizations } from './services/immunization-schedule';
+import { dedupeProblemListCommand } from './services/chart-duplicates';
 
 /**
  * Sanitize user input to prevent prompt injection attacks.
@@ -47,6 +52,8 @@ function sanitizeInput(input: string | undefined): string {
     .trim();
 }
 
+const LOINC_SYSTEM = 'http://loinc.org';
+
 interface CDSInput {
   patientId: string;
   encounterType?: string;
@@ -152,6 +159,7 @@ interface PatientData {
   conditions: Condition[];
   medications: MedicationStatement[];
   allergies: AllergyIntolerance[];
+  immunizations: Immunization[];
   vitals: Observation[];
   labs: Observation[];
 }
@@ -160,7 +168,7 @@ interface PatientData {
  * Gather comprehensive patient data
  */
 async function gatherPatientData(medplum: MedplumClient, patientId: string): Promise<PatientData> {
-  const [patient, conditions, medications, allergies, vitals, labs] = await Promise.all([
+  const [patient, conditions, medications, allergies, immunizations, vitals, labs] = await Promise.all([
     medplum.readResource('Patient', patientId),
     medplum.searchResources('Condition', {
       patient: `Patient/${patientId}`,
@@ -177,6 +185,11 @@ async function gatherPatientData(medplum: MedplumClient, patientId: string): Pro
       'clinical-status': 'active',
       _count: '50',
     }),
+    medplum.searchResources('Immunization', {
+      patient: `Patient/${patientId}`,
+      status: 'completed',
+      _count: '100',
+    }),
     medplum.searchResources('Observation', {
       patient: `Patient/${patientId}`,
       category: 'vital-signs',
@@ -191,7 +204,7 @@ async function gatherPatientData(medplum: MedplumClient, patientId: string): Pro
     }),
   ]);
 
-  return { patient, conditions, medications, allergies, vitals, labs };
+  return { patient, conditions, medications, allergies, immunizations, vitals, labs };
 }
 
 /**
@@ -223,7 +236,7 @@ async function analyzeDiagnosis(
     );
 
     const parsed = parseDiagnosisSuggestions(result.text, data.patient.id!);
-    suggestions.push(...parsed);
+    suggestions.push(...dedupeDiagnosisSuggestions(parsed, data.conditions));
   } catch (error) {
     console.log('Diagnosis analysis error:', error);
   }
@@ -340,6 +353,38 @@ function parseDiagnosisSuggestions(response: string, patientId: string): CDSSugg
   return suggestions.slice(0, 3); // Limit to 3 suggestions
 }
 
+/**
+ * Drop diagnoses already on the problem list, and turn those that only refine
+ * a charted Condition into updates of it
+ */
+function dedupeDiagnosisSuggestions(suggestions: CDSSuggestion[], conditions: Condition[]): CDSSuggestion[] {
+  const deduped: CDSSuggestion[] = [];
+
+  for (const suggestion of suggestions) {
+    const action = suggestion.suggestedAction;
+    if (action?.command !== 'ProposeProblemListUpdate') {
+      deduped.push(suggestion);
+      continue;
+    }
+
+    const command = dedupeProblemListCommand(action as ProposeProblemListUpdate, conditions);
+    if (!command) {
+      console.log(`Dropped diagnosis already on the problem list: ${suggestion.title}`);
+    } else if (command.action === 'update') {
+      deduped.push({
+        ...suggestion,
+        title: `Refine: ${command.condition.display}`,
+        description: `More specific code for the existing problem list entry Condition/${command.conditionId}.`,
+        suggestedAction: command,
+      });
+    } else {
+      deduped.push(suggestion);
+    }
+  }
+
+  return deduped;
+}
+
 /**
  * Analyze medications for interactions and issues
  */
@@ -473,6 +518,17 @@ function analyzePreventiveCare(data: PatientData): CDSSuggestion[] {
         description: 'Patient is due for colorectal cancer screening (age 50-75)',
         rationale: 'USPSTF Grade A recommendation for adults 50-75',
         confidence: 0.9,
+        suggestedAction: proposeServiceRequest(data, {
+          category: 'screening',
+          code: {
+            code: '29771-3',
+            system: LOINC_SYSTEM,
+            display: 'Hemoglobin.gastrointestinal [Presence] in Stool by Immunoassay',
+          },
+          priority: 'routine',
+          reasonText: 'Colorectal cancer screening (USPSTF Grade A, age 50-75)',
+          confidence: 0.9,
+        }),
       });
     }
   }
@@ -488,14 +544,37 @@ function analyzePreventiveCare(data: PatientData): CDSSuggestion[] {
     });
   }
 
-  if (age >= 65) {
+  // Compare immunization history with the schedule
+  const forecasts = forecastImmunizations(data.patient, data.conditions, data.immunizations);
+  if (forecasts.length > 0) {
+    const overdue = forecasts.some((f) => f.forecastStatus === 'overdue');
     suggestions.push({
       type: 'preventive',
-      priority: 'low',
-      title: 'Pneumococcal Vaccination',
-      description: 'Verify pneumococcal vaccination status for patient 65+',
-      rationale: 'CDC/ACIP recommendation for adults 65 and older',
+      priority: overdue ? 'medium' : 'low',
+      title: `Immunizations ${overdue ? 'Overdue' : 'Due'}: ${forecasts.map((f) => f.series).join(', ')}`,
+      description: forecasts.map((f) => `${f.series}: ${f.forecastStatus} since ${f.dueDate}`).join('; '),
+      rationale: 'CDC/ACIP adult immunization schedule compared with recorded Immunizations',
       confidence: 0.9,
+      suggestedAction: {
+        command: 'ProposeImmunizationRecommendation',
+        patientId: data.patient.id!,
+        recommendations: forecasts.map((f) => ({
+          vaccineCode: f.vaccineCode,
+          targetDisease: f.targetDisease,
+          forecastStatus: f.forecastStatus,
+          dueDate: f.dueDate,
+          overdueDate: f.overdueDate,
+          doseNumber: f.doseNumber,
+          seriesDoses: f.seriesDoses,
+          series: f.series,
+          description: f.description,
+          supportingImmunizationIds: f.supportingImmunizationIds,
+        })),
+        requiresApproval: true,
+        createdAt: new Date().toISOString(),
+        aiModel: llmConfig.clinicalModel,
+        confidence: 0.9,
+      } as ProposeImmunizationRecommendation,
     });
   }
 
@@ -520,6 +599,13 @@ function analyzePreventiveCare(data: PatientData): CDSSuggestion[] {
         description: 'Consider diabetes screening (HbA1c) for patient age 35-70',
         rationale: 'USPSTF Grade B recommendation',
         confidence: 0.8,
+        suggestedAction: proposeServiceRequest(data, {
+          category: 'screening',
+          code: { code: '4548-4', system: LOINC_SYSTEM, display: 'Hemoglobin A1c/Hemoglobin.total in Blood' },
+          priority: 'routine',
+          reasonText: 'Diabetes screening (USPSTF Grade B, age 35-70)',
+          confidence: 0.8,
+        }),
       });
     }
   }
@@ -616,6 +702,14 @@ function analyzeForAlerts(data: PatientData): CDSSuggestion[] {
           description: value < 3.5 ? 'Hypokalemia' : 'Hyperkalemia',
           rationale: 'Electrolyte abnormality may cause cardiac arrhythmias',
           confidence: 0.95,
+          suggestedAction: proposeServiceRequest(data, {
+            category: 'laboratory',
+            code: { code: '2823-3', system: LOINC_SYSTEM, display: 'Potassium [Moles/volume] in Serum or Plasma' },
+            priority: value < 2.5 || value > 6.5 ? 'stat' : 'urgent',
+            reasonText: `Repeat potassium after result of ${value} mEq/L`,
+            reasonReference: [`Observation/${lab.id}`],
+            confidence: 0.95,
+          }),
         });
       }
     }
@@ -630,6 +724,14 @@ function analyzeForAlerts(data: PatientData): CDSSuggestion[] {
           description: 'Possible acute kidney injury or chronic kidney disease',
           rationale: 'Elevated creatinine requires evaluation of renal function',
           confidence: 0.85,
+          suggestedAction: proposeServiceRequest(data, {
+            category: 'laboratory',
+            code: { code: '24362-6', system: LOINC_SYSTEM, display: 'Renal function 2000 panel - Serum or Plasma' },
+            priority: value > 4.0 ? 'stat' : 'urgent',
+            reasonText: `Evaluate renal function after creatinine of ${value} mg/dL`,
+            reasonReference: [`Observation/${lab.id}`],
+            confidence: 0.85,
+          }),
         });
       }
     }
@@ -644,6 +746,14 @@ function analyzeForAlerts(data: PatientData): CDSSuggestion[] {
           description: value < 7.0 ? 'Severe anemia' : 'Polycythemia',
           rationale: 'Significant hemoglobin abnormality requires evaluation',
           confidence: 0.9,
+          suggestedAction: proposeServiceRequest(data, {
+            category: 'laboratory',
+            code: { code: '58410-2', system: LOINC_SYSTEM, display: 'CBC panel - Blood by Automated count' },
+            priority: value < 7.0 ? 'stat' : 'urgent',
+            reasonText: `Repeat CBC after hemoglobin of ${value} g/dL`,
+            reasonReference: [`Observation/${lab.id}`],
+            confidence: 0.9,
+          }),
         });
       }
     }
@@ -652,6 +762,23 @@ function analyzeForAlerts(data: PatientData): CDSSuggestion[] {
   return alerts;
 }
 
+/**
+ * Build a ProposeServiceRequest suggested action for the patient
+ */
+function proposeServiceRequest(
+  data: PatientData,
+  order: Pick<ProposeServiceRequest, 'category' | 'code' | 'priority' | 'reasonText' | 'reasonReference' | 'confidence'>
+): ProposeServiceRequest {
+  return {
+    command: 'ProposeServiceRequest',
+    patientId: data.patient.id!,
+    ...order,
+    requiresApproval: true,
+    createdAt: new Date().toISOString(),
+    aiModel: llmConfig.clinicalModel,
+  };
+}
+
 /**
  * Calculate age from birth date
  */
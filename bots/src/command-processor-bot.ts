@@ -5,42 +5,106 @@
  * Validates commands against safety rules, routes to approval queue if needed,
  * or executes directly for auto-approved commands.
  *
- * Input: AICommand (from ai-command-types.ts)
- * Output: { success: boolean, action: 'executed' | 'queued' | 'blocked', ... }
+ * Input: AICommand, or an AICommandBatch of related commands (from ai-command-types.ts)
+ * Output: { success: boolean, action: 'executed' | 'queued' | 'blocked', ... },
+ *         or { success, correlationId, results, taskId? } for a batch
  */
 
-import { BotEvent, MedplumClient } from '@medplum/core';
-import { Task, Provenance, AuditEvent, Reference, Flag, DocumentReference } from '@medplum/fhirtypes';
+import { BotEvent, MedplumClient, generateId } from '@medplum/core';
+import { Task, Provenance, AuditEvent, Reference } from '@medplum/fhirtypes';
+import { AICommand, AICommandBatch, AIProvenance, ApprovalRule } from './types/ai-command-types';
+import { getSafetyPolicy } from './services/safety-policy';
 import {
-  AICommand,
-  AIProvenance,
-  DEFAULT_APPROVAL_RULES,
-  DEFAULT_SAFETY_FILTERS,
-  SafetyFilter,
-  ApprovalRule,
-} from './types/ai-command-types';
-
-// Configuration
-const QUIET_HOURS_START = 22; // 10 PM
-const QUIET_HOURS_END = 6; // 6 AM
+  applySafetyOverrides,
+  checkPolicyBlocks,
+  checkRequiresApproval,
+  getApprovalRule,
+  getFilterContext,
+  runSafetyFilters,
+} from './services/safety-checks';
+import { getQuietHoursStatus } from './services/quiet-hours';
+import { recordCommandStatus } from './services/command-queue';
+import { configureDatabase } from './services/database';
+import {
+  CommandValidationError,
+  formatValidationErrors,
+  validateAICommand,
+} from './services/command-validation';
+import { COMMAND_ID_SYSTEM, createEntry, updateIfUnchanged } from './services/fhir-transaction';
+import {
+  ExecutionTarget,
+  executeCommand,
+  getCommandDefinition,
+  getExecutionActivity,
+  getProvenanceSources,
+} from './commands';
+import { BATCH_TASK_CODE, SUPERSEDED_NOTE_PREFIX, SUPERSEDED_REASON } from './approval-queue-bot';
+
+// Task.code system for AI command approval Tasks
+const AI_COMMAND_SYSTEM = 'http://medplum.com/fhir/CodeSystem/ai-command';
+
+// Task.groupIdentifier system for commands submitted in the same batch
+const CORRELATION_ID_SYSTEM = 'http://medplum.com/fhir/ai-command-correlation-id';
 
 interface ProcessorOutput {
   success: boolean;
   commandId: string;
-  action: 'executed' | 'queued' | 'blocked';
+  action: 'executed' | 'queued' | 'blocked' | 'throttled';
   message: string;
   taskId?: string;
+  supersededTaskIds?: string[]; // Older pending Tasks for the same change, now cancelled
   blockReason?: string;
+  validationErrors?: CommandValidationError[];
   warnings?: string[];
 }
 
+interface BatchProcessorOutput {
+  success: boolean; // Every command was executed or queued
+  correlationId: string;
+  message: string;
+  results: ProcessorOutput[]; // In submission order
+  taskId?: string; // Parent approval Task grouping the queued commands
+}
+
+// A command that passed the safety checks and needs clinician approval
+interface PendingApproval {
+  command: AICommand;
+  commandId: string;
+  rule: ApprovalRule;
+  quietHoursOverride: boolean;
+  warnings: string[];
+}
+
+// Where a batch's queued commands are filed
+interface ApprovalGroup {
+  correlationId: string;
+  parent?: Task;
+}
+
+// The patient's open approval Tasks, as they affect queueing a command
+interface PatientQueue {
+  existing?: Task; // The command's own Task, when it is redelivered
+  superseded: Task[]; // Older Tasks proposing the same change
+  throttled?: string; // Why the command cannot be queued
+}
+
 /**
  * Main bot handler
  */
-export async function handler(medplum: MedplumClient, event: BotEvent): Promise<ProcessorOutput> {
-  const command = event.input as AICommand;
+export function handler(medplum: MedplumClient, event: BotEvent<AICommand>): Promise<ProcessorOutput>;
+export function handler(medplum: MedplumClient, event: BotEvent<AICommandBatch>): Promise<BatchProcessorOutput>;
+export async function handler(
+  medplum: MedplumClient,
+  event: BotEvent
+): Promise<ProcessorOutput | BatchProcessorOutput> {
+  const input = event.input as AICommand | AICommandBatch;
+  configureDatabase(event);
 
-  if (!command || !command.command) {
+  if (input && 'commands' in input) {
+    return processBatch(medplum, input);
+  }
+
+  if (!input || !input.command) {
     return {
       success: false,
       commandId: '',
@@ -49,12 +113,123 @@ export async function handler(medplum: MedplumClient, event: BotEvent): Promise<
     };
   }
 
-  const commandId = generateCommandId();
-  console.log(`Processing AI command: ${command.command} (${commandId})`);
+  // A redelivered command keeps its commandId, so it is not executed twice
+  const commandId = input.commandId || generateCommandId();
+  const result = await processCommand(medplum, input, commandId);
+  return 'rule' in result ? queueForApproval(medplum, result) : result;
+}
+
+/**
+ * Process related commands submitted together. Each command is checked and
+ * executed or queued on its own; two or more queued commands are grouped
+ * under a parent approval Task so they can be approved together.
+ */
+async function processBatch(medplum: MedplumClient, batch: AICommandBatch): Promise<BatchProcessorOutput> {
+  const correlationId = batch.correlationId || generateId();
+
+  if (!Array.isArray(batch.commands) || batch.commands.length === 0) {
+    return {
+      success: false,
+      correlationId,
+      message: 'Invalid batch: no commands',
+      results: [],
+    };
+  }
+
+  console.log(`Processing AI command batch: ${batch.commands.length} command(s) (${correlationId})`);
+
+  const evaluated: (ProcessorOutput | PendingApproval)[] = [];
+  for (const input of batch.commands) {
+    const commandId = input?.commandId || generateCommandId();
+    evaluated.push(
+      input?.command
+        ? await processCommand(medplum, input, commandId)
+        : { success: false, commandId, action: 'blocked', message: 'Invalid command: missing command type' }
+    );
+  }
+
+  const pending = evaluated.filter((e): e is PendingApproval => 'rule' in e);
+  const group: ApprovalGroup = { correlationId };
+  if (pending.length > 1) {
+    try {
+      group.parent = await createBatchTask(medplum, correlationId, pending);
+    } catch (error) {
+      // Grouping is a convenience; the commands can still be approved one by one
+      console.log('Failed to create batch approval task:', error);
+    }
+  }
+
+  const results: ProcessorOutput[] = [];
+  for (const e of evaluated) {
+    results.push('rule' in e ? await queueForApproval(medplum, e, group) : e);
+  }
+
+  const count = (action: ProcessorOutput['action']): number =>
+    results.filter((r) => r.action === action && (action === 'blocked' || action === 'throttled' || r.success)).length;
+  const throttled = count('throttled');
+  return {
+    success: results.every((r) => r.success),
+    correlationId,
+    message:
+      `Processed ${results.length} command(s): ${count('executed')} executed, ${count('queued')} queued, ` +
+      `${count('blocked')} blocked` +
+      (throttled > 0 ? `, ${throttled} throttled` : ''),
+    results,
+    taskId: group.parent?.id,
+  };
+}
+
+/**
+ * Check a command and execute it, or return what is needed to queue it for approval
+ */
+async function processCommand(
+  medplum: MedplumClient,
+  input: AICommand,
+  commandId: string
+): Promise<ProcessorOutput | PendingApproval> {
+  console.log(`Processing AI command: ${input.command} (${commandId})`);
 
   try {
-    // Step 1: Run safety filters
-    const safetyResult = runSafetyFilters(command);
+    const policy = getSafetyPolicy();
+
+    // Step 1: Reject actions the policy never permits
+    const policyBlock = checkPolicyBlocks(input, policy);
+    if (policyBlock) {
+      await logAuditEvent(medplum, input, 'blocked', policyBlock.reason || 'Unknown reason');
+      return {
+        success: false,
+        commandId,
+        action: 'blocked',
+        message: `Command blocked by safety filter: ${policyBlock.filter}`,
+        blockReason: policyBlock.reason,
+        warnings: policyBlock.warnings,
+      };
+    }
+
+    // Step 2: Validate the command against its type
+    const validation = validateAICommand(input);
+    if (!validation.valid || !validation.command) {
+      const reason = formatValidationErrors(validation.errors);
+      await logAuditEvent(medplum, input, 'blocked', `Invalid command: ${reason}`);
+      return {
+        success: false,
+        commandId,
+        action: 'blocked',
+        message: `Invalid command: ${validation.errors.length} validation error(s)`,
+        blockReason: reason,
+        validationErrors: validation.errors,
+      };
+    }
+    const command = { ...validation.command, commandId };
+
+    // Step 3: Run safety filters
+    const filterContext = await getFilterContext(medplum, command);
+    const safetyResult = runSafetyFilters(filterContext, policy);
+    if (!filterContext.patient && !safetyResult.blocked) {
+      // Filters on patient.* fields could not be checked, so a clinician reviews the command instead
+      safetyResult.forceApproval = true;
+      safetyResult.warnings.push('Patient record unavailable for safety filters; approval required');
+    }
     if (safetyResult.blocked) {
       await logAuditEvent(medplum, command, 'blocked', safetyResult.reason || 'Unknown reason');
       return {
@@ -67,40 +242,42 @@ export async function handler(medplum: MedplumClient, event: BotEvent): Promise<
       };
     }
 
-    // Step 2: Check approval requirements
-    const approvalRule = getApprovalRule(command);
+    // Step 4: Check approval requirements
+    const approvalRule = applySafetyOverrides(getApprovalRule(command, policy), safetyResult);
     const requiresApproval = checkRequiresApproval(command, approvalRule);
 
-    // Step 3: Check quiet hours
-    const isQuietHours = checkQuietHours();
-    const quietHoursOverride = isQuietHours && !command.requiresApproval;
+    // Step 5: Check quiet hours in the clinic's timezone
+    const quietHours = await getQuietHoursStatus(medplum, command, policy.quietHours);
+    const quietHoursOverride = quietHours.active && !command.requiresApproval;
+    const warnings = quietHours.active
+      ? [
+          ...safetyResult.warnings,
+          `Quiet hours active (${quietHours.start}-${quietHours.end} ${quietHours.timezone || 'server time'})`,
+        ]
+      : safetyResult.warnings;
+    // Senior staff approve everything queued during quiet hours when required
+    const rule =
+      quietHours.active && quietHours.requireSeniorApproval
+        ? { ...approvalRule, approverRoles: policy.quietHours.seniorApproverRoles }
+        : approvalRule;
 
     // Require approval if: rule requires it, quiet hours override, OR safety filter forces it
     if (requiresApproval || quietHoursOverride || safetyResult.forceApproval) {
-      // Queue for approval
-      const task = await createApprovalTask(medplum, command, commandId, approvalRule);
-
-      await logAuditEvent(medplum, command, 'queued', `Queued for approval: ${task.id}`);
-
-      return {
-        success: true,
-        commandId,
-        action: 'queued',
-        message: quietHoursOverride
-          ? 'Command queued for approval (quiet hours active)'
-          : 'Command queued for approval',
-        taskId: task.id,
-        warnings: safetyResult.warnings,
-      };
+      return { command, commandId, rule, quietHoursOverride, warnings };
     }
 
-    // Step 4: Execute command directly
-    const executionResult = await executeCommand(medplum, command);
+    // Step 6: Execute command directly, committing its Provenance in the same transaction
+    const executionResult = await executeCommand(medplum, command, (target) => [
+      createEntry(buildAIProvenance(command, target)),
+    ]);
 
-    if (executionResult.success) {
-      // Create provenance record
-      await createAIProvenance(medplum, command, executionResult.resourceId);
+    if (executionResult.success && !executionResult.alreadyExecuted) {
       await logAuditEvent(medplum, command, 'executed', `Executed successfully: ${executionResult.resourceId}`);
+      await recordCommandStatus(command, {
+        status: 'executed',
+        requiresApproval: false,
+        executedResourceId: executionResult.resourceId,
+      });
     }
 
     return {
@@ -108,11 +285,11 @@ export async function handler(medplum: MedplumClient, event: BotEvent): Promise<
       commandId,
       action: 'executed',
       message: executionResult.message,
-      warnings: safetyResult.warnings,
+      warnings,
     };
   } catch (error) {
     console.log('Command processor error:', error);
-    await logAuditEvent(medplum, command, 'error', String(error));
+    await logAuditEvent(medplum, input, 'error', String(error));
 
     return {
       success: false,
@@ -124,130 +301,171 @@ export async function handler(medplum: MedplumClient, event: BotEvent): Promise<
 }
 
 /**
- * Generate unique command ID
+ * Create the approval Task for a command, under the batch's parent Task if it has one
  */
-function generateCommandId(): string {
-  return `cmd-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+async function queueForApproval(
+  medplum: MedplumClient,
+  pending: PendingApproval,
+  group?: ApprovalGroup
+): Promise<ProcessorOutput> {
+  const { command, commandId } = pending;
+
+  try {
+    const queue = await checkPatientQueue(medplum, command, commandId, pending.rule);
+    if (queue.existing) {
+      return {
+        success: true,
+        commandId,
+        action: 'queued',
+        message: 'Command already queued for approval',
+        taskId: queue.existing.id,
+        warnings: pending.warnings,
+      };
+    }
+    if (queue.throttled) {
+      await logAuditEvent(medplum, command, 'throttled', queue.throttled);
+      return {
+        success: false,
+        commandId,
+        action: 'throttled',
+        message: queue.throttled,
+        warnings: pending.warnings,
+      };
+    }
+
+    const task = await createApprovalTask(medplum, command, commandId, pending.rule, group);
+    const supersededTaskIds = await supersedeTasks(medplum, queue.superseded, task);
+
+    await logAuditEvent(medplum, command, 'queued', `Queued for approval: ${task.id}`);
+    await recordCommandStatus(command, {
+      status: 'pending',
+      taskId: task.id,
+      approverRoles: pending.rule.approverRoles,
+      expiresAt: task.restriction?.period?.end,
+    });
+
+    return {
+      success: true,
+      commandId,
+      action: 'queued',
+      message: pending.quietHoursOverride
+        ? 'Command queued for approval (quiet hours active)'
+        : 'Command queued for approval',
+      taskId: task.id,
+      supersededTaskIds: supersededTaskIds.length > 0 ? supersededTaskIds : undefined,
+      warnings: pending.warnings,
+    };
+  } catch (error) {
+    console.log('Command processor error:', error);
+    await logAuditEvent(medplum, command, 'error', String(error));
+
+    return {
+      success: false,
+      commandId,
+      action: 'blocked',
+      message: `Error processing command: ${error}`,
+    };
+  }
 }
 
 /**
- * Run safety filters against command
+ * Check the patient's open approval Tasks: the command's own Task if it was
+ * redelivered, older Tasks it supersedes, and whether the pending caps
+ * (global.maxPendingPerPatient, and the rule's per command type) are reached
  */
-function runSafetyFilters(command: AICommand): {
-  blocked: boolean;
-  forceApproval: boolean;
-  filter?: string;
-  reason?: string;
-  warnings: string[];
-} {
-  const warnings: string[] = [];
-  let forceApproval = false;
-
-  for (const filter of DEFAULT_SAFETY_FILTERS) {
-    if (!filter.enabled) continue;
-
-    const matches = evaluateFilterConditions(command, filter);
-
-    if (matches) {
-      switch (filter.action) {
-        case 'block':
-          return {
-            blocked: true,
-            forceApproval: false,
-            filter: filter.name,
-            reason: filter.description,
-            warnings,
-          };
-        case 'warn':
-          warnings.push(`Warning: ${filter.description}`);
-          break;
-        case 'require_approval':
-          // Force approval when safety filter requires it
-          forceApproval = true;
-          warnings.push(`Safety filter requires approval: ${filter.description}`);
-          break;
-      }
-    }
+async function checkPatientQueue(
+  medplum: MedplumClient,
+  command: AICommand,
+  commandId: string,
+  rule: ApprovalRule
+): Promise<PatientQueue> {
+  if (!('patientId' in command) || !command.patientId) {
+    return { superseded: [] };
+  }
+
+  const patient = `Patient/${command.patientId}`;
+  const open = (
+    await medplum.searchResources('Task', { patient, status: 'requested', _count: '1000' })
+  ).filter((task) => getTaskCommandType(task) && getTaskCommandType(task) !== BATCH_TASK_CODE);
+
+  const existing = open.find((task) => getTaskInput(task, 'commandId') === commandId);
+  if (existing) {
+    return { existing, superseded: [] };
   }
 
-  // Check confidence threshold
-  if (command.confidence < 0.5) {
+  const definition = getCommandDefinition(command.command);
+  const key = definition?.supersedeKey?.(command);
+  const sameType = open.filter((task) => getTaskCommandType(task) === command.command);
+  const superseded = key
+    ? sameType.filter((task) => {
+        const queued = parseTaskCommand(task);
+        return queued !== undefined && definition?.supersedeKey?.(queued) === key;
+      })
+    : [];
+
+  // Superseded Tasks are cancelled, so they do not count towards the caps
+  const maxPending = getSafetyPolicy().global.maxPendingPerPatient;
+  if (open.length - superseded.length >= maxPending) {
+    return { superseded, throttled: `Pending approval limit reached for ${patient} (${maxPending})` };
+  }
+  const maxPendingOfType = rule.maxPendingPerPatient;
+  if (maxPendingOfType !== undefined && sameType.length - superseded.length >= maxPendingOfType) {
     return {
-      blocked: true,
-      forceApproval: false,
-      filter: 'LowConfidenceBlock',
-      reason: `Command confidence (${command.confidence}) is below minimum threshold (0.5)`,
-      warnings,
+      superseded,
+      throttled: `Pending ${command.command} approval limit reached for ${patient} (${maxPendingOfType})`,
     };
   }
 
-  return { blocked: false, forceApproval, warnings };
+  return { superseded };
 }
 
 /**
- * Evaluate filter conditions against command
+ * Cancel Tasks replaced by a newer command's Task. A Task decided in the
+ * meantime fails its If-Match precondition and is left as it is.
  */
-function evaluateFilterConditions(command: AICommand, filter: SafetyFilter): boolean {
-  for (const condition of filter.conditions) {
-    const value = getNestedValue(command, condition.field);
-
-    switch (condition.operator) {
-      case 'equals':
-        if (value !== condition.value) return false;
-        break;
-      case 'contains':
-        if (typeof value !== 'string' || !value.includes(String(condition.value))) return false;
-        break;
-      case 'matches':
-        if (typeof value !== 'string' || !new RegExp(String(condition.value)).test(value)) return false;
-        break;
-      case 'greater_than':
-        if (typeof value !== 'number' || value <= Number(condition.value)) return false;
-        break;
-      case 'less_than':
-        if (typeof value !== 'number' || value >= Number(condition.value)) return false;
-        break;
+async function supersedeTasks(medplum: MedplumClient, tasks: Task[], replacement: Task): Promise<string[]> {
+  const superseded: string[] = [];
+  for (const task of tasks) {
+    try {
+      await updateIfUnchanged<Task>(medplum, {
+        ...task,
+        status: 'cancelled',
+        statusReason: { text: SUPERSEDED_REASON },
+        note: [
+          ...(task.note || []),
+          { text: `${SUPERSEDED_NOTE_PREFIX}Task/${replacement.id}`, time: new Date().toISOString() },
+        ],
+        lastModified: new Date().toISOString(),
+      });
+      superseded.push(task.id as string);
+    } catch (error) {
+      console.log(`Failed to supersede Task/${task.id}:`, error);
     }
   }
-
-  return true;
+  return superseded;
 }
 
-/**
- * Get nested value from object
- */
-function getNestedValue(obj: any, path: string): any {
-  return path.split('.').reduce((o, p) => o?.[p], obj);
+function getTaskCommandType(task: Task): string | undefined {
+  return task.code?.coding?.find((c) => c.system === AI_COMMAND_SYSTEM)?.code;
 }
 
-/**
- * Get approval rule for command
- */
-function getApprovalRule(command: AICommand): ApprovalRule {
-  return DEFAULT_APPROVAL_RULES[command.command] || {
-    requiresApproval: true,
-    approverRoles: ['Practitioner'],
-    timeout: '24h',
-    auditRequired: true,
-  };
+function getTaskInput(task: Task, name: string): string | undefined {
+  return task.input?.find((i) => i.type?.text === name)?.valueString;
 }
 
-/**
- * Check if command requires approval
- */
-function checkRequiresApproval(command: AICommand, rule: ApprovalRule): boolean {
-  if (typeof rule.requiresApproval === 'function') {
-    return rule.requiresApproval(command);
+function parseTaskCommand(task: Task): AICommand | undefined {
+  try {
+    return JSON.parse(getTaskInput(task, 'command') || '') as AICommand;
+  } catch {
+    return undefined;
   }
-  return rule.requiresApproval;
 }
 
 /**
- * Check if current time is within quiet hours
+ * Generate unique command ID
  */
-function checkQuietHours(): boolean {
-  const hour = new Date().getHours();
-  return hour >= QUIET_HOURS_START || hour < QUIET_HOURS_END;
+function generateCommandId(): string {
+  return `cmd-${generateId()}`;
 }
 
 /**
@@ -257,7 +475,8 @@ async function createApprovalTask(
   medplum: MedplumClient,
   command: AICommand,
   commandId: string,
-  rule: ApprovalRule
+  rule: ApprovalRule,
+  group?: ApprovalGroup
 ): Promise<Task> {
   const expirationDate = calculateExpiration(rule.timeout);
 
@@ -273,7 +492,7 @@ async function createApprovalTask(
     code: {
       coding: [
         {
-          system: 'http://medplum.com/fhir/CodeSystem/ai-command',
+          system: AI_COMMAND_SYSTEM,
           code: command.command,
           display: `AI Command: ${command.command}`,
         },
@@ -281,6 +500,8 @@ async function createApprovalTask(
     },
     description: `AI-generated ${command.command} requiring approval`,
     for: patientReference,
+    groupIdentifier: group ? { system: CORRELATION_ID_SYSTEM, value: group.correlationId } : undefined,
+    partOf: group?.parent ? [{ reference: `Task/${group.parent.id}` }] : undefined,
     authoredOn: new Date().toISOString(),
     lastModified: new Date().toISOString(),
     restriction: {
@@ -305,6 +526,31 @@ async function createApprovalTask(
         type: { text: 'aiModel' },
         valueString: command.aiModel,
       },
+      {
+        type: { text: 'approverRoles' },
+        valueString: rule.approverRoles.join(','),
+      },
+      ...(rule.dualApproval
+        ? [
+            {
+              type: { text: 'minApprovers' },
+              valueInteger: rule.minApprovers || 2,
+            },
+          ]
+        : []),
+      // The expiry sweeper escalates by the rule in force when the command was queued
+      ...(rule.notifyRoles?.length
+        ? [
+            {
+              type: { text: 'notifyRoles' },
+              valueString: rule.notifyRoles.join(','),
+            },
+          ]
+        : []),
+      {
+        type: { text: 'escalationSteps' },
+        valueString: JSON.stringify(rule.escalation || []),
+      },
     ],
     note: command.reasoning
       ? [{ text: `AI Reasoning: ${command.reasoning}` }]
@@ -314,6 +560,53 @@ async function createApprovalTask(
   return task;
 }
 
+/**
+ * Create the parent Task for a batch's queued commands. Completing or
+ * rejecting it decides every command still pending; each command also keeps
+ * its own approval Task, so they can be decided individually.
+ */
+async function createBatchTask(
+  medplum: MedplumClient,
+  correlationId: string,
+  pending: PendingApproval[]
+): Promise<Task> {
+  const commandTypes = pending.map((p) => p.command.command);
+  const patientIds = new Set(pending.map((p) => ('patientId' in p.command ? p.command.patientId : undefined)));
+  patientIds.delete(undefined);
+
+  // Conditional on the correlation ID, so a redelivered batch reuses its parent
+  return medplum.createResourceIfNoneExist<Task>(
+    {
+      resourceType: 'Task',
+      identifier: [{ system: CORRELATION_ID_SYSTEM, value: correlationId }],
+      status: 'requested',
+      intent: 'proposal',
+      priority: commandTypes.includes('FlagAbnormalResult') ? 'urgent' : 'routine',
+      code: {
+        coding: [
+          {
+            system: AI_COMMAND_SYSTEM,
+            code: BATCH_TASK_CODE,
+            display: 'AI Command Batch',
+          },
+        ],
+      },
+      description: `AI-generated batch of ${pending.length} commands requiring approval: ${commandTypes.join(', ')}`,
+      for: patientIds.size === 1 ? { reference: `Patient/${[...patientIds][0]}` } : undefined,
+      groupIdentifier: { system: CORRELATION_ID_SYSTEM, value: correlationId },
+      authoredOn: new Date().toISOString(),
+      lastModified: new Date().toISOString(),
+      input: [
+        {
+          type: { text: 'correlationId' },
+          valueString: correlationId,
+        },
+      ],
+    },
+    `identifier=${CORRELATION_ID_SYSTEM}|${correlationId}`
+  );
+}
+
 /**
  * Calculate expiration date from timeout string
  */
@@ -347,102 +640,18 @@ function calculateExpiration(timeout: string): string {
 }
 
 /**
- * Execute command directly (for auto-approved commands)
+ * Build the AI Provenance record for an executed command
  */
-async function executeCommand(
-  medplum: MedplumClient,
-  command: AICommand
-): Promise<{ success: boolean; message: string; resourceId?: string }> {
-  switch (command.command) {
-    case 'FlagAbnormalResult':
-      // Create a flag/alert for the abnormal result
-      const flag = await medplum.createResource<Flag>({
-        resourceType: 'Flag',
-        status: 'active',
-        category: [
-          {
-            coding: [
-              {
-                system: 'http://terminology.hl7.org/CodeSystem/flag-category',
-                code: 'clinical',
-                display: 'Clinical',
-              },
-            ],
-          },
-        ],
-        code: {
-          text: `AI Alert: ${command.interpretation}`,
-        },
-        subject: { reference: `Patient/${command.patientId}` },
-        period: { start: new Date().toISOString() },
-      });
-
-      return {
-        success: true,
-        message: `Created abnormal result flag: ${flag.id}`,
-        resourceId: flag.id,
-      };
-
-    case 'SummarizePatientHistory':
-      // Store summary as a DocumentReference
-      const doc = await medplum.createResource<DocumentReference>({
-        resourceType: 'DocumentReference',
-        status: 'current',
-        type: {
-          coding: [
-            {
-              system: 'http://loinc.org',
-              code: '11506-3',
-              display: 'Progress note',
-            },
-          ],
-          text: 'AI-Generated Patient Summary',
-        },
-        subject: { reference: `Patient/${command.patientId}` },
-        date: new Date().toISOString(),
-        content: [
-          {
-            attachment: {
-              contentType: 'text/plain',
-              data: Buffer.from(command.summary).toString('base64'),
-            },
-          },
-        ],
-      });
-
-      return {
-        success: true,
-        message: `Created patient summary: ${doc.id}`,
-        resourceId: doc.id,
-      };
-
-    default:
-      return {
-        success: false,
-        message: `Command ${command.command} requires manual approval`,
-      };
-  }
-}
-
-/**
- * Create AI Provenance record
- */
-async function createAIProvenance(
-  medplum: MedplumClient,
-  command: AICommand,
-  targetResourceId?: string
-): Promise<Provenance> {
-  const provenance = await medplum.createResource<Provenance>({
+function buildAIProvenance(command: AICommand, target: ExecutionTarget): Provenance {
+  return {
     resourceType: 'Provenance',
-    target: targetResourceId
-      ? [{ reference: targetResourceId }]
-      : [],
+    target: target.references.map((reference) => ({ reference })),
     recorded: new Date().toISOString(),
     activity: {
       coding: [
         {
           system: 'http://terminology.hl7.org/CodeSystem/v3-DataOperation',
-          code: 'CREATE',
+          code: getExecutionActivity(command),
         },
       ],
     },
@@ -464,10 +673,21 @@ async function createAIProvenance(
         role: 'source',
         what: { display: command.promptTemplate || 'default-template' },
       },
+      // Lets the command's resources be found, and retracted, by commandId
+      {
+        role: 'source',
+        what: {
+          identifier: { system: COMMAND_ID_SYSTEM, value: command.commandId },
+          display: `AI Command: ${command.command}`,
+        },
+      },
+      ...getProvenanceSources(command).map((reference) => ({
+        role: 'source' as const,
+        what: { reference },
+      })),
+      ...(target.revision ? [{ role: 'revision' as const, what: { reference: target.revision } }] : []),
     ],
-  });
-
-  return provenance;
+  };
 }
 
 /**
@@ -494,9 +714,10 @@ async function logAuditEvent(
           display: `AI Command: ${command.command}`,
         },
       ],
-      action: action === 'executed' ? 'C' : 'R',
+      action: action === 'executed' ? (getExecutionActivity(command) === 'UPDATE' ? 'U' : 'C') : 'R',
       recorded: new Date().toISOString(),
-      outcome: action === 'blocked' ? '8' : '0', // 8 = serious failure, 0 = success
+      // 8 = serious failure, 4 = minor failure, 0 = success
+      outcome: action === 'blocked' ? '8' : action === 'throttled' ? '4' : '0',
       outcomeDesc: outcome,
       agent: [
         {
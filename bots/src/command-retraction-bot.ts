@@ -0,0 +1,314 @@
+/**
+ * Command Retraction Bot
+ *
+ * Reverses an executed AI command, e.g. an auto-executed FlagAbnormalResult
+ * that turns out to be spurious. The command's resources are found through
+ * the Provenance recorded when it executed: resources it created are marked
+ * entered-in-error, and resources it updated are restored to the version it
+ * replaced. The changes and a NULLIFY Provenance are committed in one
+ * transaction, and the retraction is audited.
+ *
+ * As with approvals, retractedBy must hold an approver role for the command's
+ * type. The Bot must be deployed with runAsUser, so that the caller (the
+ * profile it runs as) can be checked to be retractedBy; calls made as a Bot,
+ * including this one, are refused unless that Bot is listed in the
+ * RETRACTION_TRUSTED_BOTS secret. The retracting practitioner and role are
+ * recorded as the Provenance's author.
+ *
+ * Input: RetractAICommand (from ai-command-types.ts)
+ * Output: { success, message, retractedResourceIds? }
+ */
+
+import { BotEvent, MedplumClient } from '@medplum/core';
+import { BundleEntry, Provenance, Reference, Resource, ResourceType } from '@medplum/fhirtypes';
+import { RetractAICommand } from './types/ai-command-types';
+import { ALLERGY_VERIFICATION_STATUS_SYSTEM } from './services/allergy-list';
+import { APPROVER_ROLE_SYSTEM, resolveApprover } from './services/approver-roles';
+import {
+  COMMAND_ID_SYSTEM,
+  createEntry,
+  executeTransaction,
+  updateEntry,
+} from './services/fhir-transaction';
+import { logAIAuditEvent } from './audit-logging-bot';
+import { getRuleApproverRoles } from './approval-queue-bot';
+
+const DATA_OPERATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-DataOperation';
+const CONDITION_VERIFICATION_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+const ENTERED_IN_ERROR = 'entered-in-error';
+
+// Bot secret listing the Bots trusted to retract on behalf of a practitioner, e.g. 'Bot/123,Bot/456'
+export const TRUSTED_BOTS_SECRET = 'RETRACTION_TRUSTED_BOTS';
+
+interface RetractionOutput {
+  success: boolean;
+  message: string;
+  retractedResourceIds?: string[];
+}
+
+interface Retractor {
+  practitioner?: string; // Practitioner/<id>
+  role?: string;
+  error?: string;
+}
+
+/**
+ * Main bot handler
+ */
+export async function handler(medplum: MedplumClient, event: BotEvent): Promise<RetractionOutput> {
+  const input = event.input as RetractAICommand;
+
+  const missing = (['commandId', 'reason', 'retractedBy'] as const).filter((field) => !input?.[field]?.trim());
+  if (missing.length > 0) {
+    return {
+      success: false,
+      message: `Invalid retraction: missing ${missing.join(', ')}`,
+    };
+  }
+
+  console.log(`Retracting AI command: ${input.commandId}`);
+
+  try {
+    const provenances = await medplum.searchResources('Provenance', {
+      'entity:identifier': `${COMMAND_ID_SYSTEM}|${input.commandId}`,
+    });
+
+    // A rejected command has a NULLIFY Provenance with no targets; a retraction has targets
+    const retraction = provenances.find((p) => getActivity(p) === 'NULLIFY' && p.target.length > 0);
+    if (retraction) {
+      return {
+        success: true,
+        message: 'Command already retracted',
+        retractedResourceIds: retraction.target.map((t) => t.reference as string),
+      };
+    }
+
+    const executions = provenances.filter((p) => getActivity(p) === 'CREATE' || getActivity(p) === 'UPDATE');
+    if (executions.length === 0) {
+      return {
+        success: false,
+        message: `No executed resources found for command ${input.commandId}`,
+      };
+    }
+
+    const commandType = getCommandType(executions[0], input.commandId);
+    const retractor = await verifyRetractor(medplum, event, commandType);
+    if (retractor.error || !retractor.practitioner || !retractor.role) {
+      const reason = retractor.error || 'Retractor could not be verified';
+      console.log(`Unauthorized retraction of ${input.commandId}: ${reason}`);
+      await logAIAuditEvent(medplum, 'command_retracted', {
+        action: 'U',
+        outcome: '4',
+        outcomeDesc: reason,
+        commandId: input.commandId,
+        commandType,
+        practitionerId: input.retractedBy,
+      });
+      return {
+        success: false,
+        message: `Retraction rejected: ${reason}`,
+      };
+    }
+
+    const entries: BundleEntry[] = [];
+    for (const execution of executions) {
+      for (const target of execution.target) {
+        const reference = target.reference as string;
+        const revision = execution.entity?.find(
+          (e) => e.role === 'revision' && e.what.reference?.startsWith(`${reference}/_history/`)
+        );
+        entries.push(
+          revision
+            ? await buildRestoreEntry(medplum, reference, revision.what.reference as string)
+            : await buildRetractEntry(medplum, reference)
+        );
+      }
+    }
+
+    const retractedResourceIds = entries.map((entry) => entry.fullUrl as string);
+    await executeTransaction(medplum, [
+      ...entries,
+      createEntry(buildRetractionProvenance(input, retractor, retractedResourceIds)),
+    ]);
+
+    const subject = entries
+      .map((entry) => entry.resource as Resource & { subject?: Reference; patient?: Reference })
+      .map((resource) => resource.subject?.reference || resource.patient?.reference)
+      .find((reference) => reference?.startsWith('Patient/'));
+    await logAIAuditEvent(medplum, 'command_retracted', {
+      action: 'U',
+      outcomeDesc: input.reason,
+      commandId: input.commandId,
+      commandType,
+      patientId: subject?.replace('Patient/', ''),
+      practitionerId: retractor.practitioner,
+      additionalData: { retractedResourceIds },
+    });
+
+    return {
+      success: true,
+      message: `Retracted ${retractedResourceIds.length} resource(s)`,
+      retractedResourceIds,
+    };
+  } catch (error) {
+    console.log('Command retraction error:', error);
+    return {
+      success: false,
+      message: `Retraction failed; no changes were made: ${error}`,
+    };
+  }
+}
+
+/**
+ * Check that retractedBy is the caller, or that the caller is a trusted Bot,
+ * and that retractedBy holds an approver role for the command type
+ */
+async function verifyRetractor(
+  medplum: MedplumClient,
+  event: BotEvent,
+  commandType: string | undefined
+): Promise<Retractor> {
+  const input = event.input as RetractAICommand;
+  const profile = medplum.getProfile();
+  const caller = profile ? `${profile.resourceType}/${profile.id}` : undefined;
+
+  const retractor = await resolveApprover(medplum, { reference: input.retractedBy });
+  if (!retractor) {
+    return { error: `${input.retractedBy} is not an active practitioner` };
+  }
+  if (caller?.startsWith('Bot/')) {
+    const trustedBots = (event.secrets?.[TRUSTED_BOTS_SECRET]?.valueString || '').split(',').map((b) => b.trim());
+    if (!trustedBots.includes(caller)) {
+      return { error: `${caller} is not trusted to retract on behalf of ${input.retractedBy} (deploy with runAsUser)` };
+    }
+  } else {
+    const callerApprover = caller ? await resolveApprover(medplum, { reference: caller }) : undefined;
+    if (callerApprover?.practitioner !== retractor.practitioner) {
+      return { error: `${caller || 'Unknown caller'} cannot retract on behalf of ${input.retractedBy}` };
+    }
+  }
+
+  const allowedRoles = getRuleApproverRoles(commandType || '');
+  const role = retractor.roles.find((r) => allowedRoles.includes(r));
+  if (!role) {
+    const allowed = allowedRoles.join(', ');
+    return { error: `${input.retractedBy} does not hold an approver role for ${commandType} (allowed: ${allowed})` };
+  }
+  return { practitioner: retractor.practitioner, role };
+}
+
+/**
+ * Entry marking a resource the command created as entered-in-error
+ */
+async function buildRetractEntry(medplum: MedplumClient, reference: string): Promise<BundleEntry> {
+  const [resourceType, id] = reference.split('/');
+  const resource = await medplum.readResource(resourceType as ResourceType, id);
+
+  const retracted = withEnteredInError(resource);
+  if (!retracted) {
+    throw new Error(`${resourceType} resources cannot be retracted`);
+  }
+  return updateEntry(retracted);
+}
+
+/**
+ * Entry restoring a resource the command updated to the version it replaced.
+ * Refuses if the resource has changed since, so later edits are not lost.
+ */
+async function buildRestoreEntry(medplum: MedplumClient, reference: string, revision: string): Promise<BundleEntry> {
+  const [resourceType, id] = reference.split('/');
+  const history = await medplum.readHistory(resourceType as ResourceType, id);
+
+  // Newest first: the command's version, then the version it replaced
+  const [current, previous] = (history.entry || []).map((entry) => entry.resource as Resource);
+  if (!current || `${reference}/_history/${previous?.meta?.versionId}` !== revision) {
+    throw new Error(`${reference} has changed since the command executed`);
+  }
+  return updateEntry({ ...previous, meta: current.meta });
+}
+
+/**
+ * Copy of a resource with its status set to entered-in-error, or undefined
+ * for resource types without one
+ */
+function withEnteredInError(resource: Resource): Resource | undefined {
+  switch (resource.resourceType) {
+    case 'Condition':
+      // An entered-in-error Condition has no clinical status (con-5)
+      return {
+        ...resource,
+        clinicalStatus: undefined,
+        verificationStatus: { coding: [{ system: CONDITION_VERIFICATION_STATUS_SYSTEM, code: ENTERED_IN_ERROR }] },
+      };
+    case 'AllergyIntolerance':
+      // Likewise for AllergyIntolerance (ait-2)
+      return {
+        ...resource,
+        clinicalStatus: undefined,
+        verificationStatus: { coding: [{ system: ALLERGY_VERIFICATION_STATUS_SYSTEM, code: ENTERED_IN_ERROR }] },
+      };
+    case 'Goal':
+      return { ...resource, lifecycleStatus: ENTERED_IN_ERROR };
+    case 'CarePlan':
+    case 'Claim':
+    case 'DocumentReference':
+    case 'Flag':
+    case 'MedicationRequest':
+    case 'ServiceRequest':
+      return { ...resource, status: ENTERED_IN_ERROR };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build the NULLIFY Provenance recording the retraction
+ */
+function buildRetractionProvenance(input: RetractAICommand, retractor: Retractor, references: string[]): Provenance {
+  return {
+    resourceType: 'Provenance',
+    target: references.map((reference) => ({ reference })),
+    recorded: new Date().toISOString(),
+    activity: {
+      coding: [{ system: DATA_OPERATION_SYSTEM, code: 'NULLIFY' }],
+    },
+    reason: [{ text: input.reason }],
+    agent: [
+      {
+        type: {
+          coding: [
+            {
+              system: 'http://terminology.hl7.org/CodeSystem/provenance-participant-type',
+              code: 'author',
+            },
+          ],
+        },
+        role: [{ coding: [{ system: APPROVER_ROLE_SYSTEM, code: retractor.role }] }],
+        who: { reference: retractor.practitioner },
+      },
+    ],
+    entity: [
+      {
+        role: 'removal',
+        what: {
+          identifier: { system: COMMAND_ID_SYSTEM, value: input.commandId },
+          display: 'Retracted AI command',
+        },
+      },
+    ],
+  };
+}
+
+function getActivity(provenance: Provenance): string | undefined {
+  return provenance.activity?.coding?.find((c) => c.system === DATA_OPERATION_SYSTEM)?.code;
+}
+
+/**
+ * Command type from the execution Provenance's 'AI Command: <type>' entity
+ */
+function getCommandType(provenance: Provenance, commandId: string): string | undefined {
+  const entity = provenance.entity?.find((e) => e.what.identifier?.value === commandId);
+  return entity?.what.display?.replace('AI Command: ', '');
+}
+
+export default handler;
@@ -0,0 +1,82 @@
+/**
+ * CreateEncounterNoteDraft
+ *
+ * Stores an AI-drafted encounter note as a DocumentReference.
+ */
+
+import { DocumentReference } from '@medplum/fhirtypes';
+import { CreateEncounterNoteDraft } from '../types/ai-command-types';
+import { createEntry } from '../services/fhir-transaction';
+import { CommandDefinition } from './registry';
+import { optionalString, requiredString } from './schema';
+
+export const createEncounterNoteDraftCommand: CommandDefinition<CreateEncounterNoteDraft> = {
+  command: 'CreateEncounterNoteDraft',
+
+  schema: {
+    encounterId: requiredString,
+    patientId: requiredString,
+    noteType: { type: 'string', enum: ['progress', 'discharge', 'consultation', 'procedure', 'history'] },
+    content: requiredString,
+    sections: {
+      type: 'object',
+      optional: true,
+      fields: {
+        chiefComplaint: optionalString,
+        historyOfPresentIllness: optionalString,
+        reviewOfSystems: optionalString,
+        physicalExam: optionalString,
+        assessment: optionalString,
+        plan: optionalString,
+      },
+    },
+  },
+
+  defaultRule: {
+    requiresApproval: true,
+    approverRoles: ['Practitioner', 'Nurse'],
+    timeout: '24h',
+    auditRequired: true,
+  },
+
+  supersedeKey(command) {
+    return `Encounter/${command.encounterId}|${command.noteType}`;
+  },
+
+  async prepare(_medplum, command) {
+    const note = createEntry<DocumentReference>({
+      resourceType: 'DocumentReference',
+      status: 'current',
+      type: {
+        coding: [
+          {
+            system: 'http://loinc.org',
+            code: '11506-3',
+            display: 'Progress note',
+          },
+        ],
+        text: `${command.noteType} Note`,
+      },
+      subject: { reference: `Patient/${command.patientId}` },
+      context: {
+        encounter: [{ reference: `Encounter/${command.encounterId}` }],
+      },
+      date: new Date().toISOString(),
+      content: [
+        {
+          attachment: {
+            contentType: 'text/plain',
+            data: Buffer.from(command.content).toString('base64'),
+          },
+        },
+      ],
+    });
+
+    return {
+      success: true,
+      message: 'Created encounter note',
+      entries: [note],
+      target: note.fullUrl,
+    };
+  },
+};
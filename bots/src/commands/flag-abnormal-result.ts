@@ -0,0 +1,66 @@
+/**
+ * FlagAbnormalResult
+ *
+ * Raises a clinical Flag for an abnormal result.
+ */
+
+import { Flag } from '@medplum/fhirtypes';
+import { FlagAbnormalResult } from '../types/ai-command-types';
+import { createEntry } from '../services/fhir-transaction';
+import { CommandDefinition } from './registry';
+import { optionalStringList, requiredString } from './schema';
+
+export const flagAbnormalResultCommand: CommandDefinition<FlagAbnormalResult> = {
+  command: 'FlagAbnormalResult',
+
+  schema: {
+    patientId: requiredString,
+    observationId: requiredString,
+    severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+    interpretation: requiredString,
+    suggestedActions: optionalStringList,
+  },
+
+  defaultRule: {
+    requiresApproval: false,
+    approverRoles: [],
+    timeout: '0',
+    notifyRoles: ['Practitioner'],
+    auditRequired: true,
+  },
+
+  supersedeKey(command) {
+    return `Observation/${command.observationId}`;
+  },
+
+  async prepare(_medplum, command) {
+    // Create a flag/alert for the abnormal result
+    const flag = createEntry<Flag>({
+      resourceType: 'Flag',
+      status: 'active',
+      category: [
+        {
+          coding: [
+            {
+              system: 'http://terminology.hl7.org/CodeSystem/flag-category',
+              code: 'clinical',
+              display: 'Clinical',
+            },
+          ],
+        },
+      ],
+      code: {
+        text: `AI Alert: ${command.interpretation}`,
+      },
+      subject: { reference: `Patient/${command.patientId}` },
+      period: { start: new Date().toISOString() },
+    });
+
+    return {
+      success: true,
+      message: 'Created abnormal result flag',
+      entries: [flag],
+      target: flag.fullUrl,
+    };
+  },
+};
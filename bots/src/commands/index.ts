@@ -0,0 +1,50 @@
+/**
+ * AI Commands
+ *
+ * Registers the built-in command types. Import from here (rather than
+ * './registry') so the built-ins are registered before first use.
+ *
+ * To add a command type: add its interface to the AICommand union in
+ * types/ai-command-types.ts, write a CommandDefinition next to these,
+ * and register it below.
+ */
+
+import { registerCommand } from './registry';
+import { createEncounterNoteDraftCommand } from './create-encounter-note-draft';
+import { proposeProblemListUpdateCommand } from './propose-problem-list-update';
+import { proposeAllergyIntoleranceUpdateCommand } from './propose-allergy-intolerance-update';
+import { suggestBillingCodesCommand } from './suggest-billing-codes';
+import { queueReferralLetterCommand } from './queue-referral-letter';
+import { proposeServiceRequestCommand } from './propose-service-request';
+import { proposeImmunizationRecommendationCommand } from './propose-immunization-recommendation';
+import { proposeCarePlanCommand } from './propose-care-plan';
+import { flagAbnormalResultCommand } from './flag-abnormal-result';
+import { suggestMedicationChangeCommand } from './suggest-medication-change';
+import { summarizePatientHistoryCommand } from './summarize-patient-history';
+
+registerCommand(createEncounterNoteDraftCommand);
+registerCommand(proposeProblemListUpdateCommand);
+registerCommand(proposeAllergyIntoleranceUpdateCommand);
+registerCommand(suggestBillingCodesCommand);
+registerCommand(queueReferralLetterCommand);
+registerCommand(proposeServiceRequestCommand);
+registerCommand(proposeImmunizationRecommendationCommand);
+registerCommand(proposeCarePlanCommand);
+registerCommand(flagAbnormalResultCommand);
+registerCommand(suggestMedicationChangeCommand);
+registerCommand(summarizePatientHistoryCommand);
+
+export {
+  CommandDefinition,
+  ExecutionResult,
+  ExecutionTarget,
+  executeCommand,
+  getCommandDefinition,
+  getDefaultApprovalRules,
+  getExecutionActivity,
+  getProvenanceSources,
+  getRegisteredCommands,
+  PreparedExecution,
+  registerCommand,
+} from './registry';
+export { CommandSchema, FieldSchema } from './schema';
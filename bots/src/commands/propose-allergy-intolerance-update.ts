@@ -0,0 +1,154 @@
+/**
+ * ProposeAllergyIntoleranceUpdate
+ *
+ * Records a new AllergyIntolerance, or refutes/updates an existing one with
+ * a version-aware update. Provenance links back to the source document the
+ * allergy was extracted from.
+ */
+
+import { AllergyIntolerance } from '@medplum/fhirtypes';
+import { ProposeAllergyIntoleranceUpdate } from '../types/ai-command-types';
+import { createEntry, updateEntry } from '../services/fhir-transaction';
+import {
+  ALLERGY_CLINICAL_STATUS_SYSTEM,
+  ALLERGY_VERIFICATION_STATUS_SYSTEM,
+  applyAllergyUpdate,
+  buildReactions,
+  findTargetAllergy,
+  hasAllergyChanges,
+} from '../services/allergy-list';
+import { CommandDefinition } from './registry';
+import { codedConcept, optionalString, requiredString } from './schema';
+
+export const proposeAllergyIntoleranceUpdateCommand: CommandDefinition<ProposeAllergyIntoleranceUpdate> = {
+  command: 'ProposeAllergyIntoleranceUpdate',
+
+  schema: {
+    patientId: requiredString,
+    action: { type: 'string', enum: ['add', 'refute', 'update'] },
+    allergyIntoleranceId: optionalString,
+    substance: codedConcept,
+    type: { type: 'string', optional: true, enum: ['allergy', 'intolerance'] },
+    category: {
+      type: 'array',
+      optional: true,
+      items: { type: 'string', enum: ['food', 'medication', 'environment', 'biologic'] },
+    },
+    criticality: { type: 'string', optional: true, enum: ['low', 'high', 'unable-to-assess'] },
+    clinicalStatus: { type: 'string', optional: true, enum: ['active', 'inactive', 'resolved'] },
+    verificationStatus: { type: 'string', optional: true, enum: ['unconfirmed', 'confirmed', 'refuted'] },
+    reactions: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        fields: {
+          manifestations: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              fields: { code: optionalString, system: optionalString, display: requiredString },
+            },
+          },
+          severity: { type: 'string', optional: true, enum: ['mild', 'moderate', 'severe'] },
+          description: optionalString,
+          onset: optionalString,
+        },
+      },
+    },
+    onsetDate: optionalString,
+    note: optionalString,
+    sourceDocumentId: optionalString,
+  },
+
+  defaultRule: {
+    requiresApproval: true,
+    approverRoles: ['Practitioner', 'Nurse'],
+    timeout: '24h',
+    auditRequired: true,
+  },
+
+  activity(command) {
+    return command.action === 'add' ? 'CREATE' : 'UPDATE';
+  },
+
+  sources(command) {
+    return command.sourceDocumentId ? [`DocumentReference/${command.sourceDocumentId}`] : [];
+  },
+
+  supersedeKey(command) {
+    return `${command.action}|${command.substance.system}|${command.substance.code}`;
+  },
+
+  targetFields(command) {
+    return command.action === 'add' || command.allergyIntoleranceId ? [] : ['substance.system', 'substance.code'];
+  },
+
+  async prepare(medplum, command) {
+    if (command.action === 'add') {
+      const allergy = createEntry<AllergyIntolerance>({
+        resourceType: 'AllergyIntolerance',
+        clinicalStatus: {
+          coding: [{ system: ALLERGY_CLINICAL_STATUS_SYSTEM, code: command.clinicalStatus || 'active' }],
+        },
+        verificationStatus: {
+          coding: [{ system: ALLERGY_VERIFICATION_STATUS_SYSTEM, code: command.verificationStatus || 'unconfirmed' }],
+        },
+        type: command.type,
+        category: command.category,
+        criticality: command.criticality,
+        code: {
+          coding: [
+            {
+              system: command.substance.system,
+              code: command.substance.code,
+              display: command.substance.display,
+            },
+          ],
+          text: command.substance.display,
+        },
+        patient: { reference: `Patient/${command.patientId}` },
+        onsetDateTime: command.onsetDate,
+        recordedDate: new Date().toISOString(),
+        reaction: buildReactions(command),
+        note: command.note ? [{ text: command.note }] : undefined,
+      });
+
+      return {
+        success: true,
+        message: 'Added allergy',
+        entries: [allergy],
+        target: allergy.fullUrl,
+      };
+    }
+
+    if (command.action === 'update' && !hasAllergyChanges(command)) {
+      return {
+        success: false,
+        message:
+          'Update action requires clinicalStatus, verificationStatus, criticality, type, category, reactions or note',
+      };
+    }
+
+    const target = await findTargetAllergy(medplum, command);
+    if (!target.allergy) {
+      return {
+        success: false,
+        message: target.error || 'Target allergy not found',
+      };
+    }
+
+    const existing = target.allergy;
+    // The If-Match precondition fails the transaction if the target changed since it was read
+    const update = updateEntry<AllergyIntolerance>(applyAllergyUpdate(existing, command));
+
+    return {
+      success: true,
+      message: `${command.action === 'refute' ? 'Refuted' : 'Updated'} allergy`,
+      entries: [update],
+      target: update.fullUrl,
+      failureMessage: `Failed to ${command.action} allergy ${existing.id} (it may have changed since approval)`,
+    };
+  },
+};
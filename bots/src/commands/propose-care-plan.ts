@@ -0,0 +1,205 @@
+/**
+ * ProposeCarePlan
+ *
+ * Creates a draft CarePlan with its Goals and planned ServiceRequests and
+ * MedicationRequests in the command's transaction, so the plan is either
+ * written in full or not at all. The CarePlan references the other new
+ * resources through their urn:uuid placeholders.
+ */
+
+import {
+  CarePlan,
+  Condition,
+  Encounter,
+  Goal,
+  MedicationRequest,
+  Patient,
+  Reference,
+  ServiceRequest,
+} from '@medplum/fhirtypes';
+import { ProposeCarePlan } from '../types/ai-command-types';
+import { createEntry } from '../services/fhir-transaction';
+import { CommandDefinition } from './registry';
+import { codedConcept, optionalString, optionalStringList, requiredString } from './schema';
+
+type Activity = ProposeCarePlan['activities'][number];
+type GoalProposal = ProposeCarePlan['goals'][number];
+
+export const proposeCarePlanCommand: CommandDefinition<ProposeCarePlan> = {
+  command: 'ProposeCarePlan',
+
+  schema: {
+    patientId: requiredString,
+    encounterId: optionalString,
+    title: requiredString,
+    description: optionalString,
+    addressesConditionIds: optionalStringList,
+    period: {
+      type: 'object',
+      optional: true,
+      fields: { start: optionalString, end: optionalString },
+    },
+    goals: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          description: requiredString,
+          measure: { ...codedConcept, optional: true },
+          target: {
+            type: 'object',
+            optional: true,
+            fields: {
+              comparator: { type: 'string', optional: true, enum: ['<', '<=', '>=', '>'] },
+              value: { type: 'number' },
+              unit: requiredString,
+            },
+          },
+          dueDate: optionalString,
+          priority: { type: 'string', optional: true, enum: ['high-priority', 'medium-priority', 'low-priority'] },
+        },
+      },
+    },
+    activities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          kind: { type: 'string', enum: ['ServiceRequest', 'MedicationRequest'] },
+          code: codedConcept,
+          description: optionalString,
+          dosage: optionalString,
+          priority: { type: 'string', optional: true, enum: ['routine', 'urgent', 'asap', 'stat'] },
+        },
+      },
+    },
+  },
+
+  defaultRule: {
+    requiresApproval: true,
+    approverRoles: ['Practitioner'],
+    timeout: '48h',
+    auditRequired: true,
+  },
+
+  async prepare(_medplum, command) {
+    if (command.goals.length === 0 && command.activities.length === 0) {
+      return { success: false, message: 'Care plan must include at least one goal or activity' };
+    }
+
+    const subject: Reference<Patient> = { reference: `Patient/${command.patientId}` };
+    const encounter: Reference<Encounter> | undefined = command.encounterId
+      ? { reference: `Encounter/${command.encounterId}` }
+      : undefined;
+    const addresses = command.addressesConditionIds?.map(
+      (id): Reference<Condition> => ({ reference: `Condition/${id}` })
+    );
+
+    const goalEntries = command.goals.map((goal) => createEntry(buildGoal(goal, subject, addresses)));
+    const activityEntries = command.activities.map((activity) =>
+      createEntry(buildActivity(activity, subject, encounter, addresses))
+    );
+
+    const carePlan: CarePlan = {
+      resourceType: 'CarePlan',
+      status: 'draft',
+      intent: 'plan',
+      title: command.title,
+      description: command.description,
+      subject,
+      encounter,
+      period: command.period,
+      created: new Date().toISOString(),
+      addresses,
+      goal: goalEntries.map((entry) => ({ reference: entry.fullUrl })),
+      activity: activityEntries.map((entry) => ({ reference: { reference: entry.fullUrl } })),
+    };
+    const carePlanEntry = createEntry(carePlan);
+
+    return {
+      success: true,
+      message: `Created care plan draft with ${goalEntries.length} goal(s) and ${activityEntries.length} activity(ies)`,
+      entries: [...goalEntries, ...activityEntries, carePlanEntry],
+      target: carePlanEntry.fullUrl,
+    };
+  },
+};
+
+function buildGoal(
+  goal: GoalProposal,
+  subject: Reference<Patient>,
+  addresses: Reference<Condition>[] | undefined
+): Goal {
+  const { target } = goal;
+  const quantity = target ? { value: target.value, unit: target.unit, comparator: target.comparator } : undefined;
+
+  return {
+    resourceType: 'Goal',
+    lifecycleStatus: 'proposed',
+    description: { text: goal.description },
+    subject,
+    priority: goal.priority
+      ? {
+          coding: [{ system: 'http://terminology.hl7.org/CodeSystem/goal-priority', code: goal.priority }],
+        }
+      : undefined,
+    target:
+      goal.measure || quantity || goal.dueDate
+        ? [
+            {
+              measure: goal.measure
+                ? {
+                    coding: [{ system: goal.measure.system, code: goal.measure.code, display: goal.measure.display }],
+                    text: goal.measure.display,
+                  }
+                : undefined,
+              detailQuantity: quantity,
+              dueDate: goal.dueDate,
+            },
+          ]
+        : undefined,
+    addresses,
+  };
+}
+
+function buildActivity(
+  activity: Activity,
+  subject: Reference<Patient>,
+  encounter: Reference<Encounter> | undefined,
+  addresses: Reference<Condition>[] | undefined
+): ServiceRequest | MedicationRequest {
+  const code = {
+    coding: [{ system: activity.code.system, code: activity.code.code, display: activity.code.display }],
+    text: activity.code.display,
+  };
+  const note = activity.description ? [{ text: activity.description }] : undefined;
+
+  if (activity.kind === 'MedicationRequest') {
+    return {
+      resourceType: 'MedicationRequest',
+      status: 'draft',
+      intent: 'plan',
+      priority: activity.priority,
+      medicationCodeableConcept: code,
+      subject,
+      encounter,
+      authoredOn: new Date().toISOString(),
+      dosageInstruction: activity.dosage ? [{ text: activity.dosage }] : undefined,
+      reasonReference: addresses,
+      note,
+    };
+  }
+
+  return {
+    resourceType: 'ServiceRequest',
+    status: 'draft',
+    intent: 'plan',
+    priority: activity.priority,
+    code,
+    subject,
+    encounter,
+    authoredOn: new Date().toISOString(),
+    reasonReference: addresses,
+    note,
+  };
+}
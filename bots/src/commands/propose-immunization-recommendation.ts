@@ -0,0 +1,107 @@
+/**
+ * ProposeImmunizationRecommendation
+ *
+ * Records forecast vaccinations as an ImmunizationRecommendation.
+ */
+
+import { ImmunizationRecommendation, ImmunizationRecommendationRecommendation } from '@medplum/fhirtypes';
+import { ProposeImmunizationRecommendation } from '../types/ai-command-types';
+import { createEntry } from '../services/fhir-transaction';
+import { CommandDefinition } from './registry';
+import { codedConcept, optionalString, optionalStringList, requiredString } from './schema';
+
+const FORECAST_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/immunization-recommendation-status';
+const LOINC_SYSTEM = 'http://loinc.org';
+
+export const proposeImmunizationRecommendationCommand: CommandDefinition<ProposeImmunizationRecommendation> = {
+  command: 'ProposeImmunizationRecommendation',
+
+  schema: {
+    patientId: requiredString,
+    recommendations: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        fields: {
+          vaccineCode: codedConcept,
+          targetDisease: { ...codedConcept, optional: true },
+          forecastStatus: { type: 'string', enum: ['due', 'overdue', 'immune', 'contraindicated', 'complete'] },
+          dueDate: optionalString,
+          overdueDate: optionalString,
+          doseNumber: { type: 'number', optional: true, min: 1 },
+          seriesDoses: { type: 'number', optional: true, min: 1 },
+          series: optionalString,
+          description: optionalString,
+          supportingImmunizationIds: optionalStringList,
+        },
+      },
+    },
+  },
+
+  defaultRule: {
+    requiresApproval: true,
+    approverRoles: ['Practitioner', 'Nurse'],
+    timeout: '7d',
+    auditRequired: true,
+  },
+
+  async prepare(_medplum, command) {
+    const recommendation = createEntry<ImmunizationRecommendation>({
+      resourceType: 'ImmunizationRecommendation',
+      patient: { reference: `Patient/${command.patientId}` },
+      date: new Date().toISOString(),
+      recommendation: command.recommendations.map(toRecommendation),
+    });
+
+    return {
+      success: true,
+      message: `Created immunization recommendation with ${command.recommendations.length} vaccine(s)`,
+      entries: [recommendation],
+      target: recommendation.fullUrl,
+    };
+  },
+};
+
+type Recommendation = ProposeImmunizationRecommendation['recommendations'][number];
+
+/**
+ * Convert a command recommendation to ImmunizationRecommendation.recommendation
+ */
+function toRecommendation(r: Recommendation): ImmunizationRecommendationRecommendation {
+  const dateCriterion: ImmunizationRecommendationRecommendation['dateCriterion'] = [];
+  if (r.dueDate) {
+    dateCriterion.push({
+      code: { coding: [{ system: LOINC_SYSTEM, code: '30980-7', display: 'Date vaccine due' }] },
+      value: r.dueDate,
+    });
+  }
+  if (r.overdueDate) {
+    dateCriterion.push({
+      code: { coding: [{ system: LOINC_SYSTEM, code: '59778-1', display: 'Date when overdue for immunization' }] },
+      value: r.overdueDate,
+    });
+  }
+
+  return {
+    vaccineCode: [
+      {
+        coding: [{ system: r.vaccineCode.system, code: r.vaccineCode.code, display: r.vaccineCode.display }],
+        text: r.vaccineCode.display,
+      },
+    ],
+    targetDisease: r.targetDisease
+      ? {
+          coding: [{ system: r.targetDisease.system, code: r.targetDisease.code, display: r.targetDisease.display }],
+          text: r.targetDisease.display,
+        }
+      : undefined,
+    forecastStatus: { coding: [{ system: FORECAST_STATUS_SYSTEM, code: r.forecastStatus }] },
+    dateCriterion: dateCriterion.length > 0 ? dateCriterion : undefined,
+    doseNumberPositiveInt: r.doseNumber,
+    seriesDosesPositiveInt: r.seriesDoses,
+    series: r.series,
+    description: r.description,
+    supportingImmunization: r.supportingImmunizationIds?.map((id) => ({ reference: `Immunization/${id}` })),
+  };
+}
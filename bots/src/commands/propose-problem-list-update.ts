@@ -0,0 +1,143 @@
+/**
+ * ProposeProblemListUpdate
+ *
+ * Adds a Condition to the problem list, or resolves/updates an existing one
+ * with a version-aware update. An update targeting a conditionId can refine
+ * the Condition's code.
+ */
+
+import { Condition } from '@medplum/fhirtypes';
+import { ProposeProblemListUpdate } from '../types/ai-command-types';
+import { createEntry, updateEntry } from '../services/fhir-transaction';
+import { applyProblemListUpdate, findTargetCondition, hasProblemListChanges } from '../services/problem-list';
+import { CommandDefinition } from './registry';
+import { optionalString, requiredString } from './schema';
+
+const UPDATE_REQUIRES_CHANGES =
+  'Update action requires clinicalStatus, verificationStatus, severity, abatementDate or a refined code';
+
+export const proposeProblemListUpdateCommand: CommandDefinition<ProposeProblemListUpdate> = {
+  command: 'ProposeProblemListUpdate',
+
+  schema: {
+    patientId: requiredString,
+    action: { type: 'string', enum: ['add', 'resolve', 'update'] },
+    conditionId: optionalString,
+    condition: {
+      type: 'object',
+      fields: {
+        code: requiredString,
+        system: requiredString,
+        display: requiredString,
+        verificationStatus: optionalString,
+      },
+    },
+    clinicalStatus: {
+      type: 'string',
+      optional: true,
+      enum: ['active', 'recurrence', 'relapse', 'inactive', 'remission', 'resolved'],
+    },
+    verificationStatus: {
+      type: 'string',
+      optional: true,
+      enum: ['unconfirmed', 'provisional', 'differential', 'confirmed'],
+    },
+    severity: { type: 'string', optional: true, enum: ['mild', 'moderate', 'severe'] },
+    onsetDate: optionalString,
+    abatementDate: optionalString,
+  },
+
+  defaultRule: {
+    requiresApproval: (cmd) => {
+      const c = cmd as ProposeProblemListUpdate;
+      return c.action !== 'add' || c.confidence < 0.9;
+    },
+    approverRoles: ['Practitioner'],
+    timeout: '48h',
+    auditRequired: true,
+  },
+
+  activity(command) {
+    return command.action === 'add' ? 'CREATE' : 'UPDATE';
+  },
+
+  supersedeKey(command) {
+    return `${command.action}|${command.condition.system}|${command.condition.code}`;
+  },
+
+  targetFields(command) {
+    return command.action === 'add' || command.conditionId ? [] : ['condition.system', 'condition.code'];
+  },
+
+  async prepare(medplum, command) {
+    if (command.action === 'add') {
+      const condition = createEntry<Condition>({
+        resourceType: 'Condition',
+        clinicalStatus: {
+          coding: [
+            {
+              system: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
+              code: command.clinicalStatus || 'active',
+            },
+          ],
+        },
+        verificationStatus: {
+          coding: [
+            {
+              system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status',
+              code: command.verificationStatus || 'confirmed',
+            },
+          ],
+        },
+        code: {
+          coding: [
+            {
+              system: command.condition.system,
+              code: command.condition.code,
+              display: command.condition.display,
+            },
+          ],
+          text: command.condition.display,
+        },
+        subject: { reference: `Patient/${command.patientId}` },
+        onsetDateTime: command.onsetDate,
+      });
+
+      return {
+        success: true,
+        message: 'Added condition',
+        entries: [condition],
+        target: condition.fullUrl,
+      };
+    }
+
+    // Without a conditionId the target is matched by code, so the code cannot change
+    if (command.action === 'update' && !command.conditionId && !hasProblemListChanges(command)) {
+      return { success: false, message: UPDATE_REQUIRES_CHANGES };
+    }
+
+    const target = await findTargetCondition(medplum, command);
+    if (!target.condition) {
+      return {
+        success: false,
+        message: target.error || 'Target condition not found',
+      };
+    }
+
+    const existing = target.condition;
+    if (command.action === 'update' && !hasProblemListChanges(command, existing)) {
+      return { success: false, message: UPDATE_REQUIRES_CHANGES };
+    }
+
+    // The If-Match precondition fails the transaction if the target changed since it was read
+    const update = updateEntry<Condition>(applyProblemListUpdate(existing, command));
+
+    return {
+      success: true,
+      message: `${command.action === 'resolve' ? 'Resolved' : 'Updated'} condition`,
+      entries: [update],
+      target: update.fullUrl,
+      failureMessage: `Failed to ${command.action} condition ${existing.id} (it may have changed since approval)`,
+    };
+  },
+};
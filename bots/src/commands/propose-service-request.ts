@@ -0,0 +1,79 @@
+/**
+ * ProposeServiceRequest
+ *
+ * Creates a draft lab, imaging or screening ServiceRequest.
+ */
+
+import { Coding, ServiceRequest } from '@medplum/fhirtypes';
+import { ProposeServiceRequest } from '../types/ai-command-types';
+import { createEntry } from '../services/fhir-transaction';
+import { CommandDefinition } from './registry';
+import { codedConcept, optionalString, optionalStringList, requiredString } from './schema';
+
+// SNOMED CT codes for ServiceRequest.category
+const CATEGORY_CODES: Record<ProposeServiceRequest['category'], Coding> = {
+  laboratory: { system: 'http://snomed.info/sct', code: '108252007', display: 'Laboratory procedure' },
+  imaging: { system: 'http://snomed.info/sct', code: '363679005', display: 'Imaging' },
+  screening: { system: 'http://snomed.info/sct', code: '20135006', display: 'Screening procedure' },
+};
+
+export const proposeServiceRequestCommand: CommandDefinition<ProposeServiceRequest> = {
+  command: 'ProposeServiceRequest',
+
+  schema: {
+    patientId: requiredString,
+    encounterId: optionalString,
+    category: { type: 'string', enum: ['laboratory', 'imaging', 'screening'] },
+    code: codedConcept,
+    priority: { type: 'string', enum: ['routine', 'urgent', 'asap', 'stat'] },
+    reasonReference: optionalStringList,
+    reasonText: optionalString,
+    occurrenceDate: optionalString,
+    note: optionalString,
+  },
+
+  defaultRule: {
+    requiresApproval: true,
+    approverRoles: ['Practitioner'],
+    timeout: '48h',
+    auditRequired: true,
+  },
+
+  supersedeKey(command) {
+    return `${command.code.system}|${command.code.code}`;
+  },
+
+  async prepare(_medplum, command) {
+    const serviceRequest = createEntry<ServiceRequest>({
+      resourceType: 'ServiceRequest',
+      status: 'draft',
+      intent: 'proposal',
+      category: [{ coding: [CATEGORY_CODES[command.category]], text: command.category }],
+      priority: command.priority,
+      code: {
+        coding: [
+          {
+            system: command.code.system,
+            code: command.code.code,
+            display: command.code.display,
+          },
+        ],
+        text: command.code.display,
+      },
+      subject: { reference: `Patient/${command.patientId}` },
+      encounter: command.encounterId ? { reference: `Encounter/${command.encounterId}` } : undefined,
+      occurrenceDateTime: command.occurrenceDate,
+      authoredOn: new Date().toISOString(),
+      reasonCode: command.reasonText ? [{ text: command.reasonText }] : undefined,
+      reasonReference: command.reasonReference?.map((reference) => ({ reference })),
+      note: command.note ? [{ text: command.note }] : undefined,
+    });
+
+    return {
+      success: true,
+      message: 'Created service request draft',
+      entries: [serviceRequest],
+      target: serviceRequest.fullUrl,
+    };
+  },
+};
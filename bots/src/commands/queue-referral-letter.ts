@@ -0,0 +1,62 @@
+/**
+ * QueueReferralLetter
+ *
+ * Creates a draft referral ServiceRequest.
+ */
+
+import { ServiceRequest } from '@medplum/fhirtypes';
+import { QueueReferralLetter } from '../types/ai-command-types';
+import { createEntry } from '../services/fhir-transaction';
+import { CommandDefinition } from './registry';
+import { optionalString, optionalStringList, requiredString } from './schema';
+
+export const queueReferralLetterCommand: CommandDefinition<QueueReferralLetter> = {
+  command: 'QueueReferralLetter',
+
+  schema: {
+    patientId: requiredString,
+    referringPractitionerId: requiredString,
+    recipientPractitionerId: optionalString,
+    specialty: requiredString,
+    urgency: { type: 'string', enum: ['routine', 'urgent', 'emergent'] },
+    reasonForReferral: requiredString,
+    clinicalSummary: requiredString,
+    specificQuestions: optionalStringList,
+  },
+
+  defaultRule: {
+    requiresApproval: true,
+    approverRoles: ['Practitioner'],
+    timeout: '48h',
+    auditRequired: true,
+  },
+
+  async prepare(_medplum, command) {
+    const serviceRequest = createEntry<ServiceRequest>({
+      resourceType: 'ServiceRequest',
+      status: 'draft',
+      intent: 'proposal',
+      priority: command.urgency === 'emergent' ? 'stat' : command.urgency === 'urgent' ? 'urgent' : 'routine',
+      code: {
+        text: `Referral to ${command.specialty}`,
+      },
+      subject: { reference: `Patient/${command.patientId}` },
+      requester: { reference: command.referringPractitionerId },
+      performer: command.recipientPractitionerId
+        ? [{ reference: command.recipientPractitionerId }]
+        : undefined,
+      reasonCode: [{ text: command.reasonForReferral }],
+      note: [
+        { text: command.clinicalSummary },
+        ...(command.specificQuestions?.map((q) => ({ text: `Question: ${q}` })) || []),
+      ],
+    });
+
+    return {
+      success: true,
+      message: 'Created referral request',
+      entries: [serviceRequest],
+      target: serviceRequest.fullUrl,
+    };
+  },
+};
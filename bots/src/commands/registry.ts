@@ -0,0 +1,241 @@
+/**
+ * AI Command Registry
+ *
+ * Each AI command type registers a definition with its validator schema,
+ * default approval rule, FHIR writes and Provenance/audit mapping. The
+ * command processor and approval queue bots dispatch through the registry,
+ * so adding a command type means adding a definition rather than editing
+ * each bot.
+ *
+ * Definitions prepare their writes as transaction entries rather than
+ * writing directly; executeCommand commits them in one transaction with the
+ * caller's related records (Provenance, Task status), so a failure leaves
+ * nothing behind.
+ *
+ * Commands carrying a commandId execute at most once: the resources they
+ * create are stamped with it and created conditionally, and a command whose
+ * resource already exists returns that resource without writing anything.
+ * The caller's related creates (Provenance, notifications) are conditional
+ * too, so a concurrent execution cannot write them twice.
+ */
+
+import { MedplumClient } from '@medplum/core';
+import { BundleEntry, Resource } from '@medplum/fhirtypes';
+import { AICommand, ApprovalRule } from '../types/ai-command-types';
+import {
+  executeTransaction,
+  findByCommandIdentifier,
+  getCommittedReference,
+  withCommandIdentifier,
+  withCommandProvenance,
+} from '../services/fhir-transaction';
+import { CommandSchema } from './schema';
+
+export interface ExecutionResult {
+  success: boolean;
+  message: string;
+  resourceId?: string; // e.g. 'DocumentReference/123' or a versioned 'Condition/123/_history/2'
+  retryable?: boolean; // The transaction was rolled back, so executing again is safe
+  alreadyExecuted?: boolean; // An earlier execution of the same commandId wrote resourceId
+}
+
+export interface PreparedExecution {
+  success: boolean;
+  message: string; // e.g. 'Created encounter note'; the committed id is appended
+  entries?: BundleEntry[]; // Transaction entries, cross-referenced by fullUrl
+  target?: string; // fullUrl of the entry for the resource the command produces or updates
+  failureMessage?: string; // Prefix for a rejected transaction, e.g. why an update may conflict
+}
+
+// The resource a command writes, for records committed alongside it
+export interface ExecutionTarget {
+  reference: string; // urn:uuid placeholder for a create, or 'Type/id' for an update
+  revision?: string; // 'Type/id/_history/v' of the version an update replaces
+  references: string[]; // Every resource the command writes, the target first (e.g. a CarePlan and its Goals)
+}
+
+export interface CommandDefinition<T extends AICommand = AICommand> {
+  command: T['command'];
+  schema: CommandSchema; // Fields beyond AICommandBase
+  defaultRule: ApprovalRule;
+  // Read what the command needs and build its writes; nothing is written yet
+  prepare(medplum: MedplumClient, command: T): Promise<PreparedExecution>;
+  // Provenance activity (and AuditEvent action) for an execution; defaults to CREATE
+  activity?(command: T): 'CREATE' | 'UPDATE';
+  // Records the command was derived from (e.g. 'DocumentReference/123'), linked as Provenance sources
+  sources?(command: T): string[];
+  // What the command proposes to change (e.g. a Condition code); a newer pending
+  // command for the patient with the same key supersedes the older one
+  supersedeKey?(command: T): string;
+  // Fields that find the existing record the command changes (e.g. a Condition
+  // code matched when there is no conditionId); a clinician edit may not change them
+  targetFields?(command: T): string[];
+}
+
+const definitions = new Map<string, CommandDefinition>();
+
+/**
+ * Register a command type, replacing any existing definition
+ */
+export function registerCommand<T extends AICommand>(definition: CommandDefinition<T>): void {
+  definitions.set(definition.command, definition as unknown as CommandDefinition);
+}
+
+/**
+ * Get the definition for a command type
+ */
+export function getCommandDefinition(commandType: string): CommandDefinition | undefined {
+  return definitions.get(commandType);
+}
+
+/**
+ * List registered command types
+ */
+export function getRegisteredCommands(): string[] {
+  return [...definitions.keys()];
+}
+
+/**
+ * Get the default approval rule of every registered command type
+ */
+export function getDefaultApprovalRules(): Record<string, ApprovalRule> {
+  const rules: Record<string, ApprovalRule> = {};
+  for (const [commandType, definition] of definitions) {
+    rules[commandType] = definition.defaultRule;
+  }
+  return rules;
+}
+
+/**
+ * Execute a command in a single transaction, together with any related
+ * entries the caller builds for the resource it writes
+ */
+export async function executeCommand(
+  medplum: MedplumClient,
+  command: AICommand,
+  related?: (target: ExecutionTarget) => BundleEntry[]
+): Promise<ExecutionResult> {
+  const definition = definitions.get(command.command);
+  if (!definition) {
+    return {
+      success: false,
+      message: `Unknown command type: ${command.command}`,
+    };
+  }
+
+  const prepared = await definition.prepare(medplum, command);
+  const targetEntry = prepared.entries?.find((entry) => entry.fullUrl === prepared.target);
+  if (!prepared.success || !prepared.entries || !targetEntry) {
+    return {
+      success: false,
+      message: prepared.message,
+    };
+  }
+
+  const { commandId } = command;
+  const existing = await findExecutedResource(medplum, command, targetEntry);
+  if (existing) {
+    return alreadyExecuted(existing);
+  }
+
+  const commandEntries = commandId
+    ? prepared.entries.map((entry, i) =>
+        withCommandIdentifier(entry, entry === targetEntry ? commandId : `${commandId}-${i}`)
+      )
+    : prepared.entries;
+  const commandTarget = commandEntries[prepared.entries.indexOf(targetEntry)];
+
+  const ifMatch = commandTarget.request?.ifMatch?.match(/^W\/"(.+)"$/);
+  const target: ExecutionTarget = {
+    reference: commandTarget.fullUrl as string,
+    revision: ifMatch ? `${commandTarget.fullUrl}/_history/${ifMatch[1]}` : undefined,
+    references: [commandTarget, ...commandEntries.filter((entry) => entry !== commandTarget)].map(
+      (entry) => entry.fullUrl as string
+    ),
+  };
+  // The related creates are conditional too: a concurrent execution of the same
+  // command that gets past the check above finds them already written
+  const relatedEntries = (related?.(target) || []).map((entry, i) =>
+    !commandId
+      ? entry
+      : entry.resource?.resourceType === 'Provenance'
+      ? withCommandProvenance(entry, commandId)
+      : withCommandIdentifier(entry, `${commandId}-${commandEntries.length + i}`)
+  );
+  const entries = [...commandEntries, ...relatedEntries];
+
+  try {
+    const results = await executeTransaction(medplum, entries);
+    const index = entries.indexOf(commandTarget);
+    const resourceId = getCommittedReference(commandTarget, results[index]);
+
+    // A conditional create that matched returns 200 rather than 201
+    if (commandId && commandTarget.request?.method === 'POST' && results[index].response?.status?.startsWith('200')) {
+      return {
+        success: true,
+        message: `Command already executed: ${resourceId.split('/')[1]}`,
+        resourceId,
+        alreadyExecuted: true,
+      };
+    }
+
+    return {
+      success: true,
+      message: `${prepared.message}: ${resourceId.split('/')[1]}`,
+      resourceId,
+    };
+  } catch (error) {
+    // A concurrent execution may have committed first and failed an If-Match here
+    const executed = await findExecutedResource(medplum, command, targetEntry).catch(() => undefined);
+    if (executed) {
+      return alreadyExecuted(executed);
+    }
+
+    return {
+      success: false,
+      message: `${prepared.failureMessage || 'Transaction failed; no changes were made'}: ${error}`,
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Find the resource an earlier execution of a command created, if its target
+ * is a create stamped with the commandId
+ */
+async function findExecutedResource(
+  medplum: MedplumClient,
+  command: AICommand,
+  targetEntry: BundleEntry
+): Promise<Resource | undefined> {
+  if (!command.commandId || targetEntry.request?.method !== 'POST' || !targetEntry.resource) {
+    return undefined;
+  }
+  return findByCommandIdentifier(medplum, targetEntry.resource.resourceType, command.commandId);
+}
+
+/**
+ * Result for a command an earlier execution already wrote
+ */
+function alreadyExecuted(existing: Resource): ExecutionResult {
+  return {
+    success: true,
+    message: `Command already executed: ${existing.id}`,
+    resourceId: `${existing.resourceType}/${existing.id}`,
+    alreadyExecuted: true,
+  };
+}
+
+/**
+ * Get the Provenance activity recorded when a command executes
+ */
+export function getExecutionActivity(command: AICommand): 'CREATE' | 'UPDATE' {
+  return definitions.get(command.command)?.activity?.(command) ?? 'CREATE';
+}
+
+/**
+ * Get the references of the records a command was derived from
+ */
+export function getProvenanceSources(command: AICommand): string[] {
+  return definitions.get(command.command)?.sources?.(command) ?? [];
+}
@@ -0,0 +1,40 @@
+/**
+ * Command Field Schemas
+ *
+ * Declarative field schemas that command definitions use to describe their
+ * inputs. Checked at runtime by services/command-validation.ts.
+ */
+
+export type FieldSchema =
+  | { type: 'string'; optional?: boolean; enum?: readonly string[] }
+  | { type: 'number'; optional?: boolean; min?: number; max?: number }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'object'; optional?: boolean; fields: Record<string, FieldSchema> }
+  | { type: 'array'; optional?: boolean; items: FieldSchema; minItems?: number };
+
+// Fields of a command, keyed by property name
+export type CommandSchema = Record<string, FieldSchema>;
+
+export const optionalString: FieldSchema = { type: 'string', optional: true };
+export const requiredString: FieldSchema = { type: 'string' };
+export const stringList: FieldSchema = { type: 'array', items: requiredString };
+export const optionalStringList: FieldSchema = { ...stringList, optional: true };
+
+// A coded value such as a condition or medication
+export const codedConcept: FieldSchema = {
+  type: 'object',
+  fields: { code: requiredString, system: requiredString, display: requiredString },
+};
+
+// Fields shared by all commands (AICommandBase)
+export const BASE_COMMAND_SCHEMA: CommandSchema = {
+  command: requiredString,
+  confidence: { type: 'number', min: 0, max: 1 },
+  reasoning: optionalString,
+  requiresApproval: { type: 'boolean' },
+  createdAt: optionalString,
+  commandId: optionalString,
+  aiModel: requiredString,
+  promptTemplate: optionalString,
+  retrievalSources: optionalStringList,
+};
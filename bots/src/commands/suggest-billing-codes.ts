@@ -0,0 +1,112 @@
+/**
+ * SuggestBillingCodes
+ *
+ * Creates a draft Claim with the suggested CPT/HCPCS and ICD-10 codes. Its
+ * items reference the encounter, so later suggestions can skip codes already claimed.
+ */
+
+import { Claim } from '@medplum/fhirtypes';
+import { SuggestBillingCodes } from '../types/ai-command-types';
+import { createEntry } from '../services/fhir-transaction';
+import { CommandDefinition } from './registry';
+import { optionalString, requiredString } from './schema';
+
+export const suggestBillingCodesCommand: CommandDefinition<SuggestBillingCodes> = {
+  command: 'SuggestBillingCodes',
+
+  schema: {
+    encounterId: requiredString,
+    patientId: requiredString,
+    suggestedCodes: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        fields: {
+          code: requiredString,
+          system: { type: 'string', enum: ['CPT', 'ICD-10-CM', 'ICD-10-PCS', 'HCPCS'] },
+          display: requiredString,
+          confidence: { type: 'number', min: 0, max: 1 },
+          rationale: optionalString,
+        },
+      },
+    },
+  },
+
+  defaultRule: {
+    requiresApproval: true,
+    approverRoles: ['Practitioner', 'BillingSpecialist'],
+    timeout: '7d',
+    auditRequired: true,
+  },
+
+  supersedeKey(command) {
+    return `Encounter/${command.encounterId}`;
+  },
+
+  async prepare(_medplum, command) {
+    // Create a Claim draft with suggested codes
+    const claim = createEntry<Claim>({
+      resourceType: 'Claim',
+      status: 'draft',
+      type: {
+        coding: [
+          {
+            system: 'http://terminology.hl7.org/CodeSystem/claim-type',
+            code: 'professional',
+          },
+        ],
+      },
+      use: 'claim',
+      patient: { reference: `Patient/${command.patientId}` },
+      created: new Date().toISOString(),
+      provider: { display: 'AI Suggested' },
+      priority: { coding: [{ code: 'normal' }] },
+      insurance: [
+        {
+          sequence: 1,
+          focal: true,
+          coverage: { display: 'To be determined' },
+        },
+      ],
+      diagnosis: command.suggestedCodes
+        .filter((c) => c.system === 'ICD-10-CM')
+        .map((c, i) => ({
+          sequence: i + 1,
+          diagnosisCodeableConcept: {
+            coding: [
+              {
+                system: 'http://hl7.org/fhir/sid/icd-10-cm',
+                code: c.code,
+                display: c.display,
+              },
+            ],
+          },
+        })),
+      item: command.suggestedCodes
+        .filter((c) => c.system === 'CPT' || c.system === 'HCPCS')
+        .map((c, i) => ({
+          sequence: i + 1,
+          productOrService: {
+            coding: [
+              {
+                system: c.system === 'CPT'
+                  ? 'http://www.ama-assn.org/go/cpt'
+                  : 'https://www.cms.gov/Medicare/Coding/HCPCSReleaseCodeSets',
+                code: c.code,
+                display: c.display,
+              },
+            ],
+          },
+          encounter: [{ reference: `Encounter/${command.encounterId}` }],
+        })),
+    });
+
+    return {
+      success: true,
+      message: `Created claim draft with ${command.suggestedCodes.length} codes`,
+      entries: [claim],
+      target: claim.fullUrl,
+    };
+  },
+};
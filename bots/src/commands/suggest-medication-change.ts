@@ -0,0 +1,82 @@
+/**
+ * SuggestMedicationChange
+ *
+ * Creates a draft MedicationRequest proposal.
+ */
+
+import { MedicationRequest } from '@medplum/fhirtypes';
+import { SuggestMedicationChange } from '../types/ai-command-types';
+import { createEntry } from '../services/fhir-transaction';
+import { CommandDefinition } from './registry';
+import { codedConcept, optionalString, requiredString } from './schema';
+
+export const suggestMedicationChangeCommand: CommandDefinition<SuggestMedicationChange> = {
+  command: 'SuggestMedicationChange',
+
+  schema: {
+    patientId: requiredString,
+    currentMedicationId: optionalString,
+    action: { type: 'string', enum: ['start', 'stop', 'modify', 'substitute'] },
+    medication: codedConcept,
+    dosage: optionalString,
+    frequency: optionalString,
+    duration: optionalString,
+    rationale: requiredString,
+    interactions: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        fields: {
+          medication: requiredString,
+          severity: { type: 'string', enum: ['minor', 'moderate', 'major'] },
+          description: requiredString,
+        },
+      },
+    },
+  },
+
+  defaultRule: {
+    requiresApproval: true,
+    approverRoles: ['Practitioner', 'Pharmacist'],
+    timeout: '24h',
+    auditRequired: true,
+    dualApproval: false, // Set to true for controlled substances
+  },
+
+  async prepare(_medplum, command) {
+    const medicationRequest = createEntry<MedicationRequest>({
+      resourceType: 'MedicationRequest',
+      status: 'draft',
+      intent: 'proposal',
+      medicationCodeableConcept: {
+        coding: [
+          {
+            system: command.medication.system,
+            code: command.medication.code,
+            display: command.medication.display,
+          },
+        ],
+        text: command.medication.display,
+      },
+      subject: { reference: `Patient/${command.patientId}` },
+      dosageInstruction: command.dosage
+        ? [
+            {
+              text: `${command.dosage}${command.frequency ? ` ${command.frequency}` : ''}${
+                command.duration ? ` for ${command.duration}` : ''
+              }`,
+            },
+          ]
+        : undefined,
+      note: [{ text: `AI Rationale: ${command.rationale}` }],
+    });
+
+    return {
+      success: true,
+      message: 'Created medication request draft',
+      entries: [medicationRequest],
+      target: medicationRequest.fullUrl,
+    };
+  },
+};
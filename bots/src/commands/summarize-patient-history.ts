@@ -0,0 +1,68 @@
+/**
+ * SummarizePatientHistory
+ *
+ * Stores an AI-generated patient summary as a DocumentReference.
+ */
+
+import { DocumentReference } from '@medplum/fhirtypes';
+import { SummarizePatientHistory } from '../types/ai-command-types';
+import { createEntry } from '../services/fhir-transaction';
+import { CommandDefinition } from './registry';
+import { requiredString, stringList } from './schema';
+
+export const summarizePatientHistoryCommand: CommandDefinition<SummarizePatientHistory> = {
+  command: 'SummarizePatientHistory',
+
+  schema: {
+    patientId: requiredString,
+    summaryType: {
+      type: 'string',
+      enum: ['comprehensive', 'problem-focused', 'medication', 'surgical', 'social'],
+    },
+    timeRange: { type: 'object', optional: true, fields: { start: requiredString, end: requiredString } },
+    summary: requiredString,
+    keyFindings: stringList,
+  },
+
+  defaultRule: {
+    requiresApproval: false,
+    approverRoles: [],
+    timeout: '0',
+    auditRequired: true,
+  },
+
+  async prepare(_medplum, command) {
+    // Store summary as a DocumentReference
+    const doc = createEntry<DocumentReference>({
+      resourceType: 'DocumentReference',
+      status: 'current',
+      type: {
+        coding: [
+          {
+            system: 'http://loinc.org',
+            code: '11506-3',
+            display: 'Progress note',
+          },
+        ],
+        text: 'AI-Generated Patient Summary',
+      },
+      subject: { reference: `Patient/${command.patientId}` },
+      date: new Date().toISOString(),
+      content: [
+        {
+          attachment: {
+            contentType: 'text/plain',
+            data: Buffer.from(command.summary).toString('base64'),
+          },
+        },
+      ],
+    });
+
+    return {
+      success: true,
+      message: 'Created patient summary',
+      entries: [doc],
+      target: doc.fullUrl,
+    };
+  },
+};
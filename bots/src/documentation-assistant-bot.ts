@@ -3,6 +3,7 @@
  *
  * AI-powered clinical documentation assistance.
  * Helps generate encounter notes, discharge summaries, and referral letters.
+ * Notes with an assessment and plan also yield a proposed care plan.
  *
  * Input: { patientId: string, encounterId?: string, documentType: string, instructions?: string }
  * Output: { success: boolean, draft: string, commands: AICommand[] }
@@ -19,13 +20,16 @@ import {
   DiagnosticReport,
   AllergyIntolerance,
 } from '@medplum/fhirtypes';
-import { AICommand } from './types/ai-command-types';
+import { AICommand, ProposeCarePlan } from './types/ai-command-types';
 import {
   chatCompletion,
   splitPromptToMessages,
   config as llmConfig,
 } from './services/llm-client';
 
+const LOINC_SYSTEM = 'http://loinc.org';
+const RXNORM_SYSTEM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+
 /**
  * Sanitize user input to prevent prompt injection attacks.
  * Removes or escapes potentially malicious patterns.
@@ -118,6 +122,14 @@ export async function handler(medplum: MedplumClient, event: BotEvent): Promise<
       });
     }
 
+    // Structure the assessment and plan as a care plan for approval
+    if (result.sections.ASSESSMENT && result.sections.PLAN) {
+      const carePlan = await deriveCarePlan(input, context, result.sections, result.confidence);
+      if (carePlan) {
+        commands.push(carePlan);
+      }
+    }
+
     return {
       success: true,
       documentType: input.documentType,
@@ -741,6 +753,138 @@ async function callLLM(prompt: string): Promise<{ text: string; confidence: numb
   }
 }
 
+/**
+ * Derive a ProposeCarePlan command from the note's assessment and plan
+ */
+async function deriveCarePlan(
+  input: DocumentationInput,
+  context: DocumentationContext,
+  sections: Record<string, string>,
+  confidence: number
+): Promise<ProposeCarePlan | null> {
+  const response = await callLLM(buildCarePlanPrompt(sections.ASSESSMENT, sections.PLAN));
+  const parsed = parseCarePlan(response.text);
+  if (!parsed || (parsed.goals.length === 0 && parsed.activities.length === 0)) {
+    return null;
+  }
+
+  // Link the conditions the assessment discusses, e.g. "1. Hypertension - controlled"
+  const problems = sections.ASSESSMENT.split('\n')
+    .map((line) => line.replace(/^\s*(\d+[.)]|[-*])\s*/, '').split(/\s+-\s+|:/)[0].trim().toLowerCase())
+    .filter((problem) => problem.length >= 4);
+  const addressesConditionIds = context.conditions
+    .filter((c) => {
+      const names = [c.code?.text, ...(c.code?.coding || []).map((coding) => coding.display)]
+        .filter((name): name is string => Boolean(name))
+        .map((name) => name.toLowerCase());
+      return c.id && problems.some((problem) => names.some((name) => name.includes(problem) || problem.includes(name)));
+    })
+    .map((c) => c.id as string);
+
+  return {
+    command: 'ProposeCarePlan',
+    patientId: input.patientId,
+    encounterId: input.encounterId,
+    title: parsed.title,
+    addressesConditionIds: addressesConditionIds.length > 0 ? addressesConditionIds : undefined,
+    goals: parsed.goals,
+    activities: parsed.activities,
+    confidence,
+    requiresApproval: true,
+    aiModel: llmConfig.clinicalModel,
+    reasoning: `Care plan derived from the assessment and plan of an AI-generated ${input.documentType}`,
+  };
+}
+
+/**
+ * Build care plan extraction prompt
+ */
+function buildCarePlanPrompt(assessment: string, plan: string): string {
+  return `You are a medical documentation assistant. Convert the assessment and plan below into a structured care plan.
+
+ASSESSMENT:
+${assessment}
+
+PLAN:
+${plan}
+
+CARE PLAN EXTRACTION - respond with one item per line, using "-" for unknown fields:
+TITLE: <short care plan title>
+GOAL: <description> | <LOINC code of the measure> | <measure name> | <target, e.g. <7 %> | <due date YYYY-MM-DD>
+ORDER: <LOINC code> | <lab or test name> | <routine|urgent|asap|stat>
+MEDICATION: <RxNorm code> | <medication name> | <dosage instructions>
+
+Only include goals, orders and medications stated or clearly implied by the plan.`;
+}
+
+/**
+ * Parse the structured care plan lines from the LLM response
+ */
+function parseCarePlan(text: string): Pick<ProposeCarePlan, 'title' | 'goals' | 'activities'> | null {
+  const result: Pick<ProposeCarePlan, 'title' | 'goals' | 'activities'> = { title: '', goals: [], activities: [] };
+  const value = (field: string | undefined): string | undefined =>
+    field && field.trim() !== '-' ? field.trim() : undefined;
+
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(/^(TITLE|GOAL|ORDER|MEDICATION):\s*(.+)$/i);
+    if (!match) continue;
+
+    const fields = match[2].split('|');
+    switch (match[1].toUpperCase()) {
+      case 'TITLE':
+        result.title = match[2].trim();
+        break;
+      case 'GOAL': {
+        const [description, code, display, target, dueDate] = fields.map(value);
+        if (!description) break;
+        const targetMatch = target?.match(/^(<=|>=|<|>)?\s*(\d+(?:\.\d+)?)\s*(.+)$/);
+        result.goals.push({
+          description,
+          measure: code && display ? { code, system: LOINC_SYSTEM, display } : undefined,
+          target: targetMatch
+            ? {
+                comparator: targetMatch[1] as '<' | '<=' | '>=' | '>' | undefined,
+                value: parseFloat(targetMatch[2]),
+                unit: targetMatch[3].trim(),
+              }
+            : undefined,
+          dueDate: dueDate && /^\d{4}-\d{2}-\d{2}$/.test(dueDate) ? dueDate : undefined,
+        });
+        break;
+      }
+      case 'ORDER': {
+        const [code, display, priority] = fields.map(value);
+        if (!code || !display) break;
+        result.activities.push({
+          kind: 'ServiceRequest',
+          code: { code, system: LOINC_SYSTEM, display },
+          priority: isRequestPriority(priority) ? priority : 'routine',
+        });
+        break;
+      }
+      case 'MEDICATION': {
+        const [code, display, dosage] = fields.map(value);
+        if (!code || !display) break;
+        result.activities.push({
+          kind: 'MedicationRequest',
+          code: { code, system: RXNORM_SYSTEM, display },
+          dosage,
+        });
+        break;
+      }
+    }
+  }
+
+  if (!result.title) {
+    return null;
+  }
+  return result;
+}
+
+function isRequestPriority(priority: string | undefined): priority is 'routine' | 'urgent' | 'asap' | 'stat' {
+  return priority === 'routine' || priority === 'urgent' || priority === 'asap' || priority === 'stat';
+}
+
 /**
  * Parse sections from LLM response
  */
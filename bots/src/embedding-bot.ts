@@ -6,8 +6,15 @@
  *           ClinicalImpression, Procedure, AllergyIntolerance
  *
  * Trigger: FHIR Subscription on resource create/update
+ * Storage: the registered EmbeddingStore (pgvector clinical_embeddings table in production)
+ *
+ * An update replaces all of the resource's chunks at once; if its text and
+ * the embedding model are unchanged (same content hash) nothing is re-embedded.
+ * Resources marked entered-in-error have their embeddings removed. Deleted
+ * resources are purged by the embedding cleanup bot.
  */
 
+import { createHash } from 'crypto';
 import { BotEvent, MedplumClient } from '@medplum/core';
 import {
   Resource,
@@ -19,12 +26,14 @@ import {
   ClinicalImpression,
   Procedure,
   AllergyIntolerance,
-  Binary,
+  CodeableConcept,
 } from '@medplum/fhirtypes';
 import {
   generateEmbedding as llmGenerateEmbedding,
   config as llmConfig,
 } from './services/llm-client';
+import { EmbeddingRecord, getEmbeddingStore } from './services/embedding-store';
+import { configureDatabase } from './services/database';
 
 const CHUNK_SIZE = 500; // Characters per chunk
 const CHUNK_OVERLAP = 50; // Overlap between chunks
@@ -41,23 +50,12 @@ const EMBEDDABLE_TYPES = [
   'AllergyIntolerance',
 ];
 
-interface EmbeddingRecord {
-  fhir_resource_type: string;
-  fhir_resource_id: string;
-  content_type: string;
-  content_section?: string;
-  chunk_index: number;
-  content_text: string;
-  embedding: number[];
-  model_version: string;
-  patient_id?: string;
-}
-
 /**
  * Main bot handler
  */
 export async function handler(medplum: MedplumClient, event: BotEvent): Promise<any> {
   const resource = event.input as Resource;
+  configureDatabase(event);
 
   if (!resource || !resource.resourceType || !resource.id) {
     return { success: false, error: 'Invalid resource' };
@@ -70,13 +68,43 @@ export async function handler(medplum: MedplumClient, event: BotEvent): Promise<
   console.log(`Processing ${resource.resourceType}/${resource.id} for embedding`);
 
   try {
+    const store = getEmbeddingStore(medplum);
+
+    // Erroneous records must not be retrieved as clinical context
+    if (isEnteredInError(resource)) {
+      const removed = await store.deleteResource(resource.id);
+      console.log(`Removed ${removed} embeddings for ${resource.resourceType}/${resource.id} (entered-in-error)`);
+      return {
+        success: true,
+        resourceType: resource.resourceType,
+        resourceId: resource.id,
+        embeddingsRemoved: removed,
+        message: 'Resource entered in error; embeddings removed',
+      };
+    }
+
     // Extract text content from the resource
     const textContent = await extractTextContent(medplum, resource);
 
     if (!textContent || textContent.text.length === 0) {
+      // An update may have removed the text; drop what was embedded before
+      await store.deleteResource(resource.id);
       return { success: false, error: 'No text content to embed' };
     }
 
+    // Skip re-embedding when neither the text nor the model has changed
+    const contentHash = hashContent(textContent.text);
+    if ((await store.getContentHash(resource.id)) === contentHash) {
+      return {
+        success: true,
+        resourceType: resource.resourceType,
+        resourceId: resource.id,
+        chunksProcessed: 0,
+        embeddingsStored: 0,
+        unchanged: true,
+      };
+    }
+
     // Chunk the text if it's long
     const chunks = chunkText(textContent.text, CHUNK_SIZE, CHUNK_OVERLAP);
 
@@ -97,12 +125,26 @@ export async function handler(medplum: MedplumClient, event: BotEvent): Promise<
           embedding: embedding,
           model_version: llmConfig.embeddingModel,
           patient_id: textContent.patientId,
+          content_hash: contentHash,
         });
       }
     }
 
-    // Store embeddings in database
-    const stored = await storeEmbeddings(medplum, embeddings);
+    // Keep the earlier chunks rather than replace them with a partial set
+    if (embeddings.length < chunks.length) {
+      console.log(`Embedding failed for ${chunks.length - embeddings.length} chunk(s); existing embeddings kept`);
+      return {
+        success: true,
+        resourceType: resource.resourceType,
+        resourceId: resource.id,
+        chunksProcessed: chunks.length,
+        embeddingsStored: 0,
+        message: 'Embedding failed; existing embeddings kept',
+      };
+    }
+
+    // Replace all of the resource's chunks at once
+    const stored = await store.replaceResource(resource.id, embeddings);
 
     console.log(`Stored ${stored} embeddings for ${resource.resourceType}/${resource.id}`);
 
@@ -420,6 +462,25 @@ async function extractTextContent(
   }
 }
 
+/**
+ * Check whether a resource has been marked entered-in-error, by status or verificationStatus
+ */
+function isEnteredInError(resource: Resource): boolean {
+  const { status, verificationStatus } = resource as { status?: string; verificationStatus?: CodeableConcept };
+
+  if (status === 'entered-in-error') {
+    return true;
+  }
+  return verificationStatus?.coding?.some((c) => c.code === 'entered-in-error') ?? false;
+}
+
+/**
+ * Hash a resource's text together with the embedding model, so a model change re-embeds it
+ */
+function hashContent(text: string): string {
+  return createHash('sha256').update(`${llmConfig.embeddingModel}\n${text}`).digest('hex');
+}
+
 /**
  * Get patient ID from resource
  */
@@ -490,40 +551,4 @@ async function generateEmbedding(text: string): Promise<number[] | null> {
   }
 }
 
-/**
- * Store embeddings in PostgreSQL via direct query
- * Note: In production, use a proper database connection pool
- */
-async function storeEmbeddings(medplum: MedplumClient, embeddings: EmbeddingRecord[]): Promise<number> {
-  // For now, store as Binary resources with embedding metadata
-  // In production, you would use a direct PostgreSQL connection
-
-  let stored = 0;
-
-  for (const embedding of embeddings) {
-    try {
-      // Create a Binary resource to store the embedding
-      // This is a workaround - ideally use direct DB access
-      const binary = await medplum.createResource<Binary>({
-        resourceType: 'Binary',
-        contentType: 'application/json',
-        data: Buffer.from(
-          JSON.stringify({
-            type: 'clinical_embedding',
-            ...embedding,
-          })
-        ).toString('base64'),
-      });
-
-      if (binary.id) {
-        stored++;
-      }
-    } catch (error) {
-      console.log('Error storing embedding:', error);
-    }
-  }
-
-  return stored;
-}
-
 export default handler;
@@ -0,0 +1,54 @@
+/**
+ * Embedding Cleanup Bot
+ *
+ * Purges the embeddings of deleted resources, so their text is no longer
+ * returned by semantic search or used as RAG context.
+ *
+ * Trigger: FHIR Subscription on resource delete (the
+ * https://medplum.com/fhir/StructureDefinition/subscription-supported-interaction
+ * extension set to 'delete') for the resource types the embedding bot embeds
+ * Input: the deleted resource, or { resourceType, id }
+ * Output: { success, resourceType, resourceId, embeddingsRemoved }
+ */
+
+import { BotEvent, MedplumClient } from '@medplum/core';
+import { Resource } from '@medplum/fhirtypes';
+import { getEmbeddingStore } from './services/embedding-store';
+import { configureDatabase } from './services/database';
+
+interface CleanupOutput {
+  success: boolean;
+  resourceType?: string;
+  resourceId?: string;
+  embeddingsRemoved?: number;
+  error?: string;
+}
+
+/**
+ * Main bot handler
+ */
+export async function handler(medplum: MedplumClient, event: BotEvent): Promise<CleanupOutput> {
+  const resource = event.input as Resource;
+  configureDatabase(event);
+
+  if (!resource || !resource.resourceType || !resource.id) {
+    return { success: false, error: 'Invalid resource' };
+  }
+
+  try {
+    const removed = await getEmbeddingStore(medplum).deleteResource(resource.id);
+    console.log(`Removed ${removed} embeddings for deleted ${resource.resourceType}/${resource.id}`);
+
+    return {
+      success: true,
+      resourceType: resource.resourceType,
+      resourceId: resource.id,
+      embeddingsRemoved: removed,
+    };
+  } catch (error) {
+    console.log('Error removing embeddings:', error);
+    return { success: false, resourceType: resource.resourceType, resourceId: resource.id, error: String(error) };
+  }
+}
+
+export default handler;
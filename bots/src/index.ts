@@ -6,13 +6,18 @@
 
 // Phase 2: Embedding Pipeline
 export { handler as embeddingBot } from './embedding-bot';
+export { handler as embeddingCleanupBot } from './embedding-cleanup-bot';
 export { handler as semanticSearchBot, formatSearchResults } from './semantic-search-bot';
 export { handler as ragPipelineBot } from './rag-pipeline-bot';
 
 // Phase 3: AI Command Framework
 export * from './types/ai-command-types';
+export * from './commands';
+export { DEFAULT_SAFETY_POLICY } from './services/safety-policy';
 export { handler as commandProcessorBot } from './command-processor-bot';
 export { handler as approvalQueueBot } from './approval-queue-bot';
+export { handler as approvalExpiryBot } from './approval-expiry-bot';
+export { handler as commandRetractionBot } from './command-retraction-bot';
 
 // Phase 4: LLM Integration Bots
 export { handler as clinicalDecisionSupportBot } from './clinical-decision-support-bot';
@@ -16,9 +16,12 @@ import {
   splitPromptToMessages,
   config as llmConfig,
 } from './services/llm-client';
+import { getEmbeddingStore } from './services/embedding-store';
+import { configureDatabase } from './services/database';
 
 const MAX_CONTEXT_LENGTH = 4000;
 const TOP_K_RESULTS = 5;
+const SIMILARITY_THRESHOLD = 0.6;
 
 interface RAGInput {
   question: string;
@@ -47,6 +50,7 @@ interface RAGOutput {
  */
 export async function handler(medplum: MedplumClient, event: BotEvent): Promise<RAGOutput> {
   const input = event.input as RAGInput;
+  configureDatabase(event);
 
   if (!input?.question || !input?.patientId) {
     return {
@@ -277,60 +281,24 @@ async function semanticSearch(
       return [];
     }
 
-    // Search Binary resources for embeddings (workaround)
-    // In production, use direct PostgreSQL pgvector query
-    const binaries = await medplum.searchResources('Binary', {
-      _count: '500',
-      contenttype: 'application/json',
+    const matches = await getEmbeddingStore(medplum).search(embedding, {
+      patientId,
+      limit: TOP_K_RESULTS,
+      threshold: SIMILARITY_THRESHOLD,
     });
 
-    const results: Array<{ resourceType: string; resourceId: string; content: string; similarity: number }> = [];
-
-    for (const binary of binaries) {
-      try {
-        if (!binary.data) continue;
-        const data = JSON.parse(Buffer.from(binary.data, 'base64').toString('utf-8'));
-
-        if (data.type !== 'clinical_embedding') continue;
-        if (data.patient_id !== patientId) continue;
-
-        const similarity = cosineSimilarity(embedding, data.embedding);
-        if (similarity > 0.6) {
-          results.push({
-            resourceType: data.fhir_resource_type,
-            resourceId: data.fhir_resource_id,
-            content: data.content_text,
-            similarity,
-          });
-        }
-      } catch {
-        continue;
-      }
-    }
-
-    results.sort((a, b) => b.similarity - a.similarity);
-    return results.slice(0, TOP_K_RESULTS);
+    return matches.map((match) => ({
+      resourceType: match.resourceType,
+      resourceId: match.resourceId,
+      content: match.contentText,
+      similarity: match.similarity,
+    }));
   } catch (error) {
     console.log('Semantic search error:', error);
     return [];
   }
 }
 
-/**
- * Cosine similarity
- */
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
-  let dot = 0, normA = 0, normB = 0;
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-  const denom = Math.sqrt(normA) * Math.sqrt(normB);
-  return denom === 0 ? 0 : dot / denom;
-}
-
 /**
  * Build RAG prompt
  */
@@ -0,0 +1,152 @@
+/**
+ * Allergy List Updates
+ *
+ * Locates the AllergyIntolerance targeted by a ProposeAllergyIntoleranceUpdate
+ * refute/update command and builds the patched resource. The target is either
+ * the command's allergyIntoleranceId or the patient's AllergyIntolerance
+ * matching the command's substance code.
+ */
+
+import { MedplumClient } from '@medplum/core';
+import { AllergyIntolerance, AllergyIntoleranceReaction, CodeableConcept } from '@medplum/fhirtypes';
+import { ProposeAllergyIntoleranceUpdate } from '../types/ai-command-types';
+
+export const ALLERGY_CLINICAL_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical';
+export const ALLERGY_VERIFICATION_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/allergyintolerance-verification';
+
+export interface TargetAllergyResult {
+  allergy?: AllergyIntolerance;
+  error?: string;
+}
+
+/**
+ * Find the AllergyIntolerance a refute/update command applies to
+ */
+export async function findTargetAllergy(
+  medplum: MedplumClient,
+  command: ProposeAllergyIntoleranceUpdate
+): Promise<TargetAllergyResult> {
+  const patient = `Patient/${command.patientId}`;
+
+  if (command.allergyIntoleranceId) {
+    let allergy: AllergyIntolerance;
+    try {
+      allergy = await medplum.readResource('AllergyIntolerance', command.allergyIntoleranceId);
+    } catch (error) {
+      return { error: `AllergyIntolerance ${command.allergyIntoleranceId} not found: ${error}` };
+    }
+
+    if (allergy.patient?.reference !== patient) {
+      return { error: `AllergyIntolerance ${command.allergyIntoleranceId} does not belong to ${patient}` };
+    }
+    return { allergy };
+  }
+
+  const { system, code } = command.substance;
+  const allergies = await medplum.searchResources('AllergyIntolerance', {
+    patient,
+    code: `${system}|${code}`,
+    _count: '20',
+  });
+
+  const matches = allergies.filter(
+    (a) =>
+      a.patient?.reference === patient &&
+      a.code?.coding?.some((coding) => coding.system === system && coding.code === code) &&
+      getStatusCode(a.verificationStatus) !== 'entered-in-error' &&
+      (command.action !== 'refute' || getStatusCode(a.verificationStatus) !== 'refuted')
+  );
+
+  if (matches.length === 0) {
+    return { error: `No matching AllergyIntolerance ${system}|${code} found for ${patient}` };
+  }
+  if (matches.length > 1) {
+    return {
+      error: `Multiple AllergyIntolerances match ${system}|${code} for ${patient}; allergyIntoleranceId is required`,
+    };
+  }
+  return { allergy: matches[0] };
+}
+
+/**
+ * Check that an update command changes at least one field
+ */
+export function hasAllergyChanges(command: ProposeAllergyIntoleranceUpdate): boolean {
+  return Boolean(
+    command.clinicalStatus ||
+      command.verificationStatus ||
+      command.criticality ||
+      command.type ||
+      command.category?.length ||
+      command.reactions?.length ||
+      command.note
+  );
+}
+
+/**
+ * Convert a command's reactions to AllergyIntolerance.reaction
+ */
+export function buildReactions(command: ProposeAllergyIntoleranceUpdate): AllergyIntoleranceReaction[] | undefined {
+  if (!command.reactions || command.reactions.length === 0) {
+    return undefined;
+  }
+
+  return command.reactions.map((reaction) => ({
+    manifestation: reaction.manifestations.map(
+      (m): CodeableConcept => ({
+        coding: m.code && m.system ? [{ system: m.system, code: m.code, display: m.display }] : undefined,
+        text: m.display,
+      })
+    ),
+    severity: reaction.severity,
+    description: reaction.description,
+    onset: reaction.onset,
+  }));
+}
+
+/**
+ * Apply a refute/update command to an AllergyIntolerance.
+ * Reactions are appended, since each records a separate event.
+ */
+export function applyAllergyUpdate(
+  allergy: AllergyIntolerance,
+  command: ProposeAllergyIntoleranceUpdate
+): AllergyIntolerance {
+  const updated: AllergyIntolerance = { ...allergy };
+
+  const verificationStatus = command.action === 'refute' ? 'refuted' : command.verificationStatus;
+  if (verificationStatus) {
+    updated.verificationStatus = { coding: [{ system: ALLERGY_VERIFICATION_STATUS_SYSTEM, code: verificationStatus }] };
+  }
+
+  // A refuted allergy is no longer active unless the command says otherwise
+  const clinicalStatus = command.clinicalStatus || (command.action === 'refute' ? 'inactive' : undefined);
+  if (clinicalStatus) {
+    updated.clinicalStatus = { coding: [{ system: ALLERGY_CLINICAL_STATUS_SYSTEM, code: clinicalStatus }] };
+  }
+
+  if (command.criticality) {
+    updated.criticality = command.criticality;
+  }
+  if (command.type) {
+    updated.type = command.type;
+  }
+  if (command.category && command.category.length > 0) {
+    updated.category = command.category;
+  }
+
+  const reactions = buildReactions(command);
+  if (reactions) {
+    updated.reaction = [...(allergy.reaction || []), ...reactions];
+  }
+
+  if (command.note) {
+    updated.note = [...(allergy.note || []), { text: command.note, time: new Date().toISOString() }];
+  }
+
+  return updated;
+}
+
+function getStatusCode(concept: CodeableConcept | undefined): string | undefined {
+  return concept?.coding?.[0]?.code;
+}
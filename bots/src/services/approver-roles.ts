@@ -0,0 +1,122 @@
+/**
+ * Approver Roles
+ *
+ * Resolves the clinician behind an approval (Practitioner or PractitionerRole
+ * reference) to the approver role names used by ApprovalRule.approverRoles,
+ * e.g. 'Practitioner', 'Nurse', 'Pharmacist', 'BillingSpecialist'.
+ */
+
+import { MedplumClient } from '@medplum/core';
+import { CodeableConcept, PractitionerRole, Reference } from '@medplum/fhirtypes';
+
+// Custom code system whose codes are approver role names
+export const APPROVER_ROLE_SYSTEM = 'http://medplum.com/fhir/CodeSystem/ai-approver-role';
+
+// Standard practitioner-role codes that map onto approver roles
+const PRACTITIONER_ROLE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/practitioner-role';
+const STANDARD_ROLE_ALIASES: Record<string, string> = {
+  doctor: 'Practitioner',
+  nurse: 'Nurse',
+  pharmacist: 'Pharmacist',
+};
+
+export interface ResolvedApprover {
+  practitioner: string; // Practitioner/<id>
+  roles: string[];
+}
+
+/**
+ * Resolve an approver reference to the practitioner and their active approver roles
+ */
+export async function resolveApprover(
+  medplum: MedplumClient,
+  owner: Reference | undefined
+): Promise<ResolvedApprover | undefined> {
+  const reference = owner?.reference;
+  if (!reference) {
+    return undefined;
+  }
+
+  const [resourceType, id] = reference.split('/');
+  if (!id) {
+    return undefined;
+  }
+
+  if (resourceType === 'PractitionerRole') {
+    const role = await medplum.readResource('PractitionerRole', id);
+    const practitioner = role.practitioner?.reference;
+    if (!practitioner || !isActive(role)) {
+      return undefined;
+    }
+    return { practitioner, roles: getApproverRoles(role) };
+  }
+
+  if (resourceType === 'Practitioner') {
+    const practitionerRoles = await medplum.searchResources('PractitionerRole', {
+      practitioner: reference,
+      active: 'true',
+      _count: '50',
+    });
+
+    const roles = new Set<string>();
+    for (const role of practitionerRoles) {
+      if (role.practitioner?.reference === reference && isActive(role)) {
+        getApproverRoles(role).forEach((r) => roles.add(r));
+      }
+    }
+    return { practitioner: reference, roles: [...roles] };
+  }
+
+  return undefined;
+}
+
+/**
+ * Find active PractitionerRoles that grant any of the given approver roles
+ */
+export async function findPractitionerRoles(medplum: MedplumClient, roles: string[]): Promise<PractitionerRole[]> {
+  if (roles.length === 0) {
+    return [];
+  }
+
+  const practitionerRoles = await medplum.searchResources('PractitionerRole', {
+    active: 'true',
+    _count: '100',
+  });
+
+  return practitionerRoles.filter(
+    (role) => isActive(role) && getApproverRoles(role).some((r) => roles.includes(r))
+  );
+}
+
+/**
+ * Get the approver role names a PractitionerRole grants
+ */
+export function getApproverRoles(role: PractitionerRole): string[] {
+  const roles = new Set<string>();
+  for (const concept of role.code || []) {
+    for (const name of conceptToRoles(concept)) {
+      roles.add(name);
+    }
+  }
+  return [...roles];
+}
+
+function conceptToRoles(concept: CodeableConcept): string[] {
+  const roles: string[] = [];
+  for (const coding of concept.coding || []) {
+    if (coding.system === APPROVER_ROLE_SYSTEM && coding.code) {
+      roles.push(coding.code);
+    } else if (coding.system === PRACTITIONER_ROLE_SYSTEM && coding.code && STANDARD_ROLE_ALIASES[coding.code]) {
+      roles.push(STANDARD_ROLE_ALIASES[coding.code]);
+    }
+  }
+  return roles;
+}
+
+function isActive(role: PractitionerRole): boolean {
+  if (role.active === false) {
+    return false;
+  }
+  const end = role.period?.end;
+  return !end || new Date(end) > new Date();
+}
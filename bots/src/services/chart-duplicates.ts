@@ -0,0 +1,172 @@
+/**
+ * Chart Duplicates
+ *
+ * Compares codes the AI bots propose with what is already charted: the
+ * patient's active Conditions and, for billing, the encounter's Claims.
+ * ICD-10-CM codes are compared within their category, and SNOMED CT problems
+ * through their ICD-10-CM equivalents. A proposal that is the same as, or
+ * broader than, a charted code is a duplicate; one that is more specific
+ * (E11.65 for a charted E11.9) refines it.
+ */
+
+import { CodeableConcept, Condition } from '@medplum/fhirtypes';
+import { ProposeProblemListUpdate } from '../types/ai-command-types';
+import { isActive } from './patient-context';
+
+export const ICD10_SYSTEM = 'http://hl7.org/fhir/sid/icd-10-cm';
+const SNOMED_SYSTEM = 'http://snomed.info/sct';
+
+// Common SNOMED CT problems and their ICD-10-CM equivalents (a code or a category)
+export const SNOMED_ICD10_EQUIVALENTS: Record<string, string> = {
+  '38341003': 'I10', // Hypertensive disorder
+  '59621000': 'I10', // Essential hypertension
+  '46635009': 'E10', // Type 1 diabetes mellitus
+  '44054006': 'E11', // Type 2 diabetes mellitus
+  '55822004': 'E78.5', // Hyperlipidemia
+  '40930008': 'E03.9', // Hypothyroidism
+  '414916001': 'E66', // Obesity
+  '35489007': 'F32', // Depressive disorder
+  '197480006': 'F41', // Anxiety disorder
+  '49436004': 'I48', // Atrial fibrillation
+  '84114007': 'I50', // Heart failure
+  '13645005': 'J44', // Chronic obstructive pulmonary disease
+  '195967001': 'J45', // Asthma
+  '235595009': 'K21', // Gastroesophageal reflux disease
+  '396275006': 'M19.90', // Osteoarthritis
+  '709044004': 'N18', // Chronic kidney disease
+};
+
+export interface ChartCode {
+  system: string;
+  code: string;
+}
+
+export interface ChartEntry {
+  reference: string; // e.g. 'Condition/123' or 'Claim/456'
+  codes: ChartCode[];
+}
+
+export interface ChartMatch {
+  kind: 'duplicate' | 'refinement';
+  reference: string;
+}
+
+/**
+ * Find the charted entry a proposed code duplicates or refines. A duplicate
+ * anywhere on the chart wins over a refinement.
+ */
+export function findChartMatch(proposed: ChartCode, entries: ChartEntry[]): ChartMatch | undefined {
+  let refinement: ChartMatch | undefined;
+
+  for (const entry of entries) {
+    for (const charted of entry.codes) {
+      const kind = compareCodes(proposed, charted);
+      if (kind === 'duplicate') {
+        return { kind, reference: entry.reference };
+      }
+      if (kind === 'refinement' && !refinement) {
+        refinement = { kind, reference: entry.reference };
+      }
+    }
+  }
+
+  return refinement;
+}
+
+/**
+ * Chart entries for the active Conditions in a list
+ */
+export function getConditionEntries(conditions: Condition[]): ChartEntry[] {
+  return conditions
+    .filter((c) => c.id && isActive(c))
+    .map((c) => ({ reference: `Condition/${c.id}`, codes: getCodes(c.code) }));
+}
+
+/**
+ * Check a problem list addition against the patient's Conditions. Returns
+ * undefined for a duplicate, an update of the charted Condition for a
+ * refinement, and otherwise the command unchanged.
+ */
+export function dedupeProblemListCommand(
+  command: ProposeProblemListUpdate,
+  conditions: Condition[]
+): ProposeProblemListUpdate | undefined {
+  if (command.action !== 'add') {
+    return command;
+  }
+
+  const patient = `Patient/${command.patientId}`;
+  const entries = getConditionEntries(conditions.filter((c) => c.subject?.reference === patient));
+  const match = findChartMatch(command.condition, entries);
+
+  if (match?.kind === 'duplicate') {
+    return undefined;
+  }
+  if (match?.kind === 'refinement') {
+    return { ...command, action: 'update', conditionId: match.reference.replace('Condition/', '') };
+  }
+  return command;
+}
+
+/**
+ * The system/code pairs of a CodeableConcept
+ */
+export function getCodes(concept: CodeableConcept | undefined): ChartCode[] {
+  return (concept?.coding || [])
+    .filter((coding) => coding.system && coding.code)
+    .map((coding) => ({ system: coding.system as string, code: coding.code as string }));
+}
+
+function compareCodes(proposed: ChartCode, charted: ChartCode): ChartMatch['kind'] | undefined {
+  if (proposed.system === charted.system && normalize(proposed.code) === normalize(charted.code)) {
+    return 'duplicate';
+  }
+
+  const proposedIcd10 = toIcd10(proposed);
+  const chartedIcd10 = toIcd10(charted);
+  if (!proposedIcd10 || !chartedIcd10) {
+    return undefined;
+  }
+
+  if (proposedIcd10 === chartedIcd10 || isMoreSpecific(chartedIcd10, proposedIcd10)) {
+    return 'duplicate';
+  }
+  if (isMoreSpecific(proposedIcd10, chartedIcd10)) {
+    return 'refinement';
+  }
+  return undefined;
+}
+
+/**
+ * The ICD-10-CM code for an ICD-10-CM or mapped SNOMED CT code
+ */
+function toIcd10(code: ChartCode): string | undefined {
+  if (code.system === ICD10_SYSTEM) {
+    return normalize(code.code);
+  }
+  if (code.system === SNOMED_SYSTEM) {
+    return SNOMED_ICD10_EQUIVALENTS[code.code];
+  }
+  return undefined;
+}
+
+/**
+ * Check whether an ICD-10-CM code is a more specific code in the category of
+ * another: a longer code it starts with (E11 -> E11.65), or the category's
+ * unspecified code (E11.9 -> E11.65)
+ */
+function isMoreSpecific(code: string, than: string): boolean {
+  if (code === than) {
+    return false;
+  }
+  if (code.startsWith(than)) {
+    return true;
+  }
+
+  const [category, subcategory] = than.split('.');
+  return subcategory === '9' && code.startsWith(`${category}.`);
+}
+
+function normalize(code: string): string {
+  return code.trim().toUpperCase();
+}
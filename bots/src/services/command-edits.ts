@@ -0,0 +1,257 @@
+/**
+ * Clinician Command Edits
+ *
+ * Applies the modifications a clinician records on an approval Task
+ * (output 'modifications') to the AI command and works out which fields
+ * changed, so Provenance can record 'edited' with editedFields.
+ *
+ * Modifications are a JSON Patch (RFC 6902) array, e.g.
+ *   [{ "op": "replace", "path": "/content", "value": "..." }]
+ * A full command object is still accepted for older clients.
+ */
+
+import { AICommand } from '../types/ai-command-types';
+import { getCommandDefinition } from '../commands';
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'test';
+  path: string;
+  value?: unknown;
+}
+
+export interface CommandEditResult {
+  command: AICommand;
+  editedFields: string[];
+  errors: string[];
+}
+
+// Fields identifying what the command does and to what; an edit may not change them
+const IMMUTABLE_FIELDS = [
+  'command',
+  'action',
+  'patientId',
+  'encounterId',
+  'conditionId',
+  'allergyIntoleranceId',
+  'observationId',
+  'currentMedicationId',
+  'sourceDocumentId',
+  'referringPractitionerId',
+];
+
+// Keys that would reach an object's prototype rather than the command's own fields
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+// Metadata describing the AI suggestion itself rather than its content
+const AI_METADATA_FIELDS = [
+  'aiModel',
+  'commandId',
+  'confidence',
+  'createdAt',
+  'promptTemplate',
+  'reasoning',
+  'requiresApproval',
+  'retrievalSources',
+];
+
+const PATCH_OPERATIONS: JsonPatchOperation['op'][] = ['add', 'remove', 'replace', 'test'];
+
+/**
+ * Apply clinician modifications to a command.
+ * On errors the original command is returned unchanged.
+ */
+export function applyCommandEdits(original: AICommand, modifications: string): CommandEditResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(modifications);
+  } catch (error) {
+    return { command: original, editedFields: [], errors: [`Invalid modifications JSON: ${error}`] };
+  }
+
+  const errors: string[] = [];
+  let edited: Record<string, unknown>;
+
+  if (Array.isArray(parsed)) {
+    edited = applyPatch(original, parsed, errors);
+  } else if (isRecord(parsed)) {
+    // Full replacement: identity must match and AI metadata is kept from the original
+    edited = { ...parsed };
+    for (const field of AI_METADATA_FIELDS) {
+      const value = (original as unknown as Record<string, unknown>)[field];
+      if (value === undefined) {
+        delete edited[field];
+      } else {
+        edited[field] = value;
+      }
+    }
+  } else {
+    return { command: original, editedFields: [], errors: ['Modifications must be a JSON Patch array or a command object'] };
+  }
+
+  if (errors.length > 0) {
+    return { command: original, editedFields: [], errors };
+  }
+
+  // Plus the fields a command type matches its target record by, e.g. a resolved Condition's code
+  const targetFields = getCommandDefinition(original.command)?.targetFields?.(original) || [];
+
+  const editedFields = diffFields(original, edited);
+  for (const field of editedFields) {
+    const root = field.split('.')[0];
+    if (field.split('.').some((key) => UNSAFE_KEYS.includes(key))) {
+      errors.push(`${field} is not a command field`);
+      continue;
+    }
+    const isTargetField = targetFields.some((target) => field === target || target.startsWith(`${field}.`));
+    if (IMMUTABLE_FIELDS.includes(root) || AI_METADATA_FIELDS.includes(root) || isTargetField) {
+      errors.push(`${field} cannot be edited`);
+      continue;
+    }
+
+    // Edits must keep each existing field's type
+    const before = getPath(original, field);
+    const after = getPath(edited, field);
+    if (before !== undefined && after !== undefined && kindOf(before) !== kindOf(after)) {
+      errors.push(`${field} must be ${kindOf(before)}, got ${kindOf(after)}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { command: original, editedFields: [], errors };
+  }
+
+  return { command: edited as unknown as AICommand, editedFields, errors };
+}
+
+/**
+ * Apply JSON Patch operations to a copy of a command
+ */
+function applyPatch(original: AICommand, operations: unknown[], errors: string[]): Record<string, unknown> {
+  const doc = JSON.parse(JSON.stringify(original)) as Record<string, unknown>;
+
+  operations.forEach((raw, index) => {
+    if (!isRecord(raw) || typeof raw.path !== 'string' || !PATCH_OPERATIONS.includes(raw.op as JsonPatchOperation['op'])) {
+      errors.push(`Patch operation ${index}: expected { op: ${PATCH_OPERATIONS.join('|')}, path, value? }`);
+      return;
+    }
+
+    const operation = raw as unknown as JsonPatchOperation;
+    const tokens = parsePointer(operation.path);
+    if (!tokens || tokens.length === 0 || tokens.some((token) => UNSAFE_KEYS.includes(token))) {
+      errors.push(`Patch operation ${index}: invalid path "${operation.path}"`);
+      return;
+    }
+
+    const parent = getPointerParent(doc, tokens);
+    const key = tokens[tokens.length - 1];
+    if (parent === undefined) {
+      errors.push(`Patch operation ${index}: path "${operation.path}" does not exist`);
+      return;
+    }
+
+    const exists = Array.isArray(parent) ? Number(key) < parent.length : key in parent;
+    if (operation.op !== 'add' && !exists) {
+      errors.push(`Patch operation ${index}: path "${operation.path}" does not exist`);
+      return;
+    }
+    if (operation.op !== 'remove' && operation.value === undefined) {
+      errors.push(`Patch operation ${index}: ${operation.op} requires a value`);
+      return;
+    }
+
+    switch (operation.op) {
+      case 'test':
+        if (JSON.stringify(getChild(parent, key)) !== JSON.stringify(operation.value)) {
+          errors.push(`Patch operation ${index}: test failed at "${operation.path}"`);
+        }
+        break;
+      case 'remove':
+        if (Array.isArray(parent)) {
+          parent.splice(Number(key), 1);
+        } else {
+          delete parent[key];
+        }
+        break;
+      case 'add':
+        if (Array.isArray(parent)) {
+          const position = key === '-' ? parent.length : Number(key);
+          if (!Number.isInteger(position) || position > parent.length) {
+            errors.push(`Patch operation ${index}: invalid array index "${key}"`);
+            return;
+          }
+          parent.splice(position, 0, operation.value);
+        } else {
+          parent[key] = operation.value;
+        }
+        break;
+      case 'replace':
+        if (Array.isArray(parent)) {
+          parent[Number(key)] = operation.value;
+        } else {
+          parent[key] = operation.value;
+        }
+        break;
+    }
+  });
+
+  return doc;
+}
+
+/**
+ * Parse a JSON Pointer (RFC 6901) into reference tokens
+ */
+function parsePointer(pointer: string): string[] | undefined {
+  if (!pointer.startsWith('/')) {
+    return undefined;
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Resolve the container holding the last token of a pointer
+ */
+function getPointerParent(doc: unknown, tokens: string[]): Record<string, unknown> | unknown[] | undefined {
+  let current: unknown = doc;
+  for (const token of tokens.slice(0, -1)) {
+    current = isRecord(current) || Array.isArray(current) ? getChild(current, token) : undefined;
+  }
+
+  if (Array.isArray(current)) {
+    const key = tokens[tokens.length - 1];
+    return key === '-' || /^\d+$/.test(key) ? current : undefined;
+  }
+  return isRecord(current) ? current : undefined;
+}
+
+function getChild(container: Record<string, unknown> | unknown[], key: string): unknown {
+  return Array.isArray(container) ? container[Number(key)] : container[key];
+}
+
+/**
+ * List the dotted paths of fields that differ; arrays are compared as a whole
+ */
+function diffFields(before: unknown, after: unknown, path = ''): string[] {
+  if (isRecord(before) && isRecord(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) => diffFields(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [path];
+}
+
+function getPath(obj: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((o, p) => (isRecord(o) ? o[p] : undefined), obj);
+}
+
+function kindOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,143 @@
+/**
+ * Command Queue
+ *
+ * Mirrors each AI command's lifecycle into the ai_command_queue table
+ * (sql/embeddings.sql): pending when its approval Task is created, then
+ * approved, rejected, superseded, expired or executed. Dashboards and analytics can then
+ * query command history with SQL instead of scanning Task JSON.
+ *
+ * The approval Task stays the source of truth. Rows are upserted by commandId,
+ * only pending and approved rows move on (so a redelivered event cannot undo
+ * an outcome), and database errors are logged rather than failing the
+ * workflow. Rows go to the database the bot configured (see database.ts), or
+ * to a client registered with setCommandQueueClient; with neither, nothing is
+ * written.
+ */
+
+import { AICommand } from '../types/ai-command-types';
+import { getDatabaseClient } from './database';
+
+/**
+ * The part of a PostgreSQL client the queue uses; node-postgres' Pool and Client match it
+ */
+export interface SqlClient {
+  query(text: string, values?: unknown[]): Promise<{ rows: unknown[] }>;
+}
+
+export type CommandQueueStatus = 'pending' | 'approved' | 'rejected' | 'superseded' | 'expired' | 'executed';
+
+export interface CommandQueueUpdate {
+  status: CommandQueueStatus;
+  taskId?: string;
+  requiresApproval?: boolean; // Default true; false for commands executed without approval
+  approverRoles?: string[];
+  expiresAt?: string;
+  reviewedBy?: string; // Practitioner reference, e.g. 'Practitioner/123'; the ID is stored
+  reviewerNotes?: string;
+  executedResourceId?: string; // e.g. 'Condition/123/_history/2'
+  executionResult?: Record<string, unknown>;
+}
+
+// Columns set when a command's row is created, in parameter order
+const COLUMNS = [
+  'command_id',
+  'task_id',
+  'command_type',
+  'command_payload',
+  'ai_model',
+  'ai_confidence',
+  'ai_reasoning',
+  'patient_id',
+  'status',
+  'requires_approval',
+  'approver_role',
+  'expires_at',
+  'reviewed_at',
+  'reviewed_by',
+  'reviewer_notes',
+  'executed_at',
+  'execution_result',
+  'target_resource_type',
+  'target_resource_id',
+];
+
+// Columns a later status change may fill in; the rest keep their first values
+const UPDATED_COLUMNS = [
+  'task_id',
+  'reviewed_at',
+  'reviewed_by',
+  'reviewer_notes',
+  'executed_at',
+  'execution_result',
+  'target_resource_type',
+  'target_resource_id',
+];
+
+const UPSERT_SQL = `INSERT INTO ai_command_queue (${COLUMNS.join(', ')})
+VALUES (${COLUMNS.map((_, i) => `$${i + 1}`).join(', ')})
+ON CONFLICT (command_id) DO UPDATE SET status = EXCLUDED.status, ${UPDATED_COLUMNS.map(
+  (column) => `${column} = COALESCE(EXCLUDED.${column}, ai_command_queue.${column})`
+).join(', ')}
+WHERE ai_command_queue.status IN ('pending', 'approved')`;
+
+let sqlClient: SqlClient | undefined;
+
+/**
+ * Register the database client commands are mirrored to, in place of the configured
+ * database, or undefined to go back to it
+ */
+export function setCommandQueueClient(client: SqlClient | undefined): void {
+  sqlClient = client;
+}
+
+/**
+ * Record a command's status in ai_command_queue, creating its row if needed
+ */
+export async function recordCommandStatus(
+  command: AICommand,
+  update: CommandQueueUpdate,
+  now: Date = new Date()
+): Promise<void> {
+  const client = sqlClient ?? getDatabaseClient();
+  if (!client) {
+    return;
+  }
+  if (!command.commandId) {
+    console.log(`Not recording ${command.command} in the command queue: no commandId`);
+    return;
+  }
+
+  const timestamp = now.toISOString();
+  const reviewed = update.reviewedBy || update.status === 'approved' || update.status === 'rejected';
+  const [targetType, targetId] = update.executedResourceId?.split('/') || [];
+  const executionResult =
+    update.executionResult || (update.executedResourceId ? { resourceId: update.executedResourceId } : undefined);
+
+  const values = [
+    command.commandId,
+    update.taskId ?? null,
+    command.command,
+    JSON.stringify(command),
+    command.aiModel,
+    command.confidence ?? null,
+    command.reasoning ?? null,
+    ('patientId' in command && command.patientId) || null,
+    update.status,
+    update.requiresApproval ?? true,
+    update.approverRoles?.join(',') ?? null,
+    update.expiresAt ?? null,
+    reviewed ? timestamp : null,
+    update.reviewedBy?.split('/').pop() ?? null,
+    update.reviewerNotes ?? null,
+    update.status === 'executed' ? timestamp : null,
+    executionResult ? JSON.stringify(executionResult) : null,
+    targetType || null,
+    targetId || null,
+  ];
+
+  try {
+    await client.query(UPSERT_SQL, values);
+  } catch (error) {
+    console.log(`Failed to record ${command.commandId} in the command queue:`, error);
+  }
+}
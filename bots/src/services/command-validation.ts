@@ -0,0 +1,141 @@
+/**
+ * AI Command Validation
+ *
+ * Runtime validators for every AICommand variant. Each registered command
+ * type declares a field schema mirroring its interface in ai-command-types.ts;
+ * input that does not match is reported with the failing field paths
+ * (e.g. 'medication.code', 'suggestedCodes[0].system').
+ *
+ * Used by the command processor before the safety filters run, and by the
+ * approval bot for commands stored on Tasks and clinician edits.
+ */
+
+import { AICommand } from '../types/ai-command-types';
+import { getCommandDefinition } from '../commands';
+import { BASE_COMMAND_SCHEMA, FieldSchema } from '../commands/schema';
+
+export interface CommandValidationError {
+  path: string;
+  message: string;
+}
+
+export interface CommandValidationResult {
+  valid: boolean;
+  command?: AICommand;
+  errors: CommandValidationError[];
+}
+
+/**
+ * Check whether a command type has a validator
+ */
+export function isKnownCommandType(commandType: unknown): commandType is AICommand['command'] {
+  return typeof commandType === 'string' && getCommandDefinition(commandType) !== undefined;
+}
+
+/**
+ * Validate untrusted input against the schema of its command type
+ */
+export function validateAICommand(input: unknown): CommandValidationResult {
+  if (!isRecord(input)) {
+    return { valid: false, errors: [{ path: '', message: 'Command must be an object' }] };
+  }
+
+  const definition = typeof input.command === 'string' ? getCommandDefinition(input.command) : undefined;
+  const schema = definition ? { ...BASE_COMMAND_SCHEMA, ...definition.schema } : BASE_COMMAND_SCHEMA;
+
+  const errors: CommandValidationError[] = [];
+  validateFields(input, schema, '', errors);
+  if (typeof input.command === 'string' && !definition) {
+    // Nothing could execute it, so it is never queued for approval
+    errors.push({ path: 'command', message: `is not a registered command type: ${input.command}` });
+  }
+
+  return errors.length === 0
+    ? { valid: true, command: input as unknown as AICommand, errors }
+    : { valid: false, errors };
+}
+
+/**
+ * Type guard for a valid AI command
+ */
+export function isAICommand(input: unknown): input is AICommand {
+  return validateAICommand(input).valid;
+}
+
+/**
+ * Format validation errors as a single message
+ */
+export function formatValidationErrors(errors: CommandValidationError[]): string {
+  return errors.map((e) => (e.path ? `${e.path}: ${e.message}` : e.message)).join('; ');
+}
+
+function validateFields(
+  obj: Record<string, unknown>,
+  fields: Record<string, FieldSchema>,
+  path: string,
+  errors: CommandValidationError[]
+): void {
+  for (const [key, schema] of Object.entries(fields)) {
+    validateValue(obj[key], schema, path ? `${path}.${key}` : key, errors);
+  }
+}
+
+function validateValue(value: unknown, schema: FieldSchema, path: string, errors: CommandValidationError[]): void {
+  if (value === undefined || value === null) {
+    if (!schema.optional) {
+      errors.push({ path, message: 'is required' });
+    }
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push({ path, message: 'must be a string' });
+      } else if (!schema.optional && value.trim() === '') {
+        errors.push({ path, message: 'must not be empty' });
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        errors.push({ path, message: `must be one of ${schema.enum.join(', ')}` });
+      }
+      break;
+
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        errors.push({ path, message: 'must be a number' });
+      } else if (
+        (schema.min !== undefined && value < schema.min) ||
+        (schema.max !== undefined && value > schema.max)
+      ) {
+        errors.push({ path, message: `must be between ${schema.min ?? '-∞'} and ${schema.max ?? '∞'}` });
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push({ path, message: 'must be a boolean' });
+      }
+      break;
+
+    case 'object':
+      if (!isRecord(value)) {
+        errors.push({ path, message: 'must be an object' });
+      } else {
+        validateFields(value, schema.fields, path, errors);
+      }
+      break;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push({ path, message: 'must be an array' });
+      } else if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push({ path, message: `must have at least ${schema.minItems} item(s)` });
+      } else {
+        value.forEach((item, index) => validateValue(item, schema.items, `${path}[${index}]`, errors));
+      }
+      break;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
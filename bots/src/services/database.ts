@@ -0,0 +1,48 @@
+/**
+ * Database
+ *
+ * The PostgreSQL connection the bots share for the ai_command_queue and
+ * clinical_embeddings tables (sql/embeddings.sql). The connection string comes
+ * from the DATABASE_URL bot secret, or the DATABASE_URL environment variable
+ * when the bot has no such secret. Each bot calls configureDatabase with its
+ * event before using the database; one node-postgres Pool is kept per
+ * connection string, so warm bot invocations reuse their connections.
+ */
+
+import { BotEvent } from '@medplum/core';
+import { Pool } from 'pg';
+import { SqlClient } from './command-queue';
+
+export const DATABASE_URL_SECRET = 'DATABASE_URL';
+
+// Helper to safely read environment variables
+function getEnv(key: string, fallback = ''): string {
+  return (typeof process !== 'undefined' && process.env?.[key]) || fallback;
+}
+
+const pools: Map<string, Pool> = new Map();
+let databaseUrl: string | undefined;
+
+/**
+ * Select the database for this invocation from the bot's secrets or the environment
+ */
+export function configureDatabase(event: Pick<BotEvent, 'secrets'>): void {
+  databaseUrl = event.secrets?.[DATABASE_URL_SECRET]?.valueString || getEnv('DATABASE_URL') || undefined;
+}
+
+/**
+ * The client for the configured database, or undefined when none is configured
+ */
+export function getDatabaseClient(): SqlClient | undefined {
+  if (!databaseUrl) {
+    return undefined;
+  }
+
+  let pool = pools.get(databaseUrl);
+  if (!pool) {
+    pool = new Pool({ connectionString: databaseUrl });
+    pool.on('error', (error) => console.log('Database connection error:', error));
+    pools.set(databaseUrl, pool);
+  }
+  return pool;
+}
@@ -0,0 +1,404 @@
+/**
+ * Embedding Store
+ *
+ * Where the embedding bot writes chunk vectors and the semantic search and RAG
+ * bots look them up. PgVectorEmbeddingStore uses the clinical_embeddings table
+ * (sql/embeddings.sql): a resource's chunks are replaced in one statement,
+ * upserted on (fhir_resource_id, chunk_index) with any chunks past the new
+ * count removed, and searched through the ivfflat cosine index, with the
+ * filters applied in SQL. The bots use it whenever a database is configured
+ * (see database.ts). Without one they fall back to BinaryEmbeddingStore, which
+ * keeps each chunk as a JSON Binary resource and compares vectors in the bot.
+ * InMemoryEmbeddingStore keeps vectors in the process, for tests and local
+ * development, and can be registered with setEmbeddingStore.
+ */
+
+import { MedplumClient } from '@medplum/core';
+import { Binary } from '@medplum/fhirtypes';
+import { SqlClient } from './command-queue';
+import { getDatabaseClient } from './database';
+
+export interface EmbeddingRecord {
+  fhir_resource_type: string;
+  fhir_resource_id: string;
+  content_type: string;
+  content_section?: string;
+  chunk_index: number;
+  content_text: string;
+  embedding: number[];
+  model_version: string;
+  patient_id?: string;
+  content_hash?: string;
+}
+
+export interface EmbeddingSearchOptions {
+  patientId?: string;
+  contentType?: string;
+  resourceType?: string;
+  limit: number;
+  threshold: number; // Minimum cosine similarity, 0-1
+}
+
+export interface EmbeddingMatch {
+  resourceType: string;
+  resourceId: string;
+  contentType: string;
+  contentText: string;
+  similarity: number;
+  patientId?: string;
+}
+
+export interface EmbeddingStore {
+  /**
+   * Replace all chunks of a resource with records numbered from 0; returns the number stored
+   */
+  replaceResource(resourceId: string, records: EmbeddingRecord[]): Promise<number>;
+
+  /**
+   * Remove all chunks of a resource; returns the number removed
+   */
+  deleteResource(resourceId: string): Promise<number>;
+
+  /**
+   * The content hash a resource's chunks were stored with, if it has any
+   */
+  getContentHash(resourceId: string): Promise<string | undefined>;
+
+  /**
+   * The chunks most similar to an embedding, most similar first
+   */
+  search(embedding: number[], options: EmbeddingSearchOptions): Promise<EmbeddingMatch[]>;
+}
+
+const INSERT_COLUMNS = [
+  'fhir_resource_type',
+  'fhir_resource_id',
+  'content_type',
+  'content_section',
+  'chunk_index',
+  'content_text',
+  'embedding',
+  'model_version',
+  'patient_id',
+  'content_hash',
+];
+
+/**
+ * Embedding store backed by the pgvector clinical_embeddings table
+ */
+export class PgVectorEmbeddingStore implements EmbeddingStore {
+  constructor(private readonly client: SqlClient) {}
+
+  async replaceResource(resourceId: string, records: EmbeddingRecord[]): Promise<number> {
+    if (records.length === 0) {
+      await this.deleteResource(resourceId);
+      return 0;
+    }
+
+    const values: unknown[] = [resourceId, records.length];
+    const rows = records.map((record) => {
+      const placeholders = INSERT_COLUMNS.map((column, i) => {
+        const cast = column === 'embedding' ? '::vector' : '';
+        return `$${values.length + i + 1}${cast}`;
+      });
+      values.push(
+        record.fhir_resource_type,
+        record.fhir_resource_id,
+        record.content_type,
+        record.content_section ?? null,
+        record.chunk_index,
+        record.content_text,
+        toVectorLiteral(record.embedding),
+        record.model_version,
+        record.patient_id ?? null,
+        record.content_hash ?? null
+      );
+      return `(${placeholders.join(', ')})`;
+    });
+
+    const updates = INSERT_COLUMNS.filter((c) => c !== 'fhir_resource_id' && c !== 'chunk_index').map(
+      (column) => `${column} = EXCLUDED.${column}`
+    );
+    // Both parts run in one statement, so searches never see a mix of old and new chunks
+    const result = await this.client.query(
+      `WITH upserted AS (
+  INSERT INTO clinical_embeddings (${INSERT_COLUMNS.join(', ')})
+  VALUES ${rows.join(', ')}
+  ON CONFLICT (fhir_resource_id, chunk_index) DO UPDATE SET ${updates.join(', ')}
+  RETURNING id
+), removed AS (
+  DELETE FROM clinical_embeddings WHERE fhir_resource_id = $1 AND chunk_index >= $2
+)
+SELECT count(*) AS stored FROM upserted`,
+      values
+    );
+    return Number((result.rows[0] as { stored: string | number } | undefined)?.stored ?? 0);
+  }
+
+  async deleteResource(resourceId: string): Promise<number> {
+    const result = await this.client.query(
+      'DELETE FROM clinical_embeddings WHERE fhir_resource_id = $1 RETURNING id',
+      [resourceId]
+    );
+    return result.rows.length;
+  }
+
+  async getContentHash(resourceId: string): Promise<string | undefined> {
+    const result = await this.client.query(
+      'SELECT content_hash FROM clinical_embeddings WHERE fhir_resource_id = $1 AND chunk_index = 0',
+      [resourceId]
+    );
+    return (result.rows[0] as { content_hash: string | null } | undefined)?.content_hash ?? undefined;
+  }
+
+  async search(embedding: number[], options: EmbeddingSearchOptions): Promise<EmbeddingMatch[]> {
+    const values: unknown[] = [toVectorLiteral(embedding), options.threshold, options.limit];
+    const filters = ['1 - (embedding <=> $1::vector) >= $2'];
+    const addFilter = (column: string, value: string | undefined): void => {
+      if (value) {
+        values.push(value);
+        filters.push(`${column} = $${values.length}`);
+      }
+    };
+    addFilter('patient_id', options.patientId);
+    addFilter('content_type', options.contentType);
+    addFilter('fhir_resource_type', options.resourceType);
+
+    const result = await this.client.query(
+      `SELECT fhir_resource_type, fhir_resource_id, content_type, content_text, patient_id,
+  1 - (embedding <=> $1::vector) AS similarity
+FROM clinical_embeddings
+WHERE ${filters.join(' AND ')}
+ORDER BY embedding <=> $1::vector
+LIMIT $3`,
+      values
+    );
+
+    return (result.rows as Record<string, unknown>[]).map((row) => ({
+      resourceType: row.fhir_resource_type as string,
+      resourceId: row.fhir_resource_id as string,
+      contentType: row.content_type as string,
+      contentText: row.content_text as string,
+      similarity: Number(row.similarity),
+      patientId: (row.patient_id as string | null) ?? undefined,
+    }));
+  }
+}
+
+// Binary resources holding chunks carry this type in their JSON
+const BINARY_EMBEDDING_TYPE = 'clinical_embedding';
+const BINARY_PAGE_SIZE = 1000;
+
+/**
+ * Embedding store that keeps each chunk as a JSON Binary resource, for deployments
+ * without a database. Every operation scans the embedding Binaries, so it only
+ * suits small data sets.
+ */
+export class BinaryEmbeddingStore implements EmbeddingStore {
+  constructor(private readonly medplum: MedplumClient) {}
+
+  async replaceResource(resourceId: string, records: EmbeddingRecord[]): Promise<number> {
+    const previous = await this.findChunks(resourceId);
+
+    // Write the new chunks before removing the old ones, so searches never find none
+    let stored = 0;
+    for (const record of records) {
+      const binary = await this.medplum.createResource<Binary>({
+        resourceType: 'Binary',
+        contentType: 'application/json',
+        data: Buffer.from(JSON.stringify({ type: BINARY_EMBEDDING_TYPE, ...record })).toString('base64'),
+      });
+      if (binary.id) {
+        stored++;
+      }
+    }
+
+    for (const chunk of previous) {
+      await this.medplum.deleteResource('Binary', chunk.id);
+    }
+    return stored;
+  }
+
+  async deleteResource(resourceId: string): Promise<number> {
+    const chunks = await this.findChunks(resourceId);
+    for (const chunk of chunks) {
+      await this.medplum.deleteResource('Binary', chunk.id);
+    }
+    return chunks.length;
+  }
+
+  async getContentHash(resourceId: string): Promise<string | undefined> {
+    const chunks = await this.findChunks(resourceId);
+    return chunks.find((chunk) => chunk.record.chunk_index === 0)?.record.content_hash;
+  }
+
+  async search(embedding: number[], options: EmbeddingSearchOptions): Promise<EmbeddingMatch[]> {
+    const chunks = await this.readChunks();
+    return matchRecords(
+      chunks.map((chunk) => chunk.record),
+      embedding,
+      options
+    );
+  }
+
+  /**
+   * Chunks stored for one resource
+   */
+  private async findChunks(resourceId: string): Promise<{ id: string; record: EmbeddingRecord }[]> {
+    const chunks = await this.readChunks();
+    return chunks.filter((chunk) => chunk.record.fhir_resource_id === resourceId);
+  }
+
+  /**
+   * All chunks stored as Binary resources, page by page, skipping Binaries that hold anything else
+   */
+  private async readChunks(): Promise<{ id: string; record: EmbeddingRecord }[]> {
+    const binaries: Binary[] = [];
+    let page: Binary[];
+    do {
+      page = await this.medplum.searchResources('Binary', {
+        contenttype: 'application/json',
+        _sort: '_id',
+        _count: String(BINARY_PAGE_SIZE),
+        _offset: String(binaries.length),
+      });
+      binaries.push(...page);
+    } while (page.length === BINARY_PAGE_SIZE);
+
+    const chunks: { id: string; record: EmbeddingRecord }[] = [];
+    for (const binary of binaries) {
+      if (!binary.id || !binary.data) continue;
+      try {
+        const { type, ...record } = JSON.parse(Buffer.from(binary.data, 'base64').toString('utf-8'));
+        if (type === BINARY_EMBEDDING_TYPE) {
+          chunks.push({ id: binary.id, record: record as EmbeddingRecord });
+        }
+      } catch {
+        // Not JSON we wrote
+      }
+    }
+    return chunks;
+  }
+}
+
+/**
+ * Embedding store that keeps vectors in memory, for tests and local development
+ */
+export class InMemoryEmbeddingStore implements EmbeddingStore {
+  private records: Map<string, EmbeddingRecord> = new Map();
+
+  async replaceResource(resourceId: string, records: EmbeddingRecord[]): Promise<number> {
+    await this.deleteResource(resourceId);
+    for (const record of records) {
+      this.records.set(`${resourceId}:${record.chunk_index}`, record);
+    }
+    return records.length;
+  }
+
+  async deleteResource(resourceId: string): Promise<number> {
+    let removed = 0;
+    for (const [key, record] of this.records) {
+      if (record.fhir_resource_id === resourceId) {
+        this.records.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async getContentHash(resourceId: string): Promise<string | undefined> {
+    return this.records.get(`${resourceId}:0`)?.content_hash;
+  }
+
+  async search(embedding: number[], options: EmbeddingSearchOptions): Promise<EmbeddingMatch[]> {
+    return matchRecords([...this.records.values()], embedding, options);
+  }
+
+  /**
+   * All stored chunks
+   */
+  getRecords(): EmbeddingRecord[] {
+    return [...this.records.values()];
+  }
+}
+
+let embeddingStore: EmbeddingStore | undefined;
+
+/**
+ * Register the store the embedding bots use, or undefined to choose it from the configured database
+ */
+export function setEmbeddingStore(store: EmbeddingStore | undefined): void {
+  embeddingStore = store;
+}
+
+/**
+ * The store the embedding bots use: the registered store, else pgvector in the
+ * configured database, else Binary resources
+ */
+export function getEmbeddingStore(medplum: MedplumClient): EmbeddingStore {
+  if (embeddingStore) {
+    return embeddingStore;
+  }
+  const client = getDatabaseClient();
+  return client ? new PgVectorEmbeddingStore(client) : new BinaryEmbeddingStore(medplum);
+}
+
+/**
+ * Records matching the filters and threshold, most similar first
+ */
+function matchRecords(
+  records: EmbeddingRecord[],
+  embedding: number[],
+  options: EmbeddingSearchOptions
+): EmbeddingMatch[] {
+  const matches: EmbeddingMatch[] = [];
+
+  for (const record of records) {
+    if (options.patientId && record.patient_id !== options.patientId) continue;
+    if (options.contentType && record.content_type !== options.contentType) continue;
+    if (options.resourceType && record.fhir_resource_type !== options.resourceType) continue;
+
+    const similarity = cosineSimilarity(embedding, record.embedding);
+    if (similarity >= options.threshold) {
+      matches.push({
+        resourceType: record.fhir_resource_type,
+        resourceId: record.fhir_resource_id,
+        contentType: record.content_type,
+        contentText: record.content_text,
+        similarity,
+        patientId: record.patient_id,
+      });
+    }
+  }
+
+  matches.sort((a, b) => b.similarity - a.similarity);
+  return matches.slice(0, options.limit);
+}
+
+/**
+ * Calculate cosine similarity between two vectors; 0 if they differ in length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dotProduct / denominator;
+}
+
+/**
+ * pgvector's text form of a vector, e.g. '[0.1,0.2]'
+ */
+function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
@@ -0,0 +1,144 @@
+/**
+ * FHIR Transactions
+ *
+ * Builds transaction Bundle entries and commits them with one executeBatch
+ * call, so a command's clinical writes and the records that accompany them
+ * (Provenance, Task status, notifications) are written together or not at
+ * all. New resources get urn:uuid fullUrls that other entries can reference;
+ * the server replaces them with the assigned ids on commit.
+ *
+ * Resources created for an AI command are stamped with an identifier derived
+ * from its commandId and created conditionally (If-None-Exist), so executing
+ * the same command twice does not write them twice. Its Provenance is created
+ * conditionally on the commandId it records.
+ */
+
+import { MedplumClient, generateId } from '@medplum/core';
+import { BundleEntry, Identifier, Resource } from '@medplum/fhirtypes';
+
+// Identifier system for resources created by an AI command; the value is the commandId
+export const COMMAND_ID_SYSTEM = 'http://medplum.com/fhir/ai-command-id';
+
+/**
+ * Entry that creates a resource under a placeholder urn:uuid fullUrl
+ */
+export function createEntry<T extends Resource>(resource: T): BundleEntry<T> {
+  return {
+    fullUrl: `urn:uuid:${generateId()}`,
+    resource,
+    request: { method: 'POST', url: resource.resourceType },
+  };
+}
+
+/**
+ * Entry that updates an existing resource, failing the whole transaction
+ * if it has changed since it was read
+ */
+export function updateEntry<T extends Resource>(resource: T): BundleEntry<T> {
+  const reference = `${resource.resourceType}/${resource.id}`;
+  const versionId = resource.meta?.versionId;
+
+  return {
+    fullUrl: reference,
+    resource,
+    request: { method: 'PUT', url: reference, ifMatch: versionId ? `W/"${versionId}"` : undefined },
+  };
+}
+
+/**
+ * Update a resource only if it has not changed since it was read. Throws if
+ * it has, like any other failed update.
+ */
+export async function updateIfUnchanged<T extends Resource>(medplum: MedplumClient, resource: T): Promise<T> {
+  const versionId = resource.meta?.versionId;
+  return medplum.updateResource<T>(resource, versionId ? { headers: { 'If-Match': `W/"${versionId}"` } } : undefined);
+}
+
+/**
+ * Stamp a create entry's resource with a command identifier and make the
+ * create conditional on no resource already carrying it. Update entries are
+ * returned unchanged; their If-Match precondition already stops a repeat.
+ */
+export function withCommandIdentifier(entry: BundleEntry, value: string): BundleEntry {
+  if (entry.request?.method !== 'POST' || !entry.resource) {
+    return entry;
+  }
+
+  const resource = entry.resource as Resource & { identifier?: Identifier[] };
+  return {
+    ...entry,
+    resource: {
+      ...resource,
+      identifier: [...(resource.identifier || []), { system: COMMAND_ID_SYSTEM, value }],
+    } as Resource,
+    request: { ...entry.request, ifNoneExist: `identifier=${COMMAND_ID_SYSTEM}|${value}` },
+  };
+}
+
+/**
+ * Make the create of a command's Provenance conditional on no Provenance
+ * already recording the command. Provenance has no identifier of its own, so
+ * it is matched by the command identifier on its source entity.
+ */
+export function withCommandProvenance(entry: BundleEntry, commandId: string): BundleEntry {
+  if (entry.request?.method !== 'POST' || entry.resource?.resourceType !== 'Provenance') {
+    return entry;
+  }
+
+  return {
+    ...entry,
+    request: { ...entry.request, ifNoneExist: `entity:identifier=${COMMAND_ID_SYSTEM}|${commandId}` },
+  };
+}
+
+/**
+ * Find the resource an earlier execution created with a command identifier
+ */
+export async function findByCommandIdentifier(
+  medplum: MedplumClient,
+  resourceType: string,
+  value: string
+): Promise<Resource | undefined> {
+  const results = await medplum.searchResources(resourceType as Resource['resourceType'], {
+    identifier: `${COMMAND_ID_SYSTEM}|${value}`,
+    _count: '1',
+  });
+  return results[0];
+}
+
+/**
+ * Commit entries as a single transaction and return the response entries,
+ * in the same order. Throws if the server rejects any entry; in that case
+ * nothing was written.
+ */
+export async function executeTransaction(medplum: MedplumClient, entries: BundleEntry[]): Promise<BundleEntry[]> {
+  const response = await medplum.executeBatch({
+    resourceType: 'Bundle',
+    type: 'transaction',
+    entry: entries,
+  });
+
+  const results = response.entry || [];
+  const failed = results.find((entry) => !entry.response?.status?.startsWith('2'));
+  if (failed || results.length !== entries.length) {
+    throw new Error(`Transaction rejected: ${failed?.response?.status || 'incomplete response'}`);
+  }
+  return results;
+}
+
+/**
+ * Reference to a committed entry: 'Type/id' for a create, or the versioned
+ * 'Type/id/_history/v' for an update
+ */
+export function getCommittedReference(entry: BundleEntry, result: BundleEntry): string {
+  // Location may be absolute, e.g. https://example.com/fhir/R4/Condition/123/_history/2
+  const match = (result.response?.location || '').match(/([A-Za-z]+)\/([^/]+)(?:\/_history\/([^/]+))?$/);
+  if (!match) {
+    throw new Error(`Transaction response has no location for ${entry.request?.url}`);
+  }
+
+  const [, resourceType, id, versionId] = match;
+  return entry.request?.method === 'PUT' && versionId
+    ? `${resourceType}/${id}/_history/${versionId}`
+    : `${resourceType}/${id}`;
+}
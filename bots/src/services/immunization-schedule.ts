@@ -0,0 +1,223 @@
+/**
+ * Immunization Schedule
+ *
+ * Simplified adult immunization schedule (CDC/ACIP) used by clinical decision
+ * support to forecast which vaccines a patient is due for. Each series is
+ * eligible by age, or from a younger age for patients with a risk condition,
+ * and counts completed Immunizations with any of its CVX codes.
+ */
+
+import { Condition, Immunization, Patient } from '@medplum/fhirtypes';
+
+export const CVX_SYSTEM = 'http://hl7.org/fhir/sid/cvx';
+const SNOMED_SYSTEM = 'http://snomed.info/sct';
+
+// A forecast is overdue this long after its due date
+const OVERDUE_AFTER_MONTHS = 3;
+
+interface CodedValue {
+  code: string;
+  system: string;
+  display: string;
+}
+
+export interface ScheduleEntry {
+  series: string;
+  vaccineCode: CodedValue; // Preferred vaccine to recommend
+  targetDisease: CodedValue;
+  acceptedCvxCodes: string[]; // Vaccines that count towards the series
+  minAgeMonths: number;
+  maxAgeMonths?: number;
+  riskCondition?: {
+    minAgeMonths: number;
+    icd10Prefixes: string[];
+  };
+  doses: number;
+  doseIntervalMonths?: number; // Between doses of a multi-dose series
+  repeatMonths?: number; // Booster interval once the series is complete
+  authority: string;
+}
+
+export interface ImmunizationForecast {
+  series: string;
+  vaccineCode: CodedValue;
+  targetDisease: CodedValue;
+  forecastStatus: 'due' | 'overdue';
+  doseNumber: number;
+  seriesDoses?: number; // Omitted for recurring boosters
+  dueDate: string;
+  overdueDate: string;
+  description: string;
+  supportingImmunizationIds: string[];
+}
+
+export const IMMUNIZATION_SCHEDULE: ScheduleEntry[] = [
+  {
+    series: 'Influenza',
+    vaccineCode: { code: '150', system: CVX_SYSTEM, display: 'Influenza, injectable, quadrivalent, preservative free' },
+    targetDisease: { code: '6142004', system: SNOMED_SYSTEM, display: 'Influenza' },
+    acceptedCvxCodes: ['88', '140', '141', '150', '153', '155', '158', '161', '171', '185', '186', '197', '205'],
+    minAgeMonths: 6,
+    doses: 1,
+    repeatMonths: 12,
+    authority: 'CDC/ACIP annual influenza vaccination',
+  },
+  {
+    series: 'Tdap/Td',
+    vaccineCode: {
+      code: '115',
+      system: CVX_SYSTEM,
+      display: 'Tetanus toxoid, reduced diphtheria toxoid, and acellular pertussis vaccine, adsorbed',
+    },
+    targetDisease: { code: '76902006', system: SNOMED_SYSTEM, display: 'Tetanus' },
+    acceptedCvxCodes: ['09', '113', '115', '138', '139'],
+    minAgeMonths: 19 * 12,
+    doses: 1,
+    repeatMonths: 120,
+    authority: 'CDC/ACIP Td or Tdap booster every 10 years',
+  },
+  {
+    series: 'Zoster',
+    vaccineCode: { code: '187', system: CVX_SYSTEM, display: 'Zoster vaccine recombinant' },
+    targetDisease: { code: '4740000', system: SNOMED_SYSTEM, display: 'Herpes zoster' },
+    acceptedCvxCodes: ['187'],
+    minAgeMonths: 50 * 12,
+    doses: 2,
+    doseIntervalMonths: 2,
+    authority: 'CDC/ACIP recombinant zoster vaccine for adults 50 and older',
+  },
+  {
+    series: 'Pneumococcal',
+    vaccineCode: {
+      code: '216',
+      system: CVX_SYSTEM,
+      display: 'Pneumococcal conjugate PCV20, polysaccharide CRM197, preservative free',
+    },
+    targetDisease: { code: '16814004', system: SNOMED_SYSTEM, display: 'Pneumococcal infectious disease' },
+    acceptedCvxCodes: ['33', '133', '215', '216'],
+    minAgeMonths: 65 * 12,
+    riskCondition: {
+      minAgeMonths: 19 * 12,
+      // Diabetes, chronic heart, lung, liver and kidney disease
+      icd10Prefixes: ['E10', 'E11', 'I50', 'J44', 'J45', 'K70', 'K74', 'N18'],
+    },
+    doses: 1,
+    authority: 'CDC/ACIP pneumococcal vaccination for adults 65+ or 19-64 with risk conditions',
+  },
+];
+
+/**
+ * Forecast the series a patient is due or overdue for as of a date
+ */
+export function forecastImmunizations(
+  patient: Patient,
+  conditions: Condition[],
+  immunizations: Immunization[],
+  asOf: Date = new Date(),
+  schedule: ScheduleEntry[] = IMMUNIZATION_SCHEDULE
+): ImmunizationForecast[] {
+  if (!patient.birthDate) {
+    return [];
+  }
+
+  const today = toDate(asOf);
+  const forecasts: ImmunizationForecast[] = [];
+
+  for (const entry of schedule) {
+    const eligibleFrom = getEligibleFrom(entry, patient.birthDate, conditions);
+    if (!eligibleFrom || eligibleFrom > today) {
+      continue;
+    }
+    if (entry.maxAgeMonths !== undefined && addMonths(patient.birthDate, entry.maxAgeMonths) < today) {
+      continue;
+    }
+
+    const doses = immunizations
+      .filter(
+        (i) =>
+          i.status === 'completed' &&
+          i.occurrenceDateTime &&
+          i.vaccineCode?.coding?.some((c) => c.system === CVX_SYSTEM && entry.acceptedCvxCodes.includes(c.code || ''))
+      )
+      .sort((a, b) => (a.occurrenceDateTime || '').localeCompare(b.occurrenceDateTime || ''));
+
+    const next = getNextDose(entry, doses, eligibleFrom);
+    if (!next || next.dueDate > today) {
+      continue;
+    }
+
+    const overdueDate = addMonths(next.dueDate, OVERDUE_AFTER_MONTHS);
+    forecasts.push({
+      series: entry.series,
+      vaccineCode: entry.vaccineCode,
+      targetDisease: entry.targetDisease,
+      forecastStatus: today >= overdueDate ? 'overdue' : 'due',
+      doseNumber: next.doseNumber,
+      seriesDoses: next.booster ? undefined : entry.doses,
+      dueDate: next.dueDate,
+      overdueDate,
+      description: next.booster
+        ? `${entry.series} booster (${entry.authority})`
+        : `${entry.series} dose ${next.doseNumber} of ${entry.doses} (${entry.authority})`,
+      supportingImmunizationIds: doses.map((d) => d.id).filter((id): id is string => Boolean(id)),
+    });
+  }
+
+  return forecasts;
+}
+
+/**
+ * Date the patient became eligible, by age or by risk condition
+ */
+function getEligibleFrom(entry: ScheduleEntry, birthDate: string, conditions: Condition[]): string | undefined {
+  const byAge = addMonths(birthDate, entry.minAgeMonths);
+  const risk = entry.riskCondition;
+  if (!risk) {
+    return byAge;
+  }
+
+  const hasRisk = conditions.some((c) =>
+    c.code?.coding?.some((coding) => risk.icd10Prefixes.some((prefix) => coding.code?.startsWith(prefix)))
+  );
+  if (!hasRisk) {
+    return byAge;
+  }
+
+  const byRisk = addMonths(birthDate, risk.minAgeMonths);
+  return byRisk < byAge ? byRisk : byAge;
+}
+
+/**
+ * Work out the next dose of a series, or undefined when it is complete
+ */
+function getNextDose(
+  entry: ScheduleEntry,
+  doses: Immunization[],
+  eligibleFrom: string
+): { doseNumber: number; dueDate: string; booster: boolean } | undefined {
+  if (doses.length === 0) {
+    return { doseNumber: 1, dueDate: eligibleFrom, booster: false };
+  }
+
+  const last = toDate(new Date(doses[doses.length - 1].occurrenceDateTime as string));
+
+  if (doses.length < entry.doses) {
+    return { doseNumber: doses.length + 1, dueDate: addMonths(last, entry.doseIntervalMonths || 0), booster: false };
+  }
+
+  if (entry.repeatMonths) {
+    return { doseNumber: doses.length + 1, dueDate: addMonths(last, entry.repeatMonths), booster: true };
+  }
+
+  return undefined;
+}
+
+function addMonths(date: string, months: number): string {
+  const d = new Date(`${date.substring(0, 10)}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return toDate(d);
+}
+
+function toDate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
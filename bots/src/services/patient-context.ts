@@ -0,0 +1,149 @@
+/**
+ * Patient Context
+ *
+ * Derives the patient facts that safety filters can match on as `patient.*`
+ * fields: age, pregnancy status, the most recent eGFR, active allergies and
+ * active problems. For example, `patient.egfr less_than 30` together with
+ * `command equals SuggestMedicationChange` holds renal-risk suggestions for
+ * review.
+ */
+
+import { MedplumClient } from '@medplum/core';
+import { AllergyIntolerance, CodeableConcept, Condition, Observation, Patient } from '@medplum/fhirtypes';
+
+const LOINC_SYSTEM = 'http://loinc.org';
+const SNOMED_SYSTEM = 'http://snomed.info/sct';
+const ICD10_SYSTEM = 'http://hl7.org/fhir/sid/icd-10-cm';
+
+// LOINC codes for eGFR (CKD-EPI 2021, CKD-EPI, MDRD and its race-specific variants)
+const EGFR_CODES = ['98979-8', '62238-1', '33914-3', '48642-3', '48643-1'];
+
+// LOINC Pregnancy status, with SNOMED CT values
+const PREGNANCY_STATUS_CODE = '82810-3';
+const PREGNANT_CODE = '77386006';
+const NOT_PREGNANT_CODE = '60001007';
+
+// ICD-10-CM codes recording an ongoing pregnancy (supervision of pregnancy, pregnant state)
+const PREGNANCY_ICD10_PREFIXES = ['Z33.1', 'Z34', 'O09'];
+
+export interface PatientFacts {
+  age?: number; // Whole years, if the birth date is known
+  pregnant: boolean;
+  egfr?: number; // Most recent eGFR, mL/min/1.73m2
+  allergies: string[]; // Substance codes and names of active allergies
+  problems: string[]; // Codes of active problems
+}
+
+// Fields filter conditions can reference as patient.<field>, with their types for load-time checks
+export const PATIENT_FACT_TYPES: Record<keyof PatientFacts, 'number' | 'boolean' | 'list'> = {
+  age: 'number',
+  pregnant: 'boolean',
+  egfr: 'number',
+  allergies: 'list',
+  problems: 'list',
+};
+
+/**
+ * Load the patient's record and derive the facts safety filters match on
+ */
+export async function getPatientFacts(
+  medplum: MedplumClient,
+  patientId: string,
+  now: Date = new Date()
+): Promise<PatientFacts> {
+  const patient = `Patient/${patientId}`;
+  const [record, conditions, allergies, observations] = await Promise.all([
+    medplum.readResource('Patient', patientId),
+    medplum.searchResources('Condition', { patient, 'clinical-status': 'active', _count: '100' }),
+    medplum.searchResources('AllergyIntolerance', { patient, 'clinical-status': 'active', _count: '100' }),
+    medplum.searchResources('Observation', {
+      patient,
+      code: [...EGFR_CODES, PREGNANCY_STATUS_CODE].map((code) => `${LOINC_SYSTEM}|${code}`).join(','),
+      _sort: '-date',
+      _count: '50',
+    }),
+  ]);
+
+  // Search parameters are re-checked, as not every server applies them all
+  const activeConditions = conditions.filter((c) => c.subject?.reference === patient && isActive(c));
+  const activeAllergies = allergies.filter((a) => a.patient?.reference === patient && isActive(a));
+  const results = observations
+    .filter((o) => o.subject?.reference === patient && (o.status === 'final' || o.status === 'amended'))
+    .sort((a, b) => getEffectiveTime(b) - getEffectiveTime(a));
+
+  return {
+    age: getAge(record, now),
+    pregnant: isPregnant(activeConditions, results),
+    egfr: results.find((o) => hasCode(o.code, LOINC_SYSTEM, EGFR_CODES))?.valueQuantity?.value,
+    allergies: unique(activeAllergies.flatMap((a) => getCodesAndNames(a.code))),
+    problems: unique(activeConditions.flatMap((c) => (c.code?.coding || []).map((coding) => coding.code))),
+  };
+}
+
+/**
+ * Age in whole years on a date
+ */
+function getAge(patient: Patient, now: Date): number | undefined {
+  if (!patient.birthDate) {
+    return undefined;
+  }
+
+  const [year, month, day] = patient.birthDate.split('-').map((part) => parseInt(part, 10));
+  let age = now.getUTCFullYear() - year;
+  const monthDiff = now.getUTCMonth() + 1 - (month || 1);
+  if (monthDiff < 0 || (monthDiff === 0 && now.getUTCDate() < (day || 1))) {
+    age--;
+  }
+  return age;
+}
+
+/**
+ * The latest pregnancy status observation decides; otherwise an active pregnancy condition
+ */
+function isPregnant(conditions: Condition[], observations: Observation[]): boolean {
+  const status = observations.find((o) => hasCode(o.code, LOINC_SYSTEM, [PREGNANCY_STATUS_CODE]));
+  if (hasCode(status?.valueCodeableConcept, SNOMED_SYSTEM, [PREGNANT_CODE])) {
+    return true;
+  }
+  if (hasCode(status?.valueCodeableConcept, SNOMED_SYSTEM, [NOT_PREGNANT_CODE])) {
+    return false;
+  }
+
+  return conditions.some((c) =>
+    c.code?.coding?.some(
+      (coding) =>
+        (coding.system === SNOMED_SYSTEM && coding.code === PREGNANT_CODE) ||
+        (coding.system === ICD10_SYSTEM && PREGNANCY_ICD10_PREFIXES.some((prefix) => coding.code?.startsWith(prefix)))
+    )
+  );
+}
+
+/**
+ * Active, and not refuted or entered in error
+ */
+export function isActive(resource: Condition | AllergyIntolerance): boolean {
+  const clinicalStatus = resource.clinicalStatus?.coding?.[0]?.code;
+  const verificationStatus = resource.verificationStatus?.coding?.[0]?.code;
+  return (
+    (clinicalStatus === undefined || clinicalStatus === 'active') &&
+    verificationStatus !== 'refuted' &&
+    verificationStatus !== 'entered-in-error'
+  );
+}
+
+function hasCode(concept: CodeableConcept | undefined, system: string, codes: string[]): boolean {
+  return Boolean(concept?.coding?.some((coding) => coding.system === system && codes.includes(coding.code as string)));
+}
+
+function getCodesAndNames(concept: CodeableConcept | undefined): (string | undefined)[] {
+  return [...(concept?.coding || []).flatMap((coding) => [coding.code, coding.display]), concept?.text];
+}
+
+function getEffectiveTime(observation: Observation): number {
+  const time = observation.effectiveDateTime || observation.effectivePeriod?.start || observation.issued;
+  return time ? new Date(time).getTime() : 0;
+}
+
+function unique(values: (string | undefined)[]): string[] {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))];
+}
@@ -0,0 +1,169 @@
+/**
+ * Problem List Updates
+ *
+ * Locates the Condition targeted by a ProposeProblemListUpdate resolve/update
+ * command and builds the patched Condition. The target is either the
+ * command's conditionId or the patient's Condition matching the command's code.
+ * An update with a conditionId may also refine the Condition's code, e.g. from
+ * E11.9 to E11.65, replacing its codings in the command's code system.
+ */
+
+import { MedplumClient } from '@medplum/core';
+import { CodeableConcept, Condition } from '@medplum/fhirtypes';
+import { ProposeProblemListUpdate } from '../types/ai-command-types';
+
+const CLINICAL_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+const VERIFICATION_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+const SNOMED_SYSTEM = 'http://snomed.info/sct';
+
+// SNOMED CT codes for Condition.severity
+const SEVERITY_CODES: Record<NonNullable<ProposeProblemListUpdate['severity']>, CodeableConcept> = {
+  mild: { coding: [{ system: SNOMED_SYSTEM, code: '255604002', display: 'Mild' }], text: 'mild' },
+  moderate: { coding: [{ system: SNOMED_SYSTEM, code: '6736007', display: 'Moderate' }], text: 'moderate' },
+  severe: { coding: [{ system: SNOMED_SYSTEM, code: '24484000', display: 'Severe' }], text: 'severe' },
+};
+
+// Clinical statuses that allow an abatement (FHIR invariant con-4)
+const ABATED_STATUSES = ['inactive', 'remission', 'resolved'];
+
+export interface TargetConditionResult {
+  condition?: Condition;
+  error?: string;
+}
+
+/**
+ * Find the Condition a resolve/update command applies to
+ */
+export async function findTargetCondition(
+  medplum: MedplumClient,
+  command: ProposeProblemListUpdate
+): Promise<TargetConditionResult> {
+  const patient = `Patient/${command.patientId}`;
+
+  if (command.conditionId) {
+    let condition: Condition;
+    try {
+      condition = await medplum.readResource('Condition', command.conditionId);
+    } catch (error) {
+      return { error: `Condition ${command.conditionId} not found: ${error}` };
+    }
+
+    if (condition.subject?.reference !== patient) {
+      return { error: `Condition ${command.conditionId} does not belong to ${patient}` };
+    }
+    return { condition };
+  }
+
+  const { system, code } = command.condition;
+  const conditions = await medplum.searchResources('Condition', {
+    patient,
+    code: `${system}|${code}`,
+    _count: '20',
+  });
+
+  const matches = conditions.filter(
+    (c) =>
+      c.subject?.reference === patient &&
+      c.code?.coding?.some((coding) => coding.system === system && coding.code === code) &&
+      getStatusCode(c.verificationStatus) !== 'entered-in-error' &&
+      (command.action !== 'resolve' || getStatusCode(c.clinicalStatus) !== 'resolved')
+  );
+
+  if (matches.length === 0) {
+    return { error: `No matching Condition ${system}|${code} found for ${patient}` };
+  }
+  if (matches.length > 1) {
+    return {
+      error: `Multiple Conditions match ${system}|${code} for ${patient}; conditionId is required`,
+    };
+  }
+  return { condition: matches[0] };
+}
+
+/**
+ * Add the target Condition's current verification status to a command,
+ * so safety filters such as VerifiedDiagnosisProtection can match on it
+ */
+export function withTargetStatus(command: ProposeProblemListUpdate, condition: Condition): ProposeProblemListUpdate {
+  return {
+    ...command,
+    condition: {
+      ...command.condition,
+      verificationStatus: getStatusCode(condition.verificationStatus),
+    },
+  };
+}
+
+/**
+ * Check that an update command changes at least one field, or the code of the target Condition
+ */
+export function hasProblemListChanges(command: ProposeProblemListUpdate, condition?: Condition): boolean {
+  return Boolean(
+    command.clinicalStatus ||
+      command.verificationStatus ||
+      command.severity ||
+      command.abatementDate ||
+      (condition && isRefinedCode(condition, command))
+  );
+}
+
+/**
+ * Apply a resolve/update command to a Condition
+ */
+export function applyProblemListUpdate(condition: Condition, command: ProposeProblemListUpdate): Condition {
+  const updated: Condition = { ...condition };
+
+  if (command.action === 'update' && isRefinedCode(condition, command)) {
+    const { system, code, display } = command.condition;
+    updated.code = {
+      coding: [...(condition.code?.coding || []).filter((c) => c.system !== system), { system, code, display }],
+      text: display,
+    };
+  }
+
+  const clinicalStatus = command.clinicalStatus || (command.action === 'resolve' ? 'resolved' : undefined);
+  if (clinicalStatus) {
+    updated.clinicalStatus = { coding: [{ system: CLINICAL_STATUS_SYSTEM, code: clinicalStatus }] };
+  }
+
+  if (command.verificationStatus) {
+    updated.verificationStatus = { coding: [{ system: VERIFICATION_STATUS_SYSTEM, code: command.verificationStatus }] };
+  }
+
+  if (command.severity) {
+    updated.severity = SEVERITY_CODES[command.severity];
+  }
+
+  const status = getStatusCode(updated.clinicalStatus);
+  if (status && ABATED_STATUSES.includes(status)) {
+    if (command.abatementDate || command.action === 'resolve') {
+      clearAbatement(updated);
+      updated.abatementDateTime = command.abatementDate || new Date().toISOString();
+    }
+  } else if (clinicalStatus) {
+    // Active again (e.g. recurrence), so any previous abatement no longer applies
+    clearAbatement(updated);
+  }
+
+  return updated;
+}
+
+/**
+ * Check whether a command's code is not yet on the Condition
+ */
+function isRefinedCode(condition: Condition, command: ProposeProblemListUpdate): boolean {
+  const { system, code } = command.condition;
+  return !condition.code?.coding?.some((coding) => coding.system === system && coding.code === code);
+}
+
+function clearAbatement(condition: Condition): void {
+  delete condition.abatementDateTime;
+  delete condition.abatementAge;
+  delete condition.abatementPeriod;
+  delete condition.abatementRange;
+  delete condition.abatementString;
+}
+
+function getStatusCode(concept: CodeableConcept | undefined): string | undefined {
+  return concept?.coding?.[0]?.code;
+}
@@ -0,0 +1,228 @@
+/**
+ * Quiet Hours
+ *
+ * Decides whether a command arrives during quiet hours, evaluated in the
+ * clinic's IANA timezone rather than the server's. The policy's quietHours
+ * settings can be overridden per Location or Organization: the timezone with
+ * the standard timezone extension, and the window itself with the
+ * ai-quiet-hours extension. More specific records win: the encounter's
+ * Location, then its managing Organization, the encounter's service provider
+ * and finally the patient's managing Organization.
+ */
+
+import { MedplumClient } from '@medplum/core';
+import { Extension, Location, Organization, Reference } from '@medplum/fhirtypes';
+import { AICommand, QuietHoursPolicy } from '../types/ai-command-types';
+
+export const TIMEZONE_EXTENSION = 'http://hl7.org/fhir/StructureDefinition/timezone';
+// Sub-extensions: enabled (valueBoolean), start and end (valueTime), requireSeniorApproval (valueBoolean)
+export const QUIET_HOURS_EXTENSION = 'http://medplum.com/fhir/StructureDefinition/ai-quiet-hours';
+
+// A FHIR time, hh:mm:ss with optional fractional seconds; hh:mm is also accepted
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?$/;
+
+export interface QuietHoursSettings {
+  enabled: boolean;
+  start: string; // HH:MM
+  end: string; // HH:MM
+  timezone?: string;
+  requireSeniorApproval: boolean;
+  source: string; // 'policy' or the most specific overriding record, e.g. 'Location/123'
+}
+
+export interface QuietHoursStatus extends QuietHoursSettings {
+  active: boolean;
+}
+
+/**
+ * Work out whether quiet hours apply to a command now, with any
+ * Location/Organization overrides for where it was generated
+ */
+export async function getQuietHoursStatus(
+  medplum: MedplumClient,
+  command: AICommand,
+  policy: QuietHoursPolicy,
+  now: Date = new Date()
+): Promise<QuietHoursStatus> {
+  const settings: QuietHoursSettings = {
+    enabled: policy.enabled,
+    start: policy.start,
+    end: policy.end,
+    timezone: policy.timezone,
+    requireSeniorApproval: policy.requireSeniorApproval,
+    source: 'policy',
+  };
+
+  if (policy.exemptActions.includes(command.command)) {
+    return { ...settings, active: false };
+  }
+
+  // Most general first, so more specific records are applied last
+  for (const record of (await findCareSettings(medplum, command)).reverse()) {
+    applyOverrides(settings, record);
+  }
+
+  return { ...settings, active: settings.enabled && isWithinQuietHours(settings, now) };
+}
+
+/**
+ * Check whether a time falls within a quiet hours window in its timezone
+ */
+export function isWithinQuietHours(window: { start: string; end: string; timezone?: string }, now: Date): boolean {
+  const minutes = getMinutesOfDay(now, window.timezone);
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+
+  // Quiet hours may wrap past midnight (e.g. 22:00-06:00)
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Check that a timezone is a known IANA zone, e.g. 'America/New_York'
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Locations and Organizations where a command was generated, most specific first
+ */
+async function findCareSettings(
+  medplum: MedplumClient,
+  command: AICommand
+): Promise<(Location | Organization)[]> {
+  const records: (Location | Organization)[] = [];
+
+  try {
+    if ('encounterId' in command && command.encounterId) {
+      const encounter = await medplum.readResource('Encounter', command.encounterId);
+      const location = await readReference<Location>(medplum, encounter.location?.[0]?.location);
+      if (location) {
+        records.push(location);
+        await pushReference(medplum, records, location.managingOrganization);
+      }
+      await pushReference(medplum, records, encounter.serviceProvider);
+    }
+
+    if ('patientId' in command && command.patientId) {
+      const patient = await medplum.readResource('Patient', command.patientId);
+      await pushReference(medplum, records, patient.managingOrganization);
+    }
+  } catch (error) {
+    // Fall back to the overrides found so far, or the policy
+    console.log('Failed to load care setting for quiet hours:', error);
+  }
+
+  return records;
+}
+
+async function pushReference(
+  medplum: MedplumClient,
+  records: (Location | Organization)[],
+  reference: Reference<Organization> | undefined
+): Promise<void> {
+  const organization = await readReference<Organization>(medplum, reference);
+  if (organization && !records.some((r) => r.resourceType === 'Organization' && r.id === organization.id)) {
+    records.push(organization);
+  }
+}
+
+async function readReference<T extends Location | Organization>(
+  medplum: MedplumClient,
+  reference: Reference<T> | undefined
+): Promise<T | undefined> {
+  const [resourceType, id] = reference?.reference?.split('/') || [];
+  if (!id || (resourceType !== 'Location' && resourceType !== 'Organization')) {
+    return undefined;
+  }
+  return (await medplum.readResource(resourceType, id)) as T;
+}
+
+/**
+ * Apply a record's timezone and quiet hours extensions. Invalid values are
+ * ignored, and the record becomes the source only if it overrode something.
+ */
+function applyOverrides(settings: QuietHoursSettings, record: Location | Organization): void {
+  const source = `${record.resourceType}/${record.id}`;
+  let applied = false;
+
+  const timezone = record.extension?.find((e) => e.url === TIMEZONE_EXTENSION)?.valueCode;
+  if (timezone && isValidTimeZone(timezone)) {
+    settings.timezone = timezone;
+    applied = true;
+  }
+
+  const quietHours = record.extension?.find((e) => e.url === QUIET_HOURS_EXTENSION);
+  const enabled = getSubExtension(quietHours, 'enabled')?.valueBoolean;
+  const start = getTimeOfDay(quietHours, 'start', source);
+  const end = getTimeOfDay(quietHours, 'end', source);
+  const requireSeniorApproval = getSubExtension(quietHours, 'requireSeniorApproval')?.valueBoolean;
+
+  if (enabled !== undefined) {
+    settings.enabled = enabled;
+    applied = true;
+  }
+  if (start && end) {
+    settings.start = start;
+    settings.end = end;
+    applied = true;
+  }
+  if (requireSeniorApproval !== undefined) {
+    settings.requireSeniorApproval = requireSeniorApproval;
+    applied = true;
+  }
+
+  if (applied) {
+    settings.source = source;
+  }
+}
+
+function getSubExtension(extension: Extension | undefined, url: string): Extension | undefined {
+  return extension?.extension?.find((e) => e.url === url);
+}
+
+/**
+ * Read a start or end time as HH:MM, or undefined if missing or invalid
+ */
+function getTimeOfDay(quietHours: Extension | undefined, url: 'start' | 'end', source: string): string | undefined {
+  const time = getSubExtension(quietHours, url)?.valueTime;
+  if (time === undefined) {
+    return undefined;
+  }
+  if (!TIME_PATTERN.test(time)) {
+    console.log(`Ignoring invalid quiet hours ${url} "${time}" on ${source}`);
+    return undefined;
+  }
+  return time.substring(0, 5);
+}
+
+/**
+ * Minutes since midnight in a timezone, or in server local time without one
+ */
+function getMinutesOfDay(date: Date, timezone: string | undefined): number {
+  if (!timezone) {
+    return date.getHours() * 60 + date.getMinutes();
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string): number => parseInt(parts.find((p) => p.type === type)?.value || '0', 10);
+  return part('hour') * 60 + part('minute');
+}
+
+/**
+ * Convert HH:MM to minutes since midnight
+ */
+function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+}
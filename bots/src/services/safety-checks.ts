@@ -0,0 +1,195 @@
+/**
+ * Safety Checks
+ *
+ * Evaluates the safety policy against a command: blocked actions, safety
+ * filters (matched against the patient's facts and the record the command
+ * changes) and the approval rule they adjust. The command processor runs
+ * them when a command arrives, and the approval queue runs them again on the
+ * command as approved, including any clinician edits, before executing it.
+ */
+
+import { MedplumClient } from '@medplum/core';
+import { AICommand, ApprovalRule, SafetyPolicy } from '../types/ai-command-types';
+import { FilterContext, evaluateFilterConditions } from './safety-policy';
+import { findTargetCondition, withTargetStatus } from './problem-list';
+import { getPatientFacts } from './patient-context';
+import { getCommandDefinition } from '../commands';
+
+export interface SafetyResult {
+  blocked: boolean;
+  forceApproval: boolean;
+  dualApproval?: boolean;
+  minApprovers?: number;
+  approverRoles?: string[];
+  filter?: string;
+  reason?: string;
+  warnings: string[];
+}
+
+/**
+ * Check whether the policy disables AI actions or blocks this command type
+ */
+export function checkPolicyBlocks(command: AICommand, policy: SafetyPolicy): SafetyResult | undefined {
+  if (!policy.global.enabled) {
+    return {
+      blocked: true,
+      forceApproval: false,
+      filter: 'GlobalDisable',
+      reason: 'AI actions are disabled by safety policy',
+      warnings: [],
+    };
+  }
+
+  // Blocked actions are never permitted
+  for (const blocked of policy.blockedActions) {
+    if (new RegExp(`^(?:${blocked.pattern})$`).test(command.command)) {
+      return {
+        blocked: true,
+        forceApproval: false,
+        filter: 'BlockedAction',
+        reason: blocked.reason,
+        warnings: [],
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Run safety filters against command
+ */
+export function runSafetyFilters(command: FilterContext, policy: SafetyPolicy): SafetyResult {
+  const warnings: string[] = [];
+  let forceApproval = false;
+  let dualApproval = false;
+  let minApprovers: number | undefined;
+  let approverRoles: string[] | undefined;
+
+  for (const filter of policy.safetyFilters) {
+    if (!filter.enabled) continue;
+
+    const matches = evaluateFilterConditions(command, filter);
+
+    if (matches) {
+      switch (filter.action) {
+        case 'block':
+          return {
+            blocked: true,
+            forceApproval: false,
+            filter: filter.name,
+            reason: filter.description,
+            warnings,
+          };
+        case 'warn':
+          warnings.push(`Warning: ${filter.description}`);
+          break;
+        case 'require_approval':
+          // Force approval when safety filter requires it
+          forceApproval = true;
+          warnings.push(`Safety filter requires approval: ${filter.description}`);
+          break;
+        case 'require_dual_approval':
+          forceApproval = true;
+          dualApproval = true;
+          minApprovers = Math.max(minApprovers || 0, filter.minApprovers || 2);
+          warnings.push(`Safety filter requires dual approval: ${filter.description}`);
+          break;
+      }
+
+      // Matching filters narrow who may approve the command
+      const filterRoles = filter.approverRoles;
+      if (filterRoles && (filter.action === 'require_approval' || filter.action === 'require_dual_approval')) {
+        approverRoles = approverRoles
+          ? approverRoles.filter((role) => filterRoles.includes(role))
+          : [...filterRoles];
+      }
+    }
+  }
+
+  // Check confidence threshold
+  const minimumConfidence = policy.global.minimumConfidence;
+  if (command.confidence < minimumConfidence) {
+    return {
+      blocked: true,
+      forceApproval: false,
+      filter: 'LowConfidenceBlock',
+      reason: `Command confidence (${command.confidence}) is below minimum threshold (${minimumConfidence})`,
+      warnings,
+    };
+  }
+
+  return { blocked: false, forceApproval, dualApproval, minApprovers, approverRoles, warnings };
+}
+
+/**
+ * Add record state that safety filters match on: the patient's derived facts
+ * (age, pregnancy, eGFR, allergies, problems) and, for problem list updates,
+ * the current status of the target Condition
+ */
+export async function getFilterContext(medplum: MedplumClient, command: AICommand): Promise<FilterContext> {
+  let context: FilterContext = command;
+
+  if (command.command === 'ProposeProblemListUpdate' && command.action !== 'add') {
+    try {
+      const { condition } = await findTargetCondition(medplum, command);
+      context = condition ? withTargetStatus(command, condition) : command;
+    } catch (error) {
+      // The approval queue re-checks against the record before executing
+      console.log('Failed to load target condition for safety filters:', error);
+    }
+  }
+
+  try {
+    return { ...context, patient: await getPatientFacts(medplum, command.patientId) };
+  } catch (error) {
+    // Without patient facts the caller holds the command for approval or refuses it
+    console.log('Failed to load patient facts for safety filters:', error);
+    return context;
+  }
+}
+
+/**
+ * Get approval rule for command
+ */
+export function getApprovalRule(command: AICommand, policy: SafetyPolicy): ApprovalRule {
+  return policy.approvalRules[command.command] || getCommandDefinition(command.command)?.defaultRule || {
+    requiresApproval: true,
+    approverRoles: ['Practitioner'],
+    timeout: policy.global.defaultApprovalTimeout,
+    auditRequired: true,
+  };
+}
+
+/**
+ * Apply approver role and dual-approval requirements from matched safety filters
+ */
+export function applySafetyOverrides(rule: ApprovalRule, safetyResult: SafetyResult): ApprovalRule {
+  const effective: ApprovalRule = { ...rule };
+
+  if (safetyResult.approverRoles && safetyResult.approverRoles.length > 0) {
+    effective.approverRoles = safetyResult.approverRoles;
+  }
+
+  if (safetyResult.dualApproval) {
+    effective.dualApproval = true;
+    effective.minApprovers = Math.max(rule.minApprovers || 0, safetyResult.minApprovers || 2);
+  }
+
+  if (effective.timeout === '0' && safetyResult.forceApproval) {
+    // Auto-executed commands have no timeout; forced approvals need one
+    effective.timeout = '24h';
+  }
+
+  return effective;
+}
+
+/**
+ * Check if command requires approval
+ */
+export function checkRequiresApproval(command: AICommand, rule: ApprovalRule): boolean {
+  if (typeof rule.requiresApproval === 'function') {
+    return rule.requiresApproval(command);
+  }
+  return rule.requiresApproval;
+}
@@ -0,0 +1,861 @@
+/**
+ * Safety Policy Loader
+ *
+ * Loads the AI safety policy (blocked actions, safety filters, approval rules,
+ * quiet hours) from config/safety-filters.yaml at runtime, so compliance can
+ * change policy without redeploying the bots.
+ *
+ * The policy file is located via the SAFETY_POLICY_PATH environment variable.
+ * When it is not set, the built-in DEFAULT_SAFETY_POLICY is used. When it is set
+ * but the file cannot be read or parsed, the last policy loaded from it stays in
+ * force; before one has loaded, FAIL_CLOSED_SAFETY_POLICY holds every command
+ * for clinician review. An invalid blocked action, block or approval filter, or
+ * approval rule counts as a failure to load, since dropping it would loosen the
+ * policy.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { parse } from 'yaml';
+import {
+  AICommand,
+  ApprovalRule,
+  BlockedAction,
+  DEFAULT_SAFETY_FILTERS,
+  EscalationStep,
+  QuietHoursPolicy,
+  SafetyComparison,
+  SafetyCondition,
+  SafetyConditionGroup,
+  SafetyFilter,
+  SafetyPolicy,
+} from '../types/ai-command-types';
+import { getDefaultApprovalRules } from '../commands';
+import { isValidTimeZone } from './quiet-hours';
+import { PATIENT_FACT_TYPES, PatientFacts } from './patient-context';
+
+// Helper to safely read environment variables
+function getEnv(key: string, fallback = ''): string {
+  return (typeof process !== 'undefined' && process.env?.[key]) || fallback;
+}
+
+const FILTER_ACTIONS: SafetyFilter['action'][] = ['block', 'warn', 'require_approval', 'require_dual_approval'];
+const CONDITION_OPERATORS: SafetyComparison['operator'][] = [
+  'equals',
+  'contains',
+  'matches',
+  'starts_with',
+  'greater_than',
+  'less_than',
+  'between',
+  'in',
+  'exists',
+];
+const CONDITION_GROUPS = ['anyOf', 'allOf', 'not'] as const;
+// Dotted field path, with [*] to match any array element
+const FIELD_PATH_PATTERN = /^[A-Za-z_]\w*(\[\*\])?(\.[A-Za-z_]\w*(\[\*\])?)*$/;
+
+// Types of the fields every command has, and of patient facts, for load-time checks
+type FieldType = 'string' | 'number' | 'boolean' | 'list';
+const FIELD_TYPES: Record<string, FieldType> = {
+  command: 'string',
+  commandId: 'string',
+  patientId: 'string',
+  aiModel: 'string',
+  confidence: 'number',
+  requiresApproval: 'boolean',
+  ...Object.fromEntries(Object.entries(PATIENT_FACT_TYPES).map(([fact, type]) => [`patient.${fact}`, type])),
+};
+const OPERATORS_BY_TYPE: Record<FieldType, SafetyComparison['operator'][]> = {
+  string: ['equals', 'contains', 'matches', 'starts_with', 'in', 'exists'],
+  number: ['equals', 'greater_than', 'less_than', 'between', 'in', 'exists'],
+  boolean: ['equals', 'exists'],
+  list: ['contains', 'exists'],
+};
+type TaskPriority = NonNullable<EscalationStep['priority']>;
+const TASK_PRIORITIES: TaskPriority[] = ['routine', 'urgent', 'asap', 'stat'];
+const TIMEOUT_PATTERN = /^(0|\d+[hdwm])$/;
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface SafetyPolicyError {
+  path: string;
+  message: string;
+}
+
+export interface SafetyPolicyLoadResult {
+  policy: SafetyPolicy;
+  errors: SafetyPolicyError[];
+  failed?: boolean; // The document could not be loaded; policy is FAIL_CLOSED_SAFETY_POLICY
+}
+
+// Default safety policy, used when no policy file is configured.
+// Approval rules come from the registered command types.
+export const DEFAULT_SAFETY_POLICY: SafetyPolicy = {
+  global: {
+    enabled: true,
+    minimumConfidence: 0.5,
+    auditAll: true,
+    defaultApprovalTimeout: '24h',
+    maxPendingPerPatient: 10,
+  },
+  quietHours: {
+    enabled: true,
+    start: '22:00',
+    end: '06:00',
+    exemptActions: [],
+    requireSeniorApproval: false,
+    seniorApproverRoles: ['Supervisor'],
+  },
+  blockedActions: [],
+  safetyFilters: DEFAULT_SAFETY_FILTERS,
+  approvalRules: getDefaultApprovalRules(),
+};
+
+// Used while the configured policy file cannot be loaded: the defaults, with
+// a filter that matches every command and requires approval
+export const FAIL_CLOSED_SAFETY_POLICY: SafetyPolicy = {
+  ...DEFAULT_SAFETY_POLICY,
+  safetyFilters: [
+    ...DEFAULT_SAFETY_FILTERS,
+    {
+      name: 'SafetyPolicyUnavailable',
+      description: 'The safety policy could not be loaded; every command needs clinician review',
+      enabled: true,
+      action: 'require_approval',
+      conditions: [],
+    },
+  ],
+};
+
+// Cache of the policy in force for the policy file, by its modification time
+let cache: { path: string; mtimeMs: number; result: SafetyPolicyLoadResult } | undefined;
+
+/**
+ * Get the active safety policy.
+ * Re-reads the policy file whenever it changes on disk.
+ */
+export function getSafetyPolicy(): SafetyPolicy {
+  const path = getEnv('SAFETY_POLICY_PATH');
+  if (!path) {
+    return DEFAULT_SAFETY_POLICY;
+  }
+
+  try {
+    const { mtimeMs } = statSync(path);
+    if (cache && cache.path === path && cache.mtimeMs === mtimeMs) {
+      return cache.result.policy;
+    }
+
+    const result = parseSafetyPolicy(readFileSync(path, 'utf8'));
+    for (const error of result.errors) {
+      console.log(`Safety policy error at ${error.path || '<root>'}: ${error.message}`);
+    }
+
+    if (result.failed && cache?.path === path) {
+      // Keep enforcing the last policy loaded from the file until it is fixed
+      cache = { ...cache, mtimeMs };
+      return cache.result.policy;
+    }
+
+    cache = { path, mtimeMs, result };
+    return result.policy;
+  } catch (error) {
+    console.log(`Failed to load safety policy from ${path}:`, error);
+    // Keep enforcing the last good policy rather than silently loosening it
+    return cache?.path === path ? cache.result.policy : FAIL_CLOSED_SAFETY_POLICY;
+  }
+}
+
+/**
+ * Clear the cached policy (for tests and forced reloads)
+ */
+export function clearSafetyPolicyCache(): void {
+  cache = undefined;
+}
+
+// A command plus the patient facts its filters can match on as patient.* fields
+export type FilterContext = AICommand & { patient?: PatientFacts };
+
+/**
+ * Evaluate a safety filter's conditions against a command (all must match)
+ */
+export function evaluateFilterConditions(context: FilterContext, filter: SafetyFilter): boolean {
+  return filter.conditions.every((condition) => evaluateCondition(context, condition));
+}
+
+/**
+ * Evaluate a comparison or a nested anyOf/allOf/not group
+ */
+function evaluateCondition(context: FilterContext, condition: SafetyCondition): boolean {
+  if ('anyOf' in condition) return condition.anyOf.some((c) => evaluateCondition(context, c));
+  if ('allOf' in condition) return condition.allOf.every((c) => evaluateCondition(context, c));
+  if ('not' in condition) return !evaluateCondition(context, condition.not);
+
+  const values = getFieldValues(context, condition.field);
+  if (condition.operator === 'exists') {
+    return values.some((value) => value !== undefined && value !== null) === (condition.value ?? true);
+  }
+  // With [*] in the path, any element may match
+  return values.some((value) => compareValue(value, condition));
+}
+
+function compareValue(value: unknown, condition: SafetyComparison): boolean {
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return value === expected;
+    case 'contains':
+      // Substring for text, membership for lists (e.g. patient.problems)
+      if (Array.isArray(value)) return value.includes(expected);
+      return typeof value === 'string' && value.includes(String(expected));
+    case 'matches':
+      return typeof value === 'string' && new RegExp(String(expected)).test(value);
+    case 'starts_with':
+      return typeof value === 'string' && value.startsWith(String(expected));
+    case 'greater_than':
+      return typeof value === 'number' && value > Number(expected);
+    case 'less_than':
+      return typeof value === 'number' && value < Number(expected);
+    case 'between': {
+      const [min, max] = expected as number[];
+      return typeof value === 'number' && value >= min && value <= max;
+    }
+    case 'in':
+      return Array.isArray(expected) && expected.some((item) => item === value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Values at a field path. [*] expands arrays, so a path may yield several
+ * values, or none for an empty array.
+ */
+function getFieldValues(obj: unknown, path: string): unknown[] {
+  let values: unknown[] = [obj];
+  for (const segment of path.split('.')) {
+    const expand = segment.endsWith('[*]');
+    const key = expand ? segment.slice(0, -3) : segment;
+    values = values.map((value) => (isRecord(value) ? value[key] : undefined));
+    if (expand) {
+      values = values.flatMap((value) => (Array.isArray(value) ? value : []));
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse and validate a safety policy YAML document.
+ * Invalid settings and warn filters are skipped and reported; valid entries are
+ * still applied. A document that is not valid YAML or not a mapping, or that has
+ * an invalid blocked action, block or approval filter, or approval rule, yields
+ * the fail-closed policy.
+ */
+export function parseSafetyPolicy(yamlText: string): SafetyPolicyLoadResult {
+  const errors: SafetyPolicyError[] = [];
+
+  let doc: unknown;
+  try {
+    doc = parse(yamlText);
+  } catch (error) {
+    return {
+      policy: FAIL_CLOSED_SAFETY_POLICY,
+      errors: [{ path: '', message: `Invalid YAML: ${error instanceof Error ? error.message : error}` }],
+      failed: true,
+    };
+  }
+
+  if (!isRecord(doc)) {
+    return {
+      policy: FAIL_CLOSED_SAFETY_POLICY,
+      errors: [{ path: '', message: 'Policy document must be a mapping' }],
+      failed: true,
+    };
+  }
+
+  // Set when an entry that blocks or holds commands is invalid, as dropping it would loosen the policy
+  let failed = false;
+  const required =
+    <T>(parseItem: ItemParser<T>, isRequired: (raw: unknown) => boolean): ItemParser<T> =>
+    (raw, path, itemErrors) => {
+      const item = parseItem(raw, path, itemErrors);
+      failed ||= !item && isRequired(raw);
+      return item;
+    };
+
+  const policy: SafetyPolicy = {
+    global: parseGlobal(doc.global, errors),
+    quietHours: parseQuietHours(doc.quietHours, errors),
+    blockedActions: parseList(doc.blockedActions, 'blockedActions', errors, required(parseBlockedAction, () => true)),
+    // Only a warn filter may be dropped; any other action, or a typo in it, may block or hold commands
+    safetyFilters: parseList(
+      doc.safetyFilters,
+      'safetyFilters',
+      errors,
+      required(parseSafetyFilter, (raw) => !isRecord(raw) || raw.action !== 'warn')
+    ),
+    approvalRules: getDefaultApprovalRules(),
+  };
+  failed ||= errors.some((error) => error.path === 'blockedActions' || error.path === 'safetyFilters');
+
+  if (doc.approvalRules !== undefined) {
+    if (!isRecord(doc.approvalRules)) {
+      errors.push({ path: 'approvalRules', message: 'must be a mapping of command type to rule' });
+      failed = true;
+    } else {
+      for (const [commandType, raw] of Object.entries(doc.approvalRules)) {
+        const rule = parseApprovalRule(raw, `approvalRules.${commandType}`, policy.global.defaultApprovalTimeout, errors);
+        if (rule) {
+          policy.approvalRules[commandType] = rule;
+        } else {
+          failed = true;
+        }
+      }
+    }
+  }
+
+  return failed ? { policy: FAIL_CLOSED_SAFETY_POLICY, errors, failed } : { policy, errors };
+}
+
+
+function parseGlobal(raw: unknown, errors: SafetyPolicyError[]): SafetyPolicy['global'] {
+  const defaults = DEFAULT_SAFETY_POLICY.global;
+  if (raw === undefined) return { ...defaults };
+  if (!isRecord(raw)) {
+    errors.push({ path: 'global', message: 'must be a mapping' });
+    return { ...defaults };
+  }
+
+  const minimumConfidence = readNumber(raw, 'minimumConfidence', 'global', errors);
+  if (minimumConfidence !== undefined && (minimumConfidence < 0 || minimumConfidence > 1)) {
+    errors.push({ path: 'global.minimumConfidence', message: 'must be between 0 and 1' });
+  }
+
+  const maxPendingPerPatient = readNumber(raw, 'maxPendingPerPatient', 'global', errors);
+  if (maxPendingPerPatient !== undefined && (!Number.isInteger(maxPendingPerPatient) || maxPendingPerPatient < 1)) {
+    errors.push({ path: 'global.maxPendingPerPatient', message: 'must be a positive integer' });
+  }
+
+  const defaultApprovalTimeout = readString(raw, 'defaultApprovalTimeout', 'global', errors);
+  if (defaultApprovalTimeout !== undefined && !TIMEOUT_PATTERN.test(defaultApprovalTimeout)) {
+    errors.push({ path: 'global.defaultApprovalTimeout', message: `invalid timeout "${defaultApprovalTimeout}"` });
+  }
+
+  return {
+    enabled: readBoolean(raw, 'enabled', 'global', errors) ?? defaults.enabled,
+    minimumConfidence:
+      minimumConfidence !== undefined && minimumConfidence >= 0 && minimumConfidence <= 1
+        ? minimumConfidence
+        : defaults.minimumConfidence,
+    auditAll: readBoolean(raw, 'auditAll', 'global', errors) ?? defaults.auditAll,
+    defaultApprovalTimeout:
+      defaultApprovalTimeout && TIMEOUT_PATTERN.test(defaultApprovalTimeout)
+        ? defaultApprovalTimeout
+        : defaults.defaultApprovalTimeout,
+    maxPendingPerPatient:
+      maxPendingPerPatient !== undefined && Number.isInteger(maxPendingPerPatient) && maxPendingPerPatient >= 1
+        ? maxPendingPerPatient
+        : defaults.maxPendingPerPatient,
+  };
+}
+
+function parseQuietHours(raw: unknown, errors: SafetyPolicyError[]): QuietHoursPolicy {
+  const defaults = DEFAULT_SAFETY_POLICY.quietHours;
+  if (raw === undefined) return { ...defaults };
+  if (!isRecord(raw)) {
+    errors.push({ path: 'quietHours', message: 'must be a mapping' });
+    return { ...defaults };
+  }
+
+  const readTime = (key: 'start' | 'end'): string => {
+    const value = readString(raw, key, 'quietHours', errors);
+    if (value === undefined) return defaults[key];
+    if (!TIME_OF_DAY_PATTERN.test(value)) {
+      errors.push({ path: `quietHours.${key}`, message: `invalid time "${value}", expected HH:MM` });
+      return defaults[key];
+    }
+    return value;
+  };
+
+  const readTimeZone = (): string | undefined => {
+    const value = readString(raw, 'timezone', 'quietHours', errors);
+    if (value === undefined) return defaults.timezone;
+    if (!isValidTimeZone(value)) {
+      errors.push({ path: 'quietHours.timezone', message: `unknown timezone "${value}", expected an IANA name` });
+      return defaults.timezone;
+    }
+    return value;
+  };
+
+  return {
+    enabled: readBoolean(raw, 'enabled', 'quietHours', errors) ?? defaults.enabled,
+    start: readTime('start'),
+    end: readTime('end'),
+    timezone: readTimeZone(),
+    exemptActions: readStringArray(raw, 'exemptActions', 'quietHours', errors) ?? defaults.exemptActions,
+    requireSeniorApproval:
+      readBoolean(raw, 'requireSeniorApproval', 'quietHours', errors) ?? defaults.requireSeniorApproval,
+    seniorApproverRoles:
+      readStringArray(raw, 'seniorApproverRoles', 'quietHours', errors) ?? defaults.seniorApproverRoles,
+  };
+}
+
+function parseBlockedAction(raw: unknown, path: string, errors: SafetyPolicyError[]): BlockedAction | undefined {
+  if (!isRecord(raw)) {
+    errors.push({ path, message: 'must be a mapping with pattern and reason' });
+    return undefined;
+  }
+
+  const pattern = readString(raw, 'pattern', path, errors);
+  if (!pattern) {
+    errors.push({ path: `${path}.pattern`, message: 'is required' });
+    return undefined;
+  }
+  if (!isValidRegex(pattern)) {
+    errors.push({ path: `${path}.pattern`, message: `invalid regular expression "${pattern}"` });
+    return undefined;
+  }
+
+  return {
+    pattern,
+    reason: readString(raw, 'reason', path, errors) || `Action matches blocked pattern ${pattern}`,
+  };
+}
+
+function parseSafetyFilter(raw: unknown, path: string, errors: SafetyPolicyError[]): SafetyFilter | undefined {
+  if (!isRecord(raw)) {
+    errors.push({ path, message: 'must be a mapping' });
+    return undefined;
+  }
+
+  const name = readString(raw, 'name', path, errors);
+  if (!name) {
+    errors.push({ path: `${path}.name`, message: 'is required' });
+    return undefined;
+  }
+
+  const action = raw.action as SafetyFilter['action'];
+  if (!FILTER_ACTIONS.includes(action)) {
+    errors.push({ path: `${path}.action`, message: `must be one of ${FILTER_ACTIONS.join(', ')}` });
+    return undefined;
+  }
+
+  if (!Array.isArray(raw.conditions) || raw.conditions.length === 0) {
+    errors.push({ path: `${path}.conditions`, message: 'must be a non-empty list' });
+    return undefined;
+  }
+
+  const conditions: SafetyCondition[] = [];
+  for (let i = 0; i < raw.conditions.length; i++) {
+    const condition = parseSafetyCondition(raw.conditions[i], `${path}.conditions[${i}]`, errors);
+    if (!condition) {
+      // A filter with a dropped condition would match more broadly than intended
+      return undefined;
+    }
+    conditions.push(condition);
+  }
+
+  const filter: SafetyFilter = {
+    name,
+    description: readString(raw, 'description', path, errors) || name,
+    enabled: readBoolean(raw, 'enabled', path, errors) ?? true,
+    action,
+    conditions,
+  };
+
+  const approverRoles = readStringArray(raw, 'approverRoles', path, errors);
+  if (approverRoles) {
+    filter.approverRoles = approverRoles;
+  } else if (raw.approverRoles !== undefined && raw.approverRoles !== null) {
+    return undefined;
+  }
+
+  if (action === 'require_dual_approval') {
+    const minApprovers = readMinApprovers(raw, path, 2, errors);
+    if (minApprovers === undefined) {
+      return undefined;
+    }
+    filter.minApprovers = minApprovers;
+  }
+
+  return filter;
+}
+
+function parseSafetyCondition(raw: unknown, path: string, errors: SafetyPolicyError[]): SafetyCondition | undefined {
+  if (!isRecord(raw)) {
+    errors.push({ path, message: 'must be a mapping with field, operator and value, or anyOf, allOf or not' });
+    return undefined;
+  }
+
+  const groups = CONDITION_GROUPS.filter((key) => key in raw);
+  if (groups.length > 1 || (groups.length === 1 && 'field' in raw)) {
+    errors.push({ path, message: 'must have exactly one of field, anyOf, allOf or not' });
+    return undefined;
+  }
+
+  const group = groups[0];
+  if (group === 'not') {
+    const condition = parseSafetyCondition(raw.not, `${path}.not`, errors);
+    return condition && { not: condition };
+  }
+  if (group) {
+    const list = raw[group];
+    if (!Array.isArray(list) || list.length === 0) {
+      errors.push({ path: `${path}.${group}`, message: 'must be a non-empty list' });
+      return undefined;
+    }
+    const conditions: SafetyCondition[] = [];
+    for (let i = 0; i < list.length; i++) {
+      const condition = parseSafetyCondition(list[i], `${path}.${group}[${i}]`, errors);
+      if (!condition) return undefined;
+      conditions.push(condition);
+    }
+    return { [group]: conditions } as SafetyConditionGroup;
+  }
+
+  return parseSafetyComparison(raw, path, errors);
+}
+
+/**
+ * Parse a field comparison, checking the value suits the operator and, for
+ * known fields, that the operator and value suit the field's type
+ */
+function parseSafetyComparison(
+  raw: Record<string, unknown>,
+  path: string,
+  errors: SafetyPolicyError[]
+): SafetyComparison | undefined {
+  const field = readString(raw, 'field', path, errors);
+  if (!field) {
+    errors.push({ path: `${path}.field`, message: 'is required' });
+    return undefined;
+  }
+  if (!FIELD_PATH_PATTERN.test(field)) {
+    errors.push({ path: `${path}.field`, message: `invalid field path "${field}"` });
+    return undefined;
+  }
+
+  const [root, fact] = field.split('.');
+  if (root === 'patient' && !hasOwn(PATIENT_FACT_TYPES, fact)) {
+    const facts = Object.keys(PATIENT_FACT_TYPES).join(', ');
+    errors.push({ path: `${path}.field`, message: `unknown patient field, expected one of ${facts}` });
+    return undefined;
+  }
+
+  const operator = raw.operator as SafetyComparison['operator'];
+  if (!CONDITION_OPERATORS.includes(operator)) {
+    errors.push({ path: `${path}.operator`, message: `must be one of ${CONDITION_OPERATORS.join(', ')}` });
+    return undefined;
+  }
+
+  const value = raw.value as SafetyComparison['value'];
+  const valueError = checkOperatorValue(operator, value);
+  if (valueError) {
+    errors.push({ path: `${path}.value`, message: valueError });
+    return undefined;
+  }
+
+  const fieldType = hasOwn(FIELD_TYPES, field) ? FIELD_TYPES[field] : undefined;
+  if (fieldType && !OPERATORS_BY_TYPE[fieldType].includes(operator)) {
+    errors.push({
+      path: `${path}.operator`,
+      message: `operator ${operator} does not apply to ${fieldType} field ${field}`,
+    });
+    return undefined;
+  }
+  const scalarType = fieldType === 'list' ? 'string' : fieldType;
+  const compared = Array.isArray(value) ? value : operator === 'exists' ? [] : [value];
+  if (scalarType && operator !== 'matches' && !compared.every((item) => typeof item === scalarType)) {
+    errors.push({ path: `${path}.value`, message: `must be a ${scalarType} to compare with ${field}` });
+    return undefined;
+  }
+
+  return value === undefined ? { field, operator } : { field, operator, value };
+}
+
+/**
+ * Check a comparison value has the shape its operator needs; returns the problem, if any
+ */
+function checkOperatorValue(operator: SafetyComparison['operator'], value: unknown): string | undefined {
+  const isScalar = (v: unknown): boolean => typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean';
+
+  switch (operator) {
+    case 'exists':
+      return value === undefined || typeof value === 'boolean' ? undefined : 'must be a boolean';
+    case 'in':
+      return Array.isArray(value) && value.length > 0 && value.every(isScalar)
+        ? undefined
+        : 'operator in requires a non-empty list';
+    case 'between': {
+      const [min, max] = Array.isArray(value) && value.length === 2 ? value : [];
+      return typeof min === 'number' && typeof max === 'number' && min <= max
+        ? undefined
+        : 'operator between requires [min, max] numbers';
+    }
+    case 'greater_than':
+    case 'less_than':
+      return typeof value === 'number' ? undefined : `operator ${operator} requires a numeric value`;
+    case 'matches':
+      if (typeof value !== 'string') return 'operator matches requires a string';
+      return isValidRegex(value) ? undefined : `invalid regular expression "${value}"`;
+    case 'starts_with':
+      return typeof value === 'string' ? undefined : 'operator starts_with requires a string';
+    default:
+      return isScalar(value) ? undefined : 'must be a string, number or boolean';
+  }
+}
+
+function parseApprovalRule(
+  raw: unknown,
+  path: string,
+  defaultTimeout: string,
+  errors: SafetyPolicyError[]
+): ApprovalRule | undefined {
+  if (!isRecord(raw)) {
+    errors.push({ path, message: 'must be a mapping' });
+    return undefined;
+  }
+
+  let requiresApproval: ApprovalRule['requiresApproval'];
+  if (typeof raw.requiresApproval === 'boolean') {
+    requiresApproval = raw.requiresApproval;
+  } else if (raw.requiresApproval === 'conditional') {
+    const conditional = parseConditionalApproval(raw.conditions, `${path}.conditions`, errors);
+    if (!conditional) return undefined;
+    requiresApproval = conditional;
+  } else {
+    errors.push({ path: `${path}.requiresApproval`, message: 'must be true, false or "conditional"' });
+    return undefined;
+  }
+
+  const timeout = readString(raw, 'timeout', path, errors);
+  if (timeout !== undefined && !TIMEOUT_PATTERN.test(timeout)) {
+    errors.push({ path: `${path}.timeout`, message: `invalid timeout "${timeout}"` });
+    return undefined;
+  }
+
+  const rule: ApprovalRule = {
+    requiresApproval,
+    approverRoles: readStringArray(raw, 'approverRoles', path, errors) || [],
+    timeout: timeout ?? (requiresApproval === false ? '0' : defaultTimeout),
+    auditRequired: readBoolean(raw, 'auditRequired', path, errors) ?? true,
+  };
+
+  if (requiresApproval !== false && rule.approverRoles.length === 0) {
+    errors.push({ path: `${path}.approverRoles`, message: 'is required when approval may be needed' });
+    return undefined;
+  }
+
+  const notifyRoles = readStringArray(raw, 'notifyRoles', path, errors);
+  if (notifyRoles) {
+    rule.notifyRoles = notifyRoles;
+  }
+
+  const dualApproval = readBoolean(raw, 'dualApproval', path, errors);
+  if (dualApproval) {
+    const minApprovers = readMinApprovers(raw, path, 1, errors);
+    if (minApprovers === undefined) {
+      return undefined;
+    }
+    rule.dualApproval = true;
+    rule.minApprovers = minApprovers;
+  }
+
+  const maxPendingPerPatient = readNumber(raw, 'maxPendingPerPatient', path, errors);
+  if (maxPendingPerPatient !== undefined) {
+    if (Number.isInteger(maxPendingPerPatient) && maxPendingPerPatient >= 1) {
+      rule.maxPendingPerPatient = maxPendingPerPatient;
+    } else {
+      errors.push({ path: `${path}.maxPendingPerPatient`, message: 'must be a positive integer' });
+    }
+  }
+
+  if (raw.escalation !== undefined) {
+    const escalation = parseList(raw.escalation, `${path}.escalation`, errors, parseEscalationStep);
+    const names = new Set(escalation.map((step) => step.name));
+    if (names.size !== escalation.length) {
+      errors.push({ path: `${path}.escalation`, message: 'step names must be unique' });
+    } else if (escalation.length > 0) {
+      rule.escalation = escalation;
+    }
+  }
+
+  return rule;
+}
+
+function parseEscalationStep(raw: unknown, path: string, errors: SafetyPolicyError[]): EscalationStep | undefined {
+  if (!isRecord(raw)) {
+    errors.push({ path, message: 'must be a mapping' });
+    return undefined;
+  }
+
+  const name = readString(raw, 'name', path, errors);
+  if (!name) {
+    errors.push({ path: `${path}.name`, message: 'is required' });
+    return undefined;
+  }
+
+  const at = readNumber(raw, 'at', path, errors);
+  if (at === undefined || at < 0 || at > 1) {
+    errors.push({ path: `${path}.at`, message: 'must be a fraction of the timeout between 0 and 1' });
+    return undefined;
+  }
+
+  const step: EscalationStep = { name, at };
+
+  const notifyRoles = readStringArray(raw, 'notifyRoles', path, errors);
+  if (notifyRoles) {
+    step.notifyRoles = notifyRoles;
+  }
+
+  for (const key of ['priority', 'onlyForPriority'] as const) {
+    const value = readString(raw, key, path, errors);
+    if (value === undefined) continue;
+    if (!TASK_PRIORITIES.includes(value as TaskPriority)) {
+      errors.push({ path: `${path}.${key}`, message: `must be one of ${TASK_PRIORITIES.join(', ')}` });
+      return undefined;
+    }
+    step[key] = value as TaskPriority;
+  }
+
+  return step;
+}
+
+/**
+ * Build a requiresApproval predicate from per-action conditions.
+ * Condition keys are matched against the command's action by prefix,
+ * e.g. addNewCondition applies to action 'add'.
+ */
+function parseConditionalApproval(
+  raw: unknown,
+  path: string,
+  errors: SafetyPolicyError[]
+): ((cmd: AICommand) => boolean) | undefined {
+  if (!isRecord(raw)) {
+    errors.push({ path, message: 'is required when requiresApproval is "conditional"' });
+    return undefined;
+  }
+
+  const branches: Array<{ key: string; requiresApproval: boolean; minimumConfidence?: number }> = [];
+  for (const [key, value] of Object.entries(raw)) {
+    if (!isRecord(value) || typeof value.requiresApproval !== 'boolean') {
+      errors.push({ path: `${path}.${key}.requiresApproval`, message: 'must be a boolean' });
+      return undefined;
+    }
+    branches.push({
+      key: key.toLowerCase(),
+      requiresApproval: value.requiresApproval,
+      minimumConfidence: readNumber(value, 'minimumConfidence', `${path}.${key}`, errors),
+    });
+  }
+
+  return (cmd: AICommand) => {
+    const action = 'action' in cmd ? String(cmd.action).toLowerCase() : '';
+    const branch = branches.find((b) => action && b.key.startsWith(action));
+    if (!branch) {
+      return true; // Unknown action - fail safe
+    }
+    if (branch.requiresApproval) {
+      return true;
+    }
+    return branch.minimumConfidence !== undefined && cmd.confidence < branch.minimumConfidence;
+  };
+}
+
+type ItemParser<T> = (item: unknown, path: string, errors: SafetyPolicyError[]) => T | undefined;
+
+function parseList<T>(raw: unknown, path: string, errors: SafetyPolicyError[], parseItem: ItemParser<T>): T[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    errors.push({ path, message: 'must be a list' });
+    return [];
+  }
+
+  const items: T[] = [];
+  raw.forEach((item, i) => {
+    const parsed = parseItem(item, `${path}[${i}]`, errors);
+    if (parsed) {
+      items.push(parsed);
+    }
+  });
+  return items;
+}
+
+function readString(obj: Record<string, unknown>, key: string, path: string, errors: SafetyPolicyError[]): string | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    errors.push({ path: `${path}.${key}`, message: 'must be a string' });
+    return undefined;
+  }
+  return value;
+}
+
+function readNumber(obj: Record<string, unknown>, key: string, path: string, errors: SafetyPolicyError[]): number | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    errors.push({ path: `${path}.${key}`, message: 'must be a number' });
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Read minApprovers (2 when unset), which must be an integer of at least min
+ */
+function readMinApprovers(
+  obj: Record<string, unknown>,
+  path: string,
+  min: number,
+  errors: SafetyPolicyError[]
+): number | undefined {
+  const value = obj.minApprovers ?? 2;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    errors.push({ path: `${path}.minApprovers`, message: `must be an integer of at least ${min}` });
+    return undefined;
+  }
+  return value;
+}
+
+function readBoolean(obj: Record<string, unknown>, key: string, path: string, errors: SafetyPolicyError[]): boolean | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') {
+    errors.push({ path: `${path}.${key}`, message: 'must be a boolean' });
+    return undefined;
+  }
+  return value;
+}
+
+function readStringArray(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: SafetyPolicyError[]
+): string[] | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'string')) {
+    errors.push({ path: `${path}.${key}`, message: 'must be a list of strings' });
+    return undefined;
+  }
+  return value;
+}
+
+function hasOwn(obj: object, key: string | undefined): boolean {
+  return key !== undefined && Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -14,6 +14,7 @@ export interface AICommandBase {
   reasoning?: string;
   requiresApproval: boolean;
   createdAt?: string; // Set by processor if not provided
+  commandId?: string; // Set by processor if not provided; execution is idempotent per commandId
   aiModel: string;
   promptTemplate?: string;
   retrievalSources?: string[];
@@ -42,15 +43,49 @@ export interface ProposeProblemListUpdate extends AICommandBase {
   command: 'ProposeProblemListUpdate';
   patientId: string;
   action: 'add' | 'resolve' | 'update';
+  conditionId?: string; // Target Condition for resolve/update; matched by code when omitted
   condition: {
     code: string;
     system: string;
     display: string;
+    verificationStatus?: string; // Target Condition's current status, set by the bots for safety filters
   };
   clinicalStatus?: 'active' | 'recurrence' | 'relapse' | 'inactive' | 'remission' | 'resolved';
   verificationStatus?: 'unconfirmed' | 'provisional' | 'differential' | 'confirmed';
   severity?: 'mild' | 'moderate' | 'severe';
   onsetDate?: string;
+  abatementDate?: string; // Defaults to now when resolving
+}
+
+// Propose allergy/intolerance update
+export interface ProposeAllergyIntoleranceUpdate extends AICommandBase {
+  command: 'ProposeAllergyIntoleranceUpdate';
+  patientId: string;
+  action: 'add' | 'refute' | 'update';
+  allergyIntoleranceId?: string; // Target for refute/update; matched by substance code when omitted
+  substance: {
+    code: string;
+    system: string;
+    display: string;
+  };
+  type?: 'allergy' | 'intolerance';
+  category?: Array<'food' | 'medication' | 'environment' | 'biologic'>;
+  criticality?: 'low' | 'high' | 'unable-to-assess';
+  clinicalStatus?: 'active' | 'inactive' | 'resolved';
+  verificationStatus?: 'unconfirmed' | 'confirmed' | 'refuted'; // 'refute' always sets refuted
+  reactions?: Array<{
+    manifestations: Array<{
+      code?: string;
+      system?: string;
+      display: string; // e.g. 'Hives'
+    }>;
+    severity?: 'mild' | 'moderate' | 'severe';
+    description?: string;
+    onset?: string;
+  }>;
+  onsetDate?: string;
+  note?: string;
+  sourceDocumentId?: string; // DocumentReference the allergy was extracted from, e.g. a scribe transcript
 }
 
 // Suggest billing codes
@@ -81,6 +116,90 @@ export interface QueueReferralLetter extends AICommandBase {
   specificQuestions?: string[];
 }
 
+// Propose lab, imaging or screening order
+export interface ProposeServiceRequest extends AICommandBase {
+  command: 'ProposeServiceRequest';
+  patientId: string;
+  encounterId?: string;
+  category: 'laboratory' | 'imaging' | 'screening';
+  code: {
+    code: string;
+    system: string; // LOINC (http://loinc.org) or CPT (http://www.ama-assn.org/go/cpt)
+    display: string;
+  };
+  priority: 'routine' | 'urgent' | 'asap' | 'stat';
+  reasonReference?: string[]; // e.g. 'Observation/123', 'Condition/456'
+  reasonText?: string;
+  occurrenceDate?: string;
+  note?: string;
+}
+
+// Propose immunization recommendations from the schedule forecast
+export interface ProposeImmunizationRecommendation extends AICommandBase {
+  command: 'ProposeImmunizationRecommendation';
+  patientId: string;
+  recommendations: Array<{
+    vaccineCode: {
+      code: string;
+      system: string; // CVX (http://hl7.org/fhir/sid/cvx)
+      display: string;
+    };
+    targetDisease?: {
+      code: string;
+      system: string;
+      display: string;
+    };
+    forecastStatus: 'due' | 'overdue' | 'immune' | 'contraindicated' | 'complete';
+    dueDate?: string;
+    overdueDate?: string;
+    doseNumber?: number;
+    seriesDoses?: number;
+    series?: string;
+    description?: string;
+    supportingImmunizationIds?: string[];
+  }>;
+}
+
+// Propose a care plan with goals and planned orders
+export interface ProposeCarePlan extends AICommandBase {
+  command: 'ProposeCarePlan';
+  patientId: string;
+  encounterId?: string;
+  title: string;
+  description?: string;
+  addressesConditionIds?: string[];
+  period?: {
+    start?: string;
+    end?: string;
+  };
+  goals: Array<{
+    description: string;
+    measure?: {
+      code: string;
+      system: string; // LOINC (http://loinc.org)
+      display: string;
+    };
+    target?: {
+      comparator?: '<' | '<=' | '>=' | '>';
+      value: number;
+      unit: string;
+    };
+    dueDate?: string;
+    priority?: 'high-priority' | 'medium-priority' | 'low-priority';
+  }>;
+  activities: Array<{
+    kind: 'ServiceRequest' | 'MedicationRequest';
+    code: {
+      code: string;
+      system: string; // LOINC/CPT for ServiceRequest, RxNorm for MedicationRequest
+      display: string;
+    };
+    description?: string;
+    dosage?: string; // MedicationRequest only, e.g. '500 mg twice daily'
+    priority?: 'routine' | 'urgent' | 'asap' | 'stat';
+  }>;
+}
+
 // Flag abnormal result
 export interface FlagAbnormalResult extends AICommandBase {
   command: 'FlagAbnormalResult';
@@ -133,12 +252,31 @@ export interface SummarizePatientHistory extends AICommandBase {
 export type AICommand =
   | CreateEncounterNoteDraft
   | ProposeProblemListUpdate
+  | ProposeAllergyIntoleranceUpdate
   | SuggestBillingCodes
   | QueueReferralLetter
+  | ProposeServiceRequest
+  | ProposeImmunizationRecommendation
+  | ProposeCarePlan
   | FlagAbnormalResult
   | SuggestMedicationChange
   | SummarizePatientHistory;
 
+// Related commands submitted together, e.g. a note and the problem list updates it implies
+export interface AICommandBatch {
+  correlationId?: string; // Set by processor if not provided
+  commands: AICommand[];
+}
+
+// Escalation step for a pending approval
+export interface EscalationStep {
+  name: string; // e.g. 'reminder', 'supervisor', 'on-call'
+  at: number; // Fraction of the approval timeout elapsed (0-1)
+  notifyRoles?: string[]; // Defaults to the rule's approverRoles
+  priority?: 'routine' | 'urgent' | 'asap' | 'stat'; // Communication priority
+  onlyForPriority?: 'routine' | 'urgent' | 'asap' | 'stat'; // Only for Tasks with this priority
+}
+
 // Approval rule configuration
 export interface ApprovalRule {
   requiresApproval: boolean | ((cmd: AICommand) => boolean);
@@ -147,6 +285,9 @@ export interface ApprovalRule {
   notifyRoles?: string[];
   auditRequired: boolean;
   dualApproval?: boolean;
+  minApprovers?: number; // Distinct approvers required when dualApproval is set
+  maxPendingPerPatient?: number; // Open approval Tasks of this command type per patient
+  escalation?: EscalationStep[];
 }
 
 // Safety filter configuration
@@ -154,66 +295,68 @@ export interface SafetyFilter {
   name: string;
   description: string;
   enabled: boolean;
-  action: 'block' | 'warn' | 'require_approval';
+  action: 'block' | 'warn' | 'require_approval' | 'require_dual_approval';
   conditions: SafetyCondition[];
+  approverRoles?: string[]; // Overrides the rule's approver roles when the filter matches
+  minApprovers?: number; // Only used by require_dual_approval
 }
 
-export interface SafetyCondition {
-  field: string;
-  operator: 'equals' | 'contains' | 'matches' | 'greater_than' | 'less_than';
-  value: string | number | boolean;
+// A comparison, or a nested anyOf/allOf/not group of conditions
+export type SafetyCondition = SafetyComparison | SafetyConditionGroup;
+
+export interface SafetyComparison {
+  field: string; // Dotted path; [*] matches if any element does, e.g. suggestedCodes[*].system
+  operator:
+    | 'equals'
+    | 'contains'
+    | 'matches'
+    | 'starts_with'
+    | 'greater_than'
+    | 'less_than'
+    | 'between' // Inclusive [min, max]
+    | 'in'
+    | 'exists'; // value false tests for absence; defaults to true
+  value?: SafetyConditionValue;
 }
 
-// Default approval rules
-export const DEFAULT_APPROVAL_RULES: Record<string, ApprovalRule> = {
-  CreateEncounterNoteDraft: {
-    requiresApproval: true,
-    approverRoles: ['Practitioner', 'Nurse'],
-    timeout: '24h',
-    auditRequired: true,
-  },
-  ProposeProblemListUpdate: {
-    requiresApproval: (cmd) => {
-      const c = cmd as ProposeProblemListUpdate;
-      return c.action !== 'add' || c.confidence < 0.9;
-    },
-    approverRoles: ['Practitioner'],
-    timeout: '48h',
-    auditRequired: true,
-  },
-  SuggestBillingCodes: {
-    requiresApproval: true,
-    approverRoles: ['Practitioner', 'BillingSpecialist'],
-    timeout: '7d',
-    auditRequired: true,
-  },
-  QueueReferralLetter: {
-    requiresApproval: true,
-    approverRoles: ['Practitioner'],
-    timeout: '48h',
-    auditRequired: true,
-  },
-  FlagAbnormalResult: {
-    requiresApproval: false,
-    approverRoles: [],
-    timeout: '0',
-    notifyRoles: ['Practitioner'],
-    auditRequired: true,
-  },
-  SuggestMedicationChange: {
-    requiresApproval: true,
-    approverRoles: ['Practitioner', 'Pharmacist'],
-    timeout: '24h',
-    auditRequired: true,
-    dualApproval: false, // Set to true for controlled substances
-  },
-  SummarizePatientHistory: {
-    requiresApproval: false,
-    approverRoles: [],
-    timeout: '0',
-    auditRequired: true,
-  },
-};
+export type SafetyConditionValue = string | number | boolean | (string | number | boolean)[];
+
+export type SafetyConditionGroup =
+  | { anyOf: SafetyCondition[] }
+  | { allOf: SafetyCondition[] }
+  | { not: SafetyCondition };
+
+// Command patterns that are never permitted
+export interface BlockedAction {
+  pattern: string; // Regular expression matched against the command type
+  reason: string;
+}
+
+// Quiet hours configuration
+export interface QuietHoursPolicy {
+  enabled: boolean;
+  start: string; // HH:MM
+  end: string; // HH:MM
+  timezone?: string; // IANA timezone, server local time if omitted
+  exemptActions: string[];
+  requireSeniorApproval: boolean;
+  seniorApproverRoles: string[]; // Approver roles during quiet hours when requireSeniorApproval is set
+}
+
+// Complete safety policy (see config/safety-filters.yaml)
+export interface SafetyPolicy {
+  global: {
+    enabled: boolean;
+    minimumConfidence: number;
+    auditAll: boolean;
+    defaultApprovalTimeout: string;
+    maxPendingPerPatient: number;
+  };
+  quietHours: QuietHoursPolicy;
+  blockedActions: BlockedAction[];
+  safetyFilters: SafetyFilter[];
+  approvalRules: Record<string, ApprovalRule>;
+}
 
 // Default safety filters
 export const DEFAULT_SAFETY_FILTERS: SafetyFilter[] = [
@@ -231,19 +374,12 @@ export const DEFAULT_SAFETY_FILTERS: SafetyFilter[] = [
     name: 'RequireDualApprovalCritical',
     description: 'Require dual approval for critical actions',
     enabled: true,
-    action: 'require_approval',
-    conditions: [
-      { field: 'command', operator: 'contains', value: 'DNR|ICU|Chemotherapy' },
-    ],
-  },
-  {
-    name: 'QuietHoursWarning',
-    description: 'Warn about actions during quiet hours',
-    enabled: true,
-    action: 'warn',
+    action: 'require_dual_approval',
     conditions: [
-      { field: 'createdAt', operator: 'matches', value: 'T(2[2-3]|0[0-5]):' }, // 10pm-6am
+      { field: 'command', operator: 'matches', value: 'DNR|ICU|Chemotherapy' },
     ],
+    approverRoles: ['Practitioner'],
+    minApprovers: 2,
   },
   {
     name: 'LowConfidenceBlock',
@@ -270,5 +406,12 @@ export interface AIProvenance {
   rejectionReason?: string;
 }
 
+// Clinician request to reverse an executed AI command (not itself an AI command)
+export interface RetractAICommand {
+  commandId: string;
+  reason: string; // e.g. 'Spurious flag: hemolyzed sample'
+  retractedBy: string; // e.g. 'Practitioner/123'
+}
+
 // Alias for backward compatibility
 export type SuggestBillingCodesCommand = SuggestBillingCodes;
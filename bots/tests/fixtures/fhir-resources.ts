@@ -15,6 +15,7 @@ import {
   DocumentReference,
   AllergyIntolerance,
   Procedure,
+  PractitionerRole,
 } from '@medplum/fhirtypes';
 
 // ============================================
@@ -448,6 +449,82 @@ export const penicillinAllergy: AllergyIntolerance = {
   ],
 };
 
+// ============================================
+// PRACTITIONER ROLES (approvers)
+// ============================================
+
+export const physicianRole: PractitionerRole = {
+  resourceType: 'PractitionerRole',
+  id: 'role-dr-smith',
+  active: true,
+  practitioner: { reference: 'Practitioner/dr-smith' },
+  code: [
+    {
+      coding: [
+        {
+          system: 'http://terminology.hl7.org/CodeSystem/practitioner-role',
+          code: 'doctor',
+          display: 'Doctor',
+        },
+      ],
+    },
+  ],
+};
+
+export const secondPhysicianRole: PractitionerRole = {
+  resourceType: 'PractitionerRole',
+  id: 'role-dr-jones',
+  active: true,
+  practitioner: { reference: 'Practitioner/dr-jones' },
+  code: [
+    {
+      coding: [
+        {
+          system: 'http://terminology.hl7.org/CodeSystem/practitioner-role',
+          code: 'doctor',
+          display: 'Doctor',
+        },
+      ],
+    },
+  ],
+};
+
+export const pharmacistRole: PractitionerRole = {
+  resourceType: 'PractitionerRole',
+  id: 'role-pharm-lee',
+  active: true,
+  practitioner: { reference: 'Practitioner/pharm-lee' },
+  code: [
+    {
+      coding: [
+        {
+          system: 'http://terminology.hl7.org/CodeSystem/practitioner-role',
+          code: 'pharmacist',
+          display: 'Pharmacist',
+        },
+      ],
+    },
+  ],
+};
+
+export const billingSpecialistRole: PractitionerRole = {
+  resourceType: 'PractitionerRole',
+  id: 'role-billing-kim',
+  active: true,
+  practitioner: { reference: 'Practitioner/billing-kim' },
+  code: [
+    {
+      coding: [
+        {
+          system: 'http://medplum.com/fhir/CodeSystem/ai-approver-role',
+          code: 'BillingSpecialist',
+          display: 'BillingSpecialist',
+        },
+      ],
+    },
+  ],
+};
+
 // ============================================
 // TASKS (for approval workflow)
 // ============================================
@@ -546,6 +623,10 @@ export const labReport: DiagnosticReport = {
 /**
  * Get all test conditions
  */
+export function getAllTestPractitionerRoles(): PractitionerRole[] {
+  return [physicianRole, secondPhysicianRole, pharmacistRole, billingSpecialistRole];
+}
+
 export function getAllTestConditions(): Condition[] {
   return [hypertensionCondition, diabetesCondition];
 }
@@ -16,6 +16,7 @@ import {
   getAllTestConditions,
   getAllTestObservations,
   getAllTestMedications,
+  getAllTestPractitionerRoles,
   criticalLabObservation,
 } from '../fixtures/fhir-resources';
 import { Task } from '@medplum/fhirtypes';
@@ -32,6 +33,7 @@ describe('Command & Approval Workflow Integration', () => {
     });
     mockMedplum.addResource(officeVisitEncounter);
     mockMedplum.addResource(criticalLabObservation);
+    getAllTestPractitionerRoles().forEach((role) => mockMedplum.addResource(role));
     setupOllamaMock();
 
     // Mock Date.prototype.getHours to ensure tests run outside quiet hours (10 PM - 6 AM)
@@ -124,6 +126,7 @@ describe('Command & Approval Workflow Integration', () => {
         ...tasks[0],
         status: 'completed',
         owner: { reference: 'Practitioner/dr-smith' },
+        meta: { ...tasks[0].meta, author: { reference: 'Practitioner/dr-smith' } },
       };
 
       // Process the approved task
@@ -180,6 +183,7 @@ describe('Command & Approval Workflow Integration', () => {
           ],
         },
         owner: { reference: 'Practitioner/dr-smith' },
+        meta: { author: { reference: 'Practitioner/dr-smith' } },
         for: { reference: 'Patient/test-patient-1' },
         input: [
           {
@@ -231,6 +235,7 @@ describe('Command & Approval Workflow Integration', () => {
           ],
         },
         owner: { reference: 'Practitioner/dr-smith' },
+        meta: { author: { reference: 'Practitioner/dr-smith' } },
         for: { reference: 'Patient/test-patient-1' },
         note: [{ text: 'Rejection: Inaccurate clinical assessment' }],
         input: [
@@ -296,6 +301,7 @@ describe('Command & Approval Workflow Integration', () => {
           ],
         },
         owner: { reference: 'Practitioner/dr-smith' },
+        meta: { author: { reference: 'Practitioner/dr-smith' } },
         output: [
           {
             type: { text: 'modifications' },
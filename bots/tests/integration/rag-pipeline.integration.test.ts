@@ -16,11 +16,15 @@ import {
   getAllTestMedications,
   labReport,
 } from '../fixtures/fhir-resources';
+import { InMemoryEmbeddingStore, setEmbeddingStore } from '../../src/services/embedding-store';
 
 describe('RAG Pipeline Integration', () => {
   let mockMedplum: MockMedplumClient;
+  let store: InMemoryEmbeddingStore;
 
   beforeEach(() => {
+    store = new InMemoryEmbeddingStore();
+    setEmbeddingStore(store);
     mockMedplum = createMockMedplumClient({
       patients: [testPatient],
       conditions: getAllTestConditions(),
@@ -46,8 +50,7 @@ describe('RAG Pipeline Integration', () => {
       }
 
       // Verify embeddings were stored
-      const binaries = mockMedplum.getResources('Binary');
-      expect(binaries.length).toBeGreaterThan(0);
+      expect(store.getRecords().length).toBeGreaterThan(0);
 
       // Step 2: Perform semantic search
       const searchResult = await searchHandler(mockMedplum as any, {
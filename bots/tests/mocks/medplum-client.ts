@@ -4,7 +4,7 @@
  * Provides a mock implementation of MedplumClient for unit testing.
  */
 
-import { Resource, Patient, Condition, Observation, MedicationRequest, Task, Provenance, AuditEvent, DocumentReference, Binary } from '@medplum/fhirtypes';
+import { Resource, Bundle, BundleEntry, Identifier, Reference, Patient, Condition, Observation, MedicationRequest, Task, Provenance, AuditEvent, DocumentReference, Binary } from '@medplum/fhirtypes';
 
 export interface MockResourceStore {
   [key: string]: Resource[];
@@ -12,13 +12,18 @@ export interface MockResourceStore {
 
 export class MockMedplumClient {
   private resources: MockResourceStore = {};
+  private history: Record<string, Resource[]> = {}; // Versions by 'Type/id', oldest first
   private idCounter = 1;
 
+  // Recorded as meta.author on writes, as the server records the caller's profile
+  author: Reference = { reference: 'Bot/mock-bot' };
+
   // Spy functions for verification
   createResourceSpy = jest.fn();
   updateResourceSpy = jest.fn();
   searchResourcesSpy = jest.fn();
   readResourceSpy = jest.fn();
+  executeBatchSpy = jest.fn();
 
   constructor(initialResources?: MockResourceStore) {
     if (initialResources) {
@@ -36,6 +41,7 @@ export class MockMedplumClient {
       meta: {
         versionId: '1',
         lastUpdated: new Date().toISOString(),
+        author: this.author,
       },
     } as T;
 
@@ -44,32 +50,61 @@ export class MockMedplumClient {
       this.resources[type] = [];
     }
     this.resources[type].push(created);
+    this.recordVersion(created);
 
     return created;
   }
 
-  async updateResource<T extends Resource>(resource: T): Promise<T> {
-    this.updateResourceSpy(resource);
+  /**
+   * Create a resource unless one matches the identifier query, e.g.
+   * 'identifier=system|value'; returns the match instead
+   */
+  async createResourceIfNoneExist<T extends Resource>(resource: T, query: string): Promise<T> {
+    const token = query.replace(/^identifier=/, '');
+    const existing = this.resources[resource.resourceType]?.find((r: any) =>
+      this.matchesIdentifier(r.identifier, token)
+    );
+    return existing ? (existing as T) : this.createResource(resource);
+  }
+
+  async updateResource<T extends Resource>(resource: T, options?: { headers?: Record<string, string> }): Promise<T> {
+    this.updateResourceSpy(resource, options);
 
     const type = resource.resourceType;
     const index = this.resources[type]?.findIndex((r) => r.id === resource.id);
 
     if (index !== undefined && index >= 0) {
+      const ifMatch = options?.headers?.['If-Match'];
+      const currentVersion = this.resources[type][index].meta?.versionId;
+      if (ifMatch && ifMatch !== `W/"${currentVersion}"`) {
+        throw new Error(`Precondition failed: ${type}/${resource.id} is at version ${currentVersion}`);
+      }
+
       const updated = {
         ...resource,
         meta: {
           ...resource.meta,
           versionId: String(parseInt(resource.meta?.versionId || '0') + 1),
           lastUpdated: new Date().toISOString(),
+          author: this.author,
         },
       } as T;
       this.resources[type][index] = updated;
+      this.recordVersion(updated);
       return updated;
     }
 
     throw new Error(`Resource ${type}/${resource.id} not found`);
   }
 
+  async deleteResource(resourceType: string, id: string): Promise<void> {
+    const index = this.resources[resourceType]?.findIndex((r) => r.id === id);
+    if (index === undefined || index < 0) {
+      throw new Error(`Resource ${resourceType}/${id} not found`);
+    }
+    this.resources[resourceType].splice(index, 1);
+  }
+
   async readResource<T extends Resource>(resourceType: string, id: string): Promise<T> {
     this.readResourceSpy(resourceType, id);
 
@@ -93,12 +128,27 @@ export class MockMedplumClient {
       if (query.patient) {
         results = results.filter((r: any) =>
           r.subject?.reference === query.patient ||
-          r.patient?.reference === query.patient
+          r.patient?.reference === query.patient ||
+          r.for?.reference === query.patient
         );
       }
       if (query.status) {
         results = results.filter((r: any) => r.status === query.status);
       }
+      if (query['part-of']) {
+        results = results.filter((r: any) => r.partOf?.some((ref: any) => ref.reference === query['part-of']));
+      }
+      if (query.identifier) {
+        results = results.filter((r: any) => this.matchesIdentifier(r.identifier, query.identifier));
+      }
+      if (query['entity:identifier']) {
+        results = results.filter((r: any) =>
+          this.matchesIdentifier(r.entity?.map((e: any) => e.what?.identifier), query['entity:identifier'])
+        );
+      }
+      if (query._offset) {
+        results = results.slice(parseInt(query._offset));
+      }
       if (query._count) {
         results = results.slice(0, parseInt(query._count));
       }
@@ -107,6 +157,130 @@ export class MockMedplumClient {
     return results;
   }
 
+  /**
+   * Execute a transaction Bundle of creates (POST) and updates (PUT).
+   * Every entry is checked before any is committed, so a failed
+   * If-Match precondition leaves the store unchanged. urn:uuid references
+   * are rewritten to the assigned ids. A conditional create (If-None-Exist
+   * on identifier or entity:identifier) that matches an existing resource
+   * returns it instead.
+   */
+  async executeBatch(bundle: Bundle): Promise<Bundle> {
+    this.executeBatchSpy(bundle);
+
+    const entries = bundle.entry || [];
+    const ids = new Map<string, string>();
+    const matched = new Map<BundleEntry, Resource>();
+    for (const entry of entries) {
+      const resource = entry.resource;
+      const method = entry.request?.method;
+      if (!resource || (method !== 'POST' && method !== 'PUT')) {
+        throw new Error(`Unsupported transaction entry: ${method} ${entry.request?.url}`);
+      }
+
+      if (method === 'PUT') {
+        const existing = this.resources[resource.resourceType]?.find((r) => r.id === resource.id);
+        const ifMatch = entry.request?.ifMatch;
+        if (ifMatch && ifMatch !== `W/"${existing?.meta?.versionId}"`) {
+          throw new Error(
+            `Precondition failed: ${resource.resourceType}/${resource.id} is at version ${existing?.meta?.versionId}`
+          );
+        }
+      } else {
+        const [param, token] = entry.request?.ifNoneExist?.split(/=(.*)/) || [];
+        const existing = token
+          ? this.resources[resource.resourceType]?.find((r: any) =>
+              this.matchesIdentifier(
+                param === 'entity:identifier' ? r.entity?.map((e: any) => e.what?.identifier) : r.identifier,
+                token
+              )
+            )
+          : undefined;
+        if (existing) {
+          matched.set(entry, existing);
+        }
+        if (entry.fullUrl) {
+          ids.set(entry.fullUrl, `${resource.resourceType}/${existing ? existing.id : `mock-${this.idCounter++}`}`);
+        }
+      }
+    }
+
+    const committed = entries.map((entry) => {
+      const existing = matched.get(entry);
+      if (existing) {
+        return existing;
+      }
+
+      const json = JSON.stringify(entry.resource).replace(/"urn:uuid:[^"]+"/g, (ref) => {
+        const id = ids.get(ref.slice(1, -1));
+        return id ? `"${id}"` : ref;
+      });
+      const resource = JSON.parse(json) as Resource;
+
+      if (entry.request?.method === 'PUT') {
+        const store = (this.resources[resource.resourceType] ||= []);
+        const index = store.findIndex((r) => r.id === resource.id);
+        const versionId = String(parseInt((index >= 0 && store[index].meta?.versionId) || '0') + 1);
+        const meta = { ...resource.meta, versionId, lastUpdated: new Date().toISOString(), author: this.author };
+        const updated = { ...resource, meta };
+        if (index >= 0) {
+          store[index] = updated;
+        } else {
+          store.push(updated);
+        }
+        this.recordVersion(updated);
+        return updated;
+      }
+
+      const reference = entry.fullUrl ? ids.get(entry.fullUrl) : undefined;
+      return this.addResource({
+        ...resource,
+        id: reference ? reference.split('/')[1] : `mock-${this.idCounter++}`,
+        meta: { versionId: '1', lastUpdated: new Date().toISOString(), author: this.author },
+      } as Resource);
+    });
+
+    return {
+      resourceType: 'Bundle',
+      type: bundle.type === 'batch' ? 'batch-response' : 'transaction-response',
+      entry: committed.map((resource, i) => ({
+        resource,
+        response: {
+          status: entries[i].request?.method === 'PUT' || matched.has(entries[i]) ? '200 OK' : '201 Created',
+          location: `${resource.resourceType}/${resource.id}/_history/${resource.meta?.versionId}`,
+        },
+      })),
+    };
+  }
+
+  /**
+   * Read a resource's versions, newest first
+   */
+  async readHistory(resourceType: string, id: string): Promise<Bundle> {
+    return {
+      resourceType: 'Bundle',
+      type: 'history',
+      entry: [...(this.history[`${resourceType}/${id}`] || [])].reverse().map((resource) => ({ resource })),
+    };
+  }
+
+  /**
+   * The caller's profile, which is also the author of its writes
+   */
+  getProfile(): Resource | undefined {
+    const [resourceType, id] = this.author.reference?.split('/') || [];
+    return resourceType && id ? ({ resourceType, id } as Resource) : undefined;
+  }
+
+  private recordVersion(resource: Resource): void {
+    (this.history[`${resource.resourceType}/${resource.id}`] ||= []).push(resource);
+  }
+
+  private matchesIdentifier(identifiers: (Identifier | undefined)[] | undefined, token: string): boolean {
+    const [system, value] = token.includes('|') ? token.split('|') : [undefined, token];
+    return (identifiers || []).some((i) => i?.value === value && (system === undefined || i.system === system));
+  }
+
   // Helper methods for testing
   addResource<T extends Resource>(resource: T): T {
     const type = resource.resourceType;
@@ -114,6 +288,7 @@ export class MockMedplumClient {
       this.resources[type] = [];
     }
     this.resources[type].push(resource);
+    this.recordVersion(resource);
     return resource;
   }
 
@@ -123,6 +298,7 @@ export class MockMedplumClient {
 
   clearResources(): void {
     this.resources = {};
+    this.history = {};
     this.idCounter = 1;
   }
 
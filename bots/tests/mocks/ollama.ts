@@ -61,6 +61,15 @@ function promptMatches(prompt: string, ...patterns: string[]): boolean {
  */
 function generateMockResponse(prompt: string): string {
   // Detect what type of response is expected
+  if (promptMatches(prompt, 'CARE PLAN EXTRACTION')) {
+    return `TITLE: Hypertension and type 2 diabetes management
+GOAL: HbA1c below 7% | 4548-4 | Hemoglobin A1c | <7 % | -
+GOAL: Blood pressure below 130/80 | 85354-9 | Blood pressure panel | - | -
+ORDER: 4548-4 | Hemoglobin A1c | routine
+ORDER: 24323-8 | Comprehensive metabolic panel | routine
+MEDICATION: 860975 | Metformin 500 MG Oral Tablet | 500 mg twice daily`;
+  }
+
   if (promptMatches(prompt, 'DIAGNOSIS', 'diagnos')) {
     return `Based on the patient's presentation, the following conditions should be considered:
 
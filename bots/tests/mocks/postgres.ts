@@ -0,0 +1,108 @@
+/**
+ * Mock PostgreSQL Client
+ *
+ * A local stand-in for node-postgres that keeps rows in memory. It understands
+ * the statements the bots issue: INSERT ... VALUES with an optional
+ * ON CONFLICT (key) DO UPDATE SET, where each column is set from EXCLUDED or
+ * COALESCE(EXCLUDED.col, table.col), guarded by WHERE table.col IN (...).
+ */
+
+import { SqlClient } from '../../src/services/command-queue';
+
+type Row = Record<string, unknown>;
+
+export class MockPostgresClient implements SqlClient {
+  private tables: Map<string, Row[]> = new Map();
+  public queries: { text: string; values: unknown[] }[] = [];
+  public error?: Error;
+
+  async query(text: string, values: unknown[] = []): Promise<{ rows: unknown[] }> {
+    this.queries.push({ text, values });
+    if (this.error) {
+      throw this.error;
+    }
+
+    const sql = text.replace(/\s+/g, ' ').trim();
+    const insert = sql.match(/^INSERT INTO (\w+) \(([^)]+)\) VALUES \(([^)]+)\)(.*)$/i);
+    if (!insert) {
+      throw new Error(`Unsupported statement: ${sql}`);
+    }
+
+    const [, table, columnList, valueList, rest] = insert;
+    const columns = columnList.split(',').map((c) => c.trim());
+    const row: Row = {};
+    valueList.split(',').forEach((placeholder, i) => {
+      row[columns[i]] = values[Number(placeholder.trim().replace('$', '')) - 1] ?? null;
+    });
+
+    const rows = this.tables.get(table) || [];
+    this.tables.set(table, rows);
+
+    const conflict = rest.match(/ON CONFLICT \((\w+)\) DO UPDATE SET (.*?)(?: WHERE (.*))?$/i);
+    const existing = conflict ? rows.find((r) => r[conflict[1]] === row[conflict[1]]) : undefined;
+    if (!existing) {
+      rows.push(row);
+      return { rows: [] };
+    }
+
+    const [, , assignments, where] = conflict as RegExpMatchArray;
+    if (where && !matchesWhere(existing, where)) {
+      return { rows: [] };
+    }
+    for (const assignment of splitTopLevel(assignments)) {
+      const [column, expression] = assignment.split(/ = (.*)/).map((part) => part.trim());
+      existing[column] = expression.startsWith('COALESCE')
+        ? (row[column] ?? existing[column])
+        : row[expression.replace('EXCLUDED.', '')];
+    }
+    return { rows: [] };
+  }
+
+  /**
+   * Rows stored in a table
+   */
+  getRows(table: string): Row[] {
+    return this.tables.get(table) || [];
+  }
+
+  /**
+   * Clear all tables and recorded queries
+   */
+  reset(): void {
+    this.tables.clear();
+    this.queries = [];
+    this.error = undefined;
+  }
+}
+
+/**
+ * Check a row against "table.col IN ('a', 'b')"
+ */
+function matchesWhere(row: Row, where: string): boolean {
+  const match = where.match(/(?:\w+\.)?(\w+) IN \(([^)]+)\)/i);
+  if (!match) {
+    throw new Error(`Unsupported condition: ${where}`);
+  }
+  const allowed = match[2].split(',').map((v) => v.trim().replace(/^'|'$/g, ''));
+  return allowed.includes(String(row[match[1]]));
+}
+
+/**
+ * Split a SET list on commas outside parentheses
+ */
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of list) {
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    current += char;
+  }
+  parts.push(current);
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
@@ -0,0 +1,325 @@
+/**
+ * Approval Expiry Bot - Unit Tests
+ */
+
+import * as path from 'path';
+import { handler } from '../../src/approval-expiry-bot';
+import { handler as approvalHandler } from '../../src/approval-queue-bot';
+import { clearSafetyPolicyCache } from '../../src/services/safety-policy';
+import { APPROVER_ROLE_SYSTEM } from '../../src/services/approver-roles';
+import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
+import { testPatient, pendingApprovalTask, getAllTestPractitionerRoles } from '../fixtures/fhir-resources';
+import { PractitionerRole, Task } from '@medplum/fhirtypes';
+
+const NOW = new Date('2024-01-16T12:00:00Z');
+const POLICY_FILE = path.join(__dirname, '../../../config/safety-filters.yaml');
+
+function approverRole(id: string, role: string): PractitionerRole {
+  return {
+    resourceType: 'PractitionerRole',
+    id,
+    active: true,
+    practitioner: { reference: `Practitioner/${id}` },
+    code: [{ coding: [{ system: APPROVER_ROLE_SYSTEM, code: role }] }],
+  };
+}
+
+function commandTask(id: string, command: Record<string, unknown>, overrides: Partial<Task> = {}): Task {
+  return approvalTask(id, '2024-01-16T22:00:00Z', {
+    authoredOn: '2024-01-15T22:00:00Z',
+    input: [
+      { type: { text: 'command' }, valueString: JSON.stringify({ patientId: 'test-patient-1', ...command }) },
+      { type: { text: 'commandId' }, valueString: `cmd-${id}` },
+    ],
+    ...overrides,
+  });
+}
+
+function escalationStages(task: Task | undefined): string[] {
+  return (task?.output || [])
+    .filter((o) => o.type?.text === 'escalation')
+    .map((o) => JSON.parse(o.valueString as string).stage);
+}
+
+function approvalTask(id: string, expiresAt: string, overrides: Partial<Task> = {}): Task {
+  return {
+    ...pendingApprovalTask,
+    id,
+    restriction: { period: { end: expiresAt } },
+    ...overrides,
+  };
+}
+
+describe('Approval Expiry Bot', () => {
+  let mockMedplum: MockMedplumClient;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    mockMedplum = createMockMedplumClient({ patients: [testPatient] });
+    getAllTestPractitionerRoles().forEach((role) => mockMedplum.addResource(role));
+  });
+
+  afterEach(() => {
+    mockMedplum.reset();
+    jest.useRealTimers();
+  });
+
+  describe('Expiration', () => {
+    it('should mark tasks past their deadline as failed', async () => {
+      mockMedplum.addResource(approvalTask('task-expired', '2024-01-16T11:00:00Z'));
+      mockMedplum.addResource(approvalTask('task-pending', '2024-01-17T12:00:00Z'));
+
+      const result = await handler(mockMedplum as any, { input: {} } as any);
+
+      expect(result.success).toBe(true);
+      expect(result.expired).toBe(1);
+
+      const tasks = mockMedplum.getResources('Task') as Task[];
+      expect(tasks.find((t) => t.id === 'task-expired')?.status).toBe('failed');
+      expect(tasks.find((t) => t.id === 'task-expired')?.statusReason?.text).toBe('Approval timeout expired');
+      expect(tasks.find((t) => t.id === 'task-pending')?.status).toBe('requested');
+    });
+
+    it('should send the expiry Communication and an approval_timeout audit event', async () => {
+      mockMedplum.addResource(approvalTask('task-expired', '2024-01-16T11:00:00Z'));
+
+      await handler(mockMedplum as any, { input: {} } as any);
+
+      const comm = mockMedplum.getResources('Communication')[0] as any;
+      expect(comm.payload[0].contentString).toContain('expired');
+      expect(comm.priority).toBe('urgent');
+
+      const audit = mockMedplum.getResources('AuditEvent')[0] as any;
+      expect(audit.subtype[0].code).toBe('approval_timeout');
+    });
+
+    it('should not expire tasks once the fake clock is still before the deadline', async () => {
+      mockMedplum.addResource(approvalTask('task-later', '2024-01-16T12:30:00Z'));
+
+      let result = await handler(mockMedplum as any, { input: {} } as any);
+      expect(result.expired).toBe(0);
+
+      jest.setSystemTime(new Date('2024-01-16T13:00:00Z'));
+      result = await handler(mockMedplum as any, { input: {} } as any);
+      expect(result.expired).toBe(1);
+    });
+
+    it('should process tasks in batches', async () => {
+      for (let i = 0; i < 5; i++) {
+        mockMedplum.addResource(approvalTask(`task-expired-${i}`, '2024-01-15T00:00:00Z'));
+      }
+      mockMedplum.addResource(approvalTask('task-pending', '2024-01-20T00:00:00Z'));
+
+      const result = await handler(mockMedplum as any, { input: { batchSize: 2, maxBatches: 10 } } as any);
+
+      expect(result.expired).toBe(5);
+      const searches = mockMedplum.searchResourcesSpy.mock.calls.filter(([type]) => type === 'Task');
+      expect(searches.length).toBeGreaterThan(1);
+      expect(searches.every(([, query]) => query._count === '2')).toBe(true);
+    });
+
+    it('should stop after maxBatches', async () => {
+      for (let i = 0; i < 5; i++) {
+        mockMedplum.addResource(approvalTask(`task-expired-${i}`, '2024-01-15T00:00:00Z'));
+      }
+
+      const result = await handler(mockMedplum as any, { input: { batchSize: 2, maxBatches: 1 } } as any);
+
+      expect(result.expired).toBe(2);
+    });
+
+    it('should not expire a task decided since the sweep read it', async () => {
+      const stale = approvalTask('task-expired', '2024-01-16T11:00:00Z', { meta: { versionId: '1' } });
+      mockMedplum.addResource({ ...stale, status: 'completed', meta: { versionId: '2' } });
+      jest.spyOn(mockMedplum, 'searchResources').mockResolvedValueOnce([stale]);
+
+      const result = await handler(mockMedplum as any, { input: {} } as any);
+
+      expect(result.expired).toBe(0);
+      expect(result.failed).toBe(1);
+      expect((mockMedplum.getResources('Task')[0] as Task).status).toBe('completed');
+      expect(mockMedplum.getResources('Communication')).toHaveLength(0);
+    });
+
+    it('should not skip a pending task after one decided since the sweep read it', async () => {
+      const stale = approvalTask('task-decided', '2024-01-16T10:00:00Z', { meta: { versionId: '1' } });
+      mockMedplum.addResource({ ...stale, status: 'completed', meta: { versionId: '2' } });
+      mockMedplum.addResource(approvalTask('task-expired', '2024-01-16T11:00:00Z'));
+      jest.spyOn(mockMedplum, 'searchResources').mockResolvedValueOnce([stale]);
+
+      const result = await handler(mockMedplum as any, { input: { batchSize: 1 } } as any);
+
+      expect(result.failed).toBe(1);
+      expect(result.expired).toBe(1);
+      expect((mockMedplum.getResources('Task')[1] as Task).status).toBe('failed');
+    });
+
+    it('should not notify twice when the approval bot sees the failed task', async () => {
+      mockMedplum.addResource(approvalTask('task-expired', '2024-01-16T11:00:00Z'));
+
+      await handler(mockMedplum as any, { input: {} } as any);
+      const failedTask = mockMedplum.getResources('Task')[0] as Task;
+      const result = await approvalHandler(mockMedplum as any, { input: failedTask } as any);
+
+      expect(result.action).toBe('expired');
+      expect(mockMedplum.getResources('Communication')).toHaveLength(1);
+    });
+  });
+
+  describe('Escalation', () => {
+    it('should escalate tasks expiring within the window to notify roles', async () => {
+      mockMedplum.addResource(approvalTask('task-soon', '2024-01-16T13:00:00Z'));
+      mockMedplum.addResource(approvalTask('task-later', '2024-01-18T12:00:00Z'));
+
+      const result = await handler(mockMedplum as any, { input: { escalateBefore: '2h' } } as any);
+
+      expect(result.escalated).toBe(1);
+
+      const comm = mockMedplum.getResources('Communication')[0] as any;
+      expect(comm.about[0].reference).toBe('Task/task-soon');
+      expect(comm.recipient.map((r: any) => r.reference)).toEqual(
+        expect.arrayContaining(['PractitionerRole/role-dr-smith', 'PractitionerRole/role-dr-jones'])
+      );
+      expect(comm.recipient.map((r: any) => r.reference)).not.toContain('PractitionerRole/role-pharm-lee');
+
+      const task = mockMedplum.getResources('Task').find((t) => t.id === 'task-soon') as Task;
+      expect(task.output?.some((o) => o.type?.text === 'escalation')).toBe(true);
+    });
+
+    it('should not escalate a task decided since the sweep read it', async () => {
+      const stale = approvalTask('task-soon', '2024-01-16T13:00:00Z', { meta: { versionId: '1' } });
+      mockMedplum.addResource({ ...stale, status: 'completed', meta: { versionId: '2' } });
+      jest.spyOn(mockMedplum, 'searchResources').mockResolvedValueOnce([stale]);
+
+      const result = await handler(mockMedplum as any, { input: { escalateBefore: '2h' } } as any);
+
+      expect(result.escalated).toBe(0);
+      expect(escalationStages(mockMedplum.getResources('Task')[0] as Task)).toEqual([]);
+      expect(mockMedplum.getResources('Communication')).toHaveLength(0);
+    });
+
+    it('should escalate each task only once', async () => {
+      mockMedplum.addResource(approvalTask('task-soon', '2024-01-16T13:00:00Z'));
+
+      await handler(mockMedplum as any, { input: { escalateBefore: '2h' } } as any);
+      const result = await handler(mockMedplum as any, { input: { escalateBefore: '2h' } } as any);
+
+      expect(result.escalated).toBe(0);
+      expect(mockMedplum.getResources('Communication')).toHaveLength(1);
+    });
+
+    describe('Escalation chains', () => {
+      const originalPath = process.env.SAFETY_POLICY_PATH;
+
+      beforeEach(() => {
+        process.env.SAFETY_POLICY_PATH = POLICY_FILE;
+        mockMedplum.addResource(approverRole('supervisor-1', 'Supervisor'));
+        mockMedplum.addResource(approverRole('oncall-1', 'OnCall'));
+      });
+
+      afterEach(() => {
+        if (originalPath === undefined) {
+          delete process.env.SAFETY_POLICY_PATH;
+        } else {
+          process.env.SAFETY_POLICY_PATH = originalPath;
+        }
+        clearSafetyPolicyCache();
+      });
+
+      it('should send a reminder to approvers at 50% of the timeout', async () => {
+        // 24h timeout, 14h elapsed
+        mockMedplum.addResource(commandTask('task-note', { command: 'CreateEncounterNoteDraft' }));
+
+        const result = await handler(mockMedplum as any, { input: {} } as any);
+
+        expect(result.escalated).toBe(1);
+        const comm = mockMedplum.getResources('Communication')[0] as any;
+        expect(comm.payload[0].contentString).toContain('Reminder');
+        expect(comm.priority).toBe('routine');
+        expect(comm.about[0].reference).toBe('Task/task-note');
+        expect(comm.recipient.map((r: any) => r.reference)).toContain('PractitionerRole/role-dr-smith');
+        expect(comm.recipient.map((r: any) => r.reference)).not.toContain('PractitionerRole/supervisor-1');
+
+        const task = mockMedplum.getResources('Task')[0] as Task;
+        expect(escalationStages(task)).toEqual(['reminder']);
+      });
+
+      it('should escalate by the steps and roles recorded on the task', async () => {
+        const task = commandTask('task-note', { command: 'CreateEncounterNoteDraft' });
+        task.input?.push(
+          { type: { text: 'approverRoles' }, valueString: 'Supervisor' },
+          { type: { text: 'escalationSteps' }, valueString: JSON.stringify([{ name: 'nudge', at: 0.25 }]) }
+        );
+        mockMedplum.addResource(task);
+
+        await handler(mockMedplum as any, { input: {} } as any);
+
+        expect(escalationStages(mockMedplum.getResources('Task')[0] as Task)).toEqual(['nudge']);
+        const comm = mockMedplum.getResources('Communication')[0] as any;
+        expect(comm.recipient.map((r: any) => r.reference)).toEqual(['PractitionerRole/supervisor-1']);
+      });
+
+      it('should not remind before the step is due', async () => {
+        mockMedplum.addResource(
+          commandTask('task-note', { command: 'CreateEncounterNoteDraft' }, { authoredOn: '2024-01-16T08:00:00Z' })
+        );
+
+        const result = await handler(mockMedplum as any, { input: {} } as any);
+
+        expect(result.escalated).toBe(0);
+        expect(mockMedplum.getResources('Communication')).toHaveLength(0);
+      });
+
+      it('should escalate to the supervising role at 80% of the timeout', async () => {
+        mockMedplum.addResource(commandTask('task-med', { command: 'SuggestMedicationChange' }));
+
+        await handler(mockMedplum as any, { input: {} } as any);
+        expect(escalationStages(mockMedplum.getResources('Task')[0] as Task)).toEqual(['reminder']);
+
+        // 20h of 24h elapsed
+        jest.setSystemTime(new Date('2024-01-16T18:00:00Z'));
+        await handler(mockMedplum as any, { input: {} } as any);
+
+        const task = mockMedplum.getResources('Task')[0] as Task;
+        expect(escalationStages(task)).toEqual(['reminder', 'supervisor']);
+
+        const comms = mockMedplum.getResources('Communication') as any[];
+        expect(comms).toHaveLength(2);
+        expect(comms[1].priority).toBe('urgent');
+        expect(comms[1].recipient.map((r: any) => r.reference)).toEqual(['PractitionerRole/supervisor-1']);
+      });
+
+      it('should page on-call immediately for urgent tasks only', async () => {
+        mockMedplum.addResource(
+          commandTask(
+            'task-urgent',
+            { command: 'FlagAbnormalResult', observationId: 'obs-1', severity: 'critical' },
+            { priority: 'urgent', authoredOn: '2024-01-16T11:59:00Z' }
+          )
+        );
+        mockMedplum.addResource(
+          commandTask(
+            'task-routine',
+            { command: 'FlagAbnormalResult', observationId: 'obs-2', severity: 'low' },
+            { authoredOn: '2024-01-16T11:59:00Z' }
+          )
+        );
+
+        await handler(mockMedplum as any, { input: {} } as any);
+
+        const comms = mockMedplum.getResources('Communication') as any[];
+        expect(comms).toHaveLength(1);
+        expect(comms[0].priority).toBe('stat');
+        expect(comms[0].about[0].reference).toBe('Task/task-urgent');
+        expect(comms[0].recipient.map((r: any) => r.reference)).toEqual(['PractitionerRole/oncall-1']);
+      });
+    });
+
+    it('should reject an invalid escalation window', async () => {
+      const result = await handler(mockMedplum as any, { input: { escalateBefore: 'soon' } } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Invalid escalateBefore');
+    });
+  });
+});
@@ -2,10 +2,29 @@
  * Approval Queue Bot - Unit Tests
  */
 
-import { handler } from '../../src/approval-queue-bot';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EXECUTION_FAILED_REASON, NOT_EXECUTED_REASON, SUPERSEDED_REASON, handler } from '../../src/approval-queue-bot';
+import { clearSafetyPolicyCache } from '../../src/services/safety-policy';
+import { setCommandQueueClient } from '../../src/services/command-queue';
+import { MockPostgresClient } from '../mocks/postgres';
 import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
-import { testPatient, pendingApprovalTask, officeVisitEncounter } from '../fixtures/fhir-resources';
-import { Task } from '@medplum/fhirtypes';
+import {
+  testPatient,
+  pendingApprovalTask,
+  officeVisitEncounter,
+  hypertensionCondition,
+  diabetesCondition,
+  penicillinAllergy,
+  getAllTestPractitionerRoles,
+} from '../fixtures/fhir-resources';
+import { AllergyIntolerance, Condition, Provenance, Task } from '@medplum/fhirtypes';
+
+// Task.owner, and the meta.author the server records when that practitioner saves the Task
+function ownedBy(reference: string, meta?: Task['meta']): Pick<Task, 'owner' | 'meta'> {
+  return { owner: { reference }, meta: { ...meta, author: { reference } } };
+}
 
 describe('Approval Queue Bot', () => {
   let mockMedplum: MockMedplumClient;
@@ -15,6 +34,7 @@ describe('Approval Queue Bot', () => {
       patients: [testPatient],
     });
     mockMedplum.addResource(officeVisitEncounter);
+    getAllTestPractitionerRoles().forEach((role) => mockMedplum.addResource(role));
   });
 
   afterEach(() => {
@@ -72,7 +92,7 @@ describe('Approval Queue Bot', () => {
       const approvedTask: Task = {
         ...pendingApprovalTask,
         status: 'completed',
-        owner: { reference: 'Practitioner/dr-smith' },
+        ...ownedBy('Practitioner/dr-smith'),
       };
 
       const event = { input: approvedTask };
@@ -91,7 +111,7 @@ describe('Approval Queue Bot', () => {
       const approvedTask: Task = {
         ...pendingApprovalTask,
         status: 'completed',
-        owner: { reference: 'Practitioner/dr-smith' },
+        ...ownedBy('Practitioner/dr-smith'),
       };
 
       const event = { input: approvedTask };
@@ -108,7 +128,7 @@ describe('Approval Queue Bot', () => {
       const approvedTask: Task = {
         ...pendingApprovalTask,
         status: 'completed',
-        owner: { reference: 'Practitioner/dr-smith' },
+        ...ownedBy('Practitioner/dr-smith'),
         for: { reference: 'Patient/test-patient-1' },
       };
 
@@ -128,7 +148,7 @@ describe('Approval Queue Bot', () => {
       const rejectedTask: Task = {
         ...pendingApprovalTask,
         status: 'rejected',
-        owner: { reference: 'Practitioner/dr-smith' },
+        ...ownedBy('Practitioner/dr-smith'),
         note: [{ text: 'Rejection: Incorrect diagnosis suggested' }],
       };
 
@@ -144,7 +164,7 @@ describe('Approval Queue Bot', () => {
       const rejectedTask: Task = {
         ...pendingApprovalTask,
         status: 'rejected',
-        owner: { reference: 'Practitioner/dr-smith' },
+        ...ownedBy('Practitioner/dr-smith'),
         note: [{ text: 'Rejection: Not clinically appropriate' }],
       };
 
@@ -159,7 +179,7 @@ describe('Approval Queue Bot', () => {
       const rejectedTask: Task = {
         ...pendingApprovalTask,
         status: 'rejected',
-        owner: { reference: 'Practitioner/dr-smith' },
+        ...ownedBy('Practitioner/dr-smith'),
         for: { reference: 'Patient/test-patient-1' },
       };
 
@@ -172,6 +192,77 @@ describe('Approval Queue Bot', () => {
       const comm = communications[0] as any;
       expect(comm.payload[0].contentString).toContain('rejected');
     });
+
+    it('should record the rejection against the verified author', async () => {
+      const rejectedTask: Task = {
+        ...pendingApprovalTask,
+        status: 'rejected',
+        meta: { author: { reference: 'Practitioner/dr-smith' } },
+        note: [{ text: 'Rejection: Not clinically appropriate' }],
+      };
+
+      await handler(mockMedplum as any, { input: rejectedTask } as any);
+
+      const provenance = mockMedplum.getResources('Provenance')[0] as Provenance;
+      expect(provenance.agent.map((a) => a.who.reference)).toContain('Practitioner/dr-smith');
+    });
+
+    it("should not accept a rejection saved under another practitioner's name", async () => {
+      mockMedplum.addResource(pendingApprovalTask);
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          ...pendingApprovalTask,
+          status: 'rejected',
+          owner: { reference: 'Practitioner/dr-smith' },
+          meta: { author: { reference: 'Practitioner/nurse-patel' } },
+          note: [{ text: 'Rejection: Not clinically appropriate' }],
+        },
+      } as any);
+
+      expect(result.action).toBe('pending');
+      expect(result.message).toContain('Rejection not accepted');
+      expect(result.message).toContain('owned by Practitioner/dr-smith');
+      expect((mockMedplum.getResources('Task')[0] as Task).status).toBe('requested');
+      expect(mockMedplum.getResources('Provenance')).toHaveLength(0);
+      expect(mockMedplum.getResources('Communication')).toHaveLength(0);
+      const audit = mockMedplum.getResources('AuditEvent')[0] as any;
+      expect(audit.subtype[0].code).toBe('approval_unauthorized');
+    });
+
+    it('should not accept a rejection by someone who is not a practitioner', async () => {
+      mockMedplum.addResource(pendingApprovalTask);
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          ...pendingApprovalTask,
+          status: 'rejected',
+          meta: { author: { reference: 'Patient/test-patient-1' } },
+        },
+      } as any);
+
+      expect(result.action).toBe('pending');
+      expect(result.message).toContain('Patient/test-patient-1 is not an active practitioner');
+      expect(mockMedplum.getResources('Provenance')).toHaveLength(0);
+    });
+
+    it('should not report superseded tasks as rejected', async () => {
+      const supersededTask: Task = {
+        ...pendingApprovalTask,
+        status: 'cancelled',
+        statusReason: { text: SUPERSEDED_REASON },
+        note: [{ text: 'Superseded by Task/task-newer' }],
+        for: { reference: 'Patient/test-patient-1' },
+      };
+
+      const result = await handler(mockMedplum as any, { input: supersededTask } as any);
+
+      expect(result.action).toBe('superseded');
+      expect(result.message).toBe('Superseded by Task/task-newer');
+      expect(mockMedplum.getResources('Provenance')).toHaveLength(0);
+      expect(mockMedplum.getResources('AuditEvent')).toHaveLength(0);
+      expect(mockMedplum.getResources('Communication')).toHaveLength(0);
+    });
   });
 
   describe('Expired Tasks', () => {
@@ -232,7 +323,7 @@ describe('Approval Queue Bot', () => {
       const approvedTaskWithMods: Task = {
         ...pendingApprovalTask,
         status: 'completed',
-        owner: { reference: 'Practitioner/dr-smith' },
+        ...ownedBy('Practitioner/dr-smith'),
         output: [
           {
             type: { text: 'modifications' },
@@ -254,6 +345,786 @@ describe('Approval Queue Bot', () => {
       const content = Buffer.from(doc.content[0].attachment.data, 'base64').toString();
       expect(content).toContain('MODIFIED');
     });
+
+    function taskWithModifications(modifications: unknown): Task {
+      return mockMedplum.addResource({
+        ...pendingApprovalTask,
+        status: 'completed',
+        ...ownedBy('Practitioner/dr-smith'),
+        output: [{ type: { text: 'modifications' }, valueString: JSON.stringify(modifications) }],
+      });
+    }
+
+    function signatureData(provenance: Provenance): any {
+      return JSON.parse(Buffer.from(provenance.signature?.[0].data as string, 'base64').toString());
+    }
+
+    it('should apply JSON Patch modifications and record edited fields', async () => {
+      const task = taskWithModifications([
+        { op: 'test', path: '/noteType', value: 'progress' },
+        { op: 'replace', path: '/content', value: 'Clinician-corrected note' },
+        { op: 'add', path: '/sections', value: { assessment: 'Stable' } },
+      ]);
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(true);
+      const doc = mockMedplum.getResources('DocumentReference')[0] as any;
+      expect(Buffer.from(doc.content[0].attachment.data, 'base64').toString()).toBe('Clinician-corrected note');
+
+      const data = signatureData(mockMedplum.getResources('Provenance')[0] as Provenance);
+      expect(data.action).toBe('edited');
+      expect(data.editedFields).toEqual(['content', 'sections']);
+
+      const audit = mockMedplum.getResources('AuditEvent')[0] as any;
+      expect(audit.subtype[0].code).toBe('approval_granted');
+    });
+
+    it('should record full-object modifications as edits of the changed fields', async () => {
+      const original = JSON.parse(pendingApprovalTask.input?.[0].valueString as string);
+      const task = taskWithModifications({ ...original, noteType: 'consultation', confidence: 0.99 });
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(true);
+      const data = signatureData(mockMedplum.getResources('Provenance')[0] as Provenance);
+      expect(data.editedFields).toEqual(['noteType']);
+    });
+
+    it('should record accepted when nothing was edited', async () => {
+      const task = taskWithModifications([]);
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(true);
+      const data = signatureData(mockMedplum.getResources('Provenance')[0] as Provenance);
+      expect(data.action).toBe('accepted');
+      expect(data.editedFields).toBeUndefined();
+    });
+
+    it('should reject edits to immutable fields', async () => {
+      const task = taskWithModifications([{ op: 'replace', path: '/patientId', value: 'other-patient' }]);
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.action).toBe('pending');
+      expect(result.message).toContain('patientId cannot be edited');
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(0);
+
+      const reverted = mockMedplum.getResources('Task')[0] as Task;
+      expect(reverted.status).toBe('requested');
+      expect(reverted.note?.some((n) => n.text?.includes('Modifications not accepted'))).toBe(true);
+    });
+
+    it('should reject edits that retarget the command', async () => {
+      const task = taskWithModifications([{ op: 'replace', path: '/encounterId', value: 'encounter-other' }]);
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('encounterId cannot be edited');
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(0);
+    });
+
+    it('should reject patch paths that reach object prototypes', async () => {
+      const task = taskWithModifications([
+        { op: 'add', path: '/__proto__/polluted', value: true },
+        { op: 'add', path: '/sections/constructor/prototype/polluted', value: true },
+      ]);
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Patch operation 0: invalid path "/__proto__/polluted"');
+      expect(result.message).toContain('Patch operation 1: invalid path');
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it('should reject full-object modifications that change the patient', async () => {
+      const original = JSON.parse(pendingApprovalTask.input?.[0].valueString as string);
+      const task = taskWithModifications({ ...original, patientId: 'other-patient' });
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('patientId cannot be edited');
+    });
+
+    it('should reject edits that change a field type', async () => {
+      const task = taskWithModifications([{ op: 'replace', path: '/content', value: 42 }]);
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('content must be a string');
+    });
+
+    it('should reject edits that remove required fields', async () => {
+      const task = taskWithModifications([{ op: 'remove', path: '/content' }]);
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('content: is required');
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(0);
+    });
+
+    it('should reject invalid patch operations', async () => {
+      const task = taskWithModifications([
+        { op: 'replace', path: '/missing', value: 'x' },
+        { op: 'move', from: '/content', path: '/noteType' },
+      ]);
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('"/missing" does not exist');
+      expect(result.message).toContain('Patch operation 1');
+    });
+
+    describe('Safety re-check', () => {
+      const originalPath = process.env.SAFETY_POLICY_PATH;
+      let tmpDir: string;
+
+      beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'safety-policy-'));
+        const file = path.join(tmpDir, 'safety-filters.yaml');
+        fs.writeFileSync(
+          file,
+          `
+safetyFilters:
+  - name: "OpioidBlock"
+    description: "Block AI opioid suggestions"
+    action: "block"
+    conditions:
+      - { field: "command", operator: "equals", value: "SuggestMedicationChange" }
+      - { field: "medication.code", operator: "equals", value: "1049621" }
+`
+        );
+        process.env.SAFETY_POLICY_PATH = file;
+      });
+
+      afterEach(() => {
+        if (originalPath === undefined) {
+          delete process.env.SAFETY_POLICY_PATH;
+        } else {
+          process.env.SAFETY_POLICY_PATH = originalPath;
+        }
+        clearSafetyPolicyCache();
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      });
+
+      it('should not execute an edit that a safety filter blocks', async () => {
+        const task = mockMedplum.addResource<Task>({
+          ...pendingApprovalTask,
+          status: 'completed',
+          ...ownedBy('Practitioner/dr-smith'),
+          input: [
+            {
+              type: { text: 'command' },
+              valueString: JSON.stringify({
+                command: 'SuggestMedicationChange',
+                patientId: 'test-patient-1',
+                action: 'start',
+                medication: {
+                  code: '314076',
+                  system: 'http://www.nlm.nih.gov/research/umls/rxnorm',
+                  display: 'Lisinopril',
+                },
+                rationale: 'For blood pressure control',
+                confidence: 0.82,
+                requiresApproval: true,
+                aiModel: 'llama3.2:3b',
+              }),
+            },
+          ],
+          output: [
+            {
+              type: { text: 'modifications' },
+              valueString: JSON.stringify([
+                { op: 'replace', path: '/medication/code', value: '1049621' },
+                { op: 'replace', path: '/medication/display', value: 'Oxycodone' },
+              ]),
+            },
+          ],
+        });
+
+        const result = await handler(mockMedplum as any, { input: task } as any);
+
+        expect(result.success).toBe(false);
+        expect(result.message).toBe('Command blocked by safety filter: OpioidBlock');
+        expect(mockMedplum.getResources('MedicationRequest')).toHaveLength(0);
+        expect((mockMedplum.getResources('Task').find((t) => t.id === task.id) as Task).status).toBe('failed');
+      });
+    });
+  });
+
+  describe('Dual Approval', () => {
+    const dualApprovalTask: Task = {
+      ...pendingApprovalTask,
+      id: 'task-dual-1',
+      input: [
+        ...(pendingApprovalTask.input || []),
+        { type: { text: 'minApprovers' }, valueInteger: 2 },
+      ],
+    };
+
+    it('should keep the task pending after the first approval', async () => {
+      mockMedplum.addResource(dualApprovalTask);
+
+      const result = await handler(mockMedplum as any, {
+        input: { ...dualApprovalTask, status: 'completed', ...ownedBy('Practitioner/dr-smith') },
+      } as any);
+
+      expect(result.action).toBe('pending');
+      expect(result.message).toContain('1 of 2');
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(0);
+
+      const updated = mockMedplum.getResources('Task')[0] as Task;
+      expect(updated.status).toBe('requested');
+      expect(updated.owner).toBeUndefined();
+      const signatures = updated.output?.filter((o) => o.type?.text === 'approval') || [];
+      expect(signatures).toHaveLength(1);
+      expect(JSON.parse(signatures[0].valueString as string).approver).toBe('Practitioner/dr-smith');
+    });
+
+    it('should not count the same approver twice', async () => {
+      mockMedplum.addResource(dualApprovalTask);
+
+      await handler(mockMedplum as any, {
+        input: { ...dualApprovalTask, status: 'completed', ...ownedBy('Practitioner/dr-smith') },
+      } as any);
+      const afterFirst = mockMedplum.getResources('Task')[0] as Task;
+
+      const result = await handler(mockMedplum as any, {
+        input: { ...afterFirst, status: 'completed', ...ownedBy('Practitioner/dr-smith', afterFirst.meta) },
+      } as any);
+
+      expect(result.action).toBe('pending');
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(0);
+    });
+
+    it('should execute once enough distinct practitioners have signed', async () => {
+      mockMedplum.addResource(dualApprovalTask);
+
+      await handler(mockMedplum as any, {
+        input: { ...dualApprovalTask, status: 'completed', ...ownedBy('Practitioner/dr-smith') },
+      } as any);
+      const afterFirst = mockMedplum.getResources('Task')[0] as Task;
+
+      const result = await handler(mockMedplum as any, {
+        input: { ...afterFirst, status: 'completed', ...ownedBy('Practitioner/dr-jones', afterFirst.meta) },
+      } as any);
+
+      expect(result.action).toBe('approved');
+      expect(result.success).toBe(true);
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(1);
+
+      const provenance = mockMedplum.getResources('Provenance')[0] as any;
+      const verifiers = provenance.agent
+        .filter((a: any) => a.type.coding[0].code === 'verifier')
+        .map((a: any) => a.who.reference);
+      expect(verifiers).toEqual(['Practitioner/dr-smith', 'Practitioner/dr-jones']);
+
+      // Re-delivery of our own update must not execute again
+      const finalTask = mockMedplum.getResources('Task')[0] as Task;
+      const replay = await handler(mockMedplum as any, { input: finalTask } as any);
+      expect(replay.message).toContain('already executed');
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(1);
+    });
+  });
+
+  describe('Concurrent Dual Approval', () => {
+    const dualApprovalTask: Task = {
+      ...pendingApprovalTask,
+      id: 'task-dual-2',
+      meta: { versionId: '1' },
+      input: [...(pendingApprovalTask.input || []), { type: { text: 'minApprovers' }, valueInteger: 2 }],
+    };
+
+    // Saves the Task as a clinician's client would, without a version check
+    async function completeAs(reference: string): Promise<Task> {
+      const stored = mockMedplum.getResources('Task').find((t) => t.id === dualApprovalTask.id) as Task;
+      mockMedplum.author = { reference };
+      const saved = await mockMedplum.updateResource<Task>({ ...stored, status: 'completed', owner: { reference } });
+      mockMedplum.author = { reference: 'Bot/mock-bot' };
+      return saved;
+    }
+
+    it('should keep both signatures when two approvals land before either is processed', async () => {
+      mockMedplum.addResource(dualApprovalTask);
+      const bySmith = await completeAs('Practitioner/dr-smith');
+      const byJones = await completeAs('Practitioner/dr-jones');
+
+      const first = await handler(mockMedplum as any, { input: bySmith } as any);
+      expect(first.action).toBe('pending');
+      const second = await handler(mockMedplum as any, { input: byJones } as any);
+
+      expect(second.action).toBe('approved');
+      expect(second.success).toBe(true);
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(1);
+      const provenance = mockMedplum.getResources('Provenance')[0] as any;
+      const verifiers = provenance.agent
+        .filter((a: any) => a.type.coding[0].code === 'verifier')
+        .map((a: any) => a.who.reference);
+      expect(verifiers).toEqual(['Practitioner/dr-smith', 'Practitioner/dr-jones']);
+    });
+
+    it('should save signatures only onto the version they were read from', async () => {
+      mockMedplum.addResource(dualApprovalTask);
+      const bySmith = await completeAs('Practitioner/dr-smith');
+
+      await handler(mockMedplum as any, { input: bySmith } as any);
+
+      const [, options] = mockMedplum.updateResourceSpy.mock.calls[1];
+      expect(options).toEqual({ headers: { 'If-Match': `W/"${bySmith.meta?.versionId}"` } });
+    });
+  });
+
+  describe('Transactional Execution', () => {
+    const approvedTask: Task = {
+      ...pendingApprovalTask,
+      id: 'task-tx-1',
+      status: 'completed',
+      ...ownedBy('Practitioner/dr-smith', { versionId: '1' }),
+    };
+
+    beforeEach(() => {
+      mockMedplum.addResource({ ...approvedTask, status: 'requested', owner: undefined });
+    });
+
+    it('should commit the resource, Provenance, Task and notification in one transaction', async () => {
+      const result = await handler(mockMedplum as any, { input: approvedTask } as any);
+
+      expect(result.success).toBe(true);
+      expect(mockMedplum.executeBatchSpy).toHaveBeenCalledTimes(1);
+      const bundle = mockMedplum.executeBatchSpy.mock.calls[0][0];
+      expect(bundle.type).toBe('transaction');
+      expect(bundle.entry.map((e: any) => e.resource.resourceType)).toEqual([
+        'DocumentReference',
+        'Provenance',
+        'Task',
+        'Communication',
+      ]);
+      expect(bundle.entry[1].resource.target[0].reference).toBe(bundle.entry[0].fullUrl);
+      expect(bundle.entry[2].request).toMatchObject({ method: 'PUT', url: 'Task/task-tx-1', ifMatch: 'W/"1"' });
+
+      const task = mockMedplum.getResources('Task')[0] as Task;
+      expect(task.status).toBe('completed');
+      const executed = task.output?.find((o) => o.type?.text === 'executedResource');
+      expect(executed?.valueReference?.reference).toBe(result.executedResourceId);
+      const comm = mockMedplum.getResources('Communication')[0] as any;
+      expect(comm.about).toEqual([{ reference: result.executedResourceId }]);
+    });
+
+    it('should roll back and mark the task retryable when the transaction fails', async () => {
+      jest.spyOn(mockMedplum, 'executeBatch').mockRejectedValueOnce(new Error('Provenance write failed'));
+
+      const result = await handler(mockMedplum as any, { input: approvedTask } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Provenance write failed');
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(0);
+      expect(mockMedplum.getResources('Provenance')).toHaveLength(0);
+      expect(mockMedplum.getResources('Communication')).toHaveLength(0);
+
+      const task = mockMedplum.getResources('Task')[0] as Task;
+      expect(task.status).toBe('failed');
+      expect(task.statusReason?.text).toBe(EXECUTION_FAILED_REASON);
+      expect(task.businessStatus?.text).toBe('Retryable');
+      expect(task.note?.[task.note.length - 1].text).toContain('Provenance write failed');
+
+      const audit = mockMedplum.getResources('AuditEvent')[0] as any;
+      expect(audit.outcome).toBe('8');
+    });
+
+    it('should wait for a retry rather than expire a failed execution', async () => {
+      jest.spyOn(mockMedplum, 'executeBatch').mockRejectedValueOnce(new Error('Server unavailable'));
+      await handler(mockMedplum as any, { input: approvedTask } as any);
+      const failed = mockMedplum.getResources('Task')[0] as Task;
+
+      const redelivery = await handler(mockMedplum as any, { input: failed } as any);
+      expect(redelivery.action).toBe('pending');
+      expect(redelivery.message).toContain('retry');
+      expect(mockMedplum.getResources('Communication')).toHaveLength(0);
+
+      const retry = await handler(
+        mockMedplum as any,
+        { input: { ...failed, status: 'completed', ...ownedBy('Practitioner/dr-smith', failed.meta) } } as any
+      );
+      expect(retry.success).toBe(true);
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(1);
+      expect((mockMedplum.getResources('Task')[0] as Task).status).toBe('completed');
+    });
+
+    it('should not execute again when an earlier version of the completed task is redelivered', async () => {
+      const first = await handler(mockMedplum as any, { input: approvedTask } as any);
+      const redelivery = await handler(mockMedplum as any, { input: approvedTask } as any);
+
+      expect(redelivery.success).toBe(true);
+      expect(redelivery.message).toBe('Command already executed');
+      expect(redelivery.executedResourceId).toBe(first.executedResourceId);
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(1);
+      expect(mockMedplum.getResources('Communication')).toHaveLength(1);
+      expect(mockMedplum.executeBatchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the resource an earlier execution created for the same command ID', async () => {
+      const first = await handler(mockMedplum as any, { input: approvedTask } as any);
+      // Another approval Task for the same command, e.g. a duplicate submission
+      const duplicate = { ...approvedTask, id: 'task-tx-2' };
+      mockMedplum.addResource({ ...duplicate, status: 'requested', owner: undefined });
+
+      const result = await handler(mockMedplum as any, { input: duplicate } as any);
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('Command already executed');
+      expect(result.executedResourceId).toBe(first.executedResourceId);
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(1);
+    });
+
+    it('should not write the provenance or notification again when a concurrent delivery commits first', async () => {
+      const executeBatch = mockMedplum.executeBatch.bind(mockMedplum);
+      jest.spyOn(mockMedplum, 'executeBatch').mockImplementationOnce(async (bundle) => {
+        // The same approval, delivered twice, commits its transaction first
+        await executeBatch(bundle);
+        return executeBatch(bundle);
+      });
+
+      const result = await handler(mockMedplum as any, { input: approvedTask } as any);
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('Command already executed');
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(1);
+      expect(mockMedplum.getResources('Provenance')).toHaveLength(1);
+      expect(mockMedplum.getResources('Communication')).toHaveLength(1);
+      expect((mockMedplum.getResources('Task')[0] as Task).status).toBe('completed');
+    });
+  });
+
+  describe('Batch Approval', () => {
+    const batchTask: Task = {
+      resourceType: 'Task',
+      id: 'task-batch-1',
+      status: 'requested',
+      intent: 'proposal',
+      code: { coding: [{ system: 'http://medplum.com/fhir/CodeSystem/ai-command', code: 'AICommandBatch' }] },
+      for: { reference: 'Patient/test-patient-1' },
+      groupIdentifier: { value: 'visit-123' },
+    };
+
+    function batchItem(id: string): Task {
+      return {
+        ...pendingApprovalTask,
+        id,
+        meta: { versionId: '1' },
+        partOf: [{ reference: 'Task/task-batch-1' }],
+        input: [
+          ...(pendingApprovalTask.input || []).filter((i) => i.type?.text !== 'commandId'),
+          { type: { text: 'commandId' }, valueString: `cmd-${id}` },
+        ],
+      };
+    }
+
+    function storedTask(id: string): Task {
+      return mockMedplum.getResources('Task').find((t) => t.id === id) as Task;
+    }
+
+    // Stands in for the Task subscription, which runs the bot for each updated Task
+    async function deliverUpdates(ids: string[]): Promise<void> {
+      for (const id of ids) {
+        await handler(mockMedplum as any, { input: storedTask(id), bot: mockMedplum.author } as any);
+      }
+    }
+
+    beforeEach(() => {
+      mockMedplum.addResource(batchTask);
+      mockMedplum.addResource(batchItem('task-item-1'));
+      mockMedplum.addResource(batchItem('task-item-2'));
+    });
+
+    it('should approve every pending command when the batch is approved', async () => {
+      const owner = { reference: 'Practitioner/dr-smith' };
+      const result = await handler(
+        mockMedplum as any,
+        { input: { ...batchTask, status: 'completed', ...ownedBy(owner.reference) } } as any
+      );
+      expect(result.success).toBe(true);
+      expect(result.action).toBe('approved');
+      expect(storedTask('task-item-1')).toMatchObject({ status: 'completed', owner });
+
+      await deliverUpdates(['task-item-1', 'task-item-2']);
+
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(2);
+      const executed = storedTask('task-item-2').output?.find((o) => o.type?.text === 'executedResource');
+      expect(executed).toBeDefined();
+    });
+
+    it("should not approve a batch saved under another practitioner's name", async () => {
+      const result = await handler(
+        mockMedplum as any,
+        {
+          input: {
+            ...batchTask,
+            status: 'completed',
+            owner: { reference: 'Practitioner/dr-smith' },
+            meta: { author: { reference: 'Practitioner/nurse-patel' } },
+          },
+        } as any
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('owned by Practitioner/dr-smith');
+      expect(storedTask('task-batch-1').status).toBe('requested');
+      expect(storedTask('task-item-1').status).toBe('requested');
+    });
+
+    it('should reject every pending command with the batch rejection reason', async () => {
+      await handler(
+        mockMedplum as any,
+        {
+          input: {
+            ...batchTask,
+            status: 'rejected',
+            ...ownedBy('Practitioner/dr-smith'),
+            note: [{ text: 'Rejection: Wrong patient' }],
+          },
+        } as any
+      );
+
+      expect(storedTask('task-item-1').status).toBe('rejected');
+      await deliverUpdates(['task-item-1']);
+
+      const provenance = mockMedplum.getResources('Provenance')[0] as Provenance;
+      expect(provenance.activity?.coding?.[0].code).toBe('NULLIFY');
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(0);
+    });
+
+    it('should not reject the commands of a batch rejected by someone who is not a practitioner', async () => {
+      const result = await handler(
+        mockMedplum as any,
+        {
+          input: {
+            ...batchTask,
+            status: 'rejected',
+            meta: { author: { reference: 'Patient/test-patient-1' } },
+            note: [{ text: 'Rejection: Wrong patient' }],
+          },
+        } as any
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Rejection not accepted');
+      expect(storedTask('task-batch-1').status).toBe('requested');
+      expect(storedTask('task-item-1').status).toBe('requested');
+    });
+
+    it('should record a batch rejection against its verified author', async () => {
+      await handler(
+        mockMedplum as any,
+        {
+          input: {
+            ...batchTask,
+            status: 'rejected',
+            meta: { author: { reference: 'Practitioner/dr-smith' } },
+            note: [{ text: 'Rejection: Wrong patient' }],
+          },
+        } as any
+      );
+
+      expect(storedTask('task-item-1').owner).toEqual({ reference: 'Practitioner/dr-smith' });
+      await deliverUpdates(['task-item-1']);
+
+      const provenance = mockMedplum.getResources('Provenance')[0] as Provenance;
+      expect(provenance.agent.map((a) => a.who.reference)).toContain('Practitioner/dr-smith');
+    });
+
+    it('should let commands be decided individually and close the batch after the last', async () => {
+      const approve = (id: string) =>
+        handler(
+          mockMedplum as any,
+          {
+            input: { ...storedTask(id), status: 'completed', ...ownedBy('Practitioner/dr-smith', storedTask(id).meta) },
+          } as any
+        );
+
+      await approve('task-item-1');
+      expect(storedTask('task-batch-1').status).toBe('requested');
+      expect(storedTask('task-item-2').status).toBe('requested');
+
+      await approve('task-item-2');
+      expect(storedTask('task-batch-1').status).toBe('completed');
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(2);
+    });
+
+    it('should keep the batch open while a command past the first page is pending', async () => {
+      for (let i = 0; i < 100; i++) {
+        mockMedplum.addResource({ ...batchItem(`task-done-${i}`), status: 'cancelled' });
+      }
+      mockMedplum.addResource(batchItem('task-item-3'));
+      const approve = (id: string) =>
+        handler(
+          mockMedplum as any,
+          {
+            input: { ...storedTask(id), status: 'completed', ...ownedBy('Practitioner/dr-smith', storedTask(id).meta) },
+          } as any
+        );
+
+      await approve('task-item-1');
+      await approve('task-item-2');
+      expect(storedTask('task-batch-1').status).toBe('requested');
+
+      await approve('task-item-3');
+      expect(storedTask('task-batch-1').status).toBe('completed');
+    });
+  });
+
+  describe('Approver Authorization', () => {
+    const billingTask: Task = {
+      ...pendingApprovalTask,
+      id: 'task-billing-auth',
+      input: [
+        {
+          type: { text: 'command' },
+          valueString: JSON.stringify({
+            command: 'SuggestBillingCodes',
+            patientId: 'test-patient-1',
+            encounterId: 'encounter-office-1',
+            suggestedCodes: [{ code: '99213', system: 'CPT', display: 'Office visit', confidence: 0.9 }],
+            confidence: 0.85,
+            requiresApproval: true,
+            aiModel: 'llama3.2:3b',
+          }),
+        },
+        { type: { text: 'commandId' }, valueString: 'cmd-billing-1' },
+        { type: { text: 'approverRoles' }, valueString: 'Practitioner,BillingSpecialist' },
+      ],
+    };
+
+    const medicationTask: Task = {
+      ...pendingApprovalTask,
+      id: 'task-med-auth',
+      input: [
+        {
+          type: { text: 'command' },
+          valueString: JSON.stringify({
+            command: 'SuggestMedicationChange',
+            patientId: 'test-patient-1',
+            action: 'start',
+            medication: { code: '314076', system: 'http://www.nlm.nih.gov/research/umls/rxnorm', display: 'Lisinopril 10mg' },
+            rationale: 'BP control',
+            confidence: 0.85,
+            requiresApproval: true,
+            aiModel: 'llama3.2:3b',
+          }),
+        },
+        { type: { text: 'approverRoles' }, valueString: 'Practitioner,Pharmacist' },
+      ],
+    };
+
+    it('should not let a pharmacist approve billing claims', async () => {
+      mockMedplum.addResource(billingTask);
+
+      const result = await handler(mockMedplum as any, {
+        input: { ...billingTask, status: 'completed', ...ownedBy('Practitioner/pharm-lee') },
+      } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.action).toBe('pending');
+      expect(result.message).toContain('does not hold an approver role');
+      expect(mockMedplum.getResources('Claim')).toHaveLength(0);
+
+      const reverted = mockMedplum.getResources('Task').find((t) => t.id === billingTask.id) as Task;
+      expect(reverted.status).toBe('requested');
+      expect(reverted.owner).toBeUndefined();
+
+      const audit = mockMedplum.getResources('AuditEvent')[0] as any;
+      expect(audit.subtype[0].code).toBe('approval_unauthorized');
+    });
+
+    it('should let a billing specialist approve billing claims', async () => {
+      const result = await handler(mockMedplum as any, {
+        input: { ...billingTask, status: 'completed', ...ownedBy('Practitioner/billing-kim') },
+      } as any);
+
+      expect(result.action).toBe('approved');
+      expect(mockMedplum.getResources('Claim')).toHaveLength(1);
+    });
+
+    it('should not let a billing specialist approve medication changes', async () => {
+      mockMedplum.addResource(medicationTask);
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          ...medicationTask,
+          status: 'completed',
+          owner: { reference: 'PractitionerRole/role-billing-kim' },
+          meta: { author: { reference: 'Practitioner/billing-kim' } },
+        },
+      } as any);
+
+      expect(result.action).toBe('pending');
+      expect(mockMedplum.getResources('MedicationRequest')).toHaveLength(0);
+    });
+
+    it('should accept approval through a PractitionerRole reference', async () => {
+      const result = await handler(mockMedplum as any, {
+        input: {
+          ...medicationTask,
+          status: 'completed',
+          owner: { reference: 'PractitionerRole/role-pharm-lee' },
+          meta: { author: { reference: 'Practitioner/pharm-lee' } },
+        },
+      } as any);
+
+      expect(result.action).toBe('approved');
+      const provenance = mockMedplum.getResources('Provenance')[0] as any;
+      expect(provenance.agent[1].who.reference).toBe('Practitioner/pharm-lee');
+    });
+
+    it("should not accept an approval saved under another practitioner's name", async () => {
+      mockMedplum.addResource(billingTask);
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          ...billingTask,
+          status: 'completed',
+          owner: { reference: 'Practitioner/billing-kim' },
+          meta: { author: { reference: 'Practitioner/pharm-lee' } },
+        },
+      } as any);
+
+      expect(result.action).toBe('pending');
+      expect(result.message).toContain('Practitioner/pharm-lee completed Task/');
+      expect(result.message).toContain('owned by Practitioner/billing-kim');
+      expect(mockMedplum.getResources('Claim')).toHaveLength(0);
+      const audit = mockMedplum.getResources('AuditEvent')[0] as any;
+      expect(audit.subtype[0].code).toBe('approval_unauthorized');
+    });
+
+    it('should not accept an approval without an author', async () => {
+      mockMedplum.addResource(billingTask);
+
+      const result = await handler(mockMedplum as any, {
+        input: { ...billingTask, status: 'completed', owner: { reference: 'Practitioner/billing-kim' } },
+      } as any);
+
+      expect(result.action).toBe('pending');
+      expect(result.message).toContain('without an author');
+      expect(mockMedplum.getResources('Claim')).toHaveLength(0);
+    });
+
+    it('should reject completions without an identified approver', async () => {
+      mockMedplum.addResource(pendingApprovalTask);
+
+      const result = await handler(mockMedplum as any, {
+        input: { ...pendingApprovalTask, status: 'completed', owner: { display: 'Unknown' } },
+      } as any);
+
+      expect(result.action).toBe('pending');
+      expect(mockMedplum.getResources('DocumentReference')).toHaveLength(0);
+    });
   });
 
   describe('Command Type Handling', () => {
@@ -261,7 +1132,7 @@ describe('Approval Queue Bot', () => {
       const problemListTask: Task = {
         ...pendingApprovalTask,
         status: 'completed',
-        owner: { reference: 'Practitioner/dr-smith' },
+        ...ownedBy('Practitioner/dr-smith'),
         input: [
           {
             type: { text: 'command' },
@@ -297,7 +1168,7 @@ describe('Approval Queue Bot', () => {
       const billingTask: Task = {
         ...pendingApprovalTask,
         status: 'completed',
-        owner: { reference: 'Practitioner/dr-smith' },
+        ...ownedBy('Practitioner/dr-smith'),
         input: [
           {
             type: { text: 'command' },
@@ -330,7 +1201,7 @@ describe('Approval Queue Bot', () => {
       const referralTask: Task = {
         ...pendingApprovalTask,
         status: 'completed',
-        owner: { reference: 'Practitioner/dr-smith' },
+        ...ownedBy('Practitioner/dr-smith'),
         input: [
           {
             type: { text: 'command' },
@@ -359,11 +1230,166 @@ describe('Approval Queue Bot', () => {
       expect(serviceRequests.length).toBeGreaterThan(0);
     });
 
+    it('should handle ProposeServiceRequest', async () => {
+      const orderTask: Task = {
+        ...pendingApprovalTask,
+        status: 'completed',
+        ...ownedBy('Practitioner/dr-smith'),
+        input: [
+          {
+            type: { text: 'command' },
+            valueString: JSON.stringify({
+              command: 'ProposeServiceRequest',
+              patientId: 'test-patient-1',
+              category: 'laboratory',
+              code: { code: '2823-3', system: 'http://loinc.org', display: 'Potassium [Moles/volume] in Serum or Plasma' },
+              priority: 'urgent',
+              reasonText: 'Repeat potassium',
+              reasonReference: ['Observation/obs-lab-critical'],
+              confidence: 0.95,
+              requiresApproval: true,
+              aiModel: 'llama3.2:3b',
+            }),
+          },
+        ],
+      };
+
+      const result = await handler(mockMedplum as any, { input: orderTask } as any);
+
+      expect(result.success).toBe(true);
+      const serviceRequest = mockMedplum.getResources('ServiceRequest')[0] as any;
+      expect(result.executedResourceId).toBe(`ServiceRequest/${serviceRequest.id}`);
+      expect(serviceRequest.status).toBe('draft');
+      expect(serviceRequest.priority).toBe('urgent');
+      expect(serviceRequest.code.coding[0]).toMatchObject({ system: 'http://loinc.org', code: '2823-3' });
+      expect(serviceRequest.category[0].coding[0].code).toBe('108252007');
+      expect(serviceRequest.reasonReference).toEqual([{ reference: 'Observation/obs-lab-critical' }]);
+    });
+
+    it('should handle ProposeImmunizationRecommendation', async () => {
+      const recommendationTask: Task = {
+        ...pendingApprovalTask,
+        status: 'completed',
+        ...ownedBy('Practitioner/dr-smith'),
+        input: [
+          {
+            type: { text: 'command' },
+            valueString: JSON.stringify({
+              command: 'ProposeImmunizationRecommendation',
+              patientId: 'test-patient-1',
+              recommendations: [
+                {
+                  vaccineCode: { code: '187', system: 'http://hl7.org/fhir/sid/cvx', display: 'Zoster vaccine recombinant' },
+                  forecastStatus: 'due',
+                  dueDate: '2025-12-01',
+                  overdueDate: '2026-03-01',
+                  doseNumber: 2,
+                  seriesDoses: 2,
+                  supportingImmunizationIds: ['imm-zos-1'],
+                },
+              ],
+              confidence: 0.9,
+              requiresApproval: true,
+              aiModel: 'llama3.2:3b',
+            }),
+          },
+        ],
+      };
+
+      const result = await handler(mockMedplum as any, { input: recommendationTask } as any);
+
+      expect(result.success).toBe(true);
+      const resource = mockMedplum.getResources('ImmunizationRecommendation')[0] as any;
+      expect(result.executedResourceId).toBe(`ImmunizationRecommendation/${resource.id}`);
+      expect(resource.patient.reference).toBe('Patient/test-patient-1');
+
+      const recommendation = resource.recommendation[0];
+      expect(recommendation.forecastStatus.coding[0].code).toBe('due');
+      expect(recommendation.dateCriterion.map((d: any) => [d.code.coding[0].code, d.value])).toEqual([
+        ['30980-7', '2025-12-01'],
+        ['59778-1', '2026-03-01'],
+      ]);
+      expect(recommendation.doseNumberPositiveInt).toBe(2);
+      expect(recommendation.supportingImmunization).toEqual([{ reference: 'Immunization/imm-zos-1' }]);
+    });
+
+    it('should create a ProposeCarePlan and its goals and orders in one transaction', async () => {
+      const carePlanTask: Task = {
+        ...pendingApprovalTask,
+        status: 'completed',
+        ...ownedBy('Practitioner/dr-smith'),
+        input: [
+          {
+            type: { text: 'command' },
+            valueString: JSON.stringify({
+              command: 'ProposeCarePlan',
+              patientId: 'test-patient-1',
+              encounterId: 'encounter-office-1',
+              title: 'Diabetes management',
+              addressesConditionIds: ['condition-dm'],
+              goals: [
+                {
+                  description: 'HbA1c below 7%',
+                  measure: { code: '4548-4', system: 'http://loinc.org', display: 'Hemoglobin A1c' },
+                  target: { comparator: '<', value: 7, unit: '%' },
+                },
+              ],
+              activities: [
+                {
+                  kind: 'ServiceRequest',
+                  code: { code: '4548-4', system: 'http://loinc.org', display: 'Hemoglobin A1c' },
+                  priority: 'routine',
+                },
+                {
+                  kind: 'MedicationRequest',
+                  code: {
+                    code: '860975',
+                    system: 'http://www.nlm.nih.gov/research/umls/rxnorm',
+                    display: 'Metformin 500 MG Oral Tablet',
+                  },
+                  dosage: '500 mg twice daily',
+                },
+              ],
+              confidence: 0.8,
+              requiresApproval: true,
+              aiModel: 'llama3.2:3b',
+            }),
+          },
+        ],
+      };
+
+      const result = await handler(mockMedplum as any, { input: carePlanTask } as any);
+
+      expect(result.success).toBe(true);
+      expect(mockMedplum.executeBatchSpy).toHaveBeenCalledTimes(1);
+      expect(mockMedplum.executeBatchSpy.mock.calls[0][0].type).toBe('transaction');
+
+      const carePlan = mockMedplum.getResources('CarePlan')[0] as any;
+      const goal = mockMedplum.getResources('Goal')[0] as any;
+      const serviceRequest = mockMedplum.getResources('ServiceRequest')[0] as any;
+      const medicationRequest = mockMedplum
+        .getResources('MedicationRequest')
+        .find((r: any) => r.status === 'draft') as any;
+
+      expect(result.executedResourceId).toBe(`CarePlan/${carePlan.id}`);
+      expect(carePlan.status).toBe('draft');
+      expect(carePlan.addresses).toEqual([{ reference: 'Condition/condition-dm' }]);
+      expect(carePlan.goal).toEqual([{ reference: `Goal/${goal.id}` }]);
+      expect(carePlan.activity.map((a: any) => a.reference.reference)).toEqual([
+        `ServiceRequest/${serviceRequest.id}`,
+        `MedicationRequest/${medicationRequest.id}`,
+      ]);
+      expect(goal.lifecycleStatus).toBe('proposed');
+      expect(goal.target[0].detailQuantity).toEqual({ value: 7, unit: '%', comparator: '<' });
+      expect(serviceRequest.intent).toBe('plan');
+      expect(medicationRequest.dosageInstruction[0].text).toBe('500 mg twice daily');
+    });
+
     it('should handle SuggestMedicationChange', async () => {
       const medChangeTask: Task = {
         ...pendingApprovalTask,
         status: 'completed',
-        owner: { reference: 'Practitioner/dr-smith' },
+        ...ownedBy('Practitioner/dr-smith'),
         input: [
           {
             type: { text: 'command' },
@@ -397,6 +1423,453 @@ describe('Approval Queue Bot', () => {
     });
   });
 
+  describe('Problem List Updates', () => {
+    const ICD10 = 'http://hl7.org/fhir/sid/icd-10-cm';
+
+    function problemListTask(command: Record<string, unknown>, owner = 'Practitioner/dr-smith'): Task {
+      return {
+        ...pendingApprovalTask,
+        status: 'completed',
+        ...ownedBy(owner),
+        input: [
+          {
+            type: { text: 'command' },
+            valueString: JSON.stringify({
+              command: 'ProposeProblemListUpdate',
+              patientId: 'test-patient-1',
+              condition: { code: 'I10', system: ICD10, display: 'Essential hypertension' },
+              confidence: 0.9,
+              requiresApproval: true,
+              aiModel: 'llama3.2:3b',
+              ...command,
+            }),
+          },
+          { type: { text: 'approverRoles' }, valueString: 'Practitioner,Nurse' },
+        ],
+      };
+    }
+
+    function storedCondition(id = 'condition-htn'): Condition {
+      return mockMedplum.getResources('Condition').find((c) => c.id === id) as Condition;
+    }
+
+    beforeEach(() => {
+      mockMedplum.addResource({ ...hypertensionCondition, meta: { versionId: '3' } });
+    });
+
+    function withModifications(task: Task, modifications: unknown): Task {
+      return mockMedplum.addResource({
+        ...task,
+        output: [{ type: { text: 'modifications' }, valueString: JSON.stringify(modifications) }],
+      });
+    }
+
+    it('should reject edits that change the action', async () => {
+      const diabetes = { code: 'E11.9', system: ICD10, display: 'Type 2 diabetes' };
+      const task = withModifications(problemListTask({ action: 'add', condition: diabetes }), [
+        { op: 'replace', path: '/action', value: 'resolve' },
+      ]);
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('action cannot be edited');
+    });
+
+    it('should reject edits to the code a resolve finds its Condition by', async () => {
+      const task = withModifications(problemListTask({ action: 'resolve' }), [
+        { op: 'replace', path: '/condition/code', value: 'E11.9' },
+      ]);
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('condition.code cannot be edited');
+      expect(storedCondition().clinicalStatus?.coding?.[0].code).toBe('active');
+    });
+
+    it('should resolve a condition by conditionId', async () => {
+      const result = await handler(
+        mockMedplum as any,
+        { input: problemListTask({ action: 'resolve', conditionId: 'condition-htn', abatementDate: '2024-01-10' }) } as any
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.executedResourceId).toBe('Condition/condition-htn/_history/4');
+
+      const condition = storedCondition();
+      expect(condition.clinicalStatus?.coding?.[0].code).toBe('resolved');
+      expect(condition.abatementDateTime).toBe('2024-01-10');
+      const entries = mockMedplum.executeBatchSpy.mock.calls[0][0].entry;
+      expect(entries[0].request).toMatchObject({ method: 'PUT', ifMatch: 'W/"3"' });
+    });
+
+    it('should link Provenance to the Condition and the version it revised', async () => {
+      await handler(mockMedplum as any, { input: problemListTask({ action: 'resolve', conditionId: 'condition-htn' }) } as any);
+
+      const provenance = mockMedplum.getResources('Provenance')[0] as Provenance;
+      expect(provenance.target[0].reference).toBe('Condition/condition-htn');
+      expect(provenance.entity).toContainEqual({
+        role: 'revision',
+        what: { reference: 'Condition/condition-htn/_history/3' },
+      });
+      expect(provenance.activity?.coding?.[0].code).toBe('UPDATE');
+    });
+
+    it('should update a condition matched by code', async () => {
+      const result = await handler(
+        mockMedplum as any,
+        { input: problemListTask({ action: 'update', severity: 'severe', verificationStatus: 'provisional' }) } as any
+      );
+
+      expect(result.success).toBe(true);
+      const condition = storedCondition();
+      expect(condition.severity?.coding?.[0].code).toBe('24484000');
+      expect(condition.verificationStatus?.coding?.[0].code).toBe('provisional');
+      expect(condition.clinicalStatus?.coding?.[0].code).toBe('active');
+      expect(condition.abatementDateTime).toBeUndefined();
+    });
+
+    it('should refine the code of a condition by conditionId', async () => {
+      mockMedplum.addResource({
+        ...diabetesCondition,
+        code: {
+          coding: [
+            { system: ICD10, code: 'E11.9', display: 'Type 2 diabetes mellitus without complications' },
+            { system: 'http://snomed.info/sct', code: '44054006', display: 'Type 2 diabetes mellitus' },
+          ],
+        },
+      });
+
+      const result = await handler(
+        mockMedplum as any,
+        {
+          input: problemListTask({
+            action: 'update',
+            conditionId: 'condition-dm',
+            condition: { code: 'E11.65', system: ICD10, display: 'Type 2 diabetes mellitus with hyperglycemia' },
+          }),
+        } as any
+      );
+
+      expect(result.success).toBe(true);
+      const condition = storedCondition('condition-dm');
+      expect(condition.code?.coding?.map((c) => c.code)).toEqual(['44054006', 'E11.65']);
+      expect(condition.code?.text).toBe('Type 2 diabetes mellitus with hyperglycemia');
+      expect(condition.clinicalStatus?.coding?.[0].code).toBe('active');
+    });
+
+    it('should fail an update that changes nothing', async () => {
+      const result = await handler(mockMedplum as any, { input: problemListTask({ action: 'update' }) } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Update action requires');
+    });
+
+    it('should fail when no condition matches the code', async () => {
+      const result = await handler(
+        mockMedplum as any,
+        {
+          input: problemListTask({
+            action: 'resolve',
+            condition: { code: 'J45', system: ICD10, display: 'Asthma' },
+          }),
+        } as any
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('No matching Condition');
+    });
+
+    it('should require conditionId when several conditions match', async () => {
+      mockMedplum.addResource({ ...hypertensionCondition, id: 'condition-htn-2' });
+
+      const result = await handler(mockMedplum as any, { input: problemListTask({ action: 'resolve' }) } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('conditionId is required');
+    });
+
+    it('should not overwrite a condition changed since it was read', async () => {
+      const stale = { ...storedCondition(), meta: { versionId: '2' } };
+      jest.spyOn(mockMedplum, 'readResource').mockResolvedValue(stale as any);
+
+      const result = await handler(
+        mockMedplum as any,
+        { input: problemListTask({ action: 'resolve', conditionId: 'condition-htn' }) } as any
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Precondition failed');
+      expect(storedCondition().clinicalStatus?.coding?.[0].code).toBe('active');
+      expect(mockMedplum.getResources('Provenance')).toHaveLength(0);
+    });
+
+    describe('VerifiedDiagnosisProtection', () => {
+      const originalPath = process.env.SAFETY_POLICY_PATH;
+
+      beforeEach(() => {
+        process.env.SAFETY_POLICY_PATH = path.join(__dirname, '../../../config/safety-filters.yaml');
+        mockMedplum.addResource({
+          resourceType: 'PractitionerRole',
+          id: 'role-nurse-patel',
+          active: true,
+          practitioner: { reference: 'Practitioner/nurse-patel' },
+          code: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/practitioner-role', code: 'nurse' }] }],
+        });
+      });
+
+      afterEach(() => {
+        if (originalPath === undefined) {
+          delete process.env.SAFETY_POLICY_PATH;
+        } else {
+          process.env.SAFETY_POLICY_PATH = originalPath;
+        }
+        clearSafetyPolicyCache();
+      });
+
+      it('should not let a nurse resolve a confirmed diagnosis', async () => {
+        const task = mockMedplum.addResource(problemListTask({ action: 'resolve' }, 'Practitioner/nurse-patel'));
+
+        const result = await handler(mockMedplum as any, { input: task } as any);
+
+        expect(result.success).toBe(false);
+        expect(result.message).toContain('does not hold an approver role');
+        expect(storedCondition().clinicalStatus?.coding?.[0].code).toBe('active');
+      });
+
+      it('should let a nurse resolve an unconfirmed diagnosis', async () => {
+        const condition = storedCondition();
+        condition.verificationStatus = {
+          coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status', code: 'provisional' }],
+        };
+
+        const result = await handler(
+          mockMedplum as any,
+          { input: problemListTask({ action: 'resolve' }, 'Practitioner/nurse-patel') } as any
+        );
+
+        expect(result.success).toBe(true);
+        expect(storedCondition().clinicalStatus?.coding?.[0].code).toBe('resolved');
+      });
+
+      it('should fail an approved command that a safety filter now blocks', async () => {
+        const task = mockMedplum.addResource(problemListTask({ action: 'resolve', confidence: 0.2 }));
+
+        const result = await handler(mockMedplum as any, { input: task } as any);
+
+        expect(result.success).toBe(false);
+        expect(result.message).toBe('Command blocked by safety filter: LowConfidenceBlock');
+        expect(storedCondition().clinicalStatus?.coding?.[0].code).toBe('active');
+
+        const failed = mockMedplum.getResources('Task').find((t) => t.id === task.id) as Task;
+        expect(failed.status).toBe('failed');
+        expect(failed.businessStatus?.text).toContain('LowConfidenceBlock');
+        expect(mockMedplum.getResources('Communication')).toHaveLength(1);
+      });
+
+      it('should let a physician resolve a confirmed diagnosis', async () => {
+        const result = await handler(mockMedplum as any, { input: problemListTask({ action: 'resolve' }) } as any);
+
+        expect(result.success).toBe(true);
+        expect(storedCondition().clinicalStatus?.coding?.[0].code).toBe('resolved');
+      });
+    });
+  });
+
+  describe('Allergy Updates', () => {
+    const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+
+    function allergyTask(command: Record<string, unknown>, owner = 'Practitioner/dr-smith'): Task {
+      return {
+        ...pendingApprovalTask,
+        status: 'completed',
+        ...ownedBy(owner),
+        input: [
+          {
+            type: { text: 'command' },
+            valueString: JSON.stringify({
+              command: 'ProposeAllergyIntoleranceUpdate',
+              patientId: 'test-patient-1',
+              substance: { code: '7984', system: RXNORM, display: 'Penicillin' },
+              confidence: 0.9,
+              requiresApproval: true,
+              aiModel: 'llama3.2:3b',
+              ...command,
+            }),
+          },
+          { type: { text: 'approverRoles' }, valueString: 'Practitioner,Nurse' },
+        ],
+      };
+    }
+
+    function storedAllergy(id = 'allergy-pcn'): AllergyIntolerance {
+      return mockMedplum.getResources('AllergyIntolerance').find((a) => a.id === id) as AllergyIntolerance;
+    }
+
+    beforeEach(() => {
+      mockMedplum.addResource({ ...penicillinAllergy, meta: { versionId: '2' } });
+    });
+
+    it('should add an allergy with reactions from a transcript', async () => {
+      const result = await handler(
+        mockMedplum as any,
+        {
+          input: allergyTask({
+            action: 'add',
+            substance: { code: '723', system: RXNORM, display: 'Amoxicillin' },
+            type: 'allergy',
+            category: ['medication'],
+            criticality: 'low',
+            reactions: [
+              {
+                manifestations: [{ code: '247472004', system: 'http://snomed.info/sct', display: 'Hives' }],
+                severity: 'mild',
+              },
+            ],
+            sourceDocumentId: 'transcript-1',
+          }),
+        } as any
+      );
+
+      expect(result.success).toBe(true);
+      const allergy = mockMedplum
+        .getResources('AllergyIntolerance')
+        .find((a) => `AllergyIntolerance/${a.id}` === result.executedResourceId) as AllergyIntolerance;
+      expect(allergy.patient?.reference).toBe('Patient/test-patient-1');
+      expect(allergy.clinicalStatus?.coding?.[0].code).toBe('active');
+      expect(allergy.verificationStatus?.coding?.[0].code).toBe('unconfirmed');
+      expect(allergy.criticality).toBe('low');
+      expect(allergy.reaction?.[0].manifestation[0]).toEqual({
+        coding: [{ code: '247472004', system: 'http://snomed.info/sct', display: 'Hives' }],
+        text: 'Hives',
+      });
+    });
+
+    it('should link Provenance to the source document', async () => {
+      await handler(
+        mockMedplum as any,
+        { input: allergyTask({ action: 'refute', sourceDocumentId: 'transcript-1' }) } as any
+      );
+
+      const provenance = mockMedplum.getResources('Provenance')[0] as Provenance;
+      expect(provenance.target[0].reference).toBe('AllergyIntolerance/allergy-pcn');
+      expect(provenance.activity?.coding?.[0].code).toBe('UPDATE');
+      expect(provenance.entity).toContainEqual({ role: 'source', what: { reference: 'DocumentReference/transcript-1' } });
+    });
+
+    it('should refute an allergy matched by substance', async () => {
+      const result = await handler(mockMedplum as any, { input: allergyTask({ action: 'refute' }) } as any);
+
+      expect(result.success).toBe(true);
+      const allergy = storedAllergy();
+      expect(allergy.verificationStatus?.coding?.[0].code).toBe('refuted');
+      expect(allergy.clinicalStatus?.coding?.[0].code).toBe('inactive');
+      const entries = mockMedplum.executeBatchSpy.mock.calls[0][0].entry;
+      expect(entries[0].request).toMatchObject({ method: 'PUT', ifMatch: 'W/"2"' });
+    });
+
+    it('should append reactions when updating an allergy', async () => {
+      const result = await handler(
+        mockMedplum as any,
+        {
+          input: allergyTask({
+            action: 'update',
+            allergyIntoleranceId: 'allergy-pcn',
+            reactions: [{ manifestations: [{ display: 'Hives' }], severity: 'moderate' }],
+          }),
+        } as any
+      );
+
+      expect(result.success).toBe(true);
+      const allergy = storedAllergy();
+      expect(allergy.reaction?.map((r) => r.manifestation[0].text)).toEqual(['Anaphylaxis', 'Hives']);
+      expect(allergy.criticality).toBe('high');
+    });
+
+    it('should fail an update that changes nothing', async () => {
+      const result = await handler(mockMedplum as any, { input: allergyTask({ action: 'update' }) } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Update action requires');
+    });
+
+    it('should fail when no allergy matches the substance', async () => {
+      const result = await handler(
+        mockMedplum as any,
+        { input: allergyTask({ action: 'refute', substance: { code: '2670', system: RXNORM, display: 'Codeine' } }) } as any
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('No matching AllergyIntolerance');
+    });
+
+    it('should let a nurse approve allergy updates', async () => {
+      mockMedplum.addResource({
+        resourceType: 'PractitionerRole',
+        id: 'role-nurse-patel',
+        active: true,
+        practitioner: { reference: 'Practitioner/nurse-patel' },
+        code: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/practitioner-role', code: 'nurse' }] }],
+      });
+
+      const result = await handler(
+        mockMedplum as any,
+        { input: allergyTask({ action: 'refute' }, 'Practitioner/nurse-patel') } as any
+      );
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('Command Validation', () => {
+    it('should fail an invalid stored command and notify the clinician', async () => {
+      const task: Task = {
+        ...pendingApprovalTask,
+        status: 'completed',
+        ...ownedBy('Practitioner/dr-smith'),
+        input: [
+          {
+            type: { text: 'command' },
+            valueString: JSON.stringify({
+              command: 'SuggestMedicationChange',
+              patientId: 'test-patient-1',
+              action: 'start',
+              rationale: 'Test',
+              confidence: 0.9,
+              requiresApproval: true,
+              aiModel: 'llama3.2:3b',
+            }),
+          },
+        ],
+      };
+
+      mockMedplum.addResource(task);
+
+      const result = await handler(mockMedplum as any, { input: task } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.action).toBe('rejected');
+      expect(result.message).toContain('medication: is required');
+      expect(mockMedplum.getResources('MedicationRequest')).toHaveLength(0);
+
+      const failed = mockMedplum.getResources('Task')[0] as Task;
+      expect(failed.status).toBe('failed');
+      expect(failed.statusReason?.text).toBe(NOT_EXECUTED_REASON);
+      expect(failed.businessStatus?.text).toContain('medication: is required');
+
+      const comm = mockMedplum.getResources('Communication')[0] as any;
+      expect(comm.priority).toBe('urgent');
+      expect(comm.about).toEqual([{ reference: 'Task/task-approval-1' }]);
+      expect(comm.payload[0].contentString).toContain('was approved but not executed');
+
+      // Our own update re-triggers the bot without expiring the Task
+      const redelivered = await handler(mockMedplum as any, { input: failed } as any);
+      expect(redelivered.action).toBe('rejected');
+      expect(mockMedplum.getResources('Communication')).toHaveLength(1);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle missing command in task input', async () => {
       const taskWithoutCommand: Task = {
@@ -431,4 +1904,90 @@ describe('Approval Queue Bot', () => {
       expect(result.message).toContain('Error');
     });
   });
+
+  describe('Command Queue', () => {
+    let db: MockPostgresClient;
+
+    beforeEach(async () => {
+      db = new MockPostgresClient();
+      setCommandQueueClient(db);
+      await db.query('INSERT INTO ai_command_queue (command_id, task_id, status) VALUES ($1, $2, $3)', [
+        'cmd-test-123',
+        pendingApprovalTask.id,
+        'pending',
+      ]);
+    });
+
+    afterEach(() => {
+      setCommandQueueClient(undefined);
+    });
+
+    it('should record approved commands as executed', async () => {
+      const approvedTask: Task = {
+        ...pendingApprovalTask,
+        status: 'completed',
+        ...ownedBy('Practitioner/dr-smith'),
+      };
+
+      const result = await handler(mockMedplum as any, { input: approvedTask } as any);
+
+      const row = db.getRows('ai_command_queue')[0];
+      expect(row).toMatchObject({
+        status: 'executed',
+        reviewed_by: 'dr-smith',
+        target_resource_id: result.executedResourceId?.split('/')[1],
+      });
+      expect(JSON.parse(row.execution_result as string)).toMatchObject({
+        clinicianAction: 'accepted',
+        approvers: ['Practitioner/dr-smith'],
+      });
+    });
+
+    it('should record rejected commands with the rejection reason', async () => {
+      const rejectedTask: Task = {
+        ...pendingApprovalTask,
+        status: 'rejected',
+        ...ownedBy('Practitioner/dr-smith'),
+        note: [{ text: 'Rejection: Not clinically appropriate' }],
+      };
+
+      await handler(mockMedplum as any, { input: rejectedTask } as any);
+
+      expect(db.getRows('ai_command_queue')[0]).toMatchObject({
+        status: 'rejected',
+        reviewed_by: 'dr-smith',
+        reviewer_notes: 'Not clinically appropriate',
+      });
+    });
+
+    it('should record superseded commands apart from rejections', async () => {
+      const supersededTask: Task = {
+        ...pendingApprovalTask,
+        status: 'cancelled',
+        statusReason: { text: SUPERSEDED_REASON },
+        note: [{ text: 'Superseded by Task/task-newer' }],
+      };
+
+      await handler(mockMedplum as any, { input: supersededTask } as any);
+
+      expect(db.getRows('ai_command_queue')[0]).toMatchObject({
+        status: 'superseded',
+        reviewed_by: undefined,
+        reviewer_notes: 'Superseded by Task/task-newer',
+      });
+    });
+
+    it('should record expired commands', async () => {
+      const expiredTask: Task = {
+        ...pendingApprovalTask,
+        status: 'requested',
+        restriction: { period: { end: '2020-01-01T00:00:00Z' } },
+      };
+      mockMedplum.addResource(expiredTask);
+
+      await handler(mockMedplum as any, { input: expiredTask } as any);
+
+      expect(db.getRows('ai_command_queue')[0]).toMatchObject({ status: 'expired', task_id: pendingApprovalTask.id });
+    });
+  });
 });
@@ -2,6 +2,7 @@
  * Billing Code Suggester Bot - Unit Tests
  */
 
+import { Claim } from '@medplum/fhirtypes';
 import { handler } from '../../src/billing-code-suggester-bot';
 import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
 import { setupOllamaMock, teardownOllamaMock, configureMockOllama } from '../mocks/ollama';
@@ -173,6 +174,72 @@ describe('Billing Code Suggester Bot', () => {
     });
   });
 
+  describe('Chart Duplicates', () => {
+    const event = { input: { patientId: 'test-patient-1', encounterId: 'encounter-office-1' } };
+
+    it('should drop codes already on a claim for the encounter', async () => {
+      mockMedplum.addResource({
+        resourceType: 'Claim',
+        id: 'claim-1',
+        status: 'draft',
+        type: { coding: [{ code: 'professional' }] },
+        use: 'claim',
+        patient: { reference: 'Patient/test-patient-1' },
+        created: '2024-01-15T10:00:00Z',
+        provider: { display: 'AI Suggested' },
+        priority: { coding: [{ code: 'normal' }] },
+        insurance: [{ sequence: 1, focal: true, coverage: { display: 'To be determined' } }],
+        diagnosis: [
+          {
+            sequence: 1,
+            diagnosisCodeableConcept: { coding: [{ system: 'http://hl7.org/fhir/sid/icd-10-cm', code: 'I10' }] },
+          },
+        ],
+        item: [
+          {
+            sequence: 1,
+            productOrService: { coding: [{ system: 'http://www.ama-assn.org/go/cpt', code: '99213' }] },
+            encounter: [{ reference: 'Encounter/encounter-office-1' }],
+          },
+        ],
+      } as Claim);
+
+      const result = await handler(mockMedplum as any, event as any);
+
+      const codes = result.suggestedCodes.map((c) => c.code);
+      expect(codes).not.toContain('99213');
+      expect(codes).not.toContain('I10');
+      expect(codes).toContain('E11.9');
+      expect(result.warnings.some((w) => w.includes('already on the chart or an existing claim'))).toBe(true);
+    });
+
+    it('should drop AI diagnoses broader than an active condition', async () => {
+      configureMockOllama({
+        generate: {
+          enabled: true,
+          delay: 0,
+          response: `CODE: E11
+SYSTEM: ICD-10-CM
+DESCRIPTION: Type 2 diabetes mellitus
+CONFIDENCE: 0.7
+REASONING: Diabetes follow-up
+---
+CODE: E11.65
+SYSTEM: ICD-10-CM
+DESCRIPTION: Type 2 diabetes mellitus with hyperglycemia
+CONFIDENCE: 0.7
+REASONING: HbA1c above goal`,
+        },
+      });
+
+      const result = await handler(mockMedplum as any, event as any);
+
+      const codes = result.suggestedCodes.map((c) => c.code);
+      expect(codes).not.toContain('E11');
+      expect(codes).toEqual(expect.arrayContaining(['E11.9', 'E11.65']));
+    });
+  });
+
   describe('Total Confidence', () => {
     it('should calculate total confidence score', async () => {
       const event = {
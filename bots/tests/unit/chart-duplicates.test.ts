@@ -0,0 +1,107 @@
+/**
+ * Chart Duplicates - Unit Tests
+ */
+
+import { Condition } from '@medplum/fhirtypes';
+import {
+  ICD10_SYSTEM,
+  dedupeProblemListCommand,
+  findChartMatch,
+  getConditionEntries,
+} from '../../src/services/chart-duplicates';
+import { hypertensionCondition, diabetesCondition } from '../fixtures/fhir-resources';
+import { ProposeProblemListUpdate } from '../../src/types/ai-command-types';
+
+const SNOMED = 'http://snomed.info/sct';
+
+const addCommand = (code: string, display: string, system = ICD10_SYSTEM): ProposeProblemListUpdate => ({
+  command: 'ProposeProblemListUpdate',
+  patientId: 'test-patient-1',
+  action: 'add',
+  condition: { code, system, display },
+  confidence: 0.85,
+  requiresApproval: true,
+  aiModel: 'test-model',
+});
+
+describe('Chart Duplicates', () => {
+  describe('findChartMatch', () => {
+    const entries = getConditionEntries([hypertensionCondition, diabetesCondition]);
+
+    it('should match the same or a broader code as a duplicate', () => {
+      expect(findChartMatch({ system: ICD10_SYSTEM, code: 'I10' }, entries)).toEqual({
+        kind: 'duplicate',
+        reference: 'Condition/condition-htn',
+      });
+      expect(findChartMatch({ system: ICD10_SYSTEM, code: 'E11' }, entries)?.kind).toBe('duplicate');
+    });
+
+    it('should match a more specific code in the category as a refinement', () => {
+      expect(findChartMatch({ system: ICD10_SYSTEM, code: 'E11.65' }, entries)).toEqual({
+        kind: 'refinement',
+        reference: 'Condition/condition-dm',
+      });
+    });
+
+    it('should not match other codes in the category', () => {
+      const entry = { reference: 'Condition/dm-complicated', codes: [{ system: ICD10_SYSTEM, code: 'E11.65' }] };
+
+      expect(findChartMatch({ system: ICD10_SYSTEM, code: 'E11.22' }, [entry])).toBeUndefined();
+      expect(findChartMatch({ system: ICD10_SYSTEM, code: 'E11.9' }, [entry])?.kind).toBe('duplicate');
+      expect(findChartMatch({ system: ICD10_SYSTEM, code: 'I11.9' }, entries)).toBeUndefined();
+    });
+
+    it('should compare SNOMED CT problems through their ICD-10-CM equivalents', () => {
+      const snomedEntry = { reference: 'Condition/dm-snomed', codes: [{ system: SNOMED, code: '44054006' }] };
+
+      expect(findChartMatch({ system: SNOMED, code: '59621000' }, entries)?.kind).toBe('duplicate');
+      expect(findChartMatch({ system: ICD10_SYSTEM, code: 'E11.9' }, [snomedEntry])?.kind).toBe('refinement');
+      expect(findChartMatch({ system: SNOMED, code: '44054006' }, [snomedEntry])?.kind).toBe('duplicate');
+    });
+
+    it('should prefer a duplicate over a refinement', () => {
+      const general = { reference: 'Condition/dm-general', codes: [{ system: ICD10_SYSTEM, code: 'E11' }] };
+      const specific = { reference: 'Condition/dm-specific', codes: [{ system: ICD10_SYSTEM, code: 'E11.65' }] };
+
+      expect(findChartMatch({ system: ICD10_SYSTEM, code: 'E11.65' }, [general, specific])).toEqual({
+        kind: 'duplicate',
+        reference: 'Condition/dm-specific',
+      });
+    });
+  });
+
+  describe('dedupeProblemListCommand', () => {
+    const conditions = [hypertensionCondition, diabetesCondition];
+
+    it('should drop additions already on the problem list', () => {
+      expect(dedupeProblemListCommand(addCommand('I10', 'Hypertension'), conditions)).toBeUndefined();
+    });
+
+    it('should convert refinements to updates of the charted Condition', () => {
+      const command = dedupeProblemListCommand(
+        addCommand('E11.65', 'Type 2 diabetes mellitus with hyperglycemia'),
+        conditions
+      );
+
+      expect(command).toMatchObject({
+        action: 'update',
+        conditionId: 'condition-dm',
+        condition: { code: 'E11.65', system: ICD10_SYSTEM },
+      });
+    });
+
+    it('should keep new problems and ignore inactive Conditions', () => {
+      const resolved: Condition = { ...hypertensionCondition, clinicalStatus: { coding: [{ code: 'resolved' }] } };
+      const command = addCommand('I10', 'Hypertension');
+
+      expect(dedupeProblemListCommand(command, [resolved])).toBe(command);
+      expect(dedupeProblemListCommand(addCommand('J45.909', 'Asthma'), conditions)?.action).toBe('add');
+    });
+
+    it('should only check Conditions of the same patient', () => {
+      const otherPatient: Condition = { ...hypertensionCondition, subject: { reference: 'Patient/other' } };
+
+      expect(dedupeProblemListCommand(addCommand('I10', 'Hypertension'), [otherPatient])?.action).toBe('add');
+    });
+  });
+});
@@ -4,7 +4,7 @@
 
 import { handler } from '../../src/clinical-decision-support-bot';
 import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
-import { setupOllamaMock, teardownOllamaMock } from '../mocks/ollama';
+import { setupOllamaMock, teardownOllamaMock, configureMockOllama } from '../mocks/ollama';
 import {
   testPatient,
   getAllTestConditions,
@@ -97,6 +97,40 @@ describe('Clinical Decision Support Bot', () => {
         });
       }
     });
+
+    it('should drop diagnoses already on the problem list and update refined ones', async () => {
+      configureMockOllama({
+        generate: {
+          enabled: true,
+          delay: 0,
+          response: `DIAGNOSIS: Essential hypertension
+ICD10: I10
+CONFIDENCE: high
+RATIONALE: Elevated readings
+---
+DIAGNOSIS: Type 2 diabetes mellitus with hyperglycemia
+ICD10: E11.65
+CONFIDENCE: medium
+RATIONALE: HbA1c above goal
+---
+DIAGNOSIS: Asthma
+ICD10: J45.909
+CONFIDENCE: medium
+RATIONALE: Wheezing`,
+        },
+      });
+
+      const result = await handler(mockMedplum as any, {
+        input: { patientId: 'test-patient-1', chiefComplaint: 'fatigue', focusArea: 'diagnosis' },
+      } as any);
+
+      const diagnoses = result.suggestions.filter((s) => s.type === 'diagnosis');
+      const actions = diagnoses.map((s: any) => s.suggestedAction);
+      expect(actions.map((a: any) => a.condition.code)).toEqual(['E11.65', 'J45.909']);
+      expect(actions[0]).toMatchObject({ action: 'update', conditionId: 'condition-dm' });
+      expect(actions[1].action).toBe('add');
+      expect(diagnoses[0].title).toBe('Refine: Type 2 diabetes mellitus with hyperglycemia');
+    });
   });
 
   describe('Medication Analysis', () => {
@@ -158,6 +192,65 @@ describe('Clinical Decision Support Bot', () => {
       // May or may not have preventive suggestions depending on patient age/gender
       expect(Array.isArray(preventiveSuggestions)).toBe(true);
     });
+
+    it('should propose a screening order for colorectal cancer screening', async () => {
+      const result = await handler(
+        mockMedplum as any,
+        { input: { patientId: 'test-patient-1', focusArea: 'preventive' } } as any
+      );
+
+      const colorectal = result.suggestions.find((s: any) => s.title === 'Colorectal Cancer Screening Due');
+      expect(colorectal?.suggestedAction).toMatchObject({
+        command: 'ProposeServiceRequest',
+        patientId: 'test-patient-1',
+        category: 'screening',
+        code: { system: 'http://loinc.org', code: '29771-3' },
+        priority: 'routine',
+        requiresApproval: true,
+      });
+    });
+
+    it('should propose immunizations missing from the patient history', async () => {
+      mockMedplum.addResource({
+        resourceType: 'Immunization',
+        id: 'imm-flu',
+        status: 'completed',
+        vaccineCode: { coding: [{ system: 'http://hl7.org/fhir/sid/cvx', code: '150' }] },
+        patient: { reference: 'Patient/test-patient-1' },
+        occurrenceDateTime: new Date().toISOString(),
+      });
+
+      const result = await handler(
+        mockMedplum as any,
+        { input: { patientId: 'test-patient-1', focusArea: 'preventive' } } as any
+      );
+
+      const immunizations = result.suggestions.find((s: any) => s.title.startsWith('Immunizations'));
+      const action = immunizations?.suggestedAction as any;
+      expect(action).toMatchObject({ command: 'ProposeImmunizationRecommendation', patientId: 'test-patient-1' });
+      expect(action.recommendations.map((r: any) => r.series)).toEqual(['Tdap/Td', 'Zoster', 'Pneumococcal']);
+      expect(action.recommendations[0]).toMatchObject({
+        vaccineCode: { system: 'http://hl7.org/fhir/sid/cvx', code: '115' },
+        forecastStatus: 'overdue',
+      });
+      expect(action.recommendations[0].dueDate).toBeDefined();
+    });
+
+    it('should propose an HbA1c order for diabetes screening', async () => {
+      mockMedplum = createMockMedplumClient({ patients: [testPatient] });
+
+      const result = await handler(
+        mockMedplum as any,
+        { input: { patientId: 'test-patient-1', focusArea: 'preventive' } } as any
+      );
+
+      const screening = result.suggestions.find((s: any) => s.title === 'Diabetes Screening');
+      expect(screening?.suggestedAction).toMatchObject({
+        command: 'ProposeServiceRequest',
+        category: 'screening',
+        code: { system: 'http://loinc.org', code: '4548-4' },
+      });
+    });
   });
 
   describe('Critical Value Alerts', () => {
@@ -195,6 +288,24 @@ describe('Clinical Decision Support Bot', () => {
         });
       }
     });
+
+    it('should propose a repeat lab order for abnormal potassium', async () => {
+      mockMedplum.addResource(criticalLabObservation);
+
+      const result = await handler(
+        mockMedplum as any,
+        { input: { patientId: 'test-patient-1', focusArea: 'preventive' } } as any
+      );
+
+      const potassium = result.suggestions.find((s: any) => s.title.startsWith('Abnormal Potassium'));
+      expect(potassium?.suggestedAction).toMatchObject({
+        command: 'ProposeServiceRequest',
+        category: 'laboratory',
+        code: { system: 'http://loinc.org', code: '2823-3' },
+        priority: 'urgent',
+        reasonReference: ['Observation/obs-lab-critical'],
+      });
+    });
   });
 
   describe('Comprehensive Analysis', () => {
@@ -6,7 +6,21 @@ import { handler } from '../../src/command-processor-bot';
 import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
 import { setupOllamaMock, teardownOllamaMock, configureMockOllama } from '../mocks/ollama';
 import { testPatient, getAllTestConditions } from '../fixtures/fhir-resources';
-import { AICommand, FlagAbnormalResult, SummarizePatientHistory } from '../../src/types/ai-command-types';
+import {
+  AICommand,
+  AICommandBatch,
+  FlagAbnormalResult,
+  ProposeProblemListUpdate,
+  SummarizePatientHistory,
+} from '../../src/types/ai-command-types';
+import { BotEvent } from '@medplum/core';
+import { AuditEvent, Task } from '@medplum/fhirtypes';
+import { COMMAND_ID_SYSTEM } from '../../src/services/fhir-transaction';
+import { setCommandQueueClient } from '../../src/services/command-queue';
+import { MockPostgresClient } from '../mocks/postgres';
+import { Pool } from 'pg';
+
+jest.mock('pg');
 
 describe('Command Processor Bot', () => {
   let mockMedplum: MockMedplumClient;
@@ -45,6 +59,51 @@ describe('Command Processor Bot', () => {
       expect(result.success).toBe(false);
       expect(result.action).toBe('blocked');
     });
+
+    it('should block commands that do not match their type with field paths', async () => {
+      const event = {
+        input: {
+          command: 'SuggestMedicationChange',
+          patientId: 'test-patient-1',
+          action: 'start',
+          rationale: 'Blood pressure above goal',
+          confidence: 'high',
+          requiresApproval: true,
+          aiModel: 'test-model',
+        },
+      };
+      const result = await handler(mockMedplum as any, event as any);
+
+      expect(result.success).toBe(false);
+      expect(result.action).toBe('blocked');
+      expect(result.validationErrors).toEqual(
+        expect.arrayContaining([
+          { path: 'confidence', message: 'must be a number' },
+          { path: 'medication', message: 'is required' },
+        ])
+      );
+      expect(mockMedplum.getResources('Task')).toHaveLength(0);
+      expect(mockMedplum.getResources('MedicationRequest')).toHaveLength(0);
+    });
+
+    it('should report nested field paths', async () => {
+      const event = {
+        input: {
+          command: 'SuggestBillingCodes',
+          patientId: 'test-patient-1',
+          encounterId: 'encounter-1',
+          suggestedCodes: [{ code: '99213', system: 'CPT4', display: 'Office visit', confidence: 0.9 }],
+          confidence: 0.9,
+          requiresApproval: true,
+          aiModel: 'test-model',
+        },
+      };
+      const result = await handler(mockMedplum as any, event as any);
+
+      expect(result.action).toBe('blocked');
+      expect(result.validationErrors?.map((e) => e.path)).toEqual(['suggestedCodes[0].system']);
+      expect(result.blockReason).toContain('suggestedCodes[0].system: must be one of');
+    });
   });
 
   describe('Safety Filters', () => {
@@ -261,10 +320,50 @@ describe('Command Processor Bot', () => {
       expect(provenance.agent).toBeDefined();
       expect(provenance.agent[0].who.display).toContain('AI');
     });
+    it('should commit Provenance in the same transaction as the executed resource', async () => {
+      const command: FlagAbnormalResult = {
+        command: 'FlagAbnormalResult',
+        patientId: 'test-patient-1',
+        observationId: 'obs-1',
+        severity: 'high',
+        interpretation: 'Critical value detected',
+        confidence: 0.9,
+        requiresApproval: false,
+        aiModel: 'llama3.2:3b',
+      };
+
+      await handler(mockMedplum as any, { input: command } as any);
+
+      expect(mockMedplum.executeBatchSpy).toHaveBeenCalledTimes(1);
+      const flag = mockMedplum.getResources('Flag')[0];
+      const provenance = mockMedplum.getResources('Provenance')[0] as any;
+      expect(provenance.target[0].reference).toBe(`Flag/${flag.id}`);
+    });
+
+    it('should leave nothing behind when the transaction fails', async () => {
+      jest.spyOn(mockMedplum, 'executeBatch').mockRejectedValueOnce(new Error('Provenance write failed'));
+      const command: FlagAbnormalResult = {
+        command: 'FlagAbnormalResult',
+        patientId: 'test-patient-1',
+        observationId: 'obs-1',
+        severity: 'high',
+        interpretation: 'Critical value detected',
+        confidence: 0.9,
+        requiresApproval: false,
+        aiModel: 'llama3.2:3b',
+      };
+
+      const result = await handler(mockMedplum as any, { input: command } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('no changes were made');
+      expect(mockMedplum.getResources('Flag')).toHaveLength(0);
+      expect(mockMedplum.getResources('Provenance')).toHaveLength(0);
+    });
   });
 
   describe('Error Handling', () => {
-    it('should handle unknown command types gracefully', async () => {
+    it('should block unknown command types', async () => {
       const command = {
         command: 'UnknownCommand',
         confidence: 0.9,
@@ -275,8 +374,9 @@ describe('Command Processor Bot', () => {
       const event = { input: command };
       const result = await handler(mockMedplum as any, event as any);
 
-      // Unknown commands should be queued for approval
-      expect(result.action).toBe('queued');
+      expect(result.action).toBe('blocked');
+      expect(result.blockReason).toBe('command: is not a registered command type: UnknownCommand');
+      expect(mockMedplum.getResources('Task')).toHaveLength(0);
     });
   });
 
@@ -301,5 +401,393 @@ describe('Command Processor Bot', () => {
       expect(result2.commandId).toBeDefined();
       expect(result1.commandId).not.toBe(result2.commandId);
     });
+
+    it('should keep a command ID supplied with the command', async () => {
+      const command: FlagAbnormalResult = {
+        command: 'FlagAbnormalResult',
+        patientId: 'test-patient-1',
+        observationId: 'obs-1',
+        severity: 'high',
+        interpretation: 'Test',
+        confidence: 0.85,
+        requiresApproval: false,
+        aiModel: 'test-model',
+        commandId: 'cmd-supplied-1',
+      };
+
+      const result = await handler(mockMedplum as any, { input: command } as any);
+
+      expect(result.commandId).toBe('cmd-supplied-1');
+    });
+  });
+
+  describe('Batch Submission', () => {
+    const ICD10 = 'http://hl7.org/fhir/sid/icd-10-cm';
+
+    const note: AICommand = {
+      command: 'CreateEncounterNoteDraft',
+      patientId: 'test-patient-1',
+      encounterId: 'encounter-office-1',
+      noteType: 'progress',
+      content: 'Follow-up for hypertension and diabetes',
+      confidence: 0.85,
+      requiresApproval: true,
+      aiModel: 'llama3.2:3b',
+    };
+
+    function problemListUpdate(code: string, display: string): AICommand {
+      return {
+        command: 'ProposeProblemListUpdate',
+        patientId: 'test-patient-1',
+        action: 'add',
+        condition: { code, system: ICD10, display },
+        confidence: 0.85,
+        requiresApproval: true,
+        aiModel: 'llama3.2:3b',
+      };
+    }
+
+    const flag: FlagAbnormalResult = {
+      command: 'FlagAbnormalResult',
+      patientId: 'test-patient-1',
+      observationId: 'obs-1',
+      severity: 'high',
+      interpretation: 'Critical value detected',
+      confidence: 0.9,
+      requiresApproval: false,
+      aiModel: 'llama3.2:3b',
+    };
+
+    function submit(batch: AICommandBatch) {
+      return handler(mockMedplum as any, { input: batch } as BotEvent<AICommandBatch>);
+    }
+
+    it('should return a result per command in submission order', async () => {
+      const result = await submit({
+        correlationId: 'visit-123',
+        commands: [note, problemListUpdate('E11.9', 'Type 2 diabetes'), flag],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.correlationId).toBe('visit-123');
+      expect(result.results.map((r) => r.action)).toEqual(['queued', 'queued', 'executed']);
+      expect(result.message).toBe('Processed 3 command(s): 1 executed, 2 queued, 0 blocked');
+    });
+
+    it('should group queued commands under a parent approval task', async () => {
+      const result = await submit({
+        correlationId: 'visit-123',
+        commands: [
+          note,
+          problemListUpdate('E11.9', 'Type 2 diabetes'),
+          problemListUpdate('E78.5', 'Hyperlipidemia'),
+          problemListUpdate('I10', 'Essential hypertension'),
+        ],
+      });
+
+      const tasks = mockMedplum.getResources('Task') as Task[];
+      const parent = tasks.find((t) => t.id === result.taskId) as Task;
+      expect(parent.code?.coding?.[0].code).toBe('AICommandBatch');
+      expect(parent.groupIdentifier?.value).toBe('visit-123');
+      expect(parent.for?.reference).toBe('Patient/test-patient-1');
+
+      const children = tasks.filter((t) => t.partOf?.[0].reference === `Task/${parent.id}`);
+      expect(children.map((t) => t.id)).toEqual(result.results.map((r) => r.taskId));
+      expect(children.every((t) => t.groupIdentifier?.value === 'visit-123')).toBe(true);
+    });
+
+    it('should reuse the parent approval task when a batch is redelivered', async () => {
+      const batch = {
+        correlationId: 'visit-123',
+        commands: [problemListUpdate('E11.9', 'Type 2 diabetes'), problemListUpdate('E78.5', 'Hyperlipidemia')],
+      };
+
+      const first = await submit(batch);
+      const second = await submit(batch);
+
+      expect(second.taskId).toBe(first.taskId);
+      const parents = (mockMedplum.getResources('Task') as Task[]).filter(
+        (t) => t.code?.coding?.[0].code === 'AICommandBatch'
+      );
+      expect(parents).toHaveLength(1);
+      expect(parents[0].identifier).toEqual([
+        { system: 'http://medplum.com/fhir/ai-command-correlation-id', value: 'visit-123' },
+      ]);
+    });
+
+    it('should not create a parent task for a single queued command', async () => {
+      const result = await submit({ commands: [note, flag] });
+
+      expect(result.correlationId).toBeDefined();
+      expect(result.taskId).toBeUndefined();
+      const task = mockMedplum.getResources('Task')[0] as Task;
+      expect(task.partOf).toBeUndefined();
+      expect(task.groupIdentifier?.value).toBe(result.correlationId);
+    });
+
+    it('should block an invalid command without affecting the rest of the batch', async () => {
+      const result = await submit({ commands: [{ ...flag, severity: 'extreme' } as any, flag] });
+
+      expect(result.success).toBe(false);
+      expect(result.results[0].action).toBe('blocked');
+      expect(result.results[1].action).toBe('executed');
+      expect(result.results[1].success).toBe(true);
+    });
+
+    it('should reject an empty batch', async () => {
+      const result = await submit({ commands: [] });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Invalid batch: no commands');
+    });
+  });
+
+  describe('Idempotent Execution', () => {
+    const command: FlagAbnormalResult = {
+      command: 'FlagAbnormalResult',
+      patientId: 'test-patient-1',
+      observationId: 'obs-1',
+      severity: 'high',
+      interpretation: 'Critical value detected',
+      confidence: 0.9,
+      requiresApproval: false,
+      aiModel: 'llama3.2:3b',
+      commandId: 'cmd-redelivered-1',
+    };
+
+    it('should stamp created resources with the command ID and create them conditionally', async () => {
+      await handler(mockMedplum as any, { input: command } as any);
+
+      const entry = mockMedplum.executeBatchSpy.mock.calls[0][0].entry[0];
+      expect(entry.resource.identifier).toContainEqual({
+        system: COMMAND_ID_SYSTEM,
+        value: 'cmd-redelivered-1',
+      });
+      expect(entry.request.ifNoneExist).toBe(`identifier=${COMMAND_ID_SYSTEM}|cmd-redelivered-1`);
+    });
+
+    it('should return the original resource when a command is redelivered', async () => {
+      const first = await handler(mockMedplum as any, { input: command } as any);
+      const second = await handler(mockMedplum as any, { input: command } as any);
+
+      const flags = mockMedplum.getResources('Flag');
+      expect(first.success).toBe(true);
+      expect(second.success).toBe(true);
+      expect(second.message).toBe(`Command already executed: ${flags[0].id}`);
+      expect(flags).toHaveLength(1);
+      expect(mockMedplum.getResources('Provenance')).toHaveLength(1);
+      expect(mockMedplum.executeBatchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not write the provenance again when a concurrent delivery commits first', async () => {
+      const executeBatch = mockMedplum.executeBatch.bind(mockMedplum);
+      jest.spyOn(mockMedplum, 'executeBatch').mockImplementationOnce(async (bundle) => {
+        // The same command, delivered twice, commits its transaction first
+        await executeBatch(bundle);
+        return executeBatch(bundle);
+      });
+
+      const result = await handler(mockMedplum as any, { input: command } as any);
+
+      const flags = mockMedplum.getResources('Flag');
+      expect(result.success).toBe(true);
+      expect(result.message).toBe(`Command already executed: ${flags[0].id}`);
+      expect(flags).toHaveLength(1);
+      expect(mockMedplum.getResources('Provenance')).toHaveLength(1);
+      const provenance = mockMedplum.executeBatchSpy.mock.calls[0][0].entry[1];
+      expect(provenance.request.ifNoneExist).toBe(`entity:identifier=${COMMAND_ID_SYSTEM}|cmd-redelivered-1`);
+    });
+  });
+
+  describe('Pending Approval Cap', () => {
+    const resolve: ProposeProblemListUpdate = {
+      command: 'ProposeProblemListUpdate',
+      patientId: 'test-patient-1',
+      action: 'resolve',
+      condition: { code: 'I10', system: 'http://hl7.org/fhir/sid/icd-10-cm', display: 'Essential hypertension' },
+      confidence: 0.9,
+      requiresApproval: true,
+      aiModel: 'test-model',
+    };
+
+    function openTask(id: string, commandType: string): Task {
+      return {
+        resourceType: 'Task',
+        id,
+        meta: { versionId: '1' },
+        status: 'requested',
+        intent: 'proposal',
+        code: { coding: [{ system: 'http://medplum.com/fhir/CodeSystem/ai-command', code: commandType }] },
+        for: { reference: 'Patient/test-patient-1' },
+        input: [{ type: { text: 'command' }, valueString: JSON.stringify({ command: commandType }) }],
+      };
+    }
+
+    it('should supersede an older pending command for the same change', async () => {
+      const first = await handler(mockMedplum as any, { input: resolve } as any);
+      const second = await handler(mockMedplum as any, {
+        input: { ...resolve, clinicalStatus: 'inactive', reasoning: 'Normotensive off medication' },
+      } as any);
+
+      expect(second.action).toBe('queued');
+      expect(second.supersededTaskIds).toEqual([first.taskId]);
+      const older = mockMedplum.getResources('Task').find((t) => t.id === first.taskId) as Task;
+      expect(older.status).toBe('cancelled');
+      expect(older.statusReason?.text).toBe('Superseded');
+      expect(older.note?.map((n) => n.text)).toContain(`Superseded by Task/${second.taskId}`);
+    });
+
+    it('should keep a pending command for a different action on the same condition', async () => {
+      await handler(mockMedplum as any, { input: resolve } as any);
+      const update = await handler(mockMedplum as any, {
+        input: { ...resolve, action: 'update', clinicalStatus: 'inactive' },
+      } as any);
+
+      expect(update.supersededTaskIds).toBeUndefined();
+      expect(mockMedplum.getResources('Task').every((t) => (t as Task).status === 'requested')).toBe(true);
+    });
+
+    it('should keep pending commands for other changes', async () => {
+      await handler(mockMedplum as any, { input: resolve } as any);
+      const other = await handler(mockMedplum as any, {
+        input: { ...resolve, condition: { code: 'E11.9', system: 'http://hl7.org/fhir/sid/icd-10-cm', display: 'T2DM' } },
+      } as any);
+
+      expect(other.supersededTaskIds).toBeUndefined();
+      expect(mockMedplum.getResources('Task').every((t) => (t as Task).status === 'requested')).toBe(true);
+    });
+
+    it('should not queue a redelivered command twice', async () => {
+      const first = await handler(mockMedplum as any, { input: { ...resolve, commandId: 'cmd-queued-1' } } as any);
+      const second = await handler(mockMedplum as any, { input: { ...resolve, commandId: 'cmd-queued-1' } } as any);
+
+      expect(second.action).toBe('queued');
+      expect(second.taskId).toBe(first.taskId);
+      expect(second.message).toBe('Command already queued for approval');
+      expect(mockMedplum.getResources('Task')).toHaveLength(1);
+    });
+
+    it('should throttle commands once the patient has maxPendingPerPatient open tasks', async () => {
+      for (let i = 0; i < 10; i++) {
+        mockMedplum.addResource(openTask(`task-open-${i}`, 'CreateEncounterNoteDraft'));
+      }
+
+      const result = await handler(mockMedplum as any, { input: resolve } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.action).toBe('throttled');
+      expect(result.message).toBe('Pending approval limit reached for Patient/test-patient-1 (10)');
+      expect(mockMedplum.getResources('Task')).toHaveLength(10);
+      const audit = mockMedplum.getResources('AuditEvent') as AuditEvent[];
+      expect(audit[audit.length - 1].outcome).toBe('4');
+    });
+
+    it('should still queue a command that supersedes one at the cap', async () => {
+      for (let i = 0; i < 9; i++) {
+        mockMedplum.addResource(openTask(`task-open-${i}`, 'CreateEncounterNoteDraft'));
+      }
+      const first = await handler(mockMedplum as any, { input: resolve } as any);
+
+      const second = await handler(mockMedplum as any, { input: resolve } as any);
+
+      expect(second.action).toBe('queued');
+      expect(second.supersededTaskIds).toEqual([first.taskId]);
+    });
+  });
+
+  describe('Command Queue', () => {
+    let db: MockPostgresClient;
+
+    beforeEach(() => {
+      db = new MockPostgresClient();
+      setCommandQueueClient(db);
+    });
+
+    afterEach(() => {
+      setCommandQueueClient(undefined);
+    });
+
+    it('should record queued commands as pending', async () => {
+      const command = {
+        command: 'CreateEncounterNoteDraft',
+        commandId: 'cmd-queue-pending',
+        patientId: 'test-patient-1',
+        encounterId: 'encounter-1',
+        noteType: 'progress',
+        content: 'Test note content',
+        confidence: 0.9,
+        requiresApproval: true,
+        aiModel: 'test-model',
+      };
+
+      const result = await handler(mockMedplum as any, { input: command } as any);
+
+      const task = mockMedplum.getResources('Task')[0] as Task;
+      expect(db.getRows('ai_command_queue')).toEqual([
+        expect.objectContaining({
+          command_id: 'cmd-queue-pending',
+          task_id: result.taskId,
+          status: 'pending',
+          requires_approval: true,
+          expires_at: task.restriction?.period?.end,
+        }),
+      ]);
+    });
+
+    it('should record directly executed commands once', async () => {
+      const command: FlagAbnormalResult = {
+        command: 'FlagAbnormalResult',
+        commandId: 'cmd-queue-direct',
+        patientId: 'test-patient-1',
+        observationId: 'obs-1',
+        severity: 'high',
+        interpretation: 'Critical value detected',
+        confidence: 0.9,
+        requiresApproval: false,
+        aiModel: 'test-model',
+      };
+
+      await handler(mockMedplum as any, { input: command } as any);
+      await handler(mockMedplum as any, { input: command } as any);
+
+      const flag = mockMedplum.getResources('Flag')[0];
+      expect(db.queries).toHaveLength(1);
+      expect(db.getRows('ai_command_queue')[0]).toMatchObject({
+        status: 'executed',
+        requires_approval: false,
+        target_resource_type: 'Flag',
+        target_resource_id: flag.id,
+      });
+    });
+
+    it("should write to the database in the bot's DATABASE_URL secret", async () => {
+      setCommandQueueClient(undefined);
+      (Pool as unknown as jest.Mock).mockImplementation(() => ({ query: db.query.bind(db), on: jest.fn() }));
+      const command: FlagAbnormalResult = {
+        command: 'FlagAbnormalResult',
+        commandId: 'cmd-queue-secret',
+        patientId: 'test-patient-1',
+        observationId: 'obs-1',
+        severity: 'high',
+        interpretation: 'Critical value detected',
+        confidence: 0.9,
+        requiresApproval: false,
+        aiModel: 'test-model',
+      };
+
+      await handler(mockMedplum as any, {
+        input: command,
+        secrets: { DATABASE_URL: { name: 'DATABASE_URL', valueString: 'postgresql://db-host/emr' } },
+      } as any);
+
+      expect(Pool).toHaveBeenCalledWith({ connectionString: 'postgresql://db-host/emr' });
+      expect(db.getRows('ai_command_queue')[0]).toMatchObject({ command_id: 'cmd-queue-secret', status: 'executed' });
+    });
+
+    it('should not record blocked commands', async () => {
+      await handler(mockMedplum as any, { input: { command: 'CreateEncounterNoteDraft' } } as any);
+
+      expect(db.queries).toHaveLength(0);
+    });
   });
 });
@@ -0,0 +1,112 @@
+/**
+ * Command Queue - Unit Tests
+ */
+
+import { recordCommandStatus, setCommandQueueClient } from '../../src/services/command-queue';
+import { SummarizePatientHistory } from '../../src/types/ai-command-types';
+import { MockPostgresClient } from '../mocks/postgres';
+
+const command: SummarizePatientHistory = {
+  command: 'SummarizePatientHistory',
+  commandId: 'cmd-queue-1',
+  patientId: 'test-patient-1',
+  summaryType: 'comprehensive',
+  summary: 'Summary',
+  keyFindings: [],
+  confidence: 0.9,
+  requiresApproval: false,
+  reasoning: 'Requested by clinician',
+  aiModel: 'test-model',
+};
+
+describe('Command Queue', () => {
+  let db: MockPostgresClient;
+
+  beforeEach(() => {
+    db = new MockPostgresClient();
+    setCommandQueueClient(db);
+  });
+
+  afterEach(() => {
+    setCommandQueueClient(undefined);
+  });
+
+  it('should create a pending row when a command is queued', async () => {
+    await recordCommandStatus(command, {
+      status: 'pending',
+      taskId: 'task-1',
+      approverRoles: ['physician', 'nurse-practitioner'],
+      expiresAt: '2026-10-20T12:00:00.000Z',
+    });
+
+    const [row] = db.getRows('ai_command_queue');
+    expect(row).toMatchObject({
+      command_id: 'cmd-queue-1',
+      task_id: 'task-1',
+      command_type: 'SummarizePatientHistory',
+      ai_model: 'test-model',
+      ai_confidence: 0.9,
+      ai_reasoning: 'Requested by clinician',
+      patient_id: 'test-patient-1',
+      status: 'pending',
+      requires_approval: true,
+      approver_role: 'physician,nurse-practitioner',
+      expires_at: '2026-10-20T12:00:00.000Z',
+      reviewed_at: null,
+    });
+    expect(JSON.parse(row.command_payload as string)).toEqual(command);
+  });
+
+  it('should move a queued command through review to execution', async () => {
+    await recordCommandStatus(command, { status: 'pending', taskId: 'task-1' });
+    await recordCommandStatus(
+      command,
+      {
+        status: 'executed',
+        reviewedBy: 'Practitioner/dr-smith',
+        executedResourceId: 'DocumentReference/doc-1',
+      },
+      new Date('2026-10-19T15:00:00Z')
+    );
+
+    const rows = db.getRows('ai_command_queue');
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      task_id: 'task-1',
+      status: 'executed',
+      requires_approval: true,
+      reviewed_by: 'dr-smith',
+      reviewed_at: '2026-10-19T15:00:00.000Z',
+      executed_at: '2026-10-19T15:00:00.000Z',
+      target_resource_type: 'DocumentReference',
+      target_resource_id: 'doc-1',
+    });
+    expect(JSON.parse(rows[0].execution_result as string)).toEqual({ resourceId: 'DocumentReference/doc-1' });
+  });
+
+  it('should not change a row once the command is decided', async () => {
+    await recordCommandStatus(command, { status: 'pending', taskId: 'task-1' });
+    await recordCommandStatus(command, { status: 'rejected', reviewerNotes: 'Not needed' });
+    await recordCommandStatus(command, { status: 'expired' });
+
+    expect(db.getRows('ai_command_queue')[0]).toMatchObject({ status: 'rejected', reviewer_notes: 'Not needed' });
+  });
+
+  it('should log database errors without throwing', async () => {
+    db.error = new Error('connection refused');
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await expect(recordCommandStatus(command, { status: 'pending' })).resolves.toBeUndefined();
+    expect(log).toHaveBeenCalledWith('Failed to record cmd-queue-1 in the command queue:', db.error);
+
+    log.mockRestore();
+  });
+
+  it('should skip commands without an ID and write nothing without a client', async () => {
+    await recordCommandStatus({ ...command, commandId: undefined }, { status: 'pending' });
+    setCommandQueueClient(undefined);
+    await recordCommandStatus(command, { status: 'pending' });
+
+    expect(db.queries).toHaveLength(0);
+  });
+});
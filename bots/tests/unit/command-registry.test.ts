@@ -0,0 +1,137 @@
+/**
+ * Command Registry - Unit Tests
+ */
+
+import {
+  CommandDefinition,
+  getCommandDefinition,
+  getDefaultApprovalRules,
+  getRegisteredCommands,
+  registerCommand,
+} from '../../src/commands';
+import { handler as processCommand } from '../../src/command-processor-bot';
+import { handler as processApproval } from '../../src/approval-queue-bot';
+import { validateAICommand } from '../../src/services/command-validation';
+import { updateEntry } from '../../src/services/fhir-transaction';
+import { DEFAULT_SAFETY_POLICY } from '../../src/services/safety-policy';
+import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
+import { testPatient, getAllTestPractitionerRoles } from '../fixtures/fhir-resources';
+import { DocumentReference } from '@medplum/fhirtypes';
+
+const taggedNote: DocumentReference = {
+  resourceType: 'DocumentReference',
+  id: 'note-1',
+  meta: { versionId: '1' },
+  status: 'current',
+  content: [{ attachment: { contentType: 'text/plain' } }],
+};
+
+// A command type that is not built in, registered only through the registry
+const recordNoteTagCommand = {
+  command: 'RecordNoteTag',
+  schema: {
+    patientId: { type: 'string' },
+    tag: { type: 'string', enum: ['follow-up', 'billing'] },
+  },
+  defaultRule: {
+    requiresApproval: (cmd: any) => cmd.tag === 'billing',
+    approverRoles: ['BillingSpecialist'],
+    timeout: '24h',
+    auditRequired: true,
+  },
+  activity: () => 'UPDATE',
+  prepare: jest.fn(async () => {
+    const update = updateEntry({ ...taggedNote, description: 'follow-up' });
+    return { success: true, message: 'Tagged note', entries: [update], target: update.fullUrl };
+  }),
+} as unknown as CommandDefinition;
+
+const base = { patientId: 'test-patient-1', confidence: 0.9, requiresApproval: false, aiModel: 'test-model' };
+
+describe('Command Registry', () => {
+  let mockMedplum: MockMedplumClient;
+
+  beforeAll(() => {
+    registerCommand(recordNoteTagCommand);
+  });
+
+  beforeEach(() => {
+    mockMedplum = createMockMedplumClient({ patients: [testPatient] });
+    getAllTestPractitionerRoles().forEach((role) => mockMedplum.addResource(role));
+    mockMedplum.addResource(taggedNote);
+    jest.spyOn(Date.prototype, 'getHours').mockReturnValue(12);
+  });
+
+  afterEach(() => {
+    mockMedplum.reset();
+    jest.restoreAllMocks();
+    (recordNoteTagCommand.prepare as jest.Mock).mockClear();
+  });
+
+  it('should register every built-in command type', () => {
+    expect(getRegisteredCommands()).toEqual(
+      expect.arrayContaining([
+        'CreateEncounterNoteDraft',
+        'ProposeProblemListUpdate',
+        'SuggestBillingCodes',
+        'QueueReferralLetter',
+        'FlagAbnormalResult',
+        'SuggestMedicationChange',
+        'SummarizePatientHistory',
+      ])
+    );
+    expect(DEFAULT_SAFETY_POLICY.approvalRules.SuggestBillingCodes).toBe(
+      getCommandDefinition('SuggestBillingCodes')?.defaultRule
+    );
+  });
+
+  it('should include registered command types in the default approval rules', () => {
+    expect(getDefaultApprovalRules().RecordNoteTag).toBe(recordNoteTagCommand.defaultRule);
+  });
+
+  it('should validate registered command types against their schema', () => {
+    const result = validateAICommand({ ...base, command: 'RecordNoteTag', tag: 'urgent' });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([{ path: 'tag', message: 'must be one of follow-up, billing' }]);
+  });
+
+  it('should execute through the registered definition with its Provenance activity', async () => {
+    const result = await processCommand(mockMedplum as any, {
+      input: { ...base, command: 'RecordNoteTag', tag: 'follow-up' },
+    } as any);
+
+    expect(result.action).toBe('executed');
+    expect(recordNoteTagCommand.prepare).toHaveBeenCalledTimes(1);
+
+    const provenance = mockMedplum.getResources('Provenance')[0] as any;
+    expect(provenance.target[0].reference).toBe('DocumentReference/note-1');
+    expect(provenance.entity).toContainEqual({ role: 'revision', what: { reference: 'DocumentReference/note-1/_history/1' } });
+    expect(provenance.activity.coding[0].code).toBe('UPDATE');
+    expect((mockMedplum.getResources('AuditEvent')[0] as any).action).toBe('U');
+  });
+
+  it('should queue with the default rule and execute once approved', async () => {
+    const queued = await processCommand(mockMedplum as any, {
+      input: { ...base, command: 'RecordNoteTag', tag: 'billing' },
+    } as any);
+
+    expect(queued.action).toBe('queued');
+    expect(recordNoteTagCommand.prepare).not.toHaveBeenCalled();
+
+    const task = mockMedplum.getResources('Task')[0] as any;
+    expect(task.input.find((i: any) => i.type.text === 'approverRoles').valueString).toBe('BillingSpecialist');
+
+    const approved = {
+      ...task,
+      status: 'completed',
+      owner: { reference: 'PractitionerRole/role-billing-kim' },
+      meta: { ...task.meta, author: { reference: 'Practitioner/billing-kim' } },
+    };
+    const result = await processApproval(mockMedplum as any, { input: approved } as any);
+
+    expect(result.success).toBe(true);
+    expect(result.executedResourceId).toBe('DocumentReference/note-1/_history/2');
+    expect(recordNoteTagCommand.prepare).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Command Retraction Bot - Unit Tests
+ */
+
+import { handler } from '../../src/command-retraction-bot';
+import { handler as processorHandler } from '../../src/command-processor-bot';
+import { handler as approvalHandler } from '../../src/approval-queue-bot';
+import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
+import {
+  testPatient,
+  pendingApprovalTask,
+  hypertensionCondition,
+  getAllTestPractitionerRoles,
+} from '../fixtures/fhir-resources';
+import { FlagAbnormalResult } from '../../src/types/ai-command-types';
+import { AuditEvent, Condition, Flag, Provenance, Task } from '@medplum/fhirtypes';
+
+describe('Command Retraction Bot', () => {
+  let mockMedplum: MockMedplumClient;
+
+  const flagCommand: FlagAbnormalResult = {
+    command: 'FlagAbnormalResult',
+    patientId: 'test-patient-1',
+    observationId: 'obs-1',
+    severity: 'high',
+    interpretation: 'Critical potassium',
+    confidence: 0.9,
+    requiresApproval: false,
+    aiModel: 'llama3.2:3b',
+    commandId: 'cmd-flag-1',
+  };
+
+  const retraction = {
+    commandId: 'cmd-flag-1',
+    reason: 'Spurious flag: hemolyzed sample',
+    retractedBy: 'Practitioner/dr-smith',
+  };
+
+  // Retract as the given user, as a clinician calling the bot would
+  function retract(input: typeof retraction, caller = 'Practitioner/dr-smith'): ReturnType<typeof handler> {
+    mockMedplum.author = { reference: caller };
+    return handler(mockMedplum as any, { input } as any);
+  }
+
+  beforeEach(() => {
+    mockMedplum = createMockMedplumClient({ patients: [testPatient] });
+    getAllTestPractitionerRoles().forEach((role) => mockMedplum.addResource(role));
+
+    // Outside quiet hours, so the flag executes directly
+    jest.spyOn(Date.prototype, 'getHours').mockReturnValue(12);
+  });
+
+  afterEach(() => {
+    mockMedplum.reset();
+    jest.restoreAllMocks();
+  });
+
+  describe('Input Validation', () => {
+    it('should reject a retraction without a reason', async () => {
+      const result = await retract({ ...retraction, reason: ' ' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('missing reason');
+    });
+
+    it('should report commands with nothing executed', async () => {
+      const result = await retract({ ...retraction, commandId: 'cmd-unknown' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('No executed resources found');
+    });
+  });
+
+  describe('Created Resources', () => {
+    it('should mark an auto-executed flag entered-in-error', async () => {
+      await processorHandler(mockMedplum as any, { input: flagCommand } as any);
+      const flag = mockMedplum.getResources('Flag')[0] as Flag;
+
+      const result = await retract(retraction);
+
+      expect(result.success).toBe(true);
+      expect(result.retractedResourceIds).toEqual([`Flag/${flag.id}`]);
+      expect((mockMedplum.getResources('Flag')[0] as Flag).status).toBe('entered-in-error');
+    });
+
+    it('should record a NULLIFY Provenance and an audit event in the same transaction', async () => {
+      await processorHandler(mockMedplum as any, { input: flagCommand } as any);
+      mockMedplum.executeBatchSpy.mockClear();
+
+      await retract(retraction);
+
+      expect(mockMedplum.executeBatchSpy).toHaveBeenCalledTimes(1);
+      const provenance = (mockMedplum.getResources('Provenance') as Provenance[]).find(
+        (p) => p.activity?.coding?.[0].code === 'NULLIFY'
+      );
+      expect(provenance?.reason?.[0].text).toBe(retraction.reason);
+      expect(provenance?.agent[0].who.reference).toBe('Practitioner/dr-smith');
+
+      const audit = (mockMedplum.getResources('AuditEvent') as AuditEvent[]).find(
+        (a) => a.subtype?.[0].code === 'command_retracted'
+      );
+      expect(audit).toBeDefined();
+    });
+
+    it('should record the retracting practitioner and approver role', async () => {
+      await processorHandler(mockMedplum as any, { input: flagCommand } as any);
+
+      await retract({ ...retraction, retractedBy: 'PractitionerRole/role-dr-smith' });
+
+      const provenance = (mockMedplum.getResources('Provenance') as Provenance[]).find(
+        (p) => p.activity?.coding?.[0].code === 'NULLIFY'
+      );
+      expect(provenance?.agent[0].who.reference).toBe('Practitioner/dr-smith');
+      expect(provenance?.agent[0].role?.[0].coding?.[0].code).toBe('Practitioner');
+    });
+
+    it('should reject a retractor without an approver role for the command', async () => {
+      await processorHandler(mockMedplum as any, { input: flagCommand } as any);
+
+      const billingKim = 'Practitioner/billing-kim';
+      const result = await retract({ ...retraction, retractedBy: billingKim }, billingKim);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('does not hold an approver role for FlagAbnormalResult');
+      expect((mockMedplum.getResources('Flag')[0] as Flag).status).not.toBe('entered-in-error');
+      const audit = (mockMedplum.getResources('AuditEvent') as AuditEvent[]).find(
+        (a) => a.subtype?.[0].code === 'command_retracted'
+      );
+      expect(audit?.outcome).toBe('4');
+    });
+
+    it('should reject a retraction on behalf of another user', async () => {
+      await processorHandler(mockMedplum as any, { input: flagCommand } as any);
+
+      const result = await retract(retraction, 'Practitioner/billing-kim');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('cannot retract on behalf of Practitioner/dr-smith');
+    });
+
+    it('should reject a retraction made as the bot itself', async () => {
+      await processorHandler(mockMedplum as any, { input: flagCommand } as any);
+
+      const result = await retract(retraction, 'Bot/retraction-bot');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Bot/retraction-bot is not trusted to retract');
+      expect((mockMedplum.getResources('Flag')[0] as Flag).status).not.toBe('entered-in-error');
+    });
+
+    it('should trust retractedBy from a bot in the trusted list', async () => {
+      await processorHandler(mockMedplum as any, { input: flagCommand } as any);
+      mockMedplum.author = { reference: 'Bot/review-bot' };
+
+      const result = await handler(
+        mockMedplum as any,
+        {
+          input: retraction,
+          secrets: { RETRACTION_TRUSTED_BOTS: { name: 'RETRACTION_TRUSTED_BOTS', valueString: 'Bot/review-bot' } },
+        } as any
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should not retract the same command twice', async () => {
+      await processorHandler(mockMedplum as any, { input: flagCommand } as any);
+      const first = await retract(retraction);
+      mockMedplum.executeBatchSpy.mockClear();
+
+      const second = await retract(retraction);
+
+      expect(second.success).toBe(true);
+      expect(second.message).toBe('Command already retracted');
+      expect(second.retractedResourceIds).toEqual(first.retractedResourceIds);
+      expect(mockMedplum.executeBatchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should retract every resource of a care plan', async () => {
+      await processorHandler(
+        mockMedplum as any,
+        {
+          input: {
+            command: 'ProposeCarePlan',
+            patientId: 'test-patient-1',
+            title: 'Diabetes management',
+            goals: [{ description: 'HbA1c below 7%' }],
+            activities: [
+              { kind: 'ServiceRequest', code: { code: '4548-4', system: 'http://loinc.org', display: 'HbA1c' } },
+            ],
+            confidence: 0.9,
+            requiresApproval: false,
+            aiModel: 'llama3.2:3b',
+            commandId: 'cmd-plan-1',
+          },
+        } as any
+      );
+      const task = mockMedplum.getResources('Task')[0] as Task;
+      await approvalHandler(
+        mockMedplum as any,
+        {
+          input: {
+            ...task,
+            status: 'completed',
+            owner: { reference: 'Practitioner/dr-smith' },
+            meta: { ...task.meta, author: { reference: 'Practitioner/dr-smith' } },
+          },
+        } as any
+      );
+
+      const result = await retract({ ...retraction, commandId: 'cmd-plan-1' });
+
+      expect(result.success).toBe(true);
+      expect(result.retractedResourceIds).toHaveLength(3);
+      expect((mockMedplum.getResources('CarePlan')[0] as any).status).toBe('entered-in-error');
+      expect((mockMedplum.getResources('Goal')[0] as any).lifecycleStatus).toBe('entered-in-error');
+      expect((mockMedplum.getResources('ServiceRequest')[0] as any).status).toBe('entered-in-error');
+    });
+  });
+
+  describe('Updated Resources', () => {
+    function resolveTask(): Task {
+      return {
+        ...pendingApprovalTask,
+        status: 'completed',
+        owner: { reference: 'Practitioner/dr-smith' },
+        meta: { author: { reference: 'Practitioner/dr-smith' } },
+        input: [
+          {
+            type: { text: 'command' },
+            valueString: JSON.stringify({
+              command: 'ProposeProblemListUpdate',
+              action: 'resolve',
+              patientId: 'test-patient-1',
+              conditionId: 'condition-htn',
+              condition: { code: 'I10', system: 'http://hl7.org/fhir/sid/icd-10-cm', display: 'Essential hypertension' },
+              confidence: 0.9,
+              requiresApproval: true,
+              aiModel: 'llama3.2:3b',
+            }),
+          },
+          { type: { text: 'commandId' }, valueString: 'cmd-resolve-1' },
+        ],
+      };
+    }
+
+    function storedCondition(): Condition {
+      return mockMedplum.getResources('Condition').find((c) => c.id === 'condition-htn') as Condition;
+    }
+
+    beforeEach(() => {
+      mockMedplum.addResource({ ...hypertensionCondition, meta: { versionId: '3' } });
+    });
+
+    it('should restore the version an approved problem list update replaced', async () => {
+      await approvalHandler(mockMedplum as any, { input: resolveTask() } as any);
+      expect(storedCondition().clinicalStatus?.coding?.[0].code).toBe('resolved');
+
+      const result = await retract({ ...retraction, commandId: 'cmd-resolve-1' });
+
+      expect(result.success).toBe(true);
+      expect(result.retractedResourceIds).toEqual(['Condition/condition-htn']);
+      const condition = storedCondition();
+      expect(condition.clinicalStatus?.coding?.[0].code).toBe('active');
+      expect(condition.meta?.versionId).toBe('5');
+    });
+
+    it('should refuse to overwrite later changes', async () => {
+      await approvalHandler(mockMedplum as any, { input: resolveTask() } as any);
+      await mockMedplum.updateResource({ ...storedCondition(), note: [{ text: 'Reviewed' }] });
+
+      const result = await retract({ ...retraction, commandId: 'cmd-resolve-1' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('has changed since the command executed');
+      expect(storedCondition().note?.[0].text).toBe('Reviewed');
+    });
+  });
+});
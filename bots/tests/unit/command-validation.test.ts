@@ -0,0 +1,154 @@
+/**
+ * Command Validation - Unit Tests
+ */
+
+import { validateAICommand, isAICommand, formatValidationErrors } from '../../src/services/command-validation';
+
+const base = { confidence: 0.9, requiresApproval: true, aiModel: 'test-model' };
+
+describe('Command Validation', () => {
+  it('should accept a valid command of each type', () => {
+    const commands = [
+      { command: 'CreateEncounterNoteDraft', patientId: 'p1', encounterId: 'e1', noteType: 'progress', content: 'Note' },
+      {
+        command: 'ProposeProblemListUpdate',
+        patientId: 'p1',
+        action: 'add',
+        condition: { code: 'I10', system: 'http://hl7.org/fhir/sid/icd-10-cm', display: 'Hypertension' },
+      },
+      {
+        command: 'ProposeAllergyIntoleranceUpdate',
+        patientId: 'p1',
+        action: 'add',
+        substance: { code: '723', system: 'http://www.nlm.nih.gov/research/umls/rxnorm', display: 'Amoxicillin' },
+        reactions: [{ manifestations: [{ display: 'Hives' }], severity: 'mild' }],
+      },
+      {
+        command: 'SuggestBillingCodes',
+        patientId: 'p1',
+        encounterId: 'e1',
+        suggestedCodes: [{ code: '99213', system: 'CPT', display: 'Office visit', confidence: 0.8 }],
+      },
+      {
+        command: 'QueueReferralLetter',
+        patientId: 'p1',
+        referringPractitionerId: 'Practitioner/dr-smith',
+        specialty: 'Cardiology',
+        urgency: 'routine',
+        reasonForReferral: 'Evaluation',
+        clinicalSummary: 'Summary',
+      },
+      {
+        command: 'ProposeServiceRequest',
+        patientId: 'p1',
+        category: 'laboratory',
+        code: { code: '4548-4', system: 'http://loinc.org', display: 'Hemoglobin A1c/Hemoglobin.total in Blood' },
+        priority: 'routine',
+      },
+      {
+        command: 'ProposeImmunizationRecommendation',
+        patientId: 'p1',
+        recommendations: [
+          {
+            vaccineCode: { code: '187', system: 'http://hl7.org/fhir/sid/cvx', display: 'Zoster vaccine recombinant' },
+            forecastStatus: 'due',
+            dueDate: '2025-12-01',
+          },
+        ],
+      },
+      {
+        command: 'ProposeCarePlan',
+        patientId: 'p1',
+        title: 'Diabetes management',
+        goals: [
+          {
+            description: 'HbA1c below 7%',
+            measure: { code: '4548-4', system: 'http://loinc.org', display: 'Hemoglobin A1c' },
+            target: { comparator: '<', value: 7, unit: '%' },
+          },
+        ],
+        activities: [
+          {
+            kind: 'ServiceRequest',
+            code: { code: '4548-4', system: 'http://loinc.org', display: 'Hemoglobin A1c' },
+          },
+        ],
+      },
+      {
+        command: 'FlagAbnormalResult',
+        patientId: 'p1',
+        observationId: 'obs-1',
+        severity: 'high',
+        interpretation: 'Elevated',
+      },
+      {
+        command: 'SuggestMedicationChange',
+        patientId: 'p1',
+        action: 'start',
+        medication: { code: '314076', system: 'http://www.nlm.nih.gov/research/umls/rxnorm', display: 'Lisinopril' },
+        rationale: 'BP above goal',
+      },
+      {
+        command: 'SummarizePatientHistory',
+        patientId: 'p1',
+        summaryType: 'comprehensive',
+        summary: 'Summary',
+        keyFindings: ['HTN'],
+      },
+    ];
+
+    for (const command of commands) {
+      const result = validateAICommand({ ...command, ...base });
+      expect(result.errors).toEqual([]);
+      expect(result.valid).toBe(true);
+    }
+  });
+
+  it('should report missing, mistyped and out-of-range fields', () => {
+    const result = validateAICommand({
+      command: 'FlagAbnormalResult',
+      patientId: '',
+      severity: 'extreme',
+      interpretation: 42,
+      confidence: 1.5,
+      requiresApproval: 'no',
+      aiModel: 'test-model',
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      { path: 'confidence', message: 'must be between 0 and 1' },
+      { path: 'requiresApproval', message: 'must be a boolean' },
+      { path: 'patientId', message: 'must not be empty' },
+      { path: 'observationId', message: 'is required' },
+      { path: 'severity', message: 'must be one of low, medium, high, critical' },
+      { path: 'interpretation', message: 'must be a string' },
+    ]);
+  });
+
+  it('should validate array items with indexed paths', () => {
+    const result = validateAICommand({
+      ...base,
+      command: 'SummarizePatientHistory',
+      patientId: 'p1',
+      summaryType: 'comprehensive',
+      summary: 'Summary',
+      keyFindings: ['HTN', 3],
+    });
+
+    expect(formatValidationErrors(result.errors)).toBe('keyFindings[1]: must be a string');
+  });
+
+  it('should reject command types that are not registered', () => {
+    const result = validateAICommand({ ...base, command: 'UnknownCommand' });
+
+    expect(result.valid).toBe(false);
+    expect(formatValidationErrors(result.errors)).toBe('command: is not a registered command type: UnknownCommand');
+    expect(isAICommand({ ...base, command: '__proto__' })).toBe(false);
+  });
+
+  it('should reject non-object input', () => {
+    expect(validateAICommand('FlagAbnormalResult').errors[0].message).toBe('Command must be an object');
+    expect(isAICommand(null)).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Database - Unit Tests
+ */
+
+import { Pool } from 'pg';
+import { configureDatabase, getDatabaseClient } from '../../src/services/database';
+
+jest.mock('pg', () => ({
+  Pool: jest.fn().mockImplementation(() => ({ query: jest.fn(), on: jest.fn() })),
+}));
+
+const secrets = (url: string) => ({ DATABASE_URL: { name: 'DATABASE_URL', valueString: url } });
+
+describe('Database', () => {
+  const originalUrl = process.env.DATABASE_URL;
+
+  beforeEach(() => {
+    delete process.env.DATABASE_URL;
+    (Pool as unknown as jest.Mock).mockClear();
+  });
+
+  afterAll(() => {
+    if (originalUrl !== undefined) {
+      process.env.DATABASE_URL = originalUrl;
+    }
+  });
+
+  it('should connect to the database in the bot secret', () => {
+    process.env.DATABASE_URL = 'postgresql://env-host/emr';
+    configureDatabase({ secrets: secrets('postgresql://secret-host/emr') });
+
+    expect(getDatabaseClient()).toBeDefined();
+    expect(Pool).toHaveBeenCalledWith({ connectionString: 'postgresql://secret-host/emr' });
+  });
+
+  it('should fall back to the environment and reuse pools', () => {
+    process.env.DATABASE_URL = 'postgresql://env-host/emr';
+    configureDatabase({ secrets: {} });
+
+    const client = getDatabaseClient();
+    expect(getDatabaseClient()).toBe(client);
+    expect(Pool).toHaveBeenCalledTimes(1);
+    expect(Pool).toHaveBeenCalledWith({ connectionString: 'postgresql://env-host/emr' });
+  });
+
+  it('should have no client when no database is configured', () => {
+    configureDatabase({ secrets: {} });
+
+    expect(getDatabaseClient()).toBeUndefined();
+    expect(Pool).not.toHaveBeenCalled();
+  });
+});
@@ -219,6 +219,45 @@ describe('Documentation Assistant Bot', () => {
         expect(result.commands[0].requiresApproval).toBe(true);
       }
     });
+    it('should propose a care plan from the assessment and plan', async () => {
+      const event = {
+        input: {
+          patientId: 'test-patient-1',
+          encounterId: 'encounter-office-1',
+          documentType: 'progress_note',
+        },
+      };
+      const result = await handler(mockMedplum as any, event as any);
+
+      const carePlan = result.commands.find((c) => c.command === 'ProposeCarePlan') as any;
+      expect(carePlan).toBeDefined();
+      expect(carePlan.requiresApproval).toBe(true);
+      expect(carePlan.encounterId).toBe('encounter-office-1');
+      expect(carePlan.addressesConditionIds).toEqual(expect.arrayContaining(['condition-htn']));
+      expect(carePlan.goals[0]).toMatchObject({
+        description: 'HbA1c below 7%',
+        measure: { code: '4548-4', system: 'http://loinc.org' },
+        target: { comparator: '<', value: 7, unit: '%' },
+      });
+      expect(carePlan.activities).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ kind: 'ServiceRequest', code: expect.objectContaining({ code: '4548-4' }) }),
+          expect.objectContaining({ kind: 'MedicationRequest', dosage: '500 mg twice daily' }),
+        ])
+      );
+    });
+
+    it('should not propose a care plan for documents without a plan', async () => {
+      const event = {
+        input: {
+          patientId: 'test-patient-1',
+          documentType: 'referral_letter',
+        },
+      };
+      const result = await handler(mockMedplum as any, event as any);
+
+      expect(result.commands.some((c) => c.command === 'ProposeCarePlan')).toBe(false);
+    });
   });
 
   describe('Confidence and Warnings', () => {
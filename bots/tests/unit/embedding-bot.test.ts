@@ -6,14 +6,18 @@ import { handler } from '../../src/embedding-bot';
 import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
 import { setupOllamaMock, teardownOllamaMock, configureMockOllama, resetMockOllama } from '../mocks/ollama';
 import { testPatient, labReport, hba1cObservation, hypertensionCondition } from '../fixtures/fhir-resources';
+import { InMemoryEmbeddingStore, setEmbeddingStore } from '../../src/services/embedding-store';
 
 describe('Embedding Bot', () => {
   let mockMedplum: MockMedplumClient;
+  let store: InMemoryEmbeddingStore;
 
   beforeEach(() => {
     mockMedplum = createMockMedplumClient({
       patients: [testPatient],
     });
+    store = new InMemoryEmbeddingStore();
+    setEmbeddingStore(store);
     resetMockOllama();
     setupOllamaMock();
   });
@@ -122,28 +126,21 @@ describe('Embedding Bot', () => {
   });
 
   describe('Embedding Storage', () => {
-    it('should store embeddings as Binary resources', async () => {
+    it('should store embeddings in the embedding store', async () => {
       const event = { input: hypertensionCondition };
-      await handler(mockMedplum as any, event as any);
-
-      const binaries = mockMedplum.getResources('Binary');
-      expect(binaries.length).toBeGreaterThan(0);
-
-      const binary = binaries[0] as any;
-      expect(binary.contentType).toBe('application/json');
+      const result = await handler(mockMedplum as any, event as any);
 
-      const data = JSON.parse(Buffer.from(binary.data, 'base64').toString());
-      expect(data.type).toBe('clinical_embedding');
-      expect(data.embedding).toBeDefined();
-      expect(data.embedding.length).toBe(768); // Expected dimension
+      const records = store.getRecords();
+      expect(records).toHaveLength(result.embeddingsStored);
+      expect(records[0].embedding.length).toBe(768); // Expected dimension
+      expect(mockMedplum.getResources('Binary')).toHaveLength(0);
     });
 
     it('should include metadata in stored embeddings', async () => {
       const event = { input: hypertensionCondition };
       await handler(mockMedplum as any, event as any);
 
-      const binaries = mockMedplum.getResources('Binary');
-      const data = JSON.parse(Buffer.from((binaries[0] as any).data, 'base64').toString());
+      const data = store.getRecords()[0];
 
       expect(data.fhir_resource_type).toBe('Condition');
       expect(data.fhir_resource_id).toBe(hypertensionCondition.id);
@@ -151,6 +148,79 @@ describe('Embedding Bot', () => {
       expect(data.content_type).toBeDefined();
       expect(data.content_text).toBeDefined();
     });
+
+    it('should replace chunks when a resource is embedded again', async () => {
+      const event = { input: hypertensionCondition };
+      await handler(mockMedplum as any, event as any);
+      await handler(mockMedplum as any, event as any);
+
+      expect(store.getRecords().map((r) => r.chunk_index)).toEqual([0]);
+    });
+
+    it('should report storage errors', async () => {
+      jest.spyOn(store, 'replaceResource').mockRejectedValueOnce(new Error('connection refused'));
+
+      const result = await handler(mockMedplum as any, { input: hypertensionCondition } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('connection refused');
+    });
+  });
+
+  describe('Re-embedding', () => {
+    const document = (text: string, status = 'current') => ({
+      resourceType: 'DocumentReference',
+      id: 'doc-update',
+      status,
+      subject: { reference: 'Patient/test-patient-1' },
+      content: [{ attachment: { contentType: 'text/plain', data: Buffer.from(text).toString('base64') } }],
+    });
+
+    it('should skip resources whose text has not changed', async () => {
+      await handler(mockMedplum as any, { input: hypertensionCondition } as any);
+      const replace = jest.spyOn(store, 'replaceResource');
+
+      const result = await handler(mockMedplum as any, { input: hypertensionCondition } as any);
+
+      expect(result.unchanged).toBe(true);
+      expect(replace).not.toHaveBeenCalled();
+    });
+
+    it('should replace all chunks when the text changes', async () => {
+      await handler(mockMedplum as any, { input: document('Hypertension follow-up. '.repeat(100)) } as any);
+      expect(store.getRecords().length).toBeGreaterThan(1);
+
+      const result = await handler(mockMedplum as any, { input: document('Blood pressure now controlled.') } as any);
+
+      expect(result.embeddingsStored).toBe(1);
+      expect(store.getRecords().map((r) => r.content_text)).toEqual(['Blood pressure now controlled.']);
+    });
+
+    it('should keep existing chunks when embedding fails', async () => {
+      await handler(mockMedplum as any, { input: document('Original note text.') } as any);
+      configureMockOllama({ embeddings: { enabled: false, delay: 0 } });
+
+      const result = await handler(mockMedplum as any, { input: document('Edited note text.') } as any);
+
+      expect(result.embeddingsStored).toBe(0);
+      expect(store.getRecords().map((r) => r.content_text)).toEqual(['Original note text.']);
+    });
+
+    it('should remove embeddings of resources entered in error', async () => {
+      await handler(mockMedplum as any, { input: document('Note for the wrong patient.') } as any);
+      await handler(mockMedplum as any, { input: hypertensionCondition } as any);
+
+      const docResult = await handler(mockMedplum as any, {
+        input: document('Note for the wrong patient.', 'entered-in-error'),
+      } as any);
+      const conditionResult = await handler(mockMedplum as any, {
+        input: { ...hypertensionCondition, verificationStatus: { coding: [{ code: 'entered-in-error' }] } },
+      } as any);
+
+      expect(docResult).toMatchObject({ success: true, embeddingsRemoved: 1 });
+      expect(conditionResult).toMatchObject({ success: true, embeddingsRemoved: 1 });
+      expect(store.getRecords()).toHaveLength(0);
+    });
   });
 
   describe('Error Handling', () => {
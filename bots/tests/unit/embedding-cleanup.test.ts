@@ -0,0 +1,73 @@
+/**
+ * Embedding Cleanup Bot - Unit Tests
+ */
+
+import { handler } from '../../src/embedding-cleanup-bot';
+import { InMemoryEmbeddingStore, setEmbeddingStore } from '../../src/services/embedding-store';
+import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
+import { hypertensionCondition } from '../fixtures/fhir-resources';
+
+describe('Embedding Cleanup Bot', () => {
+  let mockMedplum: MockMedplumClient;
+  let store: InMemoryEmbeddingStore;
+
+  const chunk = (id: string, chunkIndex: number) => ({
+    fhir_resource_type: 'Condition',
+    fhir_resource_id: id,
+    content_type: 'condition',
+    chunk_index: chunkIndex,
+    content_text: `Condition ${id}`,
+    embedding: [1, 0],
+    model_version: 'test-model',
+  });
+
+  beforeEach(async () => {
+    mockMedplum = createMockMedplumClient();
+    store = new InMemoryEmbeddingStore();
+    setEmbeddingStore(store);
+    await store.replaceResource(hypertensionCondition.id as string, [
+      chunk(hypertensionCondition.id as string, 0),
+      chunk(hypertensionCondition.id as string, 1),
+    ]);
+    await store.replaceResource('condition-other', [chunk('condition-other', 0)]);
+  });
+
+  afterEach(() => {
+    mockMedplum.reset();
+  });
+
+  it('should remove the embeddings of a deleted resource', async () => {
+    const result = await handler(mockMedplum as any, { input: hypertensionCondition } as any);
+
+    expect(result).toEqual({
+      success: true,
+      resourceType: 'Condition',
+      resourceId: hypertensionCondition.id,
+      embeddingsRemoved: 2,
+    });
+    expect(store.getRecords().map((r) => r.fhir_resource_id)).toEqual(['condition-other']);
+  });
+
+  it('should accept a reference to the deleted resource', async () => {
+    const input = { resourceType: 'Condition', id: 'condition-other' };
+    const result = await handler(mockMedplum as any, { input } as any);
+
+    expect(result.embeddingsRemoved).toBe(1);
+  });
+
+  it('should reject input without a resource ID', async () => {
+    const result = await handler(mockMedplum as any, { input: { resourceType: 'Condition' } } as any);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Invalid resource');
+  });
+
+  it('should report store errors', async () => {
+    jest.spyOn(store, 'deleteResource').mockRejectedValueOnce(new Error('connection refused'));
+
+    const result = await handler(mockMedplum as any, { input: hypertensionCondition } as any);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('connection refused');
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Embedding Store - Unit Tests
+ */
+
+import { Pool } from 'pg';
+import {
+  BinaryEmbeddingStore,
+  EmbeddingRecord,
+  InMemoryEmbeddingStore,
+  PgVectorEmbeddingStore,
+  cosineSimilarity,
+  getEmbeddingStore,
+  setEmbeddingStore,
+} from '../../src/services/embedding-store';
+import { configureDatabase } from '../../src/services/database';
+import { createMockMedplumClient } from '../mocks/medplum-client';
+
+jest.mock('pg');
+
+const record = (id: string, chunkIndex: number, embedding: number[], patientId = 'patient-1'): EmbeddingRecord => ({
+  fhir_resource_type: 'DocumentReference',
+  fhir_resource_id: id,
+  content_type: 'document',
+  chunk_index: chunkIndex,
+  content_text: `${id} chunk ${chunkIndex}`,
+  embedding,
+  model_version: 'test-model',
+  patient_id: patientId,
+});
+
+describe('Embedding Store', () => {
+  describe('InMemoryEmbeddingStore', () => {
+    let store: InMemoryEmbeddingStore;
+
+    beforeEach(() => {
+      store = new InMemoryEmbeddingStore();
+    });
+
+    it("should replace all of a resource's chunks", async () => {
+      await store.replaceResource('doc-1', [record('doc-1', 0, [1, 0]), record('doc-1', 1, [0, 1])]);
+      await store.replaceResource('doc-2', [record('doc-2', 0, [1, 0])]);
+      await store.replaceResource('doc-1', [{ ...record('doc-1', 0, [1, 1]), content_text: 'updated' }]);
+
+      expect(store.getRecords().map((r) => r.content_text)).toEqual(['doc-2 chunk 0', 'updated']);
+    });
+
+    it('should delete chunks and report content hashes by resource', async () => {
+      await store.replaceResource('doc-1', [
+        { ...record('doc-1', 0, [1, 0]), content_hash: 'hash-1' },
+        { ...record('doc-1', 1, [0, 1]), content_hash: 'hash-1' },
+      ]);
+
+      expect(await store.getContentHash('doc-1')).toBe('hash-1');
+      expect(await store.deleteResource('doc-1')).toBe(2);
+      expect(await store.getContentHash('doc-1')).toBeUndefined();
+      expect(store.getRecords()).toHaveLength(0);
+    });
+
+    it('should return the most similar chunks above the threshold', async () => {
+      await store.replaceResource('doc-1', [record('doc-1', 0, [1, 0])]);
+      await store.replaceResource('doc-2', [record('doc-2', 0, [0.8, 0.6])]);
+      await store.replaceResource('doc-3', [record('doc-3', 0, [0, 1])]);
+
+      const matches = await store.search([1, 0], { limit: 10, threshold: 0.5 });
+
+      expect(matches.map((m) => m.resourceId)).toEqual(['doc-1', 'doc-2']);
+      expect(matches[1].similarity).toBeCloseTo(0.8);
+    });
+
+    it('should apply filters and the limit', async () => {
+      await store.replaceResource('doc-1', [record('doc-1', 0, [1, 0]), record('doc-1', 1, [1, 0.1])]);
+      await store.replaceResource('doc-2', [record('doc-2', 0, [1, 0], 'patient-2')]);
+
+      expect(await store.search([1, 0], { patientId: 'patient-2', limit: 10, threshold: 0 })).toHaveLength(1);
+      expect(await store.search([1, 0], { contentType: 'condition', limit: 10, threshold: 0 })).toHaveLength(0);
+      expect(await store.search([1, 0], { limit: 2, threshold: 0 })).toHaveLength(2);
+    });
+  });
+
+  describe('PgVectorEmbeddingStore', () => {
+    const query = jest.fn();
+    const store = new PgVectorEmbeddingStore({ query });
+
+    beforeEach(() => {
+      query.mockReset();
+    });
+
+    it('should replace chunks in one statement', async () => {
+      query.mockResolvedValue({ rows: [{ stored: '2' }] });
+
+      const stored = await store.replaceResource('doc-1', [
+        { ...record('doc-1', 0, [0.5, 0.25]), content_hash: 'hash-1' },
+        record('doc-1', 1, [1, 0]),
+      ]);
+
+      const [text, values] = query.mock.calls[0];
+      expect(stored).toBe(2);
+      expect(query).toHaveBeenCalledTimes(1);
+      expect(text).toContain('INSERT INTO clinical_embeddings');
+      expect(text).toContain('($3, $4, $5, $6, $7, $8, $9::vector, $10, $11, $12), ($13,');
+      expect(text).toContain('ON CONFLICT (fhir_resource_id, chunk_index) DO UPDATE SET');
+      expect(text).toContain('DELETE FROM clinical_embeddings WHERE fhir_resource_id = $1 AND chunk_index >= $2');
+      expect(values).toHaveLength(22);
+      expect(values.slice(0, 2)).toEqual(['doc-1', 2]);
+      expect(values[8]).toBe('[0.5,0.25]');
+      expect(values[11]).toBe('hash-1');
+    });
+
+    it('should delete all chunks when replacing with none', async () => {
+      query.mockResolvedValue({ rows: [{ id: 'a' }] });
+
+      expect(await store.replaceResource('doc-1', [])).toBe(0);
+      expect(query).toHaveBeenCalledWith('DELETE FROM clinical_embeddings WHERE fhir_resource_id = $1 RETURNING id', [
+        'doc-1',
+      ]);
+    });
+
+    it('should read the content hash of the first chunk', async () => {
+      query.mockResolvedValueOnce({ rows: [{ content_hash: 'hash-1' }] }).mockResolvedValueOnce({ rows: [] });
+
+      expect(await store.getContentHash('doc-1')).toBe('hash-1');
+      expect(await store.getContentHash('doc-2')).toBeUndefined();
+      expect(query.mock.calls[0][0]).toContain('WHERE fhir_resource_id = $1 AND chunk_index = 0');
+    });
+
+    it('should search by cosine distance with filters in SQL', async () => {
+      query.mockResolvedValue({
+        rows: [
+          {
+            fhir_resource_type: 'Condition',
+            fhir_resource_id: 'cond-1',
+            content_type: 'condition',
+            content_text: 'Hypertension',
+            patient_id: 'patient-1',
+            similarity: '0.92',
+          },
+        ],
+      });
+
+      const matches = await store.search([1, 0], {
+        patientId: 'patient-1',
+        resourceType: 'Condition',
+        limit: 5,
+        threshold: 0.7,
+      });
+
+      const [text, values] = query.mock.calls[0];
+      expect(text).toContain(
+        'WHERE 1 - (embedding <=> $1::vector) >= $2 AND patient_id = $4 AND fhir_resource_type = $5'
+      );
+      expect(text).toContain('ORDER BY embedding <=> $1::vector');
+      expect(values).toEqual(['[1,0]', 0.7, 5, 'patient-1', 'Condition']);
+      expect(matches).toEqual([
+        {
+          resourceType: 'Condition',
+          resourceId: 'cond-1',
+          contentType: 'condition',
+          contentText: 'Hypertension',
+          similarity: 0.92,
+          patientId: 'patient-1',
+        },
+      ]);
+    });
+  });
+
+  describe('BinaryEmbeddingStore', () => {
+    it('should replace, search and delete chunks stored as Binary resources', async () => {
+      const medplum = createMockMedplumClient();
+      medplum.addResource({ resourceType: 'Binary', id: 'other', contentType: 'application/json', data: 'e30=' });
+      const store = new BinaryEmbeddingStore(medplum as any);
+
+      await store.replaceResource('doc-1', [
+        { ...record('doc-1', 0, [1, 0]), content_hash: 'hash-1' },
+        record('doc-1', 1, [0, 1]),
+      ]);
+      await store.replaceResource('doc-2', [record('doc-2', 0, [0.8, 0.6])]);
+      expect(await store.replaceResource('doc-1', [{ ...record('doc-1', 0, [1, 0]), content_hash: 'hash-2' }])).toBe(1);
+
+      expect(medplum.getResources('Binary')).toHaveLength(3);
+      expect(await store.getContentHash('doc-1')).toBe('hash-2');
+      expect((await store.search([1, 0], { limit: 10, threshold: 0.5 })).map((m) => m.resourceId)).toEqual([
+        'doc-1',
+        'doc-2',
+      ]);
+
+      expect(await store.deleteResource('doc-1')).toBe(1);
+      expect(medplum.getResources('Binary').map((b) => b.id)).toEqual(['other', expect.any(String)]);
+    });
+
+    it('should search chunks past the first page of Binaries', async () => {
+      const medplum = createMockMedplumClient();
+      for (let i = 0; i < 1000; i++) {
+        medplum.addResource({ resourceType: 'Binary', id: `other-${i}`, contentType: 'application/json', data: 'e30=' });
+      }
+      const store = new BinaryEmbeddingStore(medplum as any);
+
+      await store.replaceResource('doc-1', [record('doc-1', 0, [1, 0])]);
+
+      expect((await store.search([1, 0], { limit: 10, threshold: 0.5 })).map((m) => m.resourceId)).toEqual(['doc-1']);
+    });
+
+    it('should delete chunks past the first page of Binaries', async () => {
+      const medplum = createMockMedplumClient();
+      for (let i = 0; i < 1000; i++) {
+        medplum.addResource({ resourceType: 'Binary', id: `other-${i}`, contentType: 'application/json', data: 'e30=' });
+      }
+      const store = new BinaryEmbeddingStore(medplum as any);
+      await store.replaceResource('doc-1', [record('doc-1', 0, [1, 0]), record('doc-1', 1, [0, 1])]);
+
+      expect(await store.deleteResource('doc-1')).toBe(2);
+      expect(medplum.getResources('Binary')).toHaveLength(1000);
+    });
+  });
+
+  describe('getEmbeddingStore', () => {
+    const medplum = createMockMedplumClient();
+
+    afterEach(() => {
+      setEmbeddingStore(undefined);
+      configureDatabase({ secrets: {} });
+    });
+
+    it("should use pgvector in the bot's DATABASE_URL secret", () => {
+      configureDatabase({
+        secrets: { DATABASE_URL: { name: 'DATABASE_URL', valueString: 'postgresql://db-host/emr' } },
+      });
+
+      expect(getEmbeddingStore(medplum as any)).toBeInstanceOf(PgVectorEmbeddingStore);
+      expect(Pool).toHaveBeenCalledWith({ connectionString: 'postgresql://db-host/emr' });
+    });
+
+    it('should fall back to Binary resources without a database', () => {
+      configureDatabase({ secrets: {} });
+
+      expect(getEmbeddingStore(medplum as any)).toBeInstanceOf(BinaryEmbeddingStore);
+    });
+
+    it('should prefer a registered store', () => {
+      const store = new InMemoryEmbeddingStore();
+      setEmbeddingStore(store);
+      configureDatabase({
+        secrets: { DATABASE_URL: { name: 'DATABASE_URL', valueString: 'postgresql://db-host/emr' } },
+      });
+
+      expect(getEmbeddingStore(medplum as any)).toBe(store);
+    });
+  });
+
+  describe('cosineSimilarity', () => {
+    it('should compare vectors by angle', () => {
+      expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+      expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    });
+  });
+});
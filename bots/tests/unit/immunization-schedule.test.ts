@@ -0,0 +1,88 @@
+/**
+ * Immunization Schedule - Unit Tests
+ */
+
+import { Immunization, Patient } from '@medplum/fhirtypes';
+import { CVX_SYSTEM, forecastImmunizations } from '../../src/services/immunization-schedule';
+import { testPatient, diabetesCondition } from '../fixtures/fhir-resources';
+
+const AS_OF = new Date('2026-01-15T12:00:00Z');
+
+function immunization(id: string, cvx: string, date: string): Immunization {
+  return {
+    resourceType: 'Immunization',
+    id,
+    status: 'completed',
+    vaccineCode: { coding: [{ system: CVX_SYSTEM, code: cvx }] },
+    patient: { reference: 'Patient/test-patient-1' },
+    occurrenceDateTime: date,
+  };
+}
+
+function seriesOf(patient: Patient, immunizations: Immunization[] = [], conditions = [diabetesCondition]): string[] {
+  return forecastImmunizations(patient, conditions, immunizations, AS_OF).map((f) => f.series);
+}
+
+describe('Immunization Schedule', () => {
+  it('should forecast age-eligible series with no history as overdue', () => {
+    const forecasts = forecastImmunizations(testPatient, [], [], AS_OF);
+
+    expect(forecasts.map((f) => f.series)).toEqual(['Influenza', 'Tdap/Td', 'Zoster']);
+    const zoster = forecasts.find((f) => f.series === 'Zoster');
+    expect(zoster).toMatchObject({
+      forecastStatus: 'overdue',
+      doseNumber: 1,
+      seriesDoses: 2,
+      dueDate: '2015-03-15',
+      overdueDate: '2015-06-15',
+    });
+  });
+
+  it('should recommend pneumococcal vaccine before 65 for patients with a risk condition', () => {
+    expect(seriesOf(testPatient, [], [])).not.toContain('Pneumococcal');
+    expect(seriesOf(testPatient)).toContain('Pneumococcal');
+  });
+
+  it('should count recorded doses towards the series', () => {
+    const history = [
+      immunization('imm-flu', '150', '2025-10-01'),
+      immunization('imm-tdap', '115', '2020-05-01'),
+      immunization('imm-pcv', '216', '2022-02-01'),
+      immunization('imm-zos-1', '187', '2025-10-01'),
+    ];
+
+    const forecasts = forecastImmunizations(testPatient, [diabetesCondition], history, AS_OF);
+
+    expect(forecasts.map((f) => f.series)).toEqual(['Zoster']);
+    expect(forecasts[0]).toMatchObject({
+      forecastStatus: 'due',
+      doseNumber: 2,
+      dueDate: '2025-12-01',
+      supportingImmunizationIds: ['imm-zos-1'],
+    });
+  });
+
+  it('should not forecast a dose before its interval has passed', () => {
+    const history = [immunization('imm-zos-1', '187', '2025-12-20')];
+
+    expect(seriesOf(testPatient, history)).not.toContain('Zoster');
+  });
+
+  it('should forecast boosters once the interval has passed', () => {
+    const history = [immunization('imm-flu', '150', '2024-10-01')];
+    const flu = forecastImmunizations(testPatient, [], history, AS_OF).find((f) => f.series === 'Influenza');
+
+    expect(flu).toMatchObject({ forecastStatus: 'overdue', dueDate: '2025-10-01', doseNumber: 2 });
+    expect(flu?.seriesDoses).toBeUndefined();
+  });
+
+  it('should ignore doses that were not completed', () => {
+    const history = [{ ...immunization('imm-flu', '150', '2025-10-01'), status: 'not-done' as const }];
+
+    expect(seriesOf(testPatient, history)).toContain('Influenza');
+  });
+
+  it('should not forecast without a birth date', () => {
+    expect(forecastImmunizations({ resourceType: 'Patient' }, [], [], AS_OF)).toEqual([]);
+  });
+});
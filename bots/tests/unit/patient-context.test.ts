@@ -0,0 +1,117 @@
+/**
+ * Patient Context - Unit Tests
+ */
+
+import { Condition, Observation } from '@medplum/fhirtypes';
+import { getPatientFacts } from '../../src/services/patient-context';
+import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
+import {
+  testPatient,
+  pediatricPatient,
+  hypertensionCondition,
+  diabetesCondition,
+  penicillinAllergy,
+} from '../fixtures/fhir-resources';
+
+const NOW = new Date('2026-01-15T12:00:00Z');
+
+function labResult(id: string, code: string, date: string, value: Partial<Observation>): Observation {
+  return {
+    resourceType: 'Observation',
+    id,
+    status: 'final',
+    code: { coding: [{ system: 'http://loinc.org', code }] },
+    subject: { reference: 'Patient/test-patient-1' },
+    effectiveDateTime: date,
+    ...value,
+  };
+}
+
+function egfr(id: string, date: string, value: number): Observation {
+  return labResult(id, '98979-8', date, { valueQuantity: { value, unit: 'mL/min/{1.73_m2}' } });
+}
+
+function pregnancyStatus(id: string, date: string, code: string): Observation {
+  return labResult(id, '82810-3', date, {
+    valueCodeableConcept: { coding: [{ system: 'http://snomed.info/sct', code }] },
+  });
+}
+
+describe('Patient Context', () => {
+  let mockMedplum: MockMedplumClient;
+
+  beforeEach(() => {
+    mockMedplum = createMockMedplumClient({
+      patients: [testPatient, pediatricPatient],
+      conditions: [hypertensionCondition, diabetesCondition],
+    });
+    mockMedplum.addResource(penicillinAllergy);
+  });
+
+  afterEach(() => {
+    mockMedplum.reset();
+  });
+
+  it('should derive age, allergies and active problems', async () => {
+    const facts = await getPatientFacts(mockMedplum as any, 'test-patient-1', NOW);
+
+    expect(facts.age).toBe(60);
+    expect(facts.allergies).toEqual(['7984', 'Penicillin']);
+    expect(facts.problems).toEqual(expect.arrayContaining(['I10', 'E11.9']));
+    expect(facts.pregnant).toBe(false);
+    expect(facts.egfr).toBeUndefined();
+  });
+
+  it('should count age in whole years', async () => {
+    expect((await getPatientFacts(mockMedplum as any, 'test-patient-pediatric', NOW)).age).toBe(7);
+    expect(
+      (await getPatientFacts(mockMedplum as any, 'test-patient-pediatric', new Date('2026-06-20T00:00:00Z'))).age
+    ).toBe(8);
+  });
+
+  it('should leave out resolved and entered-in-error problems', async () => {
+    mockMedplum.clearResources();
+    mockMedplum.addResource(testPatient);
+    mockMedplum.addResource({
+      ...hypertensionCondition,
+      clinicalStatus: { coding: [{ code: 'resolved' }] },
+    } as Condition);
+    mockMedplum.addResource({
+      ...diabetesCondition,
+      clinicalStatus: undefined,
+      verificationStatus: { coding: [{ code: 'entered-in-error' }] },
+    } as Condition);
+
+    const facts = await getPatientFacts(mockMedplum as any, 'test-patient-1', NOW);
+
+    expect(facts.problems).toEqual([]);
+  });
+
+  it('should use the most recent eGFR', async () => {
+    mockMedplum.addResource(egfr('egfr-old', '2025-06-01T09:00:00Z', 55));
+    mockMedplum.addResource(egfr('egfr-new', '2026-01-10T09:00:00Z', 28));
+    mockMedplum.addResource({ ...egfr('egfr-cancelled', '2026-01-12T09:00:00Z', 90), status: 'cancelled' });
+
+    const facts = await getPatientFacts(mockMedplum as any, 'test-patient-1', NOW);
+
+    expect(facts.egfr).toBe(28);
+  });
+
+  it('should take pregnancy from the latest pregnancy status observation', async () => {
+    mockMedplum.addResource(pregnancyStatus('preg-1', '2025-05-01T09:00:00Z', '77386006'));
+    expect((await getPatientFacts(mockMedplum as any, 'test-patient-1', NOW)).pregnant).toBe(true);
+
+    mockMedplum.addResource(pregnancyStatus('preg-2', '2026-01-02T09:00:00Z', '60001007'));
+    expect((await getPatientFacts(mockMedplum as any, 'test-patient-1', NOW)).pregnant).toBe(false);
+  });
+
+  it('should recognise an active pregnancy condition', async () => {
+    mockMedplum.addResource({
+      ...hypertensionCondition,
+      id: 'condition-pregnancy',
+      code: { coding: [{ system: 'http://hl7.org/fhir/sid/icd-10-cm', code: 'Z34.80' }] },
+    } as Condition);
+
+    expect((await getPatientFacts(mockMedplum as any, 'test-patient-1', NOW)).pregnant).toBe(true);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Quiet Hours - Unit Tests
+ */
+
+import { Location, Organization } from '@medplum/fhirtypes';
+import {
+  QUIET_HOURS_EXTENSION,
+  TIMEZONE_EXTENSION,
+  getQuietHoursStatus,
+  isValidTimeZone,
+  isWithinQuietHours,
+} from '../../src/services/quiet-hours';
+import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
+import { testPatient, officeVisitEncounter } from '../fixtures/fhir-resources';
+import { CreateEncounterNoteDraft, QuietHoursPolicy } from '../../src/types/ai-command-types';
+
+// 03:30 UTC: 22:30 the previous evening in New York (EST), 19:30 in Los Angeles (PST)
+const NOW = new Date('2024-01-16T03:30:00Z');
+
+const policy: QuietHoursPolicy = {
+  enabled: true,
+  start: '22:00',
+  end: '06:00',
+  timezone: 'America/New_York',
+  exemptActions: ['FlagAbnormalResult'],
+  requireSeniorApproval: true,
+  seniorApproverRoles: ['Supervisor'],
+};
+
+const noteCommand: CreateEncounterNoteDraft = {
+  command: 'CreateEncounterNoteDraft',
+  patientId: 'test-patient-1',
+  encounterId: 'encounter-office-1',
+  noteType: 'progress',
+  content: 'Follow-up for hypertension. BP 128/82. Stable, continue current plan.',
+  confidence: 0.9,
+  requiresApproval: true,
+  aiModel: 'llama3.2:3b',
+};
+
+function clinic(id: string, timezone: string, managingOrganization?: string): Location {
+  return {
+    resourceType: 'Location',
+    id,
+    name: id,
+    extension: [{ url: TIMEZONE_EXTENSION, valueCode: timezone }],
+    managingOrganization: managingOrganization ? { reference: managingOrganization } : undefined,
+  };
+}
+
+describe('Quiet Hours', () => {
+  let mockMedplum: MockMedplumClient;
+
+  beforeEach(() => {
+    mockMedplum = createMockMedplumClient({ patients: [testPatient] });
+  });
+
+  afterEach(() => {
+    mockMedplum.reset();
+  });
+
+  describe('isWithinQuietHours', () => {
+    it('should evaluate the window in the given timezone', () => {
+      expect(isWithinQuietHours({ start: '22:00', end: '06:00', timezone: 'America/New_York' }, NOW)).toBe(true);
+      expect(isWithinQuietHours({ start: '22:00', end: '06:00', timezone: 'America/Los_Angeles' }, NOW)).toBe(false);
+      expect(isWithinQuietHours({ start: '22:00', end: '06:00', timezone: 'UTC' }, NOW)).toBe(true);
+    });
+
+    it('should handle windows that do not wrap past midnight', () => {
+      expect(isWithinQuietHours({ start: '12:00', end: '14:00', timezone: 'UTC' }, new Date('2024-01-16T13:59:00Z'))).toBe(
+        true
+      );
+      expect(isWithinQuietHours({ start: '12:00', end: '14:00', timezone: 'UTC' }, new Date('2024-01-16T14:00:00Z'))).toBe(
+        false
+      );
+    });
+
+    it('should follow daylight saving time', () => {
+      // 02:30 UTC is 22:30 EDT in July but 21:30 EST in January
+      const window = { start: '22:00', end: '06:00', timezone: 'America/New_York' };
+      expect(isWithinQuietHours(window, new Date('2024-07-16T02:30:00Z'))).toBe(true);
+      expect(isWithinQuietHours(window, new Date('2024-01-16T02:30:00Z'))).toBe(false);
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('should accept IANA names and reject unknown zones', () => {
+      expect(isValidTimeZone('America/New_York')).toBe(true);
+      expect(isValidTimeZone('Eastern')).toBe(false);
+    });
+  });
+
+  describe('getQuietHoursStatus', () => {
+    it('should use the policy timezone without location overrides', async () => {
+      const status = await getQuietHoursStatus(mockMedplum as any, noteCommand, policy, NOW);
+
+      expect(status).toMatchObject({ active: true, timezone: 'America/New_York', source: 'policy' });
+      expect(status.requireSeniorApproval).toBe(true);
+    });
+
+    it('should not apply to exempt actions', async () => {
+      const status = await getQuietHoursStatus(
+        mockMedplum as any,
+        { ...noteCommand, command: 'FlagAbnormalResult' } as any,
+        policy,
+        NOW
+      );
+
+      expect(status.active).toBe(false);
+    });
+
+    it("should use the timezone of the encounter's location", async () => {
+      mockMedplum.addResource(clinic('clinic-la', 'America/Los_Angeles'));
+      mockMedplum.addResource({ ...officeVisitEncounter, location: [{ location: { reference: 'Location/clinic-la' } }] });
+
+      const status = await getQuietHoursStatus(mockMedplum as any, noteCommand, policy, NOW);
+
+      expect(status).toMatchObject({ active: false, timezone: 'America/Los_Angeles', source: 'Location/clinic-la' });
+    });
+
+    it('should prefer the location over its managing organization', async () => {
+      const organization: Organization = {
+        resourceType: 'Organization',
+        id: 'org-1',
+        name: 'Health System',
+        extension: [
+          { url: TIMEZONE_EXTENSION, valueCode: 'UTC' },
+          {
+            url: QUIET_HOURS_EXTENSION,
+            extension: [
+              { url: 'start', valueTime: '19:00:00' },
+              { url: 'end', valueTime: '07:00:00' },
+              { url: 'requireSeniorApproval', valueBoolean: false },
+            ],
+          },
+        ],
+      };
+      mockMedplum.addResource(organization);
+      mockMedplum.addResource(clinic('clinic-la', 'America/Los_Angeles', 'Organization/org-1'));
+      mockMedplum.addResource({ ...officeVisitEncounter, location: [{ location: { reference: 'Location/clinic-la' } }] });
+
+      const status = await getQuietHoursStatus(mockMedplum as any, noteCommand, policy, NOW);
+
+      // The organization's window, evaluated in the location's timezone
+      expect(status).toMatchObject({
+        active: true,
+        start: '19:00',
+        end: '07:00',
+        timezone: 'America/Los_Angeles',
+        requireSeniorApproval: false,
+        source: 'Location/clinic-la',
+      });
+    });
+
+    it("should use the patient's managing organization without an encounter", async () => {
+      mockMedplum.clearResources();
+      mockMedplum.addResource({ ...testPatient, managingOrganization: { reference: 'Organization/org-night-clinic' } });
+      mockMedplum.addResource({
+        resourceType: 'Organization',
+        id: 'org-night-clinic',
+        extension: [{ url: QUIET_HOURS_EXTENSION, extension: [{ url: 'enabled', valueBoolean: false }] }],
+      } as Organization);
+
+      const status = await getQuietHoursStatus(
+        mockMedplum as any,
+        { ...noteCommand, encounterId: undefined } as any,
+        policy,
+        NOW
+      );
+
+      expect(status).toMatchObject({ active: false, enabled: false, source: 'Organization/org-night-clinic' });
+    });
+
+    it('should ignore invalid override times and not credit records that override nothing', async () => {
+      mockMedplum.addResource({
+        resourceType: 'Organization',
+        id: 'org-1',
+        extension: [
+          { url: TIMEZONE_EXTENSION, valueCode: 'Mars/Olympus_Mons' },
+          {
+            url: QUIET_HOURS_EXTENSION,
+            extension: [
+              { url: 'start', valueTime: '25:00:00' },
+              { url: 'end', valueTime: '07:00:00' },
+            ],
+          },
+        ],
+      } as Organization);
+      mockMedplum.addResource({ ...officeVisitEncounter, serviceProvider: { reference: 'Organization/org-1' } });
+
+      const status = await getQuietHoursStatus(mockMedplum as any, noteCommand, policy, NOW);
+
+      expect(status).toMatchObject({
+        active: true,
+        start: '22:00',
+        end: '06:00',
+        timezone: 'America/New_York',
+        source: 'policy',
+      });
+    });
+
+    it('should fall back to the policy when the care setting cannot be read', async () => {
+      mockMedplum.addResource({ ...officeVisitEncounter, location: [{ location: { reference: 'Location/missing' } }] });
+
+      const status = await getQuietHoursStatus(mockMedplum as any, noteCommand, policy, NOW);
+
+      expect(status).toMatchObject({ active: true, timezone: 'America/New_York', source: 'policy' });
+    });
+  });
+});
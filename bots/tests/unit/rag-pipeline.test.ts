@@ -12,11 +12,15 @@ import {
   getAllTestMedications,
   labReport,
 } from '../fixtures/fhir-resources';
+import { InMemoryEmbeddingStore, setEmbeddingStore } from '../../src/services/embedding-store';
 
 describe('RAG Pipeline Bot', () => {
   let mockMedplum: MockMedplumClient;
+  let store: InMemoryEmbeddingStore;
 
   beforeEach(() => {
+    store = new InMemoryEmbeddingStore();
+    setEmbeddingStore(store);
     mockMedplum = createMockMedplumClient({
       patients: [testPatient],
       conditions: getAllTestConditions(),
@@ -109,6 +113,31 @@ describe('RAG Pipeline Bot', () => {
         });
       }
     });
+
+    it("should cite chunks from the patient's stored embeddings", async () => {
+      const vector = Array.from({ length: 768 }, (_, i) => (i % 3 === 0 ? 1 : 0));
+      configureMockOllama({ embeddings: { enabled: true, delay: 0, embedding: vector } });
+      const chunk = (id: string, patientId: string) => ({
+        fhir_resource_type: 'DocumentReference',
+        fhir_resource_id: id,
+        content_type: 'document',
+        chunk_index: 0,
+        content_text: `Note ${id}: blood pressure well controlled`,
+        embedding: vector,
+        model_version: 'test-model',
+        patient_id: patientId,
+      });
+      await store.replaceResource('doc-1', [chunk('doc-1', 'test-patient-1')]);
+      await store.replaceResource('doc-2', [chunk('doc-2', 'other-patient')]);
+
+      const result = await handler(mockMedplum as any, {
+        input: { question: 'How is the blood pressure?', patientId: 'test-patient-1' },
+      } as any);
+
+      expect(result.sources).toEqual([
+        expect.objectContaining({ resourceType: 'DocumentReference', resourceId: 'doc-1' }),
+      ]);
+    });
   });
 
   describe('Answer Generation', () => {
@@ -0,0 +1,810 @@
+/**
+ * Safety Policy Loader - Unit Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_SAFETY_POLICY,
+  FAIL_CLOSED_SAFETY_POLICY,
+  parseSafetyPolicy,
+  getSafetyPolicy,
+  clearSafetyPolicyCache,
+  evaluateFilterConditions,
+} from '../../src/services/safety-policy';
+import { handler } from '../../src/command-processor-bot';
+import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
+import { testPatient, pediatricPatient, hypertensionCondition } from '../fixtures/fhir-resources';
+import { DEFAULT_SAFETY_FILTERS, ProposeProblemListUpdate, SafetyCondition } from '../../src/types/ai-command-types';
+
+const POLICY_FILE = path.join(__dirname, '../../../config/safety-filters.yaml');
+
+describe('Safety Policy Loader', () => {
+  describe('parseSafetyPolicy', () => {
+    it('should load the shipped safety-filters.yaml without errors', () => {
+      const { policy, errors } = parseSafetyPolicy(fs.readFileSync(POLICY_FILE, 'utf8'));
+
+      expect(errors).toEqual([]);
+      expect(policy.global.minimumConfidence).toBe(0.5);
+      expect(policy.global.maxPendingPerPatient).toBe(10);
+      expect(policy.quietHours.exemptActions).toContain('FlagAbnormalResult');
+      expect(policy.quietHours.timezone).toBe('America/New_York');
+      expect(policy.quietHours.seniorApproverRoles).toEqual(['Supervisor']);
+      expect(policy.blockedActions.map((b) => b.pattern)).toContain('DischargePatient');
+      expect(policy.safetyFilters.length).toBeGreaterThan(5);
+    });
+
+    it('should parse dual approval filters with approver roles', () => {
+      const { policy } = parseSafetyPolicy(fs.readFileSync(POLICY_FILE, 'utf8'));
+      const dual = policy.safetyFilters.find((f) => f.name === 'DualApprovalCritical');
+
+      expect(dual?.action).toBe('require_dual_approval');
+      expect(dual?.minApprovers).toBe(2);
+      expect(dual?.approverRoles).toEqual(['Practitioner']);
+    });
+
+    it('should build conditional approval rules from per-action conditions', () => {
+      const { policy } = parseSafetyPolicy(fs.readFileSync(POLICY_FILE, 'utf8'));
+      const rule = policy.approvalRules.ProposeProblemListUpdate;
+      const base: ProposeProblemListUpdate = {
+        command: 'ProposeProblemListUpdate',
+        patientId: 'test-patient-1',
+        action: 'add',
+        condition: { code: 'I10', system: 'http://hl7.org/fhir/sid/icd-10-cm', display: 'Hypertension' },
+        confidence: 0.9,
+        requiresApproval: false,
+        aiModel: 'test-model',
+      };
+
+      expect(typeof rule.requiresApproval).toBe('function');
+      const requiresApproval = rule.requiresApproval as (cmd: ProposeProblemListUpdate) => boolean;
+      expect(requiresApproval(base)).toBe(false);
+      expect(requiresApproval({ ...base, confidence: 0.8 })).toBe(true);
+      expect(requiresApproval({ ...base, action: 'resolve' })).toBe(true);
+    });
+
+    it('should parse escalation chains on approval rules', () => {
+      const { policy } = parseSafetyPolicy(fs.readFileSync(POLICY_FILE, 'utf8'));
+
+      expect(policy.approvalRules.SuggestMedicationChange.escalation).toEqual([
+        { name: 'reminder', at: 0.5 },
+        { name: 'supervisor', at: 0.8, notifyRoles: ['Supervisor'], priority: 'urgent' },
+      ]);
+      expect(policy.approvalRules.FlagAbnormalResult.escalation?.[0]).toMatchObject({
+        name: 'on-call',
+        at: 0,
+        onlyForPriority: 'urgent',
+        priority: 'stat',
+      });
+    });
+
+    it('should report invalid escalation steps', () => {
+      const { policy, errors } = parseSafetyPolicy(`
+approvalRules:
+  QueueReferralLetter:
+    requiresApproval: true
+    approverRoles: ["Practitioner"]
+    escalation:
+      - name: "late"
+        at: 1.5
+      - name: "page"
+        at: 0
+        priority: "immediately"
+      - name: "reminder"
+        at: 0.5
+`);
+
+      const paths = errors.map((e) => e.path);
+      expect(paths).toContain('approvalRules.QueueReferralLetter.escalation[0].at');
+      expect(paths).toContain('approvalRules.QueueReferralLetter.escalation[1].priority');
+      expect(policy.approvalRules.QueueReferralLetter.escalation).toEqual([{ name: 'reminder', at: 0.5 }]);
+    });
+
+    it('should report invalid settings and warn filters and keep valid entries', () => {
+      const { policy, errors, failed } = parseSafetyPolicy(`
+global:
+  minimumConfidence: 2
+blockedActions:
+  - pattern: "DischargePatient"
+    reason: "Human only"
+safetyFilters:
+  - name: "NumericString"
+    action: "warn"
+    conditions:
+      - field: "confidence"
+        operator: "less_than"
+        value: "low"
+  - name: "Good"
+    action: "warn"
+    conditions:
+      - field: "confidence"
+        operator: "less_than"
+        value: 0.7
+`);
+
+      const paths = errors.map((e) => e.path);
+      expect(paths).toEqual(['global.minimumConfidence', 'safetyFilters[0].conditions[0].value']);
+      expect(failed).toBeUndefined();
+      expect(policy.global.minimumConfidence).toBe(DEFAULT_SAFETY_POLICY.global.minimumConfidence);
+      expect(policy.blockedActions).toHaveLength(1);
+      expect(policy.safetyFilters.map((f) => f.name)).toEqual(['Good']);
+    });
+
+    it.each([
+      ['a blocked action', 'blockedActions:\n  - pattern: "(unclosed"', 'blockedActions[0].pattern'],
+      [
+        'a block filter',
+        'safetyFilters:\n  - name: "HighRiskMedicationBlock"\n    action: "block"\n    conditions:\n' +
+          '      - { field: "medication.isHighRisk", operator: "equal", value: true }',
+        'safetyFilters[0].conditions[0].operator',
+      ],
+      [
+        'an approval filter',
+        'safetyFilters:\n  - name: "Review"\n    action: "require_approval"\n    approverRoles: "Nurse"\n' +
+          '    conditions:\n      - { field: "confidence", operator: "less_than", value: 0.9 }',
+        'safetyFilters[0].approverRoles',
+      ],
+      [
+        'a filter action',
+        'safetyFilters:\n  - name: "Typo"\n    action: "blok"\n    conditions:\n' +
+          '      - { field: "confidence", operator: "less_than", value: 0.9 }',
+        'safetyFilters[0].action',
+      ],
+      [
+        'an approval rule',
+        'approvalRules:\n  QueueReferralLetter:\n    requiresApproval: sometimes',
+        'approvalRules.QueueReferralLetter.requiresApproval',
+      ],
+    ])('should fail closed on an invalid entry in %s', (_, yaml, errorPath) => {
+      const { policy, errors, failed } = parseSafetyPolicy(yaml);
+
+      expect(errors.map((e) => e.path)).toContain(errorPath);
+      expect(failed).toBe(true);
+      expect(policy).toBe(FAIL_CLOSED_SAFETY_POLICY);
+    });
+
+    it.each([0, -1, 1.5, 'two'])('should fail closed on a dual approval rule with minApprovers %p', (minApprovers) => {
+      const { errors, failed } = parseSafetyPolicy(`
+approvalRules:
+  SuggestMedicationChange:
+    requiresApproval: true
+    approverRoles: ["Practitioner"]
+    dualApproval: true
+    minApprovers: ${JSON.stringify(minApprovers)}
+`);
+
+      expect(errors.map((e) => e.path)).toContain('approvalRules.SuggestMedicationChange.minApprovers');
+      expect(failed).toBe(true);
+    });
+
+    it('should reject unknown quiet hours timezones', () => {
+      const { policy, errors } = parseSafetyPolicy(`
+quietHours:
+  timezone: "EST5"
+  start: "21:00"
+`);
+
+      expect(errors.map((e) => e.path)).toEqual(['quietHours.timezone']);
+      expect(policy.quietHours.timezone).toBeUndefined();
+      expect(policy.quietHours.start).toBe('21:00');
+    });
+
+    it('should parse pending approval caps', () => {
+      const { policy, errors } = parseSafetyPolicy(`
+global:
+  maxPendingPerPatient: 0
+approvalRules:
+  SuggestBillingCodes:
+    requiresApproval: true
+    approverRoles: ["Biller"]
+    maxPendingPerPatient: 2
+  QueueReferralLetter:
+    requiresApproval: true
+    approverRoles: ["Practitioner"]
+    maxPendingPerPatient: 1.5
+`);
+
+      expect(errors.map((e) => e.path)).toEqual([
+        'global.maxPendingPerPatient',
+        'approvalRules.QueueReferralLetter.maxPendingPerPatient',
+      ]);
+      expect(policy.global.maxPendingPerPatient).toBe(DEFAULT_SAFETY_POLICY.global.maxPendingPerPatient);
+      expect(policy.approvalRules.SuggestBillingCodes.maxPendingPerPatient).toBe(2);
+      expect(policy.approvalRules.QueueReferralLetter.maxPendingPerPatient).toBeUndefined();
+    });
+
+    it('should reject unknown patient fields', () => {
+      const { policy, errors } = parseSafetyPolicy(`
+safetyFilters:
+  - name: "RenalTypo"
+    action: "require_approval"
+    conditions:
+      - field: "patient.gfr"
+        operator: "less_than"
+        value: 30
+`);
+
+      expect(errors.map((e) => e.path)).toEqual(['safetyFilters[0].conditions[0].field']);
+      expect(policy).toBe(FAIL_CLOSED_SAFETY_POLICY);
+    });
+
+    it('should parse nested condition groups', () => {
+      const { policy, errors } = parseSafetyPolicy(`
+safetyFilters:
+  - name: "RenalOrHCPCS"
+    action: "warn"
+    conditions:
+      - anyOf:
+          - field: "patient.egfr"
+            operator: "between"
+            value: [15, 29]
+          - allOf:
+              - field: "command"
+                operator: "in"
+                value: ["SuggestBillingCodes"]
+              - not:
+                  field: "suggestedCodes[*].system"
+                  operator: "starts_with"
+                  value: "ICD"
+`);
+
+      expect(errors).toEqual([]);
+      expect(policy.safetyFilters[0].conditions[0]).toEqual({
+        anyOf: [
+          { field: 'patient.egfr', operator: 'between', value: [15, 29] },
+          {
+            allOf: [
+              { field: 'command', operator: 'in', value: ['SuggestBillingCodes'] },
+              { not: { field: 'suggestedCodes[*].system', operator: 'starts_with', value: 'ICD' } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should type-check conditions when loading', () => {
+      const filter = (condition: string) => `
+  - name: "Filter"
+    action: "warn"
+    conditions:
+      - ${condition}`;
+      const { policy, errors } = parseSafetyPolicy(`
+safetyFilters:${[
+        '{ field: "patient.age", operator: "contains", value: 18 }',
+        '{ field: "confidence", operator: "equals", value: "high" }',
+        '{ field: "patient.egfr", operator: "between", value: [60, 30] }',
+        '{ field: "command", operator: "in", value: "SuggestMedicationChange" }',
+        '{ field: "suggestedCodes[].system", operator: "equals", value: "HCPCS" }',
+        '{ anyOf: [] }',
+        '{ field: "command", operator: "equals", value: "X", not: { field: "confidence", operator: "exists" } }',
+        '{ anyOf: [{ field: "patient.egfr", operator: "less_than", value: "low" }] }',
+      ]
+        .map(filter)
+        .join('')}
+`);
+
+      expect(errors.map((e) => e.path)).toEqual([
+        'safetyFilters[0].conditions[0].operator',
+        'safetyFilters[1].conditions[0].value',
+        'safetyFilters[2].conditions[0].value',
+        'safetyFilters[3].conditions[0].value',
+        'safetyFilters[4].conditions[0].field',
+        'safetyFilters[5].conditions[0].anyOf',
+        'safetyFilters[6].conditions[0]',
+        'safetyFilters[7].conditions[0].anyOf[0].value',
+      ]);
+      expect(policy.safetyFilters).toEqual([]);
+    });
+
+    it('should fail closed on malformed YAML', () => {
+      const { policy, errors, failed } = parseSafetyPolicy('safetyFilters: [unterminated');
+
+      expect(errors[0].message).toContain('Invalid YAML');
+      expect(failed).toBe(true);
+      expect(policy).toBe(FAIL_CLOSED_SAFETY_POLICY);
+    });
+
+    it('should fail closed on a document that is not a mapping', () => {
+      const { policy, errors, failed } = parseSafetyPolicy('- blockedActions');
+
+      expect(errors[0].message).toContain('must be a mapping');
+      expect(failed).toBe(true);
+      expect(policy).toBe(FAIL_CLOSED_SAFETY_POLICY);
+    });
+  });
+
+  describe('evaluateFilterConditions', () => {
+    const command = {
+      command: 'SuggestMedicationChange',
+      patientId: 'test-patient-1',
+      confidence: 0.9,
+      requiresApproval: true,
+      aiModel: 'test-model',
+    } as any;
+    const patient = {
+      age: 72,
+      pregnant: false,
+      egfr: 25,
+      allergies: ['7984', 'Penicillin'],
+      problems: ['I10', 'N18.4'],
+    };
+
+    it('should match conditions on patient facts', () => {
+      const renal = {
+        name: 'Renal',
+        description: 'Renal',
+        enabled: true,
+        action: 'require_approval' as const,
+        conditions: [
+          { field: 'command', operator: 'equals' as const, value: 'SuggestMedicationChange' },
+          { field: 'patient.egfr', operator: 'less_than' as const, value: 30 },
+        ],
+      };
+
+      expect(evaluateFilterConditions({ ...command, patient }, renal)).toBe(true);
+      expect(evaluateFilterConditions({ ...command, patient: { ...patient, egfr: 45 } }, renal)).toBe(false);
+      expect(evaluateFilterConditions(command, renal)).toBe(false); // No patient facts loaded
+    });
+
+    it('should treat contains as membership for lists', () => {
+      const filter = (value: string) => ({
+        name: 'CKD',
+        description: 'CKD',
+        enabled: true,
+        action: 'warn' as const,
+        conditions: [{ field: 'patient.problems', operator: 'contains' as const, value }],
+      });
+
+      expect(evaluateFilterConditions({ ...command, patient }, filter('N18.4'))).toBe(true);
+      expect(evaluateFilterConditions({ ...command, patient }, filter('N18'))).toBe(false);
+    });
+
+    const matches = (context: any, ...conditions: SafetyCondition[]): boolean =>
+      evaluateFilterConditions(context, {
+        name: 'Test',
+        description: 'Test',
+        enabled: true,
+        action: 'warn',
+        conditions,
+      });
+
+    it('should evaluate in, exists, between and starts_with', () => {
+      const context = { ...command, patient };
+
+      expect(matches(context, { field: 'command', operator: 'in', value: ['SuggestMedicationChange'] })).toBe(true);
+      expect(matches(context, { field: 'command', operator: 'starts_with', value: 'Suggest' })).toBe(true);
+      expect(matches(context, { field: 'patient.egfr', operator: 'between', value: [15, 29] })).toBe(true);
+      expect(matches(context, { field: 'patient.egfr', operator: 'between', value: [30, 59] })).toBe(false);
+      expect(matches(context, { field: 'patient.egfr', operator: 'exists' })).toBe(true);
+      expect(matches(context, { field: 'dosage', operator: 'exists' })).toBe(false);
+      expect(matches(context, { field: 'dosage', operator: 'exists', value: false })).toBe(true);
+    });
+
+    it('should evaluate nested anyOf, allOf and not groups', () => {
+      const context = { ...command, patient };
+      const renalOrElderly: SafetyCondition = {
+        anyOf: [
+          { field: 'patient.egfr', operator: 'less_than', value: 30 },
+          {
+            allOf: [
+              { field: 'patient.age', operator: 'greater_than', value: 80 },
+              { not: { field: 'patient.pregnant', operator: 'equals', value: true } },
+            ],
+          },
+        ],
+      };
+
+      expect(matches(context, renalOrElderly)).toBe(true);
+      expect(matches({ ...context, patient: { ...patient, egfr: 60 } }, renalOrElderly)).toBe(false);
+      expect(matches({ ...context, patient: { ...patient, egfr: 60, age: 85 } }, renalOrElderly)).toBe(true);
+      expect(matches(context, { not: renalOrElderly })).toBe(false);
+    });
+
+    it('should match any array element through [*]', () => {
+      const billing = {
+        command: 'SuggestBillingCodes',
+        suggestedCodes: [
+          { code: '99213', system: 'CPT', display: 'Office visit', confidence: 0.9 },
+          { code: 'J3420', system: 'HCPCS', display: 'Vitamin B12 injection', confidence: 0.6 },
+        ],
+      };
+
+      expect(matches(billing, { field: 'suggestedCodes[*].system', operator: 'equals', value: 'HCPCS' })).toBe(true);
+      expect(matches(billing, { field: 'suggestedCodes[*].system', operator: 'in', value: ['HCPCS-II'] })).toBe(false);
+      expect(matches(billing, { field: 'suggestedCodes[*].confidence', operator: 'less_than', value: 0.7 })).toBe(true);
+      expect(matches({ ...billing, suggestedCodes: [] }, { field: 'suggestedCodes[*].code', operator: 'exists' })).toBe(
+        false
+      );
+    });
+
+    it('should match the built-in critical action filter', () => {
+      const critical = DEFAULT_SAFETY_FILTERS.find((f) => f.name === 'RequireDualApprovalCritical')!;
+
+      expect(evaluateFilterConditions({ ...command, command: 'InitiateChemotherapy' }, critical)).toBe(true);
+      expect(evaluateFilterConditions({ ...command, command: 'ModifyDNRStatus' }, critical)).toBe(true);
+      expect(evaluateFilterConditions(command, critical)).toBe(false);
+    });
+  });
+
+  describe('getSafetyPolicy', () => {
+    const originalPath = process.env.SAFETY_POLICY_PATH;
+
+    afterEach(() => {
+      if (originalPath === undefined) {
+        delete process.env.SAFETY_POLICY_PATH;
+      } else {
+        process.env.SAFETY_POLICY_PATH = originalPath;
+      }
+      clearSafetyPolicyCache();
+    });
+
+    it('should use the default policy when no path is configured', () => {
+      delete process.env.SAFETY_POLICY_PATH;
+
+      expect(getSafetyPolicy()).toBe(DEFAULT_SAFETY_POLICY);
+    });
+
+    it('should load the policy file from SAFETY_POLICY_PATH', () => {
+      process.env.SAFETY_POLICY_PATH = POLICY_FILE;
+
+      const policy = getSafetyPolicy();
+      expect(policy.blockedActions.length).toBeGreaterThan(0);
+      expect(getSafetyPolicy()).toBe(policy); // Cached until the file changes
+    });
+
+    it('should fail closed when the file is missing', () => {
+      process.env.SAFETY_POLICY_PATH = path.join(os.tmpdir(), 'does-not-exist.yaml');
+
+      expect(getSafetyPolicy()).toBe(FAIL_CLOSED_SAFETY_POLICY);
+    });
+
+    it('should keep the last good policy when the file stops parsing', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'safety-policy-'));
+      const file = path.join(tmpDir, 'safety-filters.yaml');
+      fs.copyFileSync(POLICY_FILE, file);
+      process.env.SAFETY_POLICY_PATH = file;
+
+      const policy = getSafetyPolicy();
+      fs.writeFileSync(file, 'blockedActions: [unterminated');
+      fs.utimesSync(file, new Date(), new Date(Date.now() + 60000));
+
+      expect(getSafetyPolicy()).toBe(policy);
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('Command Processor with loaded policy', () => {
+    let mockMedplum: MockMedplumClient;
+    let tmpDir: string;
+
+    beforeEach(() => {
+      mockMedplum = createMockMedplumClient({ patients: [testPatient] });
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'safety-policy-'));
+      jest.spyOn(Date.prototype, 'getHours').mockReturnValue(12);
+      // Midday in New York, the shipped policy's timezone
+      jest.useFakeTimers({ now: new Date('2024-01-15T17:00:00Z'), advanceTimers: true });
+    });
+
+    afterEach(() => {
+      mockMedplum.reset();
+      delete process.env.SAFETY_POLICY_PATH;
+      clearSafetyPolicyCache();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+      jest.useRealTimers();
+    });
+
+    function usePolicy(yamlText: string): void {
+      const file = path.join(tmpDir, 'safety-filters.yaml');
+      fs.writeFileSync(file, yamlText);
+      process.env.SAFETY_POLICY_PATH = file;
+    }
+
+    it('should hold commands for review while the policy file cannot be parsed', async () => {
+      usePolicy('blockedActions: [unterminated');
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          command: 'FlagAbnormalResult',
+          patientId: 'test-patient-1',
+          observationId: 'obs-1',
+          severity: 'high',
+          interpretation: 'Critical value detected',
+          confidence: 0.99,
+          requiresApproval: false,
+          aiModel: 'test-model',
+        },
+      } as any);
+
+      expect(result.action).toBe('queued');
+      expect(result.warnings?.some((w) => w.includes('could not be loaded'))).toBe(true);
+      expect(mockMedplum.getResources('Flag')).toHaveLength(0);
+    });
+
+    it('should hold commands for review when the patient record cannot be loaded', async () => {
+      process.env.SAFETY_POLICY_PATH = POLICY_FILE;
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          command: 'FlagAbnormalResult',
+          patientId: 'missing-patient',
+          observationId: 'obs-1',
+          severity: 'high',
+          interpretation: 'Critical value detected',
+          confidence: 0.99,
+          requiresApproval: false,
+          aiModel: 'test-model',
+        },
+      } as any);
+
+      expect(result.action).toBe('queued');
+      expect(result.warnings).toContain('Patient record unavailable for safety filters; approval required');
+      expect(mockMedplum.getResources('Flag')).toHaveLength(0);
+    });
+
+    it('should block commands matching blockedActions', async () => {
+      process.env.SAFETY_POLICY_PATH = POLICY_FILE;
+
+      const result = await handler(mockMedplum as any, {
+        input: { command: 'DischargePatient', confidence: 0.99, requiresApproval: true, aiModel: 'test-model' },
+      } as any);
+
+      expect(result.action).toBe('blocked');
+      expect(result.blockReason).toContain('human clinical judgment');
+    });
+
+    it("should record the rule's escalation chain on the Task", async () => {
+      process.env.SAFETY_POLICY_PATH = POLICY_FILE;
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          command: 'CreateEncounterNoteDraft',
+          patientId: 'test-patient-1',
+          encounterId: 'encounter-office-1',
+          noteType: 'progress',
+          content: 'Follow-up visit',
+          confidence: 0.9,
+          requiresApproval: true,
+          aiModel: 'test-model',
+        },
+      } as any);
+
+      expect(result.action).toBe('queued');
+      const task = mockMedplum.getResources('Task')[0] as any;
+      const steps = task.input.find((i: any) => i.type.text === 'escalationSteps').valueString;
+      expect(JSON.parse(steps)).toEqual([{ name: 'reminder', at: 0.5 }]);
+    });
+
+    it('should record dual approval and filter approver roles on the Task', async () => {
+      usePolicy(`
+safetyFilters:
+  - name: "DualApprovalReferral"
+    action: "require_dual_approval"
+    description: "Referrals need two signatures"
+    approverRoles: ["Practitioner"]
+    minApprovers: 3
+    conditions:
+      - field: "command"
+        operator: "equals"
+        value: "QueueReferralLetter"
+`);
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          command: 'QueueReferralLetter',
+          patientId: 'test-patient-1',
+          referringPractitionerId: 'Practitioner/dr-smith',
+          specialty: 'Cardiology',
+          urgency: 'routine',
+          reasonForReferral: 'HTN',
+          clinicalSummary: 'Summary',
+          confidence: 0.9,
+          requiresApproval: true,
+          aiModel: 'test-model',
+        },
+      } as any);
+
+      expect(result.action).toBe('queued');
+      expect(result.warnings?.some((w) => w.includes('dual approval'))).toBe(true);
+
+      const task = mockMedplum.getResources('Task')[0] as any;
+      const input = (name: string) => task.input.find((i: any) => i.type.text === name);
+      expect(input('approverRoles').valueString).toBe('Practitioner');
+      expect(input('minApprovers').valueInteger).toBe(3);
+    });
+
+    it('should throttle commands over their rule pending approval cap', async () => {
+      usePolicy(`
+approvalRules:
+  QueueReferralLetter:
+    requiresApproval: true
+    approverRoles: ["Practitioner"]
+    maxPendingPerPatient: 1
+`);
+      const referral = {
+        command: 'QueueReferralLetter',
+        patientId: 'test-patient-1',
+        referringPractitionerId: 'Practitioner/dr-smith',
+        urgency: 'routine',
+        reasonForReferral: 'HTN',
+        clinicalSummary: 'Summary',
+        confidence: 0.9,
+        requiresApproval: true,
+        aiModel: 'test-model',
+      };
+
+      const first = await handler(mockMedplum as any, { input: { ...referral, specialty: 'Cardiology' } } as any);
+      const second = await handler(mockMedplum as any, { input: { ...referral, specialty: 'Nephrology' } } as any);
+
+      expect(first.action).toBe('queued');
+      expect(second.action).toBe('throttled');
+      expect(second.message).toBe('Pending QueueReferralLetter approval limit reached for Patient/test-patient-1 (1)');
+      expect(mockMedplum.getResources('Task')).toHaveLength(1);
+    });
+
+    it('should match VerifiedDiagnosisProtection against the target Condition', async () => {
+      process.env.SAFETY_POLICY_PATH = POLICY_FILE;
+      mockMedplum.addResource(hypertensionCondition);
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          command: 'ProposeProblemListUpdate',
+          patientId: 'test-patient-1',
+          action: 'resolve',
+          condition: { code: 'I10', system: 'http://hl7.org/fhir/sid/icd-10-cm', display: 'Hypertension' },
+          confidence: 0.9,
+          requiresApproval: true,
+          aiModel: 'test-model',
+        },
+      } as any);
+
+      expect(result.action).toBe('queued');
+      expect(result.warnings?.some((w) => w.includes('Resolving confirmed diagnoses'))).toBe(true);
+
+      const task = mockMedplum.getResources('Task')[0] as any;
+      expect(task.input.find((i: any) => i.type.text === 'approverRoles').valueString).toBe('Practitioner');
+    });
+
+    it('should queue allergy updates for Practitioner or Nurse approval', async () => {
+      process.env.SAFETY_POLICY_PATH = POLICY_FILE;
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          command: 'ProposeAllergyIntoleranceUpdate',
+          patientId: 'test-patient-1',
+          action: 'add',
+          substance: { code: '723', system: 'http://www.nlm.nih.gov/research/umls/rxnorm', display: 'Amoxicillin' },
+          reactions: [{ manifestations: [{ display: 'Hives' }] }],
+          confidence: 0.95,
+          requiresApproval: false,
+          aiModel: 'test-model',
+        },
+      } as any);
+
+      expect(result.action).toBe('queued');
+      const task = mockMedplum.getResources('Task')[0] as any;
+      expect(task.input.find((i: any) => i.type.text === 'approverRoles').valueString).toBe('Practitioner,Nurse');
+    });
+
+    it('should not apply quiet hours to exempt actions', async () => {
+      usePolicy(`
+quietHours:
+  enabled: true
+  start: "00:00"
+  end: "23:59"
+  exemptActions:
+    - FlagAbnormalResult
+`);
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          command: 'FlagAbnormalResult',
+          patientId: 'test-patient-1',
+          observationId: 'obs-1',
+          severity: 'high',
+          interpretation: 'Critical value',
+          confidence: 0.9,
+          requiresApproval: false,
+          aiModel: 'test-model',
+        },
+      } as any);
+
+      expect(result.action).toBe('executed');
+    });
+
+    it('should evaluate quiet hours in the policy timezone', async () => {
+      process.env.SAFETY_POLICY_PATH = POLICY_FILE;
+      // 03:30 UTC: 22:30 in New York, while the server clock mock still says noon
+      jest.setSystemTime(new Date('2024-01-16T03:30:00Z'));
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          command: 'ProposeProblemListUpdate',
+          patientId: 'test-patient-1',
+          action: 'add',
+          condition: { code: 'I10', system: 'http://hl7.org/fhir/sid/icd-10-cm', display: 'Hypertension' },
+          confidence: 0.95,
+          requiresApproval: false,
+          aiModel: 'test-model',
+        },
+      } as any);
+
+      expect(result.action).toBe('queued');
+      expect(result.message).toContain('quiet hours active');
+      expect(result.warnings).toContain('Quiet hours active (22:00-06:00 America/New_York)');
+    });
+
+    it('should route quiet hours approvals to senior approver roles', async () => {
+      process.env.SAFETY_POLICY_PATH = POLICY_FILE;
+      jest.setSystemTime(new Date('2024-01-16T03:30:00Z'));
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          command: 'ProposeAllergyIntoleranceUpdate',
+          patientId: 'test-patient-1',
+          action: 'add',
+          substance: { code: '723', system: 'http://www.nlm.nih.gov/research/umls/rxnorm', display: 'Amoxicillin' },
+          reactions: [{ manifestations: [{ display: 'Hives' }] }],
+          confidence: 0.95,
+          requiresApproval: false,
+          aiModel: 'test-model',
+        },
+      } as any);
+
+      expect(result.action).toBe('queued');
+      const task = mockMedplum.getResources('Task')[0] as any;
+      expect(task.input.find((i: any) => i.type.text === 'approverRoles').valueString).toBe('Supervisor');
+    });
+
+    it('should apply PediatricPatientReview to pediatric patients', async () => {
+      process.env.SAFETY_POLICY_PATH = POLICY_FILE;
+      mockMedplum.addResource(pediatricPatient);
+      const command = {
+        command: 'ProposeProblemListUpdate',
+        action: 'add',
+        condition: { code: 'J45.909', system: 'http://hl7.org/fhir/sid/icd-10-cm', display: 'Asthma' },
+        confidence: 0.95,
+        requiresApproval: false,
+        aiModel: 'test-model',
+      };
+
+      const adult = await handler(mockMedplum as any, { input: { ...command, patientId: 'test-patient-1' } } as any);
+      const child = await handler(mockMedplum as any, {
+        input: { ...command, patientId: 'test-patient-pediatric' },
+      } as any);
+
+      expect(adult.action).toBe('executed');
+      expect(child.action).toBe('queued');
+      expect(child.warnings?.some((w) => w.includes('pediatric patients'))).toBe(true);
+    });
+
+    it('should hold medication changes for renal review when eGFR is below 30', async () => {
+      process.env.SAFETY_POLICY_PATH = POLICY_FILE;
+      mockMedplum.addResource({
+        resourceType: 'Observation',
+        id: 'egfr-1',
+        status: 'final',
+        code: { coding: [{ system: 'http://loinc.org', code: '98979-8' }] },
+        subject: { reference: 'Patient/test-patient-1' },
+        effectiveDateTime: '2024-01-10T09:00:00Z',
+        valueQuantity: { value: 24, unit: 'mL/min/{1.73_m2}' },
+      });
+
+      const result = await handler(mockMedplum as any, {
+        input: {
+          command: 'SuggestMedicationChange',
+          patientId: 'test-patient-1',
+          action: 'start',
+          medication: { code: '860975', system: 'http://www.nlm.nih.gov/research/umls/rxnorm', display: 'Metformin' },
+          rationale: 'Glycemic control',
+          confidence: 0.9,
+          requiresApproval: true,
+          aiModel: 'test-model',
+        },
+      } as any);
+
+      expect(result.warnings?.some((w) => w.includes('eGFR below 30'))).toBe(true);
+    });
+  });
+});
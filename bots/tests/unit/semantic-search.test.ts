@@ -6,9 +6,11 @@ import { handler } from '../../src/semantic-search-bot';
 import { MockMedplumClient, createMockMedplumClient } from '../mocks/medplum-client';
 import { setupOllamaMock, teardownOllamaMock, configureMockOllama, resetMockOllama } from '../mocks/ollama';
 import { testPatient, hypertensionCondition, hba1cObservation } from '../fixtures/fhir-resources';
+import { InMemoryEmbeddingStore, setEmbeddingStore } from '../../src/services/embedding-store';
 
 describe('Semantic Search Bot', () => {
   let mockMedplum: MockMedplumClient;
+  let store: InMemoryEmbeddingStore;
 
   beforeEach(() => {
     mockMedplum = createMockMedplumClient({
@@ -16,6 +18,8 @@ describe('Semantic Search Bot', () => {
       conditions: [hypertensionCondition],
       observations: [hba1cObservation],
     });
+    store = new InMemoryEmbeddingStore();
+    setEmbeddingStore(store);
     resetMockOllama(); // Reset config before each test
     setupOllamaMock();
   });
@@ -114,6 +118,42 @@ describe('Semantic Search Bot', () => {
     });
   });
 
+  describe('Stored Embeddings', () => {
+    const vector = Array.from({ length: 768 }, (_, i) => (i % 2 === 0 ? 1 : 0));
+    const record = (id: string, patientId: string, contentType = 'condition') => ({
+      fhir_resource_type: 'Condition',
+      fhir_resource_id: id,
+      content_type: contentType,
+      chunk_index: 0,
+      content_text: `Condition ${id}`,
+      embedding: vector,
+      model_version: 'test-model',
+      patient_id: patientId,
+    });
+
+    beforeEach(async () => {
+      configureMockOllama({ embeddings: { enabled: true, delay: 0, embedding: vector } });
+      await store.replaceResource('cond-1', [record('cond-1', 'test-patient-1')]);
+      await store.replaceResource('cond-2', [record('cond-2', 'test-patient-2')]);
+      await store.replaceResource('note-1', [record('note-1', 'test-patient-1', 'document')]);
+    });
+
+    it('should return matching chunks from the embedding store', async () => {
+      const result = await handler(mockMedplum as any, { input: { query: 'conditions' } } as any);
+
+      expect(result.resultCount).toBe(3);
+      expect(result.results[0]).toMatchObject({ resourceType: 'Condition', similarity: expect.closeTo(1) });
+    });
+
+    it('should apply patient and content type filters', async () => {
+      const result = await handler(mockMedplum as any, {
+        input: { query: 'conditions', patientId: 'test-patient-1', contentType: 'condition' },
+      } as any);
+
+      expect(result.results.map((r: any) => r.resourceId)).toEqual(['cond-1']);
+    });
+  });
+
   describe('Embedding Generation', () => {
     it('should generate embedding for query', async () => {
       const event = {
@@ -247,9 +287,7 @@ describe('Semantic Search Bot', () => {
   describe('Error Handling', () => {
     it('should handle database connection errors', async () => {
       // Simulate database error
-      mockMedplum.searchResourcesSpy.mockImplementationOnce(() => {
-        throw new Error('Database connection failed');
-      });
+      jest.spyOn(store, 'search').mockRejectedValueOnce(new Error('Database connection failed'));
 
       const event = {
         input: {
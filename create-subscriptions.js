@@ -14,9 +14,13 @@ const BOTS = {
   clinicalDecisionSupport: 'cee8c207-bd20-42c3-aaf4-0055c1f90853',
   documentationAssistant: 'b8b85bb2-e447-4556-a314-0da1ba06afe5',
   billingCodeSuggester: '093a0c9d-44ea-4672-8208-d1d199962f33',
-  auditLogging: 'fce84f6d-02b2-42dc-8ae8-5dafdc84b882'
+  auditLogging: 'fce84f6d-02b2-42dc-8ae8-5dafdc84b882',
+  embeddingCleanup: '8f17d92c-5cb3-404a-8284-d40fac37b425'
 };
 
+// Subscription extension restricting a subscription to one interaction (create, update or delete)
+const SUPPORTED_INTERACTION_URL = 'https://medplum.com/fhir/StructureDefinition/subscription-supported-interaction';
+
 // Subscriptions to create
 const SUBSCRIPTIONS = [
   // Embedding Bot - triggers on clinical resources
@@ -45,6 +49,13 @@ const SUBSCRIPTIONS = [
     criteria: 'MedicationStatement',
     botId: BOTS.embedding
   },
+  // Embedding Cleanup Bot - purges embeddings when an embedded resource is deleted
+  ...['DiagnosticReport', 'DocumentReference', 'Observation', 'Condition', 'MedicationStatement'].map((type) => ({
+    name: `Embedding Cleanup - ${type} Deleted`,
+    criteria: type,
+    interaction: 'delete',
+    botId: BOTS.embeddingCleanup
+  })),
   // Clinical Decision Support - triggers on encounters and medication requests
   {
     name: 'CDS - Encounter',
@@ -77,6 +88,9 @@ async function createSubscription(sub) {
     status: 'active',
     reason: sub.name,
     criteria: sub.criteria,
+    extension: sub.interaction
+      ? [{ url: SUPPORTED_INTERACTION_URL, valueCode: sub.interaction }]
+      : undefined,
     channel: {
       type: 'rest-hook',
       endpoint: `Bot/${sub.botId}`
@@ -30,7 +30,12 @@ const BOTS = [
   { id: 'cee8c207-bd20-42c3-aaf4-0055c1f90853', file: 'clinical-decision-support-bot.js', name: 'Clinical Decision Support Bot' },
   { id: 'b8b85bb2-e447-4556-a314-0da1ba06afe5', file: 'documentation-assistant-bot.js', name: 'Documentation Assistant Bot' },
   { id: '093a0c9d-44ea-4672-8208-d1d199962f33', file: 'billing-code-suggester-bot.js', name: 'Billing Code Suggester Bot' },
-  { id: 'fce84f6d-02b2-42dc-8ae8-5dafdc84b882', file: 'audit-logging-bot.js', name: 'Audit Logging Bot' }
+  { id: 'fce84f6d-02b2-42dc-8ae8-5dafdc84b882', file: 'audit-logging-bot.js', name: 'Audit Logging Bot' },
+  { id: '8f17d92c-5cb3-404a-8284-d40fac37b425', file: 'embedding-cleanup-bot.js', name: 'Embedding Cleanup Bot' },
+  // Runs as the calling user, so the retracting practitioner can be verified
+  { id: 'f0c7db5c-c75a-4059-b7a1-0e273737476f', file: 'command-retraction-bot.js', name: 'Command Retraction Bot', runAsUser: true },
+  // Runs on a cron schedule rather than a subscription
+  { id: '162a375d-d909-4d9c-ac75-a457faadfbd8', file: 'approval-expiry-bot.js', name: 'Approval Expiry Bot', cronString: '*/15 * * * *' }
 ];
 
 async function deployBot(bot) {
@@ -66,7 +71,9 @@ async function deployBot(bot) {
       description: `${bot.name} for FabricEMR`,
       runtimeVersion: 'vmcontext',
       sourceCode: { url: `Binary/${binary.id}`, title: bot.file },
-      executableCode: { url: `Binary/${binary.id}`, title: bot.file }
+      executableCode: { url: `Binary/${binary.id}`, title: bot.file },
+      cronString: bot.cronString,
+      runAsUser: bot.runAsUser
     })
   });
   const result = await botRes.json();
@@ -16,6 +16,7 @@ CREATE TABLE IF NOT EXISTS clinical_embeddings (
 
   -- The actual text content
   content_text TEXT NOT NULL,
+  content_hash VARCHAR(64),            -- SHA-256 of the resource's text and model; unchanged text is not re-embedded
 
   -- Vector embedding (1536 for OpenAI ada-002, 768 for local models)
   -- Using 768 for local models like nomic-embed-text
@@ -33,6 +34,9 @@ CREATE TABLE IF NOT EXISTS clinical_embeddings (
   UNIQUE(fhir_resource_id, chunk_index)
 );
 
+-- Column added for re-embedding on update; for databases created before it
+ALTER TABLE clinical_embeddings ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+
 -- Index for vector similarity search (IVFFlat for medium datasets)
 CREATE INDEX IF NOT EXISTS idx_clinical_embeddings_vector
 ON clinical_embeddings
@@ -60,6 +64,8 @@ CREATE TABLE IF NOT EXISTS ai_command_queue (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
 
   -- Command details
+  command_id VARCHAR(100),         -- AICommand.commandId (unique index below)
+  task_id VARCHAR(64),             -- Approval Task, if queued
   command_type VARCHAR(100) NOT NULL,
   command_payload JSONB NOT NULL,
 
@@ -74,7 +80,7 @@ CREATE TABLE IF NOT EXISTS ai_command_queue (
   patient_id UUID,
 
   -- Approval workflow
-  status VARCHAR(20) DEFAULT 'pending',  -- pending, approved, rejected, expired
+  status VARCHAR(20) DEFAULT 'pending',  -- pending, approved, rejected, superseded, expired, executed
   requires_approval BOOLEAN DEFAULT true,
   approver_role VARCHAR(100),
 
@@ -92,6 +98,12 @@ CREATE TABLE IF NOT EXISTS ai_command_queue (
   execution_result JSONB
 );
 
+-- Columns added for the bots' lifecycle mirror; for databases created before them
+ALTER TABLE ai_command_queue ADD COLUMN IF NOT EXISTS command_id VARCHAR(100);
+ALTER TABLE ai_command_queue ADD COLUMN IF NOT EXISTS task_id VARCHAR(64);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_commands_command_id
+ON ai_command_queue (command_id);
+
 -- Index for pending commands
 CREATE INDEX IF NOT EXISTS idx_ai_commands_pending
 ON ai_command_queue (status, created_at)